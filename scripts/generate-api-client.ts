@@ -0,0 +1,27 @@
+import fs from "fs";
+import path from "path";
+import openapiTS, { astToString } from "openapi-typescript";
+import { buildOpenApiDocument } from "../server/openapi";
+
+// Regenerates the client's request and response types from the OpenAPI
+// document served at /api/docs. Run `npm run generate:api` after changing a
+// route or a schema in src/schemas.ts.
+
+const OUTPUT = path.resolve(process.cwd(), "src/services/apiTypes.ts");
+
+const BANNER = `// Generated by \`npm run generate:api\` from the OpenAPI document (server/openapi.ts).
+// Do not edit by hand.
+
+`;
+
+async function main() {
+  // Fields with defaults stay optional in request bodies; responses list them as required anyway
+  const ast = await openapiTS(buildOpenApiDocument() as any, { defaultNonNullable: false });
+  fs.writeFileSync(OUTPUT, BANNER + astToString(ast));
+  console.log(`Wrote ${path.relative(process.cwd(), OUTPUT)}`);
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
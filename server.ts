@@ -4,105 +4,456 @@ import fs from "fs";
 import path from "path";
 import cors from "cors";
 import dotenv from "dotenv";
+import { ROLES } from "./src/constants";
+import type { AuthUser } from "./src/constants";
+import {
+  AnalyzeRequestSchema,
+  ChoiceUpdateSchema,
+  NewSubmissionSchema,
+  OutcomeInputSchema,
+  SpeechRequestSchema,
+  StatsIntervalSchema,
+  VoiceExtractRequestSchema,
+} from "./src/schemas";
+import type { AnalyzeRequest, ChoiceUpdate, NewSubmissionInput, OutcomeInput, SpeechRequest, VoiceExtractRequest } from "./src/schemas";
+import { createLlmProvider } from "./server/llm/createLlmProvider";
+import { AbortedError } from "./server/llm/llmProvider";
+import type { LlmProvider, StreamOptions } from "./server/llm/llmProvider";
+import { throwIfAborted } from "./server/llm/analysisStream";
+import { choosePrompt, seedPrompts } from "./server/llm/prompts";
+import { openDatabase } from "./server/storage/database";
+import { SqliteSubmissionRepository } from "./server/storage/sqliteSubmissionRepository";
+import { SqliteUserRepository } from "./server/storage/sqliteUserRepository";
+import { SqliteAuditLogRepository } from "./server/storage/sqliteAuditLogRepository";
+import { SqliteBatchRepository } from "./server/storage/sqliteBatchRepository";
+import { SqliteAnalysisCacheRepository } from "./server/storage/sqliteAnalysisCacheRepository";
+import { SqliteWebhookRepository } from "./server/storage/sqliteWebhookRepository";
+import { SqliteTenantRepository } from "./server/storage/sqliteTenantRepository";
+import { SqliteFollowUpRepository } from "./server/storage/sqliteFollowUpRepository";
+import { SqlitePromptRepository } from "./server/storage/sqlitePromptRepository";
+import type { PromptRepository } from "./server/storage/promptRepository";
+import { authenticate, requireRole, seedAdmin, tenantScope } from "./server/auth";
+import { createAuthRouter } from "./server/routes/authRoutes";
+import { createAuditRouter } from "./server/routes/auditRoutes";
+import { createBatchRouter } from "./server/routes/batchRoutes";
+import { createFollowUpRouter } from "./server/routes/followUpRoutes";
+import { createPromptRouter } from "./server/routes/promptRoutes";
+import { BatchQueue } from "./server/batchQueue";
+import { AnalysisCache, cacheKeyParts, normalizeKeyPart } from "./server/analysisCache";
+import type { ResolvedAnalysis } from "./server/analysisCache";
+import { createCacheRouter } from "./server/routes/cacheRoutes";
+import { createBackupRouter } from "./server/routes/backupRoutes";
+import { createWebhookRouter } from "./server/routes/webhookRoutes";
+import { createTenantRouter } from "./server/routes/tenantRoutes";
+import { WebhookDispatcher } from "./server/webhooks";
+import { EventHub, openResponseStream } from "./server/events";
+import { scheduleTrashPurge } from "./server/trashRetention";
+import { validateBody } from "./server/validation";
+import { logger, redactUrl, requestLogger, REQUEST_ID_HEADER } from "./server/logger";
+import { countSubmissionCreated, registerStoreMetrics, registry, trackRequests } from "./server/metrics";
+import { readinessChecks } from "./server/health";
+import { buildAccuracyReport } from "./server/accuracy";
+import { checkPhenology, phenologyFallback } from "./server/phenologyCheck";
+import { createTemperatureSource } from "./server/weather";
+import type { TemperatureSource } from "./server/weather";
+import { analyzeWithValidation, MAX_ANALYSIS_RETRIES } from "./server/analysisValidator";
+import { buildOpenApiDocument } from "./server/openapi";
+import { importLegacyJson } from "./server/storage/legacyImport";
+import { BackupManager } from "./server/storage/backups";
+import { countPendingMigrations, migrateSubmissions, SUBMISSION_SCHEMA_VERSION } from "./server/storage/submissionMigrations";
+import { InvalidQueryError } from "./server/storage/submissionRepository";
+import type { NewSubmission, SubmissionRepository } from "./server/storage/submissionRepository";
+import { parseSubmissionFilter, parseSubmissionQuery } from "./server/submissionQuery";
+import { EXPORT_FORMATS, exportFilename, toCsv, toGeoJson, toXlsx } from "./server/exporters";
+import type { ExportFormat } from "./server/exporters";
 
-dotenv.config();
+dotenv.config({ path: [".env.local", ".env"] });
 
-const DB_FILE = path.resolve(process.cwd(), "db.json");
+const LEGACY_DB_FILE = path.resolve(process.cwd(), "db.json");
+const DB_PATH = path.resolve(process.cwd(), process.env.DB_PATH || "bloomsync.db");
+const BACKUP_DIR = path.resolve(process.cwd(), process.env.BACKUP_DIR || "backups");
+// Map zones round coordinates to 0.1° (about 11 km) so no single farm can be picked out
+const MAP_ZONE_PRECISION = 1;
+// ...and leave out zones with fewer reports than this, so a lone farmer's report is not shown
+const MAP_ZONE_MIN_COUNT = Number(process.env.MAP_ZONE_MIN_COUNT || 3);
+// Trashed submissions can be restored for this many days before they are purged for good
+const TRASH_RETENTION_DAYS = Number(process.env.TRASH_RETENTION_DAYS) || 30;
+// How many bulk-import rows are analysed at the same time
+const BATCH_CONCURRENCY = Number(process.env.BATCH_CONCURRENCY) || 2;
+// Identical analyses are served from the cache for this long; 0 disables the cache
+const ANALYSIS_CACHE_TTL_HOURS = Number(process.env.ANALYSIS_CACHE_TTL_HOURS || 6);
+
+// Live updates for every connected client; see GET /api/events
+const events = new EventHub();
+
+function saveSubmission(repo: SubmissionRepository, body: NewSubmission) {
+  const newSubmission = repo.create(body);
+  countSubmissionCreated();
+  logger.info("Saved new submission", { submissionId: newSubmission.id, ownerId: newSubmission.ownerId });
+  events.publish({ type: 'submission.created', ownerId: newSubmission.ownerId, tenantId: newSubmission.tenantId, data: { submission: newSubmission } });
+  return newSubmission;
+}
+
+/** The owner's latest live submission for the same crop, place and date, matched like cache keys. */
+function matchingSubmission(repo: SubmissionRepository, ownerId: string, request: AnalyzeRequest) {
+  const { crop, location } = cacheKeyParts(request);
+  return repo.find({ ownerId, dateFrom: request.date, dateTo: request.date })
+    .filter(sub => normalizeKeyPart(sub.crop) === crop && normalizeKeyPart(sub.location) === location)
+    .pop();
+}
+
+/**
+ * Runs (or reuses a cached) analysis, cross-checked by the phenology engine, and
+ * stores the result as a submission owned by `owner`, in the owner's tenant.
+ * When the model fails, the engine's own estimate is used if the place is known.
+ * The `analysis` prompt version is only picked on a cache miss, so cached
+ * analyses keep the version that produced them.
+ *
+ * Asking again must not add to the history: the owner's existing submission
+ * for the request is returned, updated to the new analysis (say, in another
+ * language) if it held a different one. A forced refresh moves it to the trash
+ * in favour of the new analysis instead. Either way, a submission whose harvest
+ * was reported keeps its analysis and the new one is saved alongside it.
+ */
+async function analyzeAndSave(repo: SubmissionRepository, cache: AnalysisCache, llm: LlmProvider, prompts: PromptRepository, weather: TemperatureSource | null, request: AnalyzeRequest, owner: Pick<AuthUser, 'id' | 'tenantId'>, stream: StreamOptions = {}) {
+  const { crop, location, date, language } = request;
+  const input = { crop, location, date, language };
+  let resolved: ResolvedAnalysis;
+  try {
+    resolved = await cache.resolve(request, async () => {
+      const analysis = await analyzeWithValidation(llm, input, choosePrompt(prompts, 'analysis'), MAX_ANALYSIS_RETRIES, stream);
+      return { ...analysis, phenology: await checkPhenology(analysis, input, weather) };
+    });
+  } catch (error) {
+    if (error instanceof AbortedError) throw error;
+    // Without coordinates from an earlier analysis of the place there is nothing to run the engine on
+    const coordinates = repo.knownCoordinates(location);
+    if (!coordinates) throw error;
+    logger.warn("Model analysis failed; falling back to the phenology engine", { error, crop, location });
+    // Not cached, so the next request tries the model again
+    resolved = { analysis: await phenologyFallback(input, coordinates, weather), fromCache: false, cachedAt: null };
+  }
+  // A client that gave up on the analysis gets no submission either
+  throwIfAborted(stream.signal);
+  stream.onStage?.('saving');
+  const { analysis, fromCache, cachedAt } = resolved;
+  const existing = matchingSubmission(repo, owner.id, request);
+  if (existing && JSON.stringify(existing.fullAnalysis) === JSON.stringify(analysis)) {
+    return { analysis, submission: existing, fromCache, cachedAt };
+  }
+  // E.g. the same request in another language; a reported harvest keeps the analysis it was judged against
+  if (existing && !existing.outcome && !request.forceRefresh) {
+    const submission = repo.updateAnalysis(existing.id, analysis);
+    events.publish({ type: 'submission.analysis', ownerId: submission.ownerId, tenantId: submission.tenantId, data: { submission } });
+    return { analysis, submission, fromCache, cachedAt };
+  }
+  if (existing && request.forceRefresh && !existing.outcome) {
+    repo.softDelete(existing.id);
+    logger.info("Trashed submission replaced by a refreshed analysis", { submissionId: existing.id });
+    events.publish({ type: 'submission.deleted', ownerId: existing.ownerId, tenantId: existing.tenantId, data: { id: existing.id } });
+  }
+  const submission = saveSubmission(repo, {
+    crop,
+    location,
+    lat: analysis.lat,
+    lng: analysis.lng,
+    date,
+    riskLevel: analysis.riskLevel,
+    climaticConditions: analysis.climaticConditions,
+    fullAnalysis: analysis,
+    ownerId: owner.id,
+    tenantId: owner.tenantId
+  });
+  return { analysis, submission, fromCache, cachedAt };
+}
 
 async function startServer() {
   try {
     const app = express();
     const PORT = 3000;
 
-    console.log(`[${new Date().toISOString()}] Initializing server...`);
+    logger.info("Initializing server");
 
-    // Initialize DB if not exists
-    if (!fs.existsSync(DB_FILE)) {
-      console.log(`[${new Date().toISOString()}] Creating new database file at ${DB_FILE}`);
-      fs.writeFileSync(DB_FILE, JSON.stringify({ submissions: [] }, null, 2));
-    } else {
-      console.log(`[${new Date().toISOString()}] Database file found at ${DB_FILE}`);
+    // Open (or create) the SQLite store
+    logger.info(`${fs.existsSync(DB_PATH) ? "Opening" : "Creating"} database`, { path: DB_PATH });
+    const db = openDatabase(DB_PATH);
+    const repo = new SqliteSubmissionRepository(db);
+    const followUps = new SqliteFollowUpRepository(db);
+    const prompts = new SqlitePromptRepository(db);
+    const users = new SqliteUserRepository(db);
+    const audit = new SqliteAuditLogRepository(db);
+    const batches = new SqliteBatchRepository(db);
+    const cacheEntries = new SqliteAnalysisCacheRepository(db);
+    const hooks = new SqliteWebhookRepository(db);
+    const tenants = new SqliteTenantRepository(db);
+    const analysisCache = new AnalysisCache(cacheEntries, Math.max(0, ANALYSIS_CACHE_TTL_HOURS) * 60 * 60 * 1000);
+    const llm = createLlmProvider();
+    logger.info("Using model provider", { provider: llm.name, models: llm.models });
+    const weather = createTemperatureSource();
+    logger.info("Using temperature source", { source: weather?.name ?? "climate normals only" });
+    seedAdmin(users);
+    seedPrompts(prompts);
+
+    const imported = importLegacyJson(db, repo, LEGACY_DB_FILE);
+    if (imported > 0) {
+      logger.info("Imported legacy submissions", { count: imported, file: LEGACY_DB_FILE });
+    }
+
+    // Upgrade records written by older versions, keeping a snapshot of the store as it was
+    const backups = new BackupManager(db, BACKUP_DIR);
+    if (countPendingMigrations(db) > 0) {
+      const backup = await backups.create("pre-migration");
+      logger.info("Backed up store before migrating", { backup: backup.name });
+    }
+    const migrated = migrateSubmissions(db);
+    if (migrated > 0) {
+      logger.info("Migrated submissions", { count: migrated, schemaVersion: SUBMISSION_SCHEMA_VERSION });
     }
+    const assigned = tenants.assignUnscoped();
+    if (assigned.users > 0 || assigned.submissions > 0) {
+      logger.info("Assigned records without a tenant", assigned);
+    }
+    scheduleTrashPurge(repo, audit, TRASH_RETENTION_DAYS);
+    registerStoreMetrics(repo, DB_PATH);
+
+    const batchQueue = new BatchQueue(
+      batches,
+      async job => {
+        const owner = users.get(job.ownerId);
+        if (!owner) throw new Error("The account that queued this row no longer exists");
+        return (await analyzeAndSave(repo, analysisCache, llm, prompts, weather, job, owner)).submission;
+      },
+      BATCH_CONCURRENCY
+    );
+    batchQueue.start();
+
+    // Partner webhooks hear about the same submission events as the live stream
+    const webhooks = new WebhookDispatcher(hooks);
+    events.listen(event => webhooks.handle(event));
+    webhooks.start();
 
-    console.log(`[${new Date().toISOString()}] Starting server in ${process.env.NODE_ENV || 'development'} mode...`);
+    logger.info("Starting server", { env: process.env.NODE_ENV || 'development' });
 
     app.use(cors({
       origin: "*",
-      methods: ["GET", "POST", "PATCH", "DELETE", "OPTIONS"],
-      allowedHeaders: ["Content-Type", "Authorization"]
+      methods: ["GET", "POST", "PUT", "PATCH", "DELETE", "OPTIONS"],
+      allowedHeaders: ["Content-Type", "Authorization", REQUEST_ID_HEADER],
+      exposedHeaders: [REQUEST_ID_HEADER]
     }));
+    // Request IDs, one log line per request, and latency per route
+    app.use(requestLogger());
+    app.use(trackRequests());
     app.use(express.json());
 
-    // Request logging
-    app.use((req, res, next) => {
-      console.log(`[${new Date().toISOString()}] ${req.method} ${req.url}`);
-      next();
+    // Prometheus scrape endpoint; set METRICS_TOKEN to require it as a bearer token
+    app.get("/metrics", async (req, res) => {
+      const token = process.env.METRICS_TOKEN;
+      if (token && req.headers.authorization !== `Bearer ${token}`) {
+        return res.status(401).json({ error: "Authentication required" });
+      }
+      try {
+        res.type(registry.contentType).send(await registry.metrics());
+      } catch (error) {
+        logger.error("Error collecting metrics", { error });
+        res.status(500).json({ error: "Failed to collect metrics" });
+      }
     });
 
-    // Health check
+    // Readiness check: 503 until the store is writable and the model provider is configured
     app.get("/api/health", (req, res) => {
-      console.log(`[${new Date().toISOString()}] Health check requested`);
-      res.json({ 
-        status: "ok", 
-        timestamp: new Date().toISOString(), 
+      const { ready, checks } = readinessChecks(db, llm);
+      if (!ready) {
+        logger.warn("Health check failed", { checks });
+      }
+      res.status(ready ? 200 : 503).json({
+        status: ready ? "ok" : "unavailable",
+        timestamp: new Date().toISOString(),
         env: process.env.NODE_ENV || 'development',
-        dbPath: DB_FILE
+        dbPath: DB_PATH,
+        checks
       });
     });
 
+    // OpenAPI description of every route, for partners and for generating the typed client
+    const openApiDocument = buildOpenApiDocument();
+    app.get("/api/docs", (req, res) => {
+      res.json(openApiDocument);
+    });
+
+    // Everything under /api needs a signed-in user except these paths
+    app.use("/api", authenticate(users, ["/health", "/docs", "/auth/login", "/auth/register"], ["/events"]));
+    app.use("/api", createAuthRouter(users, tenants));
+    app.use("/api", createTenantRouter({ tenants, audit }));
+    app.use("/api", createAuditRouter(audit));
+    app.use("/api", createBatchRouter({ batches, queue: batchQueue, repo }));
+    app.use("/api", createCacheRouter({ entries: cacheEntries, audit }));
+    app.use("/api", createBackupRouter({ backups, audit, events, tenants }));
+    app.use("/api", createWebhookRouter({ hooks, audit }));
+    app.use("/api", createFollowUpRouter({ submissions: repo, followUps, prompts, llm }));
+    app.use("/api", createPromptRouter({ prompts, audit }));
+
     // API Routes
-    app.get("/api/submissions", (req, res) => {
+    app.get("/api/events", requireRole(...ROLES), (req, res) => {
+      events.subscribe(req, res);
+    });
+
+    app.get("/api/submissions", requireRole(...ROLES), (req, res) => {
       try {
-        console.log(`[${new Date().toISOString()}] GET /api/submissions`);
-        if (!fs.existsSync(DB_FILE)) {
-          return res.json([]);
-        }
-        const content = fs.readFileSync(DB_FILE, "utf-8");
-        if (!content || content.trim() === "") {
-          return res.json([]);
-        }
-        const data = JSON.parse(content);
-        res.json(data.submissions || []);
+        // History is always the caller's own submissions
+        res.json(repo.query({ ...parseSubmissionQuery(req.query), ownerId: req.user!.id }));
       } catch (error: any) {
-        console.error(`[${new Date().toISOString()}] Error reading submissions:`, error.message || error);
+        if (error instanceof InvalidQueryError) {
+          return res.status(400).json({ error: error.message });
+        }
+        logger.error("Error reading submissions", { error });
         res.status(500).json({ error: "Failed to read database", details: error.message });
       }
     });
 
-  app.post("/api/submissions", (req, res) => {
-    try {
-      console.log("Received new submission request:", req.body.crop, req.body.location);
-      const data = fs.existsSync(DB_FILE) 
-        ? JSON.parse(fs.readFileSync(DB_FILE, "utf-8"))
-        : { submissions: [] };
-      
-      const newSubmission = {
-        ...req.body,
-        id: Math.random().toString(36).substr(2, 9),
-        timestamp: Date.now(),
-        choice: null, 
-      };
-      
-      if (!data.submissions) data.submissions = [];
-      data.submissions.push(newSubmission);
-      fs.writeFileSync(DB_FILE, JSON.stringify(data, null, 2));
-      console.log(`Saved new submission: ${newSubmission.id}. Total submissions: ${data.submissions.length}`);
+  app.get("/api/submissions/trash", requireRole(...ROLES), (req, res) => {
+    try {
+      res.json(repo.query({ ...parseSubmissionQuery(req.query), ownerId: req.user!.id, deleted: true }));
+    } catch (error: any) {
+      if (error instanceof InvalidQueryError) {
+        return res.status(400).json({ error: error.message });
+      }
+      logger.error("Error reading trash", { error });
+      res.status(500).json({ error: "Failed to read trash" });
+    }
+  });
+
+  app.get("/api/map/zones", requireRole(...ROLES), (req, res) => {
+    try {
+      res.json(repo.mapZones({ ...parseSubmissionFilter(req.query), tenantId: tenantScope(req) }, MAP_ZONE_PRECISION, MAP_ZONE_MIN_COUNT));
+    } catch (error: any) {
+      if (error instanceof InvalidQueryError) {
+        return res.status(400).json({ error: error.message });
+      }
+      logger.error("Error building map zones", { error });
+      res.status(500).json({ error: "Failed to build map zones" });
+    }
+  });
+
+  app.get("/api/submissions/crops", requireRole(...ROLES), (req, res) => {
+    try {
+      res.json(repo.distinctCrops(tenantScope(req)));
+    } catch (error) {
+      logger.error("Error listing crops", { error });
+      res.status(500).json({ error: "Failed to list crops" });
+    }
+  });
+
+  app.get("/api/submissions/export", requireRole('admin'), async (req, res) => {
+    try {
+      const format = (req.query.format || "csv") as ExportFormat;
+      if (!EXPORT_FORMATS.includes(format)) {
+        return res.status(400).json({ error: `format must be one of ${EXPORT_FORMATS.join(", ")}` });
+      }
+      const subs = repo.find({ ...parseSubmissionFilter(req.query), tenantId: tenantScope(req) });
+      logger.info("Exporting submissions", { count: subs.length, format });
+
+      res.attachment(exportFilename(format));
+      if (format === 'csv') {
+        res.type("text/csv").send(toCsv(subs));
+      } else if (format === 'xlsx') {
+        res.type("application/vnd.openxmlformats-officedocument.spreadsheetml.sheet").send(await toXlsx(subs));
+      } else if (format === 'geojson') {
+        res.type("application/geo+json").send(JSON.stringify(toGeoJson(subs)));
+      } else {
+        res.json(subs);
+      }
+    } catch (error: any) {
+      if (error instanceof InvalidQueryError) {
+        return res.status(400).json({ error: error.message });
+      }
+      logger.error("Error exporting submissions", { error });
+      res.status(500).json({ error: "Failed to export submissions" });
+    }
+  });
+
+  app.post("/api/submissions", requireRole(...ROLES), validateBody(NewSubmissionSchema), (req, res) => {
+    try {
+      const body = req.body as NewSubmissionInput;
+      const newSubmission = saveSubmission(repo, { ...body, ownerId: req.user!.id, tenantId: req.user!.tenantId });
       res.status(201).json(newSubmission);
     } catch (error) {
-      console.error("Error saving submission:", error);
+      logger.error("Error saving submission", { error });
       res.status(500).json({ error: "Failed to save submission" });
     }
   });
 
-  app.patch("/api/submissions/:id/choice", (req, res) => {
+  // Model routes: provider credentials stay on the server
+  app.post("/api/analyze", requireRole(...ROLES), validateBody(AnalyzeRequestSchema), async (req, res) => {
+    const body = req.body as AnalyzeRequest;
+    try {
+      logger.info("Received analysis request", { crop: body.crop, location: body.location, date: body.date });
+      res.json(await analyzeAndSave(repo, analysisCache, llm, prompts, weather, body, req.user!));
+    } catch (error: any) {
+      logger.error("Error analyzing crop mismatch", { error });
+      res.status(502).json({ error: "Analysis failed", details: error.message });
+    }
+  });
+
+  // The same analysis, streamed: `stage` and `text` events while the model works, then `result` or `error`
+  app.post("/api/analyze/stream", requireRole(...ROLES), validateBody(AnalyzeRequestSchema), async (req, res) => {
+    const body = req.body as AnalyzeRequest;
+    const stream = openResponseStream(res);
+    try {
+      logger.info("Received streamed analysis request", { crop: body.crop, location: body.location, date: body.date });
+      const result = await analyzeAndSave(repo, analysisCache, llm, prompts, weather, body, req.user!, {
+        signal: stream.signal,
+        onStage: stage => stream.send("stage", { stage }),
+        onText: text => stream.send("text", { text }),
+      });
+      stream.send("result", result);
+    } catch (error: any) {
+      if (error instanceof AbortedError) {
+        logger.info("Analysis cancelled by the client", { crop: body.crop, location: body.location });
+      } else {
+        logger.error("Error analyzing crop mismatch", { error });
+        stream.send("error", { error: "Analysis failed", details: error.message });
+      }
+    } finally {
+      stream.end();
+    }
+  });
+
+  app.post("/api/speech", requireRole(...ROLES), validateBody(SpeechRequestSchema), async (req, res) => {
+    const { text, language } = req.body as SpeechRequest;
+    try {
+      const audio = await llm.generateSpeech(text, language);
+      if (!audio) {
+        return res.status(502).json({ error: "Speech generation failed" });
+      }
+      res.json({ audio });
+    } catch (error: any) {
+      logger.error("Error generating speech", { error });
+      res.status(502).json({ error: "Speech generation failed", details: error.message });
+    }
+  });
+
+  app.post("/api/voice/extract", requireRole(...ROLES), validateBody(VoiceExtractRequestSchema), async (req, res) => {
+    const { transcript, language } = req.body as VoiceExtractRequest;
+    try {
+      const details = await llm.extractDetails(transcript, language, choosePrompt(prompts, 'extraction'));
+      res.json(details);
+    } catch (error: any) {
+      logger.error("Error extracting voice details", { error });
+      res.status(502).json({ error: "Voice extraction failed", details: error.message });
+    }
+  });
+
+  app.patch("/api/submissions/:id/choice", requireRole(...ROLES), validateBody(ChoiceUpdateSchema), (req, res) => {
     try {
       const { id } = req.params;
-      const { choice } = req.body;
-      const data = JSON.parse(fs.readFileSync(DB_FILE, "utf-8"));
-      const sub = data.submissions.find((s: any) => s.id === id);
+      const { choice } = req.body as ChoiceUpdate;
+      const existing = repo.get(id);
+      const sub = existing?.ownerId === req.user!.id ? repo.updateChoice(id, choice) : undefined;
       if (sub) {
-        sub.choice = choice;
-        fs.writeFileSync(DB_FILE, JSON.stringify(data, null, 2));
+        if (existing!.choice !== sub.choice) {
+          audit.record({ actor: req.user!, action: 'submission.choice', entityType: 'submission', entityId: id, details: { from: existing!.choice, to: sub.choice } });
+          events.publish({ type: 'submission.choice', ownerId: sub.ownerId, tenantId: sub.tenantId, data: { submission: sub, previousChoice: existing!.choice } });
+        }
         res.json(sub);
       } else {
         res.status(404).json({ error: "Submission not found" });
@@ -112,51 +463,114 @@ async function startServer() {
     }
   });
 
-  app.delete("/api/submissions", (req, res) => {
+  // Reporting again replaces the earlier outcome
+  app.put("/api/submissions/:id/outcome", requireRole(...ROLES), validateBody(OutcomeInputSchema), (req, res) => {
     try {
-      fs.writeFileSync(DB_FILE, JSON.stringify({ submissions: [] }, null, 2));
-      console.log("Cleared all submissions");
-      res.json({ message: "History cleared" });
+      const { id } = req.params;
+      const existing = repo.get(id);
+      const sub = existing?.ownerId === req.user!.id
+        ? repo.recordOutcome(id, { ...(req.body as OutcomeInput), reportedAt: Date.now() })
+        : undefined;
+      if (!sub) {
+        return res.status(404).json({ error: "Submission not found" });
+      }
+      audit.record({
+        actor: req.user!,
+        action: 'submission.outcome',
+        entityType: 'submission',
+        entityId: id,
+        details: { yieldChangePercent: sub.outcome!.yieldChangePercent, followedOption: sub.outcome!.followedOption, replaced: !!existing!.outcome },
+      });
+      events.publish({ type: 'submission.outcome', ownerId: sub.ownerId, tenantId: sub.tenantId, data: { submission: sub } });
+      res.json(sub);
+    } catch (error) {
+      logger.error("Error recording outcome", { error });
+      res.status(500).json({ error: "Failed to record outcome" });
+    }
+  });
+
+  app.delete("/api/submissions/:id", requireRole(...ROLES), (req, res) => {
+    try {
+      const { id } = req.params;
+      const existing = repo.get(id);
+      const sub = existing?.ownerId === req.user!.id ? repo.softDelete(id) : undefined;
+      if (!sub) {
+        return res.status(404).json({ error: "Submission not found" });
+      }
+      audit.record({ actor: req.user!, action: 'submission.delete', entityType: 'submission', entityId: id, details: { crop: sub.crop, location: sub.location, date: sub.date } });
+      events.publish({ type: 'submission.deleted', ownerId: sub.ownerId, tenantId: sub.tenantId, data: { id } });
+      res.json(sub);
+    } catch (error) {
+      logger.error("Error deleting submission", { error });
+      res.status(500).json({ error: "Failed to delete submission" });
+    }
+  });
+
+  app.post("/api/submissions/:id/restore", requireRole(...ROLES), (req, res) => {
+    try {
+      const { id } = req.params;
+      const existing = repo.get(id, true);
+      const sub = existing?.ownerId === req.user!.id ? repo.restore(id) : undefined;
+      if (!sub) {
+        return res.status(404).json({ error: "Submission not found in trash" });
+      }
+      audit.record({ actor: req.user!, action: 'submission.restore', entityType: 'submission', entityId: id });
+      events.publish({ type: 'submission.restored', ownerId: sub.ownerId, tenantId: sub.tenantId, data: { submission: sub } });
+      res.json(sub);
+    } catch (error) {
+      logger.error("Error restoring submission", { error });
+      res.status(500).json({ error: "Failed to restore submission" });
+    }
+  });
+
+  // Clearing moves the caller's history to the trash, where it can still be restored
+  app.delete("/api/submissions", requireRole(...ROLES), (req, res) => {
+    try {
+      const removed = repo.softDeleteMany({ ownerId: req.user!.id });
+      if (removed > 0) {
+        audit.record({ actor: req.user!, action: 'submission.clear', entityType: 'submission', details: { count: removed } });
+        events.publish({ type: 'history.cleared', ownerId: req.user!.id, tenantId: req.user!.tenantId, data: { count: removed } });
+      }
+      logger.info("Cleared history", { userId: req.user!.id, count: removed });
+      res.json({ message: "History cleared", count: removed });
     } catch (error) {
       res.status(500).json({ error: "Failed to clear history" });
     }
   });
 
-  app.get("/api/admin/stats", (req, res) => {
-    try {
-      if (!fs.existsSync(DB_FILE)) {
-        return res.json({ total: 0, byRisk: {}, byChoice: {}, byCrop: {} });
-      }
-      const data = JSON.parse(fs.readFileSync(DB_FILE, "utf-8"));
-      const subs = data.submissions || [];
-      
-      const stats = {
-        total: subs.length,
-        byRisk: {
-          high: subs.filter((s: any) => s.riskLevel === 'high').length,
-          medium: subs.filter((s: any) => s.riskLevel === 'medium').length,
-          low: subs.filter((s: any) => s.riskLevel === 'low').length,
-        },
-        byChoice: {
-          change: subs.filter((s: any) => s.choice === 'A').length,
-          continue: subs.filter((s: any) => s.choice === 'B').length,
-          none: subs.filter((s: any) => !s.choice).length,
-        },
-        byCrop: subs.reduce((acc: any, s: any) => {
-          acc[s.crop] = (acc[s.crop] || 0) + 1;
-          return acc;
-        }, {}),
-      };
-      res.json(stats);
+  app.get("/api/admin/stats", requireRole('admin'), (req, res) => {
+    try {
+      const interval = StatsIntervalSchema.safeParse(req.query.interval ?? "day");
+      if (!interval.success) {
+        return res.status(400).json({ error: `interval must be one of ${StatsIntervalSchema.options.join(", ")}` });
+      }
+      res.json(repo.stats({ ...parseSubmissionFilter(req.query), tenantId: tenantScope(req) }, interval.data));
     } catch (error) {
-      console.error("Error getting stats:", error);
+      if (error instanceof InvalidQueryError) {
+        return res.status(400).json({ error: error.message });
+      }
+      logger.error("Error getting stats", { error });
       res.status(500).json({ error: "Failed to get stats" });
     }
   });
 
+  // Predictions checked against the harvests farmers reported; filters match the submission list
+  app.get("/api/scientist/accuracy", requireRole('scientist', 'admin'), (req, res) => {
+    try {
+      const { outcomes, pairs } = repo.predictionOutcomes({ ...parseSubmissionFilter(req.query), tenantId: tenantScope(req) });
+      res.json(buildAccuracyReport(outcomes, pairs));
+    } catch (error) {
+      if (error instanceof InvalidQueryError) {
+        return res.status(400).json({ error: error.message });
+      }
+      logger.error("Error building accuracy report", { error });
+      res.status(500).json({ error: "Failed to build accuracy report" });
+    }
+  });
+
   // Catch-all for unhandled API routes
   app.all("/api/*", (req, res) => {
-    console.log(`Unhandled API request: ${req.method} ${req.url}`);
+    logger.warn("Unhandled API request", { method: req.method, url: redactUrl(req.url) });
     res.status(404).json({ error: `API route not found: ${req.method} ${req.url}` });
   });
 
@@ -176,10 +590,10 @@ async function startServer() {
   }
 
   app.listen(PORT, "0.0.0.0", () => {
-    console.log(`Server running on http://localhost:${PORT}`);
+    logger.info(`Server running on http://localhost:${PORT}`, { port: PORT });
   });
   } catch (err: any) {
-    console.error(`[${new Date().toISOString()}] CRITICAL: Failed to start server:`, err.message || err);
+    logger.error("Failed to start server", { error: err });
     process.exit(1);
   }
 }
@@ -0,0 +1,85 @@
+import { RiskLevelSchema } from "../src/schemas";
+import type { AccuracyReport, ErrorSummary, RiskLevel } from "../src/schemas";
+import { regionOf } from "./storage/submissionRepository";
+import type { PredictionOutcome } from "./storage/submissionRepository";
+
+/** Actual yield loss, in percent, from which an outcome counts as a medium or high risk. */
+export const LOSS_BANDS = { medium: 10, high: 30 } as const;
+
+/** Breakdown tables keep the largest groups; the rest would be too small to read anything into. */
+const MAX_BREAKDOWN_ROWS = 20;
+/** The scatter plot only gets the most recent predictions; summaries still use all of them. */
+const MAX_POINTS = 1000;
+
+function actualLoss(outcome: PredictionOutcome) {
+  return Math.max(0, -outcome.yieldChangePercent);
+}
+
+function bandOf(loss: number): RiskLevel {
+  if (loss >= LOSS_BANDS.high) return 'high';
+  if (loss >= LOSS_BANDS.medium) return 'medium';
+  return 'low';
+}
+
+function mean(values: number[]) {
+  return values.length ? values.reduce((sum, v) => sum + v, 0) / values.length : null;
+}
+
+function round(value: number | null) {
+  return value === null ? null : Math.round(value * 100) / 100;
+}
+
+function summarize(pairs: PredictionOutcome[]): ErrorSummary {
+  const errors = pairs.map(p => p.predictedLoss - actualLoss(p));
+  const squared = mean(errors.map(e => e * e));
+  return {
+    count: pairs.length,
+    meanAbsoluteError: round(mean(errors.map(Math.abs))),
+    bias: round(mean(errors)),
+    rootMeanSquaredError: round(squared === null ? null : Math.sqrt(squared)),
+    riskLevelAccuracy: round(mean(pairs.map(p => Number(p.riskLevel === bandOf(actualLoss(p)))))),
+  };
+}
+
+function breakdown(pairs: PredictionOutcome[], keyOf: (pair: PredictionOutcome) => string) {
+  const groups = new Map<string, PredictionOutcome[]>();
+  for (const pair of pairs) {
+    const key = keyOf(pair);
+    groups.set(key, [...(groups.get(key) ?? []), pair]);
+  }
+  return [...groups]
+    .map(([key, group]) => ({ key, ...summarize(group) }))
+    .sort((a, b) => b.count - a.count || a.key.localeCompare(b.key))
+    .slice(0, MAX_BREAKDOWN_ROWS);
+}
+
+/**
+ * Compares stored predictions against reported harvests. Predicted loss is the
+ * analysis' `yieldRiskPercentage`; actual loss is the reported yield drop.
+ */
+export function buildAccuracyReport(outcomes: number, pairs: PredictionOutcome[]): AccuracyReport {
+  return {
+    outcomes,
+    overall: summarize(pairs),
+    lossBands: { ...LOSS_BANDS },
+    points: pairs.slice(0, MAX_POINTS).map(p => ({ predicted: p.predictedLoss, actual: actualLoss(p), riskLevel: p.riskLevel, crop: p.crop })),
+    calibration: RiskLevelSchema.options.map(riskLevel => {
+      const group = pairs.filter(p => p.riskLevel === riskLevel);
+      const bands = group.map(p => bandOf(actualLoss(p)));
+      return {
+        riskLevel,
+        count: group.length,
+        predictedLoss: round(mean(group.map(p => p.predictedLoss))),
+        actualLoss: round(mean(group.map(actualLoss))),
+        actual: {
+          low: bands.filter(b => b === 'low').length,
+          medium: bands.filter(b => b === 'medium').length,
+          high: bands.filter(b => b === 'high').length,
+        },
+      };
+    }),
+    byCrop: breakdown(pairs, p => p.crop.toLowerCase()),
+    byRegion: breakdown(pairs, p => regionOf(p.location)),
+    byModel: breakdown(pairs, p => p.model ?? "unknown"),
+  };
+}
@@ -0,0 +1,100 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { AnalysisResult } from "../src/schemas";
+import { AnalysisCache, cacheKeyParts } from "./analysisCache";
+import { AbortedError } from "./llm/llmProvider";
+import { DEFAULT_OFFLINE_FIXTURES } from "./llm/offlineFixtures";
+import { openDatabase } from "./storage/database";
+import { SqliteAnalysisCacheRepository } from "./storage/sqliteAnalysisCacheRepository";
+
+const HOUR_MS = 60 * 60 * 1000;
+const REQUEST = { crop: "Mango", location: "Guntur, AP", date: "2026-03-01", language: "en" };
+const ANALYSIS: AnalysisResult = { ...DEFAULT_OFFLINE_FIXTURES[0].result, lat: 16.3, lng: 80.45 };
+
+let entries: SqliteAnalysisCacheRepository;
+
+beforeEach(() => {
+  entries = new SqliteAnalysisCacheRepository(openDatabase(":memory:"));
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe("cacheKeyParts", () => {
+  it("ignores case, punctuation and spacing", () => {
+    expect(cacheKeyParts({ ...REQUEST, crop: " MANGO ", location: "guntur  ap" }).key)
+      .toBe(cacheKeyParts(REQUEST).key);
+    expect(cacheKeyParts({ ...REQUEST, language: "te" }).key).not.toBe(cacheKeyParts(REQUEST).key);
+  });
+});
+
+describe("AnalysisCache", () => {
+  it("answers a repeated request from the cache until it expires", async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    const cache = new AnalysisCache(entries, 6 * HOUR_MS);
+    const analyze = vi.fn(async () => ANALYSIS);
+
+    const first = await cache.resolve(REQUEST, analyze);
+    const second = await cache.resolve({ ...REQUEST, location: "guntur ap" }, analyze);
+    expect(entries.get(cacheKeyParts(REQUEST).key)?.hits).toBe(1);
+    vi.advanceTimersByTime(6 * HOUR_MS);
+    const third = await cache.resolve(REQUEST, analyze);
+
+    expect(first).toMatchObject({ fromCache: false, cachedAt: null });
+    expect(second).toMatchObject({ analysis: ANALYSIS, fromCache: true, cachedAt: expect.any(Number) });
+    expect(third.fromCache).toBe(false);
+    expect(analyze).toHaveBeenCalledTimes(2);
+  });
+
+  it("skips the cache on a forced refresh and stores the new answer", async () => {
+    const cache = new AnalysisCache(entries, HOUR_MS);
+    await cache.resolve(REQUEST, async () => ANALYSIS);
+
+    const refreshed = await cache.resolve({ ...REQUEST, forceRefresh: true }, async () => ({ ...ANALYSIS, riskScore: 9 }));
+    const cached = await cache.resolve(REQUEST, async () => ANALYSIS);
+
+    expect(refreshed.fromCache).toBe(false);
+    expect(cached.analysis.riskScore).toBe(9);
+  });
+
+  it("shares one model call between identical requests in flight", async () => {
+    const cache = new AnalysisCache(entries, HOUR_MS);
+    let finish: (analysis: AnalysisResult) => void = () => {};
+    const analyze = vi.fn(() => new Promise<AnalysisResult>(resolve => { finish = resolve; }));
+
+    const both = Promise.all([cache.resolve(REQUEST, analyze), cache.resolve(REQUEST, analyze)]);
+    finish(ANALYSIS);
+
+    expect((await both).map(r => r.analysis)).toEqual([ANALYSIS, ANALYSIS]);
+    expect(analyze).toHaveBeenCalledTimes(1);
+  });
+
+  it("starts its own call when the request it joined is aborted", async () => {
+    const cache = new AnalysisCache(entries, HOUR_MS);
+    let abort: () => void = () => {};
+    const first = cache.resolve(REQUEST, () => new Promise<AnalysisResult>((_, reject) => { abort = () => reject(new AbortedError()); }));
+    const joined = cache.resolve(REQUEST, async () => ANALYSIS);
+    abort();
+
+    await expect(first).rejects.toBeInstanceOf(AbortedError);
+    expect((await joined).analysis).toEqual(ANALYSIS);
+  });
+
+  it("does not store failed analyses", async () => {
+    const cache = new AnalysisCache(entries, HOUR_MS);
+
+    await expect(cache.resolve(REQUEST, async () => { throw new Error("Model unavailable"); })).rejects.toThrow("Model unavailable");
+    expect(entries.get(cacheKeyParts(REQUEST).key)).toBeUndefined();
+  });
+
+  it("never caches with a TTL of 0", async () => {
+    const cache = new AnalysisCache(entries, 0);
+    const analyze = vi.fn(async () => ANALYSIS);
+
+    await cache.resolve(REQUEST, analyze);
+    await cache.resolve(REQUEST, analyze);
+
+    expect(analyze).toHaveBeenCalledTimes(2);
+    expect(entries.list({}, 10)).toEqual([]);
+  });
+});
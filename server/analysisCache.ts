@@ -0,0 +1,71 @@
+import type { AnalysisResult, AnalyzeRequest } from "../src/schemas";
+import { AbortedError } from "./llm/llmProvider";
+import type { AnalysisCacheRepository } from "./storage/analysisCacheRepository";
+
+type CacheRequest = Pick<AnalyzeRequest, 'crop' | 'location' | 'date' | 'language'>;
+
+/** Lower-cases and drops punctuation so "Guntur, AP" and "guntur ap" share an entry. */
+export function normalizeKeyPart(value: string) {
+  return value.normalize("NFKC").toLowerCase().replace(/[^\p{L}\p{N}]+/gu, " ").trim();
+}
+
+export function cacheKeyParts(request: CacheRequest) {
+  const parts = {
+    crop: normalizeKeyPart(request.crop),
+    location: normalizeKeyPart(request.location),
+    date: request.date,
+    language: normalizeKeyPart(request.language),
+  };
+  return { key: `${parts.crop}|${parts.location}|${parts.date}|${parts.language}`, ...parts };
+}
+
+export interface ResolvedAnalysis {
+  analysis: AnalysisResult;
+  fromCache: boolean;
+  /** When a cached analysis was first produced; null for fresh ones. */
+  cachedAt: number | null;
+}
+
+/**
+ * Serves repeated analyses from the database for `ttlMs`. Identical requests
+ * that arrive while the first is still running share its result instead of
+ * starting another model call; they see none of its streamed progress, and
+ * start their own call if the first request is aborted. A TTL of 0 turns
+ * caching off.
+ */
+export class AnalysisCache {
+  private readonly pending = new Map<string, Promise<AnalysisResult>>();
+
+  constructor(private readonly entries: AnalysisCacheRepository, private readonly ttlMs: number) {}
+
+  async resolve(request: CacheRequest & { forceRefresh?: boolean }, analyze: () => Promise<AnalysisResult>): Promise<ResolvedAnalysis> {
+    if (!(this.ttlMs > 0)) {
+      return { analysis: await analyze(), fromCache: false, cachedAt: null };
+    }
+
+    const parts = cacheKeyParts(request);
+    const now = Date.now();
+    if (!request.forceRefresh) {
+      const hit = this.entries.hit(parts.key, now);
+      if (hit) return { analysis: hit.result, fromCache: true, cachedAt: hit.createdAt };
+    }
+
+    let running = this.pending.get(parts.key);
+    const joined = running !== undefined;
+    if (!running) {
+      running = analyze().then(analysis => {
+        const createdAt = Date.now();
+        this.entries.purgeExpired(createdAt);
+        this.entries.put({ ...parts, result: analysis, createdAt, expiresAt: createdAt + this.ttlMs });
+        return analysis;
+      }).finally(() => this.pending.delete(parts.key));
+      this.pending.set(parts.key, running);
+    }
+    try {
+      return { analysis: await running, fromCache: false, cachedAt: null };
+    } catch (error) {
+      if (joined && error instanceof AbortedError) return this.resolve(request, analyze);
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,109 @@
+import { describe, expect, it } from "vitest";
+import type { AnalysisResult } from "../src/schemas";
+import { analyzeWithValidation, findViolations, riskLevelForYield } from "./analysisValidator";
+import { InvalidAnalysisError } from "./llm/llmProvider";
+import type { LlmProvider } from "./llm/llmProvider";
+import { DEFAULT_OFFLINE_FIXTURES } from "./llm/offlineFixtures";
+
+const INPUT = { crop: "Mango", location: "Guntur, AP", date: "2026-03-01", language: "en" };
+const PROMPT = { name: 'analysis' as const, version: 1, template: "" };
+
+function analysis(changes: Partial<AnalysisResult> = {}): AnalysisResult {
+  return { ...structuredClone(DEFAULT_OFFLINE_FIXTURES[0].result), lat: 16.3, lng: 80.45, ...changes };
+}
+
+/** A provider that answers each `analyze` call with the next entry, throwing the errors. */
+function scripted(answers: (AnalysisResult | Error)[]) {
+  const problems: string[][] = [];
+  const llm = {
+    analyze: async (_input: unknown, _prompt: unknown, previous: string[] = []) => {
+      problems.push(previous);
+      const answer = answers.shift();
+      if (!answer) throw new Error("No more answers");
+      if (answer instanceof Error) throw answer;
+      return structuredClone(answer);
+    },
+  } as unknown as LlmProvider;
+  return { llm, problems };
+}
+
+describe("riskLevelForYield", () => {
+  it("follows the prompt's thresholds", () => {
+    expect(riskLevelForYield(9.9)).toBe('low');
+    expect(riskLevelForYield(10)).toBe('medium');
+    expect(riskLevelForYield(30)).toBe('medium');
+    expect(riskLevelForYield(31)).toBe('high');
+  });
+});
+
+describe("findViolations", () => {
+  it("accepts a consistent analysis", () => {
+    expect(findViolations(analysis())).toEqual([]);
+  });
+
+  it("flags each broken rule under its field", () => {
+    const fields = findViolations(analysis({
+      riskLevel: 'low',
+      riskScore: 12,
+      lat: 0,
+      lng: 0,
+      pollinationData: [],
+    })).map(v => v.field);
+    expect(fields).toEqual(["riskLevel", "riskScore", "lat", "pollinationData"]);
+  });
+});
+
+describe("analyzeWithValidation", () => {
+  it("repairs what it can without asking again", async () => {
+    const { llm, problems } = scripted([analysis({ riskLevel: 'low', riskScore: 11 })]);
+
+    const result = await analyzeWithValidation(llm, INPUT, PROMPT);
+
+    expect(problems).toHaveLength(1);
+    expect(result.riskLevel).toBe('high');
+    expect(result.riskScore).toBe(10);
+    expect(result.corrections?.map(c => [c.field, c.action, c.from, c.to])).toEqual([
+      ["riskLevel", "repaired", '"low"', '"high"'],
+      ["riskScore", "repaired", "11", "10"],
+    ]);
+  });
+
+  it("asks again with the problems when a rule cannot be repaired", async () => {
+    const { llm, problems } = scripted([analysis({ lat: 0, lng: 0 }), analysis()]);
+
+    const result = await analyzeWithValidation(llm, INPUT, PROMPT);
+
+    expect(problems[1]).toEqual(["lat and lng are 0,0 instead of the location's coordinates"]);
+    expect(result.lat).toBe(16.3);
+    expect(result.corrections).toEqual([
+      { field: "lat", problem: problems[1][0], action: 'reprompted' },
+    ]);
+  });
+
+  it("retries an unreadable answer and passes on its problems", async () => {
+    const { llm, problems } = scripted([new InvalidAnalysisError(["riskScore: expected number"]), analysis()]);
+
+    const result = await analyzeWithValidation(llm, INPUT, PROMPT);
+
+    expect(problems[1]).toEqual(["riskScore: expected number"]);
+    expect(result.corrections?.[0]).toMatchObject({ field: "riskScore", action: 'reprompted' });
+  });
+
+  it("gives up when the coordinates stay unusable after the retries", async () => {
+    const { llm } = scripted([analysis({ lat: 0, lng: 0 }), analysis({ lat: 0, lng: 0 })]);
+
+    await expect(analyzeWithValidation(llm, INPUT, PROMPT)).rejects.toBeInstanceOf(InvalidAnalysisError);
+  });
+
+  it("records other unrepairable problems as unresolved once the retries are used up", async () => {
+    const empty = analysis();
+    empty.advisory.optionA.crops = [];
+    const { llm } = scripted([empty]);
+
+    const result = await analyzeWithValidation(llm, INPUT, PROMPT, 0);
+
+    expect(result.corrections).toEqual([
+      expect.objectContaining({ field: "advisory.optionA.crops", action: 'unresolved' }),
+    ]);
+  });
+});
@@ -0,0 +1,147 @@
+import type { AnalysisCorrection, AnalysisResult, RiskLevel } from "../src/schemas";
+import { InvalidAnalysisError } from "./llm/llmProvider";
+import type { AnalysisInput, LlmProvider, StreamOptions } from "./llm/llmProvider";
+import type { PromptChoice } from "./llm/prompts";
+import { logger } from "./logger";
+import { countAnalysisCorrection } from "./metrics";
+
+/** How many times the model is asked again before the server repairs what it can on its own. */
+export const MAX_ANALYSIS_RETRIES = 1;
+
+/** The rule the prompt gives the model: above 30% loss is high, 10–30% medium, below 10% low. */
+export function riskLevelForYield(yieldRiskPercentage: number): RiskLevel {
+  if (yieldRiskPercentage > 30) return 'high';
+  if (yieldRiskPercentage >= 10) return 'medium';
+  return 'low';
+}
+
+/**
+ * A failed check. `repair` fixes the field in place; checks without one can
+ * only be fixed by asking the model again. `show` is what the correction
+ * records as the value before and after, the field itself by default.
+ */
+interface Violation {
+  field: string;
+  problem: string;
+  repair?: (result: AnalysisResult) => void;
+  show?: (result: AnalysisResult) => unknown;
+}
+
+function blank(items: string[]) {
+  return items.every(item => !item.trim());
+}
+
+/** Checks an analysis against the rules the prompt states but the schema cannot express. */
+export function findViolations(result: AnalysisResult): Violation[] {
+  const violations: Violation[] = [];
+
+  const expected = riskLevelForYield(result.yieldRiskPercentage);
+  if (result.riskLevel !== expected) {
+    violations.push({
+      field: "riskLevel",
+      problem: `riskLevel is "${result.riskLevel}" but a ${result.yieldRiskPercentage}% yield loss must be "${expected}"`,
+      repair: r => { r.riskLevel = expected; },
+    });
+  }
+
+  if (result.riskScore < 0 || result.riskScore > 10) {
+    violations.push({
+      field: "riskScore",
+      problem: `riskScore ${result.riskScore} is outside 0-10`,
+      repair: r => { r.riskScore = Math.min(10, Math.max(0, r.riskScore)); },
+    });
+  }
+
+  // 0,0 is in the Gulf of Guinea: a placeholder, never a farm
+  if (result.lat === 0 && result.lng === 0) {
+    violations.push({ field: "lat", problem: "lat and lng are 0,0 instead of the location's coordinates" });
+  }
+
+  if (result.bloomingData.length !== result.pollinationData.length) {
+    violations.push({
+      field: "pollinationData",
+      problem: `bloomingData has ${result.bloomingData.length} points but pollinationData has ${result.pollinationData.length}; they must cover the same periods`,
+      repair: r => {
+        const length = Math.min(r.bloomingData.length, r.pollinationData.length);
+        r.bloomingData = r.bloomingData.slice(0, length);
+        r.pollinationData = r.pollinationData.slice(0, length);
+      },
+      show: r => ({ bloomingData: r.bloomingData.length, pollinationData: r.pollinationData.length }),
+    });
+  }
+
+  if (blank(result.advisory.optionA.crops)) {
+    violations.push({ field: "advisory.optionA.crops", problem: "advisory.optionA.crops is empty; suggest at least one alternative crop" });
+  }
+  if (blank(result.advisory.optionB.precautionSteps)) {
+    violations.push({ field: "advisory.optionB.precautionSteps", problem: "advisory.optionB.precautionSteps is empty; give at least one precaution step" });
+  }
+
+  return violations;
+}
+
+function record(corrections: AnalysisCorrection[], correction: AnalysisCorrection) {
+  corrections.push(correction);
+  // Only the top-level field, so array indices in schema paths cannot multiply the series
+  countAnalysisCorrection(correction.field.split(".")[0], correction.action);
+}
+
+/**
+ * Asks the provider for an analysis and enforces the consistency rules on it.
+ * Unreadable answers and violations the server cannot repair are sent back to
+ * the model up to `maxRetries` times; whatever is still wrong after that is
+ * repaired where possible. Every step is listed in `corrections`. Throws when
+ * the answer never passes the schema, or its coordinates stay unusable.
+ * `stream` follows every attempt, including the retries, which reuse `prompt`.
+ */
+export async function analyzeWithValidation(llm: LlmProvider, input: AnalysisInput, prompt: PromptChoice, maxRetries = MAX_ANALYSIS_RETRIES, stream: StreamOptions = {}): Promise<AnalysisResult> {
+  const corrections: AnalysisCorrection[] = [];
+  let problems: string[] = [];
+
+  for (let attempt = 0; ; attempt++) {
+    const retriesLeft = attempt < maxRetries;
+    let result: AnalysisResult;
+    try {
+      result = await llm.analyze(input, prompt, problems, stream);
+    } catch (error) {
+      if (!(error instanceof InvalidAnalysisError) || !retriesLeft) throw error;
+      logger.warn("Model returned an unusable analysis; asking again", { problems: error.problems, attempt });
+      for (const problem of error.problems) {
+        record(corrections, { field: problem.includes(":") ? problem.split(":")[0] : "response", problem, action: 'reprompted' });
+      }
+      problems = error.problems;
+      continue;
+    }
+
+    stream.onStage?.('checking_results');
+    const violations = findViolations(result);
+    const unrepairable = violations.filter(v => !v.repair);
+    if (unrepairable.length > 0 && retriesLeft) {
+      logger.warn("Model analysis broke the consistency rules; asking again", { problems: violations.map(v => v.problem), attempt });
+      for (const violation of violations) {
+        record(corrections, { field: violation.field, problem: violation.problem, action: 'reprompted' });
+      }
+      problems = violations.map(v => v.problem);
+      continue;
+    }
+
+    for (const violation of violations) {
+      if (violation.repair) {
+        const show = violation.show ?? ((r: AnalysisResult) => r[violation.field as keyof AnalysisResult]);
+        const from = JSON.stringify(show(result));
+        violation.repair(result);
+        record(corrections, { field: violation.field, problem: violation.problem, action: 'repaired', from, to: JSON.stringify(show(result)) });
+      } else {
+        record(corrections, { field: violation.field, problem: violation.problem, action: 'unresolved' });
+      }
+    }
+    if (unrepairable.some(v => v.field === "lat")) {
+      throw new InvalidAnalysisError(unrepairable.map(v => v.problem));
+    }
+    if (corrections.length > 0) {
+      logger.info("Corrected model analysis", { corrections: corrections.length, model: result.model });
+      result.corrections = corrections;
+    }
+    return result;
+  }
+}
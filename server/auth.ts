@@ -0,0 +1,167 @@
+import crypto from "crypto";
+import type { NextFunction, Request, Response } from "express";
+import { isSuperAdmin } from "../src/constants";
+import type { AuthUser, Role } from "../src/constants";
+import { logger } from "./logger";
+import type { UserRepository } from "./storage/userRepository";
+
+declare global {
+  namespace Express {
+    interface Request {
+      user?: AuthUser;
+    }
+  }
+}
+
+const TOKEN_TTL_SECONDS = 12 * 60 * 60;
+const SCRYPT_KEYLEN = 64;
+
+let authSecret: string | null = null;
+
+// Read lazily so values loaded by dotenv after import are honoured
+function getSecret() {
+  if (!authSecret) {
+    authSecret = process.env.AUTH_SECRET || null;
+    if (!authSecret) {
+      authSecret = crypto.randomBytes(32).toString("hex");
+      logger.warn("AUTH_SECRET is not set; using a random secret, so sessions end when the server restarts");
+    }
+  }
+  return authSecret;
+}
+
+export function hashPassword(password: string) {
+  const salt = crypto.randomBytes(16);
+  const hash = crypto.scryptSync(password, salt, SCRYPT_KEYLEN);
+  return `scrypt$${salt.toString("base64")}$${hash.toString("base64")}`;
+}
+
+export function verifyPassword(password: string, stored: string) {
+  const [scheme, salt, hash] = stored.split("$");
+  if (scheme !== "scrypt" || !salt || !hash) return false;
+  const expected = Buffer.from(hash, "base64");
+  const actual = crypto.scryptSync(password, Buffer.from(salt, "base64"), expected.length);
+  return crypto.timingSafeEqual(expected, actual);
+}
+
+interface TokenPayload {
+  sub: string;
+  role: Role;
+  iat: number;
+  exp: number;
+}
+
+function sign(data: string) {
+  return crypto.createHmac("sha256", getSecret()).update(data).digest("base64url");
+}
+
+/** Issues a compact HS256 JWT for the user. */
+export function signToken(user: AuthUser) {
+  const now = Math.floor(Date.now() / 1000);
+  const header = Buffer.from(JSON.stringify({ alg: "HS256", typ: "JWT" })).toString("base64url");
+  const payload: TokenPayload = { sub: user.id, role: user.role, iat: now, exp: now + TOKEN_TTL_SECONDS };
+  const body = Buffer.from(JSON.stringify(payload)).toString("base64url");
+  return `${header}.${body}.${sign(`${header}.${body}`)}`;
+}
+
+export function verifyToken(token: string): TokenPayload | null {
+  const [header, body, signature] = token.split(".");
+  if (!header || !body || !signature) return null;
+  const expected = Buffer.from(sign(`${header}.${body}`));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !crypto.timingSafeEqual(expected, actual)) return null;
+  try {
+    const payload = JSON.parse(Buffer.from(body, "base64url").toString("utf-8")) as TokenPayload;
+    return payload.exp > Date.now() / 1000 ? payload : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Resolves the bearer token to `req.user`. Requests to any path outside
+ * `publicPaths` are rejected with 401 when no valid token is present.
+ * Paths in `queryTokenPaths` may pass the token as `?token=` instead, for
+ * clients such as EventSource that cannot set headers.
+ */
+export function authenticate(users: UserRepository, publicPaths: string[], queryTokenPaths: string[] = []) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    const header = req.headers.authorization;
+    const queryToken = queryTokenPaths.includes(req.path) && typeof req.query.token === "string" ? req.query.token : undefined;
+    const token = header?.startsWith("Bearer ") ? header.slice("Bearer ".length) : queryToken;
+    const payload = token ? verifyToken(token) : null;
+    const record = payload ? users.get(payload.sub) : undefined;
+    if (record) {
+      const { passwordHash, ...user } = record;
+      req.user = user;
+    }
+
+    if (!req.user && !publicPaths.includes(req.path)) {
+      return res.status(401).json({ error: "Authentication required" });
+    }
+    next();
+  };
+}
+
+export function requireRole(...roles: Role[]) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (!req.user) {
+      return res.status(401).json({ error: "Authentication required" });
+    }
+    if (!roles.includes(req.user.role)) {
+      return res.status(403).json({ error: `This action requires one of the roles: ${roles.join(", ")}` });
+    }
+    next();
+  };
+}
+
+/** Like `requireRole('admin')`, but only for admins outside every tenant. */
+export function requireSuperAdmin() {
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (!req.user) {
+      return res.status(401).json({ error: "Authentication required" });
+    }
+    if (!isSuperAdmin(req.user)) {
+      return res.status(403).json({ error: "This action requires a super-admin" });
+    }
+    next();
+  };
+}
+
+/**
+ * The tenant whose data the request may read: always the caller's own, except
+ * for super-admins, who see every tenant unless they pick one with `?tenant=`.
+ */
+export function tenantScope(req: Request): string | undefined {
+  if (!isSuperAdmin(req.user!)) {
+    return req.user!.tenantId!;
+  }
+  return typeof req.query.tenant === "string" && req.query.tenant ? req.query.tenant : undefined;
+}
+
+/**
+ * Creates the first super-admin from ADMIN_USERNAME / ADMIN_PASSWORD when
+ * none exists yet. An existing account with that name is only promoted (and
+ * taken out of its tenant) when it is already an admin with ADMIN_PASSWORD;
+ * anyone can register a username, so any other account is left alone.
+ */
+export function seedAdmin(users: UserRepository) {
+  const username = process.env.ADMIN_USERNAME;
+  const password = process.env.ADMIN_PASSWORD;
+  if (users.list().some(isSuperAdmin)) return;
+  if (!username || !password) {
+    logger.warn("No super-admin account exists; set ADMIN_USERNAME and ADMIN_PASSWORD to create one");
+    return;
+  }
+  const existing = users.findByUsername(username);
+  if (existing) {
+    if (existing.role !== 'admin' || !verifyPassword(password, existing.passwordHash)) {
+      logger.error("ADMIN_USERNAME belongs to another account; not making it a super-admin. Choose a different ADMIN_USERNAME", { username });
+      return;
+    }
+    users.update(existing.id, { role: 'admin', tenantId: null });
+  } else {
+    users.create({ username, passwordHash: hashPassword(password), role: 'admin', tenantId: null });
+  }
+  logger.info("Super-admin account is ready", { username });
+}
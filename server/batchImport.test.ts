@@ -0,0 +1,59 @@
+import ExcelJS from "exceljs";
+import { describe, expect, it } from "vitest";
+import { MAX_BATCH_ROWS, parseBatchFile } from "./batchImport";
+import { InvalidQueryError } from "./storage/submissionRepository";
+
+async function xlsx(rows: ExcelJS.CellValue[][]) {
+  const workbook = new ExcelJS.Workbook();
+  workbook.addWorksheet("Sheet1").addRows(rows);
+  return Buffer.from(await workbook.xlsx.writeBuffer());
+}
+
+describe("parseBatchFile", () => {
+  it("reads a CSV with aliased headers and keeps invalid rows with their error", async () => {
+    const file = Buffer.from("Crop Type,Village,Target_Date\nMango,\"Guntur, AP\",2026-03-01\n\nRice,Nellore,March\n");
+
+    expect(await parseBatchFile(file)).toEqual([
+      { row: 2, crop: "Mango", location: "Guntur, AP", date: "2026-03-01" },
+      { row: 4, crop: "Rice", location: "Nellore", date: "March", error: "date: must be a YYYY-MM-DD date" },
+    ]);
+  });
+
+  it("reads XLSX date cells as calendar dates", async () => {
+    const file = await xlsx([
+      ["crop", "location", "date"],
+      ["Cotton", "Warangal", new Date(Date.UTC(2026, 5, 15))],
+    ]);
+
+    expect(await parseBatchFile(file)).toEqual([{ row: 2, crop: "Cotton", location: "Warangal", date: "2026-06-15" }]);
+  });
+
+  it("treats header names as plain text", async () => {
+    const file = Buffer.from("__proto__,crop,location,date\nx,Mango,Guntur,2026-03-01\n");
+
+    expect(await parseBatchFile(file)).toHaveLength(1);
+    expect(({} as Record<string, unknown>).crop).toBeUndefined();
+  });
+
+  it("rejects files without the required columns or rows", async () => {
+    await expect(parseBatchFile(Buffer.from("crop,place\nMango,Guntur\n"))).rejects.toThrow("Missing column: date");
+    await expect(parseBatchFile(Buffer.from("crop,location,date\n"))).rejects.toThrow("no data rows");
+    await expect(parseBatchFile(Buffer.from([0x50, 0x4b, 0x03, 0x04, 0, 0]))).rejects.toThrow(InvalidQueryError);
+  });
+
+  it("caps the number of rows", async () => {
+    const lines = Array.from({ length: MAX_BATCH_ROWS + 1 }, () => "Mango,Guntur,2026-03-01");
+    const file = Buffer.from(["crop,location,date", ...lines].join("\n"));
+
+    await expect(parseBatchFile(file)).rejects.toThrow(`at most ${MAX_BATCH_ROWS} rows`);
+  });
+
+  it("caps the number of rows in a workbook", async () => {
+    const lines = Array.from({ length: MAX_BATCH_ROWS + 1 }, () => ["Mango", "Guntur", "2026-03-01"]);
+    const file = await xlsx([["crop", "location", "date"], ...lines]);
+
+    await expect(parseBatchFile(file)).rejects.toThrow(`at most ${MAX_BATCH_ROWS} rows`);
+    // Blank rows do not count towards the cap
+    expect(await parseBatchFile(await xlsx([["crop", "location", "date"], ...lines.slice(1), [], []]))).toHaveLength(MAX_BATCH_ROWS);
+  });
+});
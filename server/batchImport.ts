@@ -0,0 +1,116 @@
+import { Readable } from "stream";
+import ExcelJS from "exceljs";
+import { AnalyzeRequestSchema } from "../src/schemas";
+import type { NewBatchItem } from "./storage/batchRepository";
+import { InvalidQueryError } from "./storage/submissionRepository";
+import { fieldErrors } from "./validation";
+
+export const MAX_BATCH_ROWS = 200;
+
+const BatchRowSchema = AnalyzeRequestSchema.pick({ crop: true, location: true, date: true });
+
+// Header spellings accepted for each column, compared lower-cased without spaces or underscores
+const COLUMN_ALIASES: Record<'crop' | 'location' | 'date', string[]> = {
+  crop: ["crop", "croptype"],
+  location: ["location", "place", "village", "district"],
+  date: ["date", "targetdate", "sowingdate"],
+};
+
+// Every XLSX file is a zip archive, which starts with these bytes
+const ZIP_SIGNATURE = Buffer.from([0x50, 0x4b, 0x03, 0x04]);
+
+function formatCell(value: ExcelJS.CellValue): string {
+  if (value instanceof Date) {
+    // ExcelJS reads spreadsheet dates, which carry no zone, as UTC midnight
+    return value.toISOString().split("T")[0];
+  }
+  if (value !== null && typeof value === "object") {
+    if ("result" in value) return formatCell(value.result as ExcelJS.CellValue);
+    if ("richText" in value) return value.richText.map(part => part.text).join("").trim();
+    if ("text" in value) return String(value.text).trim();
+    // Error cells such as #N/A
+    return "";
+  }
+  return value === undefined || value === null ? "" : String(value).trim();
+}
+
+interface Line {
+  row: number;
+  cells: string[];
+}
+
+function toLine(row: ExcelJS.Row): Line {
+  return { row: row.number, cells: (row.values as ExcelJS.CellValue[]).slice(1).map(formatCell) };
+}
+
+/**
+ * Yields the rows of the first sheet as they are read. XLSX files are
+ * streamed, so a caller that stops early never decompresses the rest of a
+ * large workbook; a CSV can be no larger than the upload itself and is read
+ * in one go.
+ */
+async function* readRows(file: Buffer): AsyncGenerator<Line> {
+  try {
+    if (file.subarray(0, ZIP_SIGNATURE.length).equals(ZIP_SIGNATURE)) {
+      // Styles are needed to tell date cells from numbers
+      const workbook = new ExcelJS.stream.xlsx.WorkbookReader(Readable.from(file), { styles: 'cache' });
+      for await (const sheet of workbook) {
+        for await (const row of sheet) yield toLine(row);
+        return;
+      }
+    } else {
+      const workbook = new ExcelJS.Workbook();
+      // Keep CSV cells as written; the schema checks them like any other input
+      const sheet = await workbook.csv.read(Readable.from(file), { map: (value: unknown) => value });
+      const rows: Line[] = [];
+      sheet.eachRow(row => { rows.push(toLine(row)); });
+      yield* rows;
+    }
+  } catch {
+    throw new InvalidQueryError("File is not a readable CSV or XLSX spreadsheet");
+  }
+}
+
+/**
+ * Reads the first sheet of a CSV or XLSX upload into batch rows. Rows that
+ * fail validation are kept with an error so the results file accounts for
+ * every line of the upload.
+ */
+export async function parseBatchFile(file: Buffer): Promise<NewBatchItem[]> {
+  // The first non-blank row holds the headers; blank rows are skipped like empty lines
+  const lines: Line[] = [];
+  for await (const line of readRows(file)) {
+    if (!line.cells.some(Boolean)) continue;
+    lines.push(line);
+    // Stop reading as soon as the file is known to be too long
+    if (lines.length > MAX_BATCH_ROWS + 1) {
+      throw new InvalidQueryError(`A batch can hold at most ${MAX_BATCH_ROWS} rows`);
+    }
+  }
+  const [first, ...data] = lines;
+  if (data.length === 0) throw new InvalidQueryError("The spreadsheet has no data rows");
+
+  const headers = first.cells.filter(Boolean);
+  const columnFor = (field: keyof typeof COLUMN_ALIASES) =>
+    headers.find(h => COLUMN_ALIASES[field].includes(h.toLowerCase().replace(/[\s_]/g, "")));
+  const columns = { crop: columnFor("crop"), location: columnFor("location"), date: columnFor("date") };
+  const missing = Object.entries(columns).filter(([, header]) => !header).map(([field]) => field);
+  if (missing.length) {
+    throw new InvalidQueryError(`Missing column${missing.length > 1 ? "s" : ""}: ${missing.join(", ")}`);
+  }
+
+  const cell = (cells: string[], header: string) => cells[first.cells.indexOf(header)] ?? "";
+  return data.map(({ row, cells }) => {
+    const raw = {
+      crop: cell(cells, columns.crop!),
+      location: cell(cells, columns.location!),
+      date: cell(cells, columns.date!),
+    };
+    const parsed = BatchRowSchema.safeParse(raw);
+    if (parsed.success) {
+      return { row, ...parsed.data };
+    }
+    const error = Object.entries(fieldErrors(parsed.error)).map(([field, message]) => `${field}: ${message}`).join("; ");
+    return { row, ...raw, error };
+  });
+}
@@ -0,0 +1,51 @@
+import { logger, withLogContext } from "./logger";
+import type { BatchItem, BatchRepository } from "./storage/batchRepository";
+
+export type BatchJob = BatchItem & { language: string; ownerId: string };
+
+/**
+ * Works through queued batch rows with at most `concurrency` analyses in
+ * flight. The queue itself lives in the database, so rows left over from a
+ * restart are picked up again by `start()`.
+ */
+export class BatchQueue {
+  private active = 0;
+
+  constructor(
+    private readonly batches: BatchRepository,
+    private readonly run: (job: BatchJob) => Promise<{ id: string }>,
+    private readonly concurrency: number
+  ) {}
+
+  start() {
+    const requeued = this.batches.requeueInterrupted();
+    if (requeued > 0) {
+      logger.info("Re-queued batch rows interrupted by a restart", { count: requeued });
+    }
+    this.pump();
+  }
+
+  /** Starts as many queued rows as the concurrency limit allows. */
+  pump() {
+    while (this.active < this.concurrency) {
+      const job = this.batches.claimNext();
+      if (!job) return;
+      this.active++;
+      // Rows are often started while handling an unrelated request; log them under their batch instead
+      void withLogContext({ batchId: job.batchId, row: job.row }, () => this.process(job));
+    }
+  }
+
+  private async process(job: BatchJob) {
+    try {
+      const submission = await this.run(job);
+      this.batches.complete(job.batchId, job.row, submission.id);
+    } catch (error: any) {
+      logger.error("Batch row failed", { error });
+      this.batches.fail(job.batchId, job.row, error.message || "Analysis failed");
+    } finally {
+      this.active--;
+      this.pump();
+    }
+  }
+}
@@ -0,0 +1,108 @@
+import type { Request, Response } from "express";
+import type { AuthUser, ServerEventType } from "../src/constants";
+import { logger } from "./logger";
+
+const HEARTBEAT_MS = 25_000;
+
+export const EVENT_STREAM_HEADERS = {
+  "Content-Type": "text/event-stream",
+  "Cache-Control": "no-cache, no-transform",
+  Connection: "keep-alive",
+  // Stop reverse proxies from buffering the stream
+  "X-Accel-Buffering": "no",
+};
+// Tells EventSource how long to wait before reconnecting after the stream drops
+const RETRY_MS = 3000;
+
+export interface ServerEvent {
+  type: ServerEventType;
+  /** Only this user receives `data`; null means nobody does. */
+  ownerId: string | null;
+  /** When set, only members of this tenant and super-admins hear about the event at all. */
+  tenantId?: string | null;
+  data: Record<string, unknown>;
+}
+
+interface Client {
+  res: Response;
+  user: AuthUser;
+}
+
+/**
+ * Answers one request with a stream of named events, for routes that report
+ * progress while they work. `signal` aborts when the client disconnects
+ * before the stream ends, so the work can stop too.
+ */
+export function openResponseStream(res: Response) {
+  const controller = new AbortController();
+  res.writeHead(200, EVENT_STREAM_HEADERS);
+  res.on("close", () => {
+    if (!res.writableFinished) controller.abort();
+  });
+  return {
+    signal: controller.signal,
+    send(event: string, data: unknown) {
+      if (!controller.signal.aborted) res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+    },
+    end() {
+      res.end();
+    },
+  };
+}
+
+/** Fans server events out to every open `text/event-stream` response. */
+export class EventHub {
+  private readonly clients = new Set<Client>();
+  private readonly listeners = new Set<(event: ServerEvent) => void>();
+  private nextId = 1;
+  private heartbeat: NodeJS.Timeout | null = null;
+
+  subscribe(req: Request, res: Response) {
+    res.writeHead(200, EVENT_STREAM_HEADERS);
+    res.write(`retry: ${RETRY_MS}\n\n`);
+
+    const client: Client = { res, user: req.user! };
+    this.clients.add(client);
+    this.startHeartbeat();
+    req.on("close", () => {
+      this.clients.delete(client);
+      if (this.clients.size === 0) this.stopHeartbeat();
+    });
+  }
+
+  /** Server-side subscribers, such as webhooks, receive every event with its data. */
+  listen(listener: (event: ServerEvent) => void) {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  publish(event: ServerEvent) {
+    for (const listener of this.listeners) {
+      try {
+        listener(event);
+      } catch (error) {
+        logger.error("Event listener failed", { error, type: event.type });
+      }
+    }
+    const id = this.nextId++;
+    for (const client of this.clients) {
+      if (event.tenantId && client.user.tenantId && client.user.tenantId !== event.tenantId) continue;
+      const data = client.user.id === event.ownerId ? event.data : {};
+      client.res.write(`id: ${id}\nevent: ${event.type}\ndata: ${JSON.stringify(data)}\n\n`);
+    }
+  }
+
+  // Comment lines keep idle connections from being closed by proxies
+  private startHeartbeat() {
+    if (this.heartbeat) return;
+    this.heartbeat = setInterval(() => {
+      for (const client of this.clients) client.res.write(": ping\n\n");
+    }, HEARTBEAT_MS);
+    this.heartbeat.unref();
+  }
+
+  private stopHeartbeat() {
+    if (this.heartbeat) clearInterval(this.heartbeat);
+    this.heartbeat = null;
+  }
+}
@@ -0,0 +1,145 @@
+import ExcelJS from "exceljs";
+import type { BatchItem } from "./storage/batchRepository";
+import type { SubmissionRecord } from "./storage/submissionRepository";
+
+export const EXPORT_FORMATS = ['csv', 'xlsx', 'geojson', 'json'] as const;
+export type ExportFormat = typeof EXPORT_FORMATS[number];
+
+export const EXPORT_COLUMNS = [
+  'id', 'createdAt', 'crop', 'location', 'lat', 'lng', 'targetDate', 'riskLevel', 'choice',
+  'climaticConditions', 'riskScore', 'mismatchDays', 'yieldRiskPercentage', 'whatMayHappen',
+  'expectedYieldChange', 'alternativeCropsSuggestion', 'alternativeCrops', 'precautionSteps',
+  'model', 'promptVersion', 'harvestDate', 'actualYieldChangePercent', 'harvestQuantity', 'harvestUnit', 'actualFloweringDate',
+  'followedOption', 'outcomeNotes',
+] as const;
+
+type Cell = string | number | null;
+type ExportRow = Record<typeof EXPORT_COLUMNS[number], Cell>;
+
+/** Flattens a submission, including the `fullAnalysis` numbers, advisory text and harvest outcome, into one row. */
+export function toExportRow(sub: SubmissionRecord): ExportRow {
+  const analysis = sub.fullAnalysis;
+  const outcome = sub.outcome;
+  return {
+    id: sub.id,
+    createdAt: new Date(sub.timestamp).toISOString(),
+    crop: sub.crop,
+    location: sub.location,
+    lat: sub.lat ?? null,
+    lng: sub.lng ?? null,
+    targetDate: sub.date,
+    riskLevel: sub.riskLevel,
+    choice: sub.choice,
+    climaticConditions: sub.climaticConditions,
+    riskScore: analysis?.riskScore ?? null,
+    mismatchDays: analysis?.mismatchDays ?? null,
+    yieldRiskPercentage: analysis?.yieldRiskPercentage ?? null,
+    whatMayHappen: analysis?.advisory?.whatMayHappen ?? null,
+    expectedYieldChange: analysis?.advisory?.expectedYieldChange ?? null,
+    alternativeCropsSuggestion: analysis?.advisory?.optionA?.suggestion ?? null,
+    alternativeCrops: analysis?.advisory?.optionA?.crops?.join("; ") ?? null,
+    precautionSteps: analysis?.advisory?.optionB?.precautionSteps?.join(" | ") ?? null,
+    model: sub.model,
+    promptVersion: sub.promptVersion,
+    harvestDate: outcome?.harvestDate ?? null,
+    actualYieldChangePercent: outcome?.yieldChangePercent ?? null,
+    harvestQuantity: outcome?.harvestQuantity ?? null,
+    harvestUnit: outcome?.harvestUnit ?? null,
+    actualFloweringDate: outcome?.floweringDate ?? null,
+    followedOption: outcome?.followedOption ?? null,
+    outcomeNotes: outcome?.notes || null,
+  };
+}
+
+function csvCell(value: Cell) {
+  if (value === null) return "";
+  if (typeof value === "number") return String(value);
+  // Stop spreadsheet apps from evaluating user-supplied text as a formula
+  const text = /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function rowsToCsv<K extends string>(columns: readonly K[], rows: Record<K, Cell>[]) {
+  const lines = [
+    columns.join(","),
+    ...rows.map(row => columns.map(key => csvCell(row[key])).join(",")),
+  ];
+  return lines.join("\r\n") + "\r\n";
+}
+
+async function rowsToXlsx<K extends string>(columns: readonly K[], rows: Record<K, Cell>[], sheetName: string): Promise<Buffer> {
+  const workbook = new ExcelJS.Workbook();
+  const sheet = workbook.addWorksheet(sheetName);
+  sheet.addRow([...columns]);
+  sheet.addRows(rows.map(row => columns.map(key => row[key])));
+  return Buffer.from(await workbook.xlsx.writeBuffer());
+}
+
+export function toCsv(subs: SubmissionRecord[]) {
+  return rowsToCsv(EXPORT_COLUMNS, subs.map(toExportRow));
+}
+
+export function toXlsx(subs: SubmissionRecord[]): Promise<Buffer> {
+  return rowsToXlsx(EXPORT_COLUMNS, subs.map(toExportRow), "Submissions");
+}
+
+/** GeoJSON FeatureCollection of points; submissions without coordinates are skipped. */
+export function toGeoJson(subs: SubmissionRecord[]) {
+  return {
+    type: "FeatureCollection",
+    features: subs
+      .filter(s => typeof s.lat === "number" && typeof s.lng === "number")
+      .map(s => {
+        const { lat, lng, ...properties } = toExportRow(s);
+        return {
+          type: "Feature",
+          // GeoJSON positions are [longitude, latitude]
+          geometry: { type: "Point", coordinates: [lng, lat] },
+          properties,
+        };
+      }),
+  };
+}
+
+export function exportFilename(format: ExportFormat) {
+  return `bloomsync-submissions-${new Date().toISOString().slice(0, 10)}.${format}`;
+}
+
+export const BATCH_RESULT_FORMATS = ['csv', 'xlsx'] as const;
+export type BatchResultFormat = typeof BATCH_RESULT_FORMATS[number];
+
+const BATCH_RESULT_COLUMNS = [
+  'row', 'status', 'error', 'crop', 'location', 'targetDate', 'submissionId', 'lat', 'lng', 'riskLevel',
+  'riskScore', 'mismatchDays', 'yieldRiskPercentage', 'climaticConditions', 'whatMayHappen',
+  'expectedYieldChange', 'alternativeCrops', 'precautionSteps',
+] as const;
+
+/** One line per uploaded row: its outcome, plus the analysis when it succeeded. */
+function toBatchResultRow(item: BatchItem, sub: SubmissionRecord | undefined): Record<typeof BATCH_RESULT_COLUMNS[number], Cell> {
+  const analysis = sub ? toExportRow(sub) : undefined;
+  return {
+    row: item.row,
+    status: item.status,
+    error: item.error,
+    crop: item.crop,
+    location: item.location,
+    targetDate: item.date,
+    submissionId: item.submissionId,
+    lat: analysis?.lat ?? null,
+    lng: analysis?.lng ?? null,
+    riskLevel: analysis?.riskLevel ?? null,
+    riskScore: analysis?.riskScore ?? null,
+    mismatchDays: analysis?.mismatchDays ?? null,
+    yieldRiskPercentage: analysis?.yieldRiskPercentage ?? null,
+    climaticConditions: analysis?.climaticConditions ?? null,
+    whatMayHappen: analysis?.whatMayHappen ?? null,
+    expectedYieldChange: analysis?.expectedYieldChange ?? null,
+    alternativeCrops: analysis?.alternativeCrops ?? null,
+    precautionSteps: analysis?.precautionSteps ?? null,
+  };
+}
+
+export async function toBatchResults(format: BatchResultFormat, items: BatchItem[], lookup: (id: string) => SubmissionRecord | undefined): Promise<string | Buffer> {
+  const rows = items.map(item => toBatchResultRow(item, item.submissionId ? lookup(item.submissionId) : undefined));
+  return format === 'csv' ? rowsToCsv(BATCH_RESULT_COLUMNS, rows) : rowsToXlsx(BATCH_RESULT_COLUMNS, rows, "Results");
+}
@@ -0,0 +1,29 @@
+import type { Database } from "./storage/database";
+import { setMeta } from "./storage/database";
+import type { LlmProvider } from "./llm/llmProvider";
+
+export interface HealthCheck {
+  ok: boolean;
+  error?: string;
+}
+
+/** Proves the store accepts writes by touching a row in the meta table. */
+function checkStore(db: Database.Database): HealthCheck {
+  try {
+    setMeta(db, "health_check", new Date().toISOString());
+    return { ok: true };
+  } catch (error: any) {
+    return { ok: false, error: error.message || String(error) };
+  }
+}
+
+function checkLlm(llm: LlmProvider): HealthCheck {
+  const error = llm.unavailableReason();
+  return error ? { ok: false, error } : { ok: true };
+}
+
+/** Readiness: the server can save submissions and reach the model. */
+export function readinessChecks(db: Database.Database, llm: LlmProvider) {
+  const checks = { store: checkStore(db), llm: checkLlm(llm) };
+  return { ready: Object.values(checks).every(check => check.ok), checks };
+}
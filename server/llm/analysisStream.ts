@@ -0,0 +1,81 @@
+import type { AnalysisStage } from "../../src/schemas";
+import { AbortedError } from "./llmProvider";
+import type { StreamOptions } from "./llmProvider";
+
+// The first of a stage's keys to appear in the answer marks that the model has reached it
+const STAGE_MARKERS: [string[], AnalysisStage][] = [
+  [['"bloomingData"', '"pollinationData"'], 'assessing_bloom'],
+  [['"climaticConditions"', '"advisory"'], 'drafting_advice'],
+];
+
+/**
+ * The value of a string field in JSON that is still arriving, as far as it
+ * has come; undefined until the field starts.
+ */
+export function partialJsonString(json: string, key: string): string | undefined {
+  const match = new RegExp(`"${key}"\\s*:\\s*"`).exec(json);
+  if (!match) return undefined;
+  let raw = "";
+  for (let i = match.index + match[0].length; i < json.length; i++) {
+    const char = json[i];
+    if (char === '"') break;
+    if (char === "\\") {
+      // An escape cut off at the end of the chunk waits for the next one
+      const length = json[i + 1] === "u" ? 6 : 2;
+      const escape = json.slice(i, i + length);
+      if (escape.length < length) break;
+      raw += escape;
+      i += length - 1;
+      continue;
+    }
+    raw += char;
+  }
+  try {
+    return JSON.parse(`"${raw}"`);
+  } catch {
+    return raw;
+  }
+}
+
+/**
+ * Follows an analysis as the model writes it: reports each stage once as it
+ * is reached and passes on the advisory's "what may happen" text as it grows.
+ */
+export class AnalysisStreamTracker {
+  private text = "";
+  private stage = -1;
+  private adviceSent = 0;
+
+  constructor(private readonly options: StreamOptions = {}) {
+    this.options.onStage?.('searching_weather');
+  }
+
+  push(delta: string) {
+    this.text += delta;
+    const reached = STAGE_MARKERS.reduce((last, [markers], index) => (markers.some(m => this.text.includes(m)) ? index : last), -1);
+    if (this.text.trim() && this.stage < 0) this.enter(0);
+    if (reached > this.stage) this.enter(reached);
+
+    const advice = partialJsonString(this.text, "whatMayHappen");
+    if (advice !== undefined && advice.length > this.adviceSent) {
+      this.options.onText?.(advice.slice(this.adviceSent));
+      this.adviceSent = advice.length;
+    }
+  }
+
+  /** Everything received so far. */
+  get json() {
+    return this.text;
+  }
+
+  private enter(index: number) {
+    for (let next = this.stage + 1; next <= index; next++) {
+      this.options.onStage?.(STAGE_MARKERS[next][1]);
+    }
+    this.stage = index;
+  }
+}
+
+export function throwIfAborted(signal?: AbortSignal) {
+  if (signal?.aborted) throw new AbortedError();
+}
@@ -0,0 +1,17 @@
+import { GeminiProvider } from "./geminiProvider";
+import { LLM_PROVIDERS, resolveModels } from "./llmProvider";
+import type { LlmProvider } from "./llmProvider";
+import { loadOfflineFixtures, OfflineProvider } from "./offlineProvider";
+
+/** Builds the provider named by `LLM_PROVIDER` (Gemini by default). */
+export function createLlmProvider(env: NodeJS.ProcessEnv = process.env): LlmProvider {
+  const name = (env.LLM_PROVIDER || "gemini").trim().toLowerCase();
+  switch (name) {
+    case "gemini":
+      return new GeminiProvider(env.GEMINI_API_KEY || "", resolveModels(GeminiProvider.DEFAULT_MODELS, env));
+    case "offline":
+      return new OfflineProvider(loadOfflineFixtures(env.OFFLINE_FIXTURES_PATH), resolveModels(OfflineProvider.DEFAULT_MODELS, env));
+    default:
+      throw new Error(`Unknown LLM_PROVIDER "${name}"; expected one of ${LLM_PROVIDERS.join(", ")}`);
+  }
+}
@@ -0,0 +1,271 @@
+import { GoogleGenAI, Type, Modality } from "@google/genai";
+import type { GroundingChunk, GroundingMetadata } from "@google/genai";
+import { AnalysisResultSchema } from "../../src/schemas";
+import type { AnalysisResult, VoiceDetails } from "../../src/schemas";
+import { logger } from "../logger";
+import { observeGemini } from "../metrics";
+import { AnalysisStreamTracker } from "./analysisStream";
+import { AbortedError, InvalidAnalysisError, languageName } from "./llmProvider";
+import type { AnalysisInput, ChatTurn, FollowUpContext, LlmModels, LlmProvider, StreamOptions } from "./llmProvider";
+import { renderPrompt } from "./prompts";
+import type { PromptChoice } from "./prompts";
+
+type GenerateContentParams = Parameters<GoogleGenAI["models"]["generateContent"]>[0];
+
+/** Appended when a previous answer was rejected, so the model knows exactly what to fix. */
+function retryInstructions(problems: string[]) {
+  return `
+    YOUR PREVIOUS ANSWER WAS REJECTED because:
+${problems.map(problem => `    - ${problem}`).join("\n")}
+    Fix these problems and return the complete JSON again.
+  `;
+}
+
+const ANALYSIS_RESPONSE_SCHEMA = {
+  type: Type.OBJECT,
+  // Curves and scores before the advice, so streamed progress follows the work
+  propertyOrdering: ["bloomingData", "pollinationData", "riskLevel", "riskScore", "mismatchDays", "yieldRiskPercentage", "lat", "lng", "climaticConditions", "advisory"],
+  properties: {
+    bloomingData: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          date: { type: Type.STRING },
+          activity: { type: Type.NUMBER }
+        },
+        required: ["date", "activity"]
+      }
+    },
+    pollinationData: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          date: { type: Type.STRING },
+          activity: { type: Type.NUMBER }
+        },
+        required: ["date", "activity"]
+      }
+    },
+    riskLevel: { type: Type.STRING },
+    riskScore: { type: Type.NUMBER },
+    mismatchDays: { type: Type.NUMBER },
+    yieldRiskPercentage: { type: Type.NUMBER },
+    lat: { type: Type.NUMBER },
+    lng: { type: Type.NUMBER },
+    climaticConditions: { type: Type.STRING },
+    advisory: {
+      type: Type.OBJECT,
+      properties: {
+        whatMayHappen: { type: Type.STRING },
+        expectedYieldChange: { type: Type.STRING },
+        optionA: {
+          type: Type.OBJECT,
+          properties: {
+            suggestion: { type: Type.STRING },
+            crops: { type: Type.ARRAY, items: { type: Type.STRING } }
+          },
+          required: ["suggestion", "crops"]
+        },
+        optionB: {
+          type: Type.OBJECT,
+          properties: {
+            precautionSteps: { type: Type.ARRAY, items: { type: Type.STRING } }
+          },
+          required: ["precautionSteps"]
+        }
+      },
+      required: ["whatMayHappen", "expectedYieldChange", "optionA", "optionB"]
+    }
+  },
+  required: ["bloomingData", "pollinationData", "riskLevel", "riskScore", "mismatchDays", "yieldRiskPercentage", "lat", "lng", "climaticConditions", "advisory"]
+};
+
+/** Google Gemini, grounded with Google Search for analyses and follow-ups. */
+export class GeminiProvider implements LlmProvider {
+  static readonly DEFAULT_MODELS: LlmModels = {
+    analysis: "gemini-3.1-pro-preview",
+    extraction: "gemini-3-flash-preview",
+    followUp: "gemini-3-flash-preview",
+    speech: "gemini-2.5-flash-preview-tts",
+  };
+
+  readonly name = "gemini" as const;
+  private client: GoogleGenAI | null = null;
+
+  constructor(private readonly apiKey: string, readonly models: LlmModels) {}
+
+  unavailableReason() {
+    return this.apiKey ? null : "GEMINI_API_KEY is not set";
+  }
+
+  private getClient() {
+    if (!this.client) {
+      this.client = new GoogleGenAI({ apiKey: this.apiKey });
+    }
+    return this.client;
+  }
+
+  private generate(operation: string, params: GenerateContentParams) {
+    const client = this.getClient();
+    return observeGemini(operation, () => client.models.generateContent(params));
+  }
+
+  /**
+   * Streams a call, handing each piece of text to `onText`, and resolves to
+   * the whole text with the grounding metadata, which arrives with the last chunks.
+   */
+  private streamText(operation: string, params: GenerateContentParams, signal: AbortSignal | undefined, onText: (delta: string) => void) {
+    const client = this.getClient();
+    return observeGemini(operation, async () => {
+      let text = "";
+      let groundingMetadata: GroundingMetadata | undefined;
+      try {
+        const chunks = await client.models.generateContentStream({ ...params, config: { ...params.config, abortSignal: signal } });
+        for await (const chunk of chunks) {
+          const delta = chunk.text ?? "";
+          if (delta) {
+            text += delta;
+            onText(delta);
+          }
+          groundingMetadata = chunk.candidates?.[0]?.groundingMetadata ?? groundingMetadata;
+        }
+      } catch (error) {
+        if (signal?.aborted) throw new AbortedError();
+        throw error;
+      }
+      return { text, groundingMetadata };
+    });
+  }
+
+  async analyze(input: AnalysisInput, prompt: PromptChoice, problems: string[] = [], stream: StreamOptions = {}): Promise<AnalysisResult> {
+    const model = this.models.analysis;
+    const tracker = new AnalysisStreamTracker(stream);
+    const contents = renderPrompt(prompt.template, { ...input, now: new Date().toISOString() });
+    const response = await this.streamText("analyze", {
+      model,
+      contents: problems.length ? contents + retryInstructions(problems) : contents,
+      config: {
+        tools: [{ googleSearch: {} }],
+        responseMimeType: "application/json",
+        responseSchema: ANALYSIS_RESPONSE_SCHEMA
+      }
+    }, stream.signal, delta => tracker.push(delta));
+
+    let answer: unknown;
+    try {
+      answer = JSON.parse(response.text || "{}");
+    } catch {
+      throw new InvalidAnalysisError(["the response was not valid JSON"]);
+    }
+    // Valid JSON can still be null, a number or an array
+    if (typeof answer !== "object" || answer === null || Array.isArray(answer)) {
+      throw new InvalidAnalysisError(["the response was not a JSON object"]);
+    }
+    const result: Record<string, unknown> = { ...answer, model, promptVersion: prompt.version };
+
+    // Extract grounding sources
+    const chunks: GroundingChunk[] | undefined = response.groundingMetadata?.groundingChunks;
+    if (chunks) {
+      result.sources = chunks
+        .filter(c => c.web?.uri)
+        .map(c => ({
+          title: c.web.title || c.web.uri,
+          url: c.web.uri
+        }));
+    }
+
+    const parsed = AnalysisResultSchema.safeParse(result);
+    if (!parsed.success) {
+      throw new InvalidAnalysisError(parsed.error.issues.map(issue => `${issue.path.join(".") || "response"}: ${issue.message}`));
+    }
+    return parsed.data;
+  }
+
+  async generateSpeech(text: string, language: string): Promise<string | undefined> {
+    try {
+      const langName = languageName(language);
+
+      // For TTS models, it's often better to just provide the text if it's already in the target language,
+      // but a clear instruction can help with tone/accent.
+      const prompt = `Read this text aloud in ${langName}: ${text}`;
+    
+      const response = await this.generate("speech", {
+        model: this.models.speech,
+        contents: [{ parts: [{ text: prompt }] }],
+        config: {
+          responseModalities: [Modality.AUDIO],
+          speechConfig: {
+            voiceConfig: {
+              prebuiltVoiceConfig: { voiceName: 'Puck' },
+            },
+          },
+        },
+      });
+
+      return response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
+    } catch (error) {
+      logger.error("TTS failed", { error });
+      return undefined;
+    }
+  }
+
+  async extractDetails(transcript: string, language: string, prompt: PromptChoice): Promise<VoiceDetails> {
+    try {
+      const contents = renderPrompt(prompt.template, {
+        transcript,
+        languageName: languageName(language),
+        year: String(new Date().getFullYear()),
+      });
+
+      const response = await this.generate("voice_extract", {
+        model: this.models.extraction,
+        contents,
+        config: {
+          responseMimeType: "application/json",
+          responseSchema: {
+            type: Type.OBJECT,
+            properties: {
+              crop: { type: Type.STRING },
+              location: { type: Type.STRING },
+              date: { type: Type.STRING }
+            }
+          }
+        }
+      });
+
+      return JSON.parse(response.text || "{}");
+    } catch (error) {
+      logger.error("Voice extraction failed", { error });
+      return {};
+    }
+  }
+
+  async askFollowUp(context: FollowUpContext, history: ChatTurn[], question: string, language: string, prompt: PromptChoice, stream: StreamOptions = {}): Promise<string> {
+    const systemInstruction = renderPrompt(prompt.template, {
+      crop: context.crop,
+      location: context.location,
+      date: context.date,
+      languageName: languageName(language),
+      analysis: JSON.stringify(context.analysis),
+    });
+
+    const response = await this.streamText("follow_up", {
+      model: this.models.followUp,
+      contents: [
+        ...history.map(turn => ({ role: turn.role === 'farmer' ? 'user' : 'model', parts: [{ text: turn.content }] })),
+        { role: 'user', parts: [{ text: question }] },
+      ],
+      config: {
+        systemInstruction,
+        tools: [{ googleSearch: {} }]
+      }
+    }, stream.signal, delta => stream.onText?.(delta));
+
+    const answer = response.text?.trim();
+    if (!answer) throw new Error("Empty response from AI");
+    return answer;
+  }
+
+}
@@ -0,0 +1,105 @@
+import type { AnalysisResult, AnalysisStage, VoiceDetails } from "../../src/schemas";
+import type { PromptChoice } from "./prompts";
+
+export const LLM_PROVIDERS = ['gemini', 'offline'] as const;
+export type LlmProviderName = typeof LLM_PROVIDERS[number];
+
+/** The model each kind of call goes to. */
+export interface LlmModels {
+  analysis: string;
+  extraction: string;
+  followUp: string;
+  speech: string;
+}
+
+export interface AnalysisInput {
+  crop: string;
+  location: string;
+  date: string;
+  language: string;
+}
+
+/** What a follow-up conversation is about: the submission and its full analysis. */
+export interface FollowUpContext {
+  crop: string;
+  location: string;
+  date: string;
+  analysis: AnalysisResult;
+}
+
+/** One earlier message in a follow-up conversation. */
+export interface ChatTurn {
+  role: 'farmer' | 'assistant';
+  content: string;
+}
+
+/** For callers that show the model's answer while it is being written. */
+export interface StreamOptions {
+  /** Stops the model call; the pending promise then rejects with `AbortedError`. */
+  signal?: AbortSignal;
+  onStage?: (stage: AnalysisStage) => void;
+  /** New text as it arrives: the advisory's "what may happen" for analyses, the answer for follow-ups. */
+  onText?: (delta: string) => void;
+}
+
+/** The caller aborted the model call, e.g. because the client went away. */
+export class AbortedError extends Error {
+  constructor() {
+    super("Request aborted");
+  }
+}
+
+/** The model's answer could not be read as an analysis; `problems` says why, one entry per field. */
+export class InvalidAnalysisError extends Error {
+  constructor(readonly problems: string[]) {
+    super(`Invalid analysis: ${problems.join("; ")}`);
+  }
+}
+
+/**
+ * Everything the server asks a language model for. `analyze` and `askFollowUp`
+ * throw when no usable answer comes back; the other calls degrade to an empty
+ * answer instead, as the routes that use them expect.
+ */
+export interface LlmProvider {
+  readonly name: LlmProviderName;
+  readonly models: LlmModels;
+  /** Why the provider cannot serve requests, or null when it can. */
+  unavailableReason(): string | null;
+  /**
+   * Resolves to a schema-valid analysis with `model` and `promptVersion` set,
+   * or throws `InvalidAnalysisError`. `problems` lists what was wrong with the
+   * previous answer, so the model can be asked to fix it.
+   */
+  analyze(input: AnalysisInput, prompt: PromptChoice, problems?: string[], stream?: StreamOptions): Promise<AnalysisResult>;
+  extractDetails(transcript: string, language: string, prompt: PromptChoice): Promise<VoiceDetails>;
+  /** Answers `question` given the conversation so far, oldest turn first. */
+  askFollowUp(context: FollowUpContext, history: ChatTurn[], question: string, language: string, prompt: PromptChoice, stream?: StreamOptions): Promise<string>;
+  /** Base64-encoded 24 kHz 16-bit mono PCM, or undefined when speech could not be generated. */
+  generateSpeech(text: string, language: string): Promise<string | undefined>;
+}
+
+const MODEL_ENV: Record<keyof LlmModels, string> = {
+  analysis: "LLM_ANALYSIS_MODEL",
+  extraction: "LLM_EXTRACTION_MODEL",
+  followUp: "LLM_FOLLOW_UP_MODEL",
+  speech: "LLM_SPEECH_MODEL",
+};
+
+/** Provider defaults, overridden per call kind by the `LLM_*_MODEL` variables. */
+export function resolveModels(defaults: LlmModels, env: NodeJS.ProcessEnv = process.env): LlmModels {
+  const models = { ...defaults };
+  for (const key of Object.keys(MODEL_ENV) as (keyof LlmModels)[]) {
+    const configured = env[MODEL_ENV[key]]?.trim();
+    if (configured) models[key] = configured;
+  }
+  return models;
+}
+
+export function languageName(language: string) {
+  return language === 'te' ? 'Telugu' :
+         language === 'hi' ? 'Hindi' :
+         language === 'ta' ? 'Tamil' :
+         language === 'kn' ? 'Kannada' :
+         language === 'ml' ? 'Malayalam' : 'English';
+}
@@ -0,0 +1,163 @@
+import type { OfflineFixture } from "./offlineProvider";
+
+const MONTHS = ["Jan", "Feb", "Mar", "Apr", "May", "Jun", "Jul", "Aug", "Sep", "Oct", "Nov", "Dec"];
+
+function curve(values: number[]) {
+  return values.map((activity, i) => ({ date: MONTHS[i], activity }));
+}
+
+/**
+ * Built-in analyses for `LLM_PROVIDER=offline`: one per risk level, plus a few
+ * crop-specific ones. `{crop}` and `{location}` are filled in from the request.
+ */
+export const DEFAULT_OFFLINE_FIXTURES: OfflineFixture[] = [
+  {
+    crops: ["mango"],
+    result: {
+      bloomingData: curve([35, 80, 95, 60, 20, 5, 0, 0, 0, 5, 10, 20]),
+      pollinationData: curve([10, 30, 55, 85, 60, 25, 10, 5, 5, 5, 5, 8]),
+      riskLevel: "high",
+      riskScore: 8.2,
+      mismatchDays: 18,
+      yieldRiskPercentage: 40,
+      lat: 0,
+      lng: 0,
+      climaticConditions: "Very hot and dry days in {location} while the trees are flowering.",
+      advisory: {
+        whatMayHappen: "Flowers may dry and fall before bees visit them. Fruit count may reduce a lot this season.",
+        expectedYieldChange: "35-45% lower than normal",
+        optionA: {
+          suggestion: "These crops handle the heat better this season.",
+          crops: ["Sorghum", "Pearl millet", "Groundnut"],
+        },
+        optionB: {
+          precautionSteps: [
+            "Give light irrigation every week during flowering.",
+            "Spread mulch around the tree base to keep the soil cool.",
+            "Keep bee boxes near the orchard.",
+            "Spray for mango hopper only in the evening.",
+            "Avoid pruning until fruit set.",
+          ],
+        },
+      },
+    },
+  },
+  {
+    crops: ["rice", "paddy"],
+    result: {
+      bloomingData: curve([0, 0, 5, 10, 20, 40, 70, 90, 75, 30, 10, 0]),
+      pollinationData: curve([0, 0, 5, 10, 15, 30, 55, 70, 80, 45, 15, 0]),
+      riskLevel: "medium",
+      riskScore: 5.4,
+      mismatchDays: 8,
+      yieldRiskPercentage: 20,
+      lat: 0,
+      lng: 0,
+      climaticConditions: "Heavy rain is expected in {location} during flowering.",
+      advisory: {
+        whatMayHappen: "Too much rain during flowering may wash away pollen. Some grains may stay empty.",
+        expectedYieldChange: "15-20% lower than normal",
+        optionA: {
+          suggestion: "Short-duration varieties finish flowering before the heaviest rain.",
+          crops: ["Short-duration rice", "Green gram"],
+        },
+        optionB: {
+          precautionSteps: [
+            "Clear field channels so water drains quickly.",
+            "Do not apply extra nitrogen during flowering.",
+            "Watch for leaf blast after rainy days.",
+            "Keep the water level shallow.",
+          ],
+        },
+      },
+    },
+  },
+  {
+    result: {
+      bloomingData: curve([10, 20, 45, 70, 85, 60, 35, 20, 10, 5, 5, 5]),
+      pollinationData: curve([10, 20, 40, 68, 82, 62, 38, 22, 12, 6, 5, 5]),
+      riskLevel: "low",
+      riskScore: 2.1,
+      mismatchDays: 2,
+      yieldRiskPercentage: 5,
+      lat: 0,
+      lng: 0,
+      climaticConditions: "Normal temperatures and rain for {location} this season.",
+      advisory: {
+        whatMayHappen: "Flowering and insect activity match well. {crop} should set fruit normally.",
+        expectedYieldChange: "About the same as a normal year",
+        optionA: {
+          suggestion: "No change is needed, but these crops also suit the season.",
+          crops: ["Groundnut", "Sesame"],
+        },
+        optionB: {
+          precautionSteps: [
+            "Continue regular irrigation.",
+            "Check leaves for pests once a week.",
+            "Keep weeds down around the plants.",
+            "Plan harvest labour early.",
+          ],
+        },
+      },
+    },
+  },
+  {
+    result: {
+      bloomingData: curve([15, 30, 60, 85, 70, 40, 20, 10, 5, 5, 5, 10]),
+      pollinationData: curve([5, 15, 30, 55, 80, 75, 45, 20, 10, 5, 5, 5]),
+      riskLevel: "medium",
+      riskScore: 5.8,
+      mismatchDays: 10,
+      yieldRiskPercentage: 18,
+      lat: 0,
+      lng: 0,
+      climaticConditions: "Warmer than usual in {location}, with little rain expected.",
+      advisory: {
+        whatMayHappen: "{crop} may flower early, before enough insects are around. Fruit count may reduce.",
+        expectedYieldChange: "10-20% lower than normal",
+        optionA: {
+          suggestion: "These crops need less water in a warm season.",
+          crops: ["Chickpea", "Mustard"],
+        },
+        optionB: {
+          precautionSteps: [
+            "Water in the early morning to keep plants cool.",
+            "Plant flowering borders to attract bees.",
+            "Avoid insecticide sprays during flowering.",
+            "Use mulch to save soil moisture.",
+          ],
+        },
+      },
+    },
+  },
+  {
+    result: {
+      bloomingData: curve([40, 75, 90, 55, 20, 10, 5, 5, 5, 10, 20, 30]),
+      pollinationData: curve([5, 10, 25, 50, 75, 60, 30, 10, 5, 5, 5, 5]),
+      riskLevel: "high",
+      riskScore: 7.6,
+      mismatchDays: 16,
+      yieldRiskPercentage: 35,
+      lat: 0,
+      lng: 0,
+      climaticConditions: "A heatwave is likely in {location} around the target date.",
+      advisory: {
+        whatMayHappen: "Too hot this season. Flowers may fall before insects visit, and {crop} yield may drop sharply.",
+        expectedYieldChange: "30-40% lower than normal",
+        optionA: {
+          suggestion: "These crops handle heat and dry spells better.",
+          crops: ["Pearl millet", "Cluster bean", "Horse gram"],
+        },
+        optionB: {
+          precautionSteps: [
+            "Use shade nets over young plants in the afternoon.",
+            "Irrigate lightly and often instead of flooding.",
+            "Spray a potassium nitrate solution before flowering.",
+            "Keep bee boxes nearby during flowering.",
+            "Remove weeds that compete for water.",
+          ],
+        },
+      },
+    },
+  },
+];
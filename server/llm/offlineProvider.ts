@@ -0,0 +1,127 @@
+import crypto from "crypto";
+import fs from "fs";
+import { z } from "zod";
+import { AnalysisResultSchema } from "../../src/schemas";
+import type { AnalysisResult, VoiceDetails } from "../../src/schemas";
+import { AnalysisStreamTracker, throwIfAborted } from "./analysisStream";
+import type { AnalysisInput, ChatTurn, FollowUpContext, LlmModels, LlmProvider, StreamOptions } from "./llmProvider";
+import type { PromptChoice } from "./prompts";
+import { DEFAULT_OFFLINE_FIXTURES } from "./offlineFixtures";
+
+export const OfflineFixtureSchema = z.object({
+  /** Crops the fixture is meant for (case-insensitive); leave empty to use it for any crop. */
+  crops: z.array(z.string()).optional(),
+  result: AnalysisResultSchema,
+});
+export type OfflineFixture = z.infer<typeof OfflineFixtureSchema>;
+
+const KNOWN_CROPS = ["Mango", "Rice", "Cotton", "Tomato", "Wheat", "Maize", "Chilli", "Groundnut", "Sugarcane", "Banana", "Coffee"];
+const CROP_SYNONYMS: Record<string, string> = { paddy: "Rice", mirchi: "Chilli", corn: "Maize" };
+const MONTHS = ["january", "february", "march", "april", "may", "june", "july", "august", "september", "october", "november", "december"];
+
+// Half a second of silence: enough for the client's audio player to run end to end
+const SILENT_PCM = Buffer.alloc(24000).toString("base64");
+
+/** Reads fixtures from a JSON file (an array of fixtures), or returns the built-in ones. */
+export function loadOfflineFixtures(path?: string): OfflineFixture[] {
+  if (!path) return DEFAULT_OFFLINE_FIXTURES;
+  const parsed = z.array(OfflineFixtureSchema).min(1).safeParse(JSON.parse(fs.readFileSync(path, "utf8")));
+  if (!parsed.success) {
+    throw new Error(`Invalid offline fixtures in ${path}: ${parsed.error.message}`);
+  }
+  return parsed.data;
+}
+
+// Streamed answers arrive in pieces this size, this far apart, so progress is visible in demos
+const STREAM_CHUNK_CHARS = 24;
+const STREAM_CHUNK_DELAY_MS = 15;
+
+/** Plays `text` back in pieces, as a streaming model would. */
+async function playBack(text: string, signal: AbortSignal | undefined, onText: (delta: string) => void) {
+  for (let i = 0; i < text.length; i += STREAM_CHUNK_CHARS) {
+    await new Promise(resolve => setTimeout(resolve, STREAM_CHUNK_DELAY_MS));
+    throwIfAborted(signal);
+    onText(text.slice(i, i + STREAM_CHUNK_CHARS));
+  }
+}
+
+function hash(value: string) {
+  return crypto.createHash("sha256").update(value.trim().toLowerCase()).digest().readUInt32BE(0);
+}
+
+function fill(text: string, input: AnalysisInput) {
+  return text.replaceAll("{crop}", input.crop).replaceAll("{location}", input.location);
+}
+
+/**
+ * Answers from canned fixtures without any network access, for development,
+ * demos and tests. The same request always gets the same answer.
+ */
+export class OfflineProvider implements LlmProvider {
+  static readonly DEFAULT_MODELS: LlmModels = {
+    analysis: "offline-fixtures",
+    extraction: "offline-fixtures",
+    followUp: "offline-fixtures",
+    speech: "offline-fixtures",
+  };
+
+  readonly name = "offline" as const;
+
+  constructor(private readonly fixtures: OfflineFixture[], readonly models: LlmModels) {}
+
+  unavailableReason() {
+    return null;
+  }
+
+  async analyze(input: AnalysisInput, prompt: PromptChoice, _problems: string[] = [], stream: StreamOptions = {}): Promise<AnalysisResult> {
+    const crop = input.crop.trim().toLowerCase();
+    const matching = this.fixtures.filter(f => f.crops?.some(c => c.toLowerCase() === crop));
+    const candidates = matching.length ? matching : this.fixtures.filter(f => !f.crops?.length);
+    const pool = candidates.length ? candidates : this.fixtures;
+    const fixture = pool[hash(`${input.crop}|${input.location}|${input.date}`) % pool.length];
+
+    const result: AnalysisResult = JSON.parse(JSON.stringify(fixture.result), (_key, value) =>
+      typeof value === "string" ? fill(value, input) : value
+    );
+    // Each location gets its own stable point in India so the map does not stack every submission
+    const spot = hash(input.location);
+    result.lat = 8 + (spot % 2200) / 100;
+    result.lng = 70 + ((spot >>> 16) % 1800) / 100;
+    result.model = this.models.analysis;
+    // Fixtures ignore the wording, but recording the version keeps prompt splits testable offline
+    result.promptVersion = prompt.version;
+    const parsed = AnalysisResultSchema.parse(result);
+    if (stream.onStage || stream.onText) {
+      const tracker = new AnalysisStreamTracker(stream);
+      await playBack(JSON.stringify(parsed), stream.signal, delta => tracker.push(delta));
+    }
+    return parsed;
+  }
+
+  async extractDetails(transcript: string): Promise<VoiceDetails> {
+    const text = transcript.toLowerCase();
+    const synonym = Object.keys(CROP_SYNONYMS).find(word => text.includes(word));
+    const crop = synonym ? CROP_SYNONYMS[synonym] : KNOWN_CROPS.find(name => text.includes(name.toLowerCase()));
+    const location = transcript.match(/\b(?:in|at|near|from)\s+([A-Z][\p{L}\s,]*?)(?=\s+(?:on|for|by|during|this|next)\b|[.!?]|$)/u)?.[1]?.trim();
+    const isoDate = transcript.match(/\b\d{4}-\d{2}-\d{2}\b/)?.[0];
+    const month = MONTHS.findIndex(name => text.includes(name));
+    const date = isoDate ?? (month >= 0 ? `${new Date().getFullYear()}-${String(month + 1).padStart(2, "0")}-01` : null);
+    return { crop: crop ?? null, location: location || null, date };
+  }
+
+  async askFollowUp(context: FollowUpContext, history: ChatTurn[], _question: string, _language: string, _prompt: PromptChoice, stream: StreamOptions = {}): Promise<string> {
+    const { analysis } = context;
+    const firstStep = analysis.advisory.optionB.precautionSteps[0];
+    const answer = [
+      `(Offline answer${history.length ? ", continuing our conversation" : ""}) The risk for ${context.crop} in ${context.location} is ${analysis.riskLevel} (${analysis.riskScore}/10).`,
+      analysis.advisory.whatMayHappen,
+      firstStep ? `The most useful step now: ${firstStep}` : "",
+    ].filter(Boolean).join(" ");
+    if (stream.onText) await playBack(answer, stream.signal, stream.onText);
+    return answer;
+  }
+
+  async generateSpeech(): Promise<string | undefined> {
+    return SILENT_PCM;
+  }
+}
@@ -0,0 +1,164 @@
+import type { PromptName } from "../../src/schemas";
+import type { PromptRepository } from "../storage/promptRepository";
+
+/**
+ * The placeholders each prompt is rendered with. Templates mark them as
+ * `{{name}}`; values are filled in verbatim, so a template decides itself
+ * whether to quote them.
+ */
+export const PROMPT_VARIABLES: Record<PromptName, string[]> = {
+  analysis: ["crop", "location", "date", "language", "now"],
+  extraction: ["transcript", "languageName", "year"],
+  follow_up: ["crop", "location", "date", "languageName", "analysis"],
+};
+
+/** Version 1 of every prompt: the wording the app shipped with before prompts could be edited. */
+export const DEFAULT_PROMPTS: Record<PromptName, string> = {
+  analysis: `
+Act as a NASA agricultural scientist and climate expert.
+Analyze the blooming and pollination mismatch for:
+Crop: {{crop}}
+Location: {{location}}
+Target Date: {{date}}
+Response Language: {{language}}
+
+MANDATORY: Use Google Search to find:
+1. REAL-TIME weather data (temperature, rainfall, humidity, wind speed) for {{location}} as of {{now}}.
+2. Forecasted weather for {{location}} around {{date}}.
+3. Specific agricultural challenges, pest alerts (e.g., mango hopper, thrips, powdery mildew), or government advisories in {{location}} for {{crop}} during this season.
+4. Historical blooming and harvest patterns of {{crop}} in this specific region and how this year's weather compares to the 10-year average.
+5. Soil moisture trends and irrigation requirements for {{crop}} in {{location}} given the current weather.
+
+SYSTEM STRUCTURE:
+Layer 1 – Global Climate Intelligence Engine (Internal Processing)
+- Process temperature/rainfall forecasts, seasonal anomalies, vegetation trends, and pollinator activity.
+- Calculate Risk Score (0-10) and Yield Impact based on REAL-TIME data found via search.
+- If search results indicate a heatwave, drought, or unseasonal rain, reflect this in the risk score.
+- Analyze the specific growth stage of {{crop}} (e.g., flowering, fruit set) for the target date.
+- CROSS-REFERENCE multiple sources to ensure prediction efficiency and accuracy.
+
+Layer 2 – Farmer Advisory Layer (Output)
+- CONVERT technical output into simple farmer-understandable language.
+- DO NOT use scientific jargon like NDVI, Anomaly, Correlation, Thermal deviation, or Pollination deficit.
+- Use simple phrases: "Too hot this season", "Too much rain during flowering", "Less insects seen", "Flowers may fall", "Fruit count may reduce".
+- IMPORTANT: Ensure the "climaticConditions" field provides a clear, simple summary of the weather for that location and date in {{language}}.
+- ADVICE MUST BE SPECIFIC: If you suggest a precaution, make sure it's relevant to the specific weather threat found in search (e.g., "Use shade nets if it's too hot" or "Ensure drainage if heavy rain is expected").
+- Mention real local factors if found (e.g., "Local reports from {{location}} say this year is drier than usual").
+- CONSISTENCY CHECK:
+  - If Expected Yield loss is > 30%, Risk Level MUST be 'high'.
+  - If Expected Yield loss is 10-30%, Risk Level MUST be 'medium'.
+  - If Expected Yield loss is < 10%, Risk Level MUST be 'low'.
+  - Ensure the "whatMayHappen" description matches the Risk Level (e.g., don't say "everything is fine" if risk is high).
+- EFFICIENCY: Provide the most practical, low-cost, and high-impact advice first.
+
+ADVISORY FORMAT:
+1. What may happen: Simple explanation of the climate impact on the crop.
+2. Expected Yield: Percentage change (e.g., "10-15% lower than normal").
+3. Option A (Change Crop): Suggest 2-3 safer alternative crops for that season.
+4. Option B (Continue Same Crop): Provide 4-5 practical precaution steps in simple language.
+
+Return the data in the following JSON format:
+{
+  "bloomingData": [{"date": "Jan", "activity": 20}, ...],
+  "pollinationData": [{"date": "Jan", "activity": 15}, ...],
+  "riskLevel": "high",
+  "riskScore": 8.5,
+  "mismatchDays": 12,
+  "yieldRiskPercentage": 45,
+  "lat": 17.3850,
+  "lng": 78.4867,
+  "climaticConditions": "Simple weather description in {{language}}",
+  "advisory": {
+    "whatMayHappen": "Simple explanation in {{language}}",
+    "expectedYieldChange": "e.g., 10-15% lower than normal in {{language}}",
+    "optionA": {
+      "suggestion": "Why these crops are better in {{language}}",
+      "crops": ["Crop 1", "Crop 2"]
+    },
+    "optionB": {
+      "precautionSteps": ["Step 1", "Step 2", "Step 3", "Step 4", "Step 5"]
+    }
+  }
+}
+
+If you cannot find specific data for a location, use regional averages for that crop and season.
+`,
+  extraction: `
+You are an expert agricultural data extractor.
+The following transcript is from a farmer speaking about their crop, location, and target date.
+The transcript is primarily in {{languageName}}, but may contain some English words or be entirely in English.
+
+Transcript: "{{transcript}}"
+
+TASK:
+Extract the following details from the transcript and translate them to English:
+1. "crop": The name of the crop in English (e.g., Mango, Rice, Cotton, Tomato, Wheat, Maize).
+2. "location": The city, district, village, or region in English.
+3. "date": The target date, month, or season. If a month is mentioned, convert it to a date format like "{{year}}-03-01". If only a month is mentioned, assume the year {{year}}.
+
+RULES:
+- Return a valid JSON object ONLY.
+- If a detail is missing, set it to null.
+- Be smart about synonyms (e.g., "Paddy" -> "Rice", "Mirchi" -> "Chilli").
+- If the transcript mentions multiple crops or locations, pick the most prominent one.
+- Ensure the output is in English regardless of the input language.
+
+JSON OUTPUT ONLY:
+`,
+  follow_up: `
+You are a NASA agricultural scientist assistant talking with a farmer about an analysis they received.
+
+CONTEXT:
+Crop: {{crop}}
+Location: {{location}}
+Target date: {{date}}
+Analysis (JSON): {{analysis}}
+
+TASK:
+Answer the farmer's questions based on this analysis, the conversation so far and your general agricultural knowledge.
+Keep the answers simple, practical, and helpful for a farmer.
+Respond in {{languageName}}.
+`,
+};
+
+const PLACEHOLDER = /\{\{\s*(\w+)\s*\}\}/g;
+
+/** A prompt version picked for one model call. */
+export interface PromptChoice {
+  name: PromptName;
+  version: number;
+  template: string;
+}
+
+/** Fills the template's placeholders; ones without a value are left as they are. */
+export function renderPrompt(template: string, values: Record<string, string>) {
+  return template.replace(PLACEHOLDER, (placeholder, key: string) => values[key] ?? placeholder);
+}
+
+/** Placeholders in `template` that `name` has no value for, so a typo cannot reach the model. */
+export function unknownVariables(name: PromptName, template: string): string[] {
+  const used = [...template.matchAll(PLACEHOLDER)].map(match => match[1]);
+  return [...new Set(used)].filter(variable => !PROMPT_VARIABLES[name].includes(variable));
+}
+
+/**
+ * The version of `name` to use for one call: the rollout's candidate for
+ * `candidatePercent`% of calls, the active version for the rest.
+ */
+export function choosePrompt(prompts: PromptRepository, name: PromptName, random = Math.random): PromptChoice {
+  const rollout = prompts.rollout(name);
+  if (!rollout) throw new Error(`Prompt ${name} has not been seeded`);
+  const useCandidate = rollout.candidateVersion !== null && random() * 100 < rollout.candidatePercent;
+  const version = prompts.getVersion(name, useCandidate ? rollout.candidateVersion : rollout.activeVersion);
+  if (!version) throw new Error(`Prompt ${name} has no version ${useCandidate ? rollout.candidateVersion : rollout.activeVersion}`);
+  return { name, version: version.version, template: version.template };
+}
+
+/** Stores the built-in prompts as version 1 of any prompt that has no versions yet. */
+export function seedPrompts(prompts: PromptRepository) {
+  for (const [name, template] of Object.entries(DEFAULT_PROMPTS) as [PromptName, string][]) {
+    if (prompts.rollout(name)) continue;
+    const version = prompts.versions(name)[0] ?? prompts.addVersion(name, template.trim(), "Built-in", null);
+    prompts.setRollout(name, { activeVersion: version.version, candidateVersion: null, candidatePercent: 0 });
+  }
+}
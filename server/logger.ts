@@ -0,0 +1,96 @@
+import crypto from "crypto";
+import { AsyncLocalStorage } from "async_hooks";
+import type { NextFunction, Request, Response } from "express";
+
+declare global {
+  namespace Express {
+    interface Request {
+      id?: string;
+    }
+  }
+}
+
+const LEVELS = { debug: 10, info: 20, warn: 30, error: 40 } as const;
+type Level = keyof typeof LEVELS;
+
+export const REQUEST_ID_HEADER = "X-Request-Id";
+// Caller-supplied IDs are kept only when they are short and log-safe
+const REQUEST_ID_PATTERN = /^[\w.:-]{1,64}$/;
+
+const context = new AsyncLocalStorage<Record<string, unknown>>();
+
+function threshold() {
+  const level = (process.env.LOG_LEVEL || "info").toLowerCase();
+  return level in LEVELS ? LEVELS[level as Level] : LEVELS.info;
+}
+
+function serialize(value: unknown): unknown {
+  if (value instanceof Error) {
+    return { name: value.name, message: value.message, stack: value.stack };
+  }
+  return value;
+}
+
+function write(level: Level, msg: string, fields: Record<string, unknown> = {}) {
+  if (LEVELS[level] < threshold()) return;
+  const entry: Record<string, unknown> = { time: new Date().toISOString(), level, msg, ...context.getStore() };
+  for (const [key, value] of Object.entries(fields)) {
+    entry[key] = serialize(value);
+  }
+  const stream = level === "error" || level === "warn" ? process.stderr : process.stdout;
+  stream.write(JSON.stringify(entry) + "\n");
+}
+
+/**
+ * Writes one JSON object per line. Entries logged while a request is being
+ * handled carry its `requestId`, so everything one request did can be grepped
+ * together.
+ */
+export const logger = {
+  debug: (msg: string, fields?: Record<string, unknown>) => write("debug", msg, fields),
+  info: (msg: string, fields?: Record<string, unknown>) => write("info", msg, fields),
+  warn: (msg: string, fields?: Record<string, unknown>) => write("warn", msg, fields),
+  error: (msg: string, fields?: Record<string, unknown>) => write("error", msg, fields),
+};
+
+/**
+ * Runs `fn` with its own log fields in place of the current request's, for
+ * background work that outlives the request that started it.
+ */
+export function withLogContext<T>(fields: Record<string, unknown>, fn: () => T): T {
+  return context.run(fields, fn);
+}
+
+/** Query-string tokens (used by EventSource) never reach the log. */
+export function redactUrl(url: string) {
+  return url.replace(/([?&]token=)[^&]*/, "$1[redacted]");
+}
+
+/**
+ * Tags each request with an ID, echoed in the `X-Request-Id` response header,
+ * and logs one line when the response is finished.
+ */
+export function requestLogger() {
+  return (req: Request, res: Response, next: NextFunction) => {
+    const incoming = req.header(REQUEST_ID_HEADER);
+    const requestId = incoming && REQUEST_ID_PATTERN.test(incoming) ? incoming : crypto.randomUUID();
+    const start = process.hrtime.bigint();
+    req.id = requestId;
+    res.setHeader(REQUEST_ID_HEADER, requestId);
+
+    res.on("finish", () => {
+      const durationMs = Number(process.hrtime.bigint() - start) / 1e6;
+      const level = res.statusCode >= 500 ? "error" : "info";
+      write(level, "request completed", {
+        requestId,
+        method: req.method,
+        url: redactUrl(req.originalUrl),
+        status: res.statusCode,
+        durationMs: Math.round(durationMs * 10) / 10,
+        userId: req.user?.id,
+      });
+    });
+
+    context.run({ requestId }, next);
+  };
+}
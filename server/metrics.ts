@@ -0,0 +1,119 @@
+import fs from "fs";
+import client from "prom-client";
+import type { NextFunction, Request, Response } from "express";
+import { AbortedError } from "./llm/llmProvider";
+import type { SubmissionRepository } from "./storage/submissionRepository";
+
+/** Everything `/metrics` exposes, including Node's default process metrics. */
+export const registry = new client.Registry();
+client.collectDefaultMetrics({ register: registry });
+
+const httpRequestDuration = new client.Histogram({
+  name: "http_request_duration_seconds",
+  help: "HTTP request latency by route pattern",
+  labelNames: ["method", "route", "status"],
+  buckets: [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60],
+  registers: [registry],
+});
+
+const geminiRequestDuration = new client.Histogram({
+  name: "bloomsync_gemini_request_duration_seconds",
+  help: "Gemini API call latency by operation and outcome (success, error, aborted)",
+  labelNames: ["operation", "outcome"],
+  buckets: [0.25, 0.5, 1, 2, 5, 10, 20, 30, 60, 120],
+  registers: [registry],
+});
+
+const geminiErrors = new client.Counter({
+  name: "bloomsync_gemini_errors_total",
+  help: "Gemini API calls that threw, by operation",
+  labelNames: ["operation"],
+  registers: [registry],
+});
+
+const analysisCorrections = new client.Counter({
+  name: "bloomsync_analysis_corrections_total",
+  help: "Problems found in model analyses, by field and what was done (reprompted, repaired, unresolved)",
+  labelNames: ["field", "action"],
+  registers: [registry],
+});
+
+const submissionsCreated = new client.Counter({
+  name: "bloomsync_submissions_created_total",
+  help: "Submissions saved since the server started",
+  registers: [registry],
+});
+
+const webhookDeliveries = new client.Counter({
+  name: "bloomsync_webhook_deliveries_total",
+  help: "Webhook delivery attempts by outcome (delivered, retrying, failed)",
+  labelNames: ["outcome"],
+  registers: [registry],
+});
+
+/** Records the latency of every response under its route pattern, e.g. `/api/submissions/:id`. */
+export function trackRequests() {
+  return (req: Request, res: Response, next: NextFunction) => {
+    const end = httpRequestDuration.startTimer();
+    res.on("finish", () => {
+      // Unmatched paths share one label so random URLs cannot blow up the series count
+      const route = req.route ? `${req.baseUrl}${req.route.path}` : "unmatched";
+      end({ method: req.method, route, status: String(res.statusCode) });
+    });
+    next();
+  };
+}
+
+/** Times a Gemini call and counts it as an error when it throws, unless the caller aborted it. */
+export async function observeGemini<T>(operation: string, call: () => Promise<T>): Promise<T> {
+  const end = geminiRequestDuration.startTimer({ operation });
+  try {
+    const result = await call();
+    end({ outcome: "success" });
+    return result;
+  } catch (error) {
+    if (error instanceof AbortedError) {
+      end({ outcome: "aborted" });
+    } else {
+      end({ outcome: "error" });
+      geminiErrors.inc({ operation });
+    }
+    throw error;
+  }
+}
+
+export function countAnalysisCorrection(field: string, action: "reprompted" | "repaired" | "unresolved") {
+  analysisCorrections.inc({ field, action });
+}
+
+export function countSubmissionCreated() {
+  submissionsCreated.inc();
+}
+
+export function countWebhookDelivery(outcome: "delivered" | "retrying" | "failed") {
+  webhookDeliveries.inc({ outcome });
+}
+
+/** Gauges read from the store each time `/metrics` is scraped. */
+export function registerStoreMetrics(repo: SubmissionRepository, dbPath: string) {
+  new client.Gauge({
+    name: "bloomsync_submissions",
+    help: "Live (not trashed) submissions in the store",
+    registers: [registry],
+    collect() {
+      this.set(repo.count());
+    },
+  });
+
+  new client.Gauge({
+    name: "bloomsync_db_size_bytes",
+    help: "Size of the SQLite database, including its write-ahead log",
+    registers: [registry],
+    collect() {
+      const size = [dbPath, `${dbPath}-wal`]
+        .map(file => (fs.existsSync(file) ? fs.statSync(file).size : 0))
+        .reduce((a, b) => a + b, 0);
+      this.set(size);
+    },
+  });
+}
@@ -0,0 +1,629 @@
+import { z } from "zod";
+import {
+  AccuracyReportSchema,
+  AdminStatsSchema,
+  AnalysisCacheEntrySchema,
+  AnalysisCacheSummarySchema,
+  AnalysisResultSchema,
+  AnalyzeRequestSchema,
+  AnalyzeResponseSchema,
+  AuditEntrySchema,
+  AuditPageSchema,
+  AuthResponseSchema,
+  AuthUserSchema,
+  BackupListSchema,
+  BackupRestoreSchema,
+  BackupSchema,
+  BatchDetailSchema,
+  BatchItemSchema,
+  BatchSchema,
+  ChoiceUpdateSchema,
+  CountResponseSchema,
+  CreatedWebhookSchema,
+  ErrorResponseSchema,
+  FollowUpMessageSchema,
+  FollowUpQuestionSchema,
+  HealthSchema,
+  LoginSchema,
+  MapZoneSchema,
+  MessageResponseSchema,
+  NewSubmissionSchema,
+  NewPromptVersionSchema,
+  NewTenantSchema,
+  NewUserSchema,
+  NewWebhookSchema,
+  OutcomeInputSchema,
+  PromptRolloutSchema,
+  PromptSummarySchema,
+  PromptVersionSchema,
+  RegistrationSchema,
+  SpeechRequestSchema,
+  SpeechResponseSchema,
+  SubmissionPageSchema,
+  SubmissionSchema,
+  TenantSchema,
+  TenantSummarySchema,
+  TenantUpdateSchema,
+  UserUpdateSchema,
+  VoiceDetailsSchema,
+  VoiceExtractRequestSchema,
+  WebhookDeliveryPageSchema,
+  WebhookDeliverySchema,
+  WebhookDeliveryStatusSchema,
+  WebhookSchema,
+  WebhookUpdateSchema,
+} from "../src/schemas";
+import { BATCH_RESULT_FORMATS, EXPORT_FORMATS } from "./exporters";
+import { AUDIT_ACTIONS } from "./storage/auditLogRepository";
+import { SORT_FIELDS } from "./storage/submissionRepository";
+import { DEFAULT_PAGE_SIZE, MAX_PAGE_SIZE } from "./submissionQuery";
+
+// Named component schemas. Request bodies are converted as zod *input* types,
+// so fields with defaults are optional; everything else as output types.
+const REQUEST_SCHEMAS = {
+  AnalysisResult: AnalysisResultSchema,
+  AnalyzeRequest: AnalyzeRequestSchema,
+  ChoiceUpdate: ChoiceUpdateSchema,
+  FollowUpQuestion: FollowUpQuestionSchema,
+  Login: LoginSchema,
+  NewPromptVersion: NewPromptVersionSchema,
+  NewSubmission: NewSubmissionSchema,
+  NewTenant: NewTenantSchema,
+  NewUser: NewUserSchema,
+  NewWebhook: NewWebhookSchema,
+  OutcomeInput: OutcomeInputSchema,
+  PromptRollout: PromptRolloutSchema,
+  Registration: RegistrationSchema,
+  SpeechRequest: SpeechRequestSchema,
+  TenantUpdate: TenantUpdateSchema,
+  UserUpdate: UserUpdateSchema,
+  VoiceExtractRequest: VoiceExtractRequestSchema,
+  WebhookUpdate: WebhookUpdateSchema,
+};
+
+const RESPONSE_SCHEMAS = {
+  AccuracyReport: AccuracyReportSchema,
+  AdminStats: AdminStatsSchema,
+  AnalysisCacheEntry: AnalysisCacheEntrySchema,
+  AnalysisCacheSummary: AnalysisCacheSummarySchema,
+  AnalysisResult: AnalysisResultSchema,
+  AnalyzeResponse: AnalyzeResponseSchema,
+  AuditEntry: AuditEntrySchema,
+  AuditPage: AuditPageSchema,
+  AuthResponse: AuthResponseSchema,
+  AuthUser: AuthUserSchema,
+  Backup: BackupSchema,
+  BackupList: BackupListSchema,
+  BackupRestore: BackupRestoreSchema,
+  Batch: BatchSchema,
+  BatchDetail: BatchDetailSchema,
+  BatchItem: BatchItemSchema,
+  CountResponse: CountResponseSchema,
+  CreatedWebhook: CreatedWebhookSchema,
+  ErrorResponse: ErrorResponseSchema,
+  FollowUpMessage: FollowUpMessageSchema,
+  Health: HealthSchema,
+  MapZone: MapZoneSchema,
+  MessageResponse: MessageResponseSchema,
+  PromptSummary: PromptSummarySchema,
+  PromptVersion: PromptVersionSchema,
+  Submission: SubmissionSchema,
+  SubmissionPage: SubmissionPageSchema,
+  SpeechResponse: SpeechResponseSchema,
+  Tenant: TenantSchema,
+  TenantSummary: TenantSummarySchema,
+  VoiceDetails: VoiceDetailsSchema,
+  Webhook: WebhookSchema,
+  WebhookDelivery: WebhookDeliverySchema,
+  WebhookDeliveryPage: WebhookDeliveryPageSchema,
+};
+
+type SchemaName = keyof typeof REQUEST_SCHEMAS | keyof typeof RESPONSE_SCHEMAS;
+type JsonSchema = Record<string, unknown>;
+
+function componentSchemas(schemas: Record<string, z.ZodType>, io: "input" | "output") {
+  const registry = z.registry<{ id: string }>();
+  for (const [id, schema] of Object.entries(schemas)) {
+    registry.add(schema, { id });
+  }
+  const { schemas: converted } = z.toJSONSchema(registry, { io, uri: id => `#/components/schemas/${id}` });
+  // Each component comes back as a standalone JSON Schema document
+  return Object.fromEntries(
+    Object.entries(converted).map(([id, { $schema, $id, ...schema }]) => [id, schema as JsonSchema])
+  );
+}
+
+const ref = (name: SchemaName): JsonSchema => ({ $ref: `#/components/schemas/${name}` });
+const arrayOf = (name: SchemaName): JsonSchema => ({ type: "array", items: ref(name) });
+
+interface Parameter {
+  name: string;
+  description: string;
+  schema: JsonSchema;
+  required?: boolean;
+}
+
+const str = (description: string, extra: JsonSchema = {}): Omit<Parameter, "name"> => ({ description, schema: { type: "string", ...extra } });
+const num = (description: string, extra: JsonSchema = {}): Omit<Parameter, "name"> => ({ description, schema: { type: "number", ...extra } });
+const csv = (description: string, values?: readonly string[]): Omit<Parameter, "name"> => ({
+  description: `${description} Comma-separated or repeated.`,
+  schema: { type: "array", items: values ? { type: "string", enum: [...values] } : { type: "string" } },
+});
+
+const params = (defs: Record<string, Omit<Parameter, "name">>) => Object.entries(defs).map(([name, def]) => ({ name, ...def }));
+
+const SUBMISSION_FILTER = params({
+  crop: csv("Crop names, case-insensitive."),
+  riskLevel: csv("Risk levels.", ['low', 'medium', 'high']),
+  choice: csv("Farmer decisions; `none` matches undecided submissions.", ['A', 'B', 'none']),
+  dateFrom: str("Earliest target date.", { format: "date" }),
+  dateTo: str("Latest target date.", { format: "date" }),
+  since: str("Created at or after; epoch milliseconds or an ISO date."),
+  until: str("Created at or before; epoch milliseconds or an ISO date."),
+  minLat: num("Southern edge of a bounding box.", { minimum: -90, maximum: 90 }),
+  maxLat: num("Northern edge of a bounding box.", { minimum: -90, maximum: 90 }),
+  minLng: num("Western edge of a bounding box.", { minimum: -180, maximum: 180 }),
+  maxLng: num("Eastern edge of a bounding box.", { minimum: -180, maximum: 180 }),
+  q: str("Substring of the location."),
+});
+
+const PAGINATION = params({
+  limit: num(`Page size, ${DEFAULT_PAGE_SIZE} by default.`, { minimum: 1, maximum: MAX_PAGE_SIZE }),
+  cursor: str("`nextCursor` from the previous page."),
+});
+
+const SUBMISSION_QUERY = [
+  ...SUBMISSION_FILTER,
+  ...params({
+    sort: str("Sort field.", { enum: [...SORT_FIELDS], default: "timestamp" }),
+    order: str("Sort direction.", { enum: ["asc", "desc"], default: "desc" }),
+  }),
+  ...PAGINATION,
+];
+
+// Only super-admins may pick a tenant; everyone else always gets their own
+const TENANT_SCOPE = params({
+  tenant: str("Super-admins only: one tenant's id instead of every tenant. Ignored for everyone else."),
+});
+
+const CACHE_FILTER = params({
+  crop: str("Crop; normalised like the cache key."),
+  location: str("Location; normalised like the cache key."),
+  language: str("Advisory language."),
+});
+
+/** `scientist` routes admit admins too; `super-admin` means an admin outside every tenant. */
+type Access = "public" | "signed-in" | "scientist" | "admin" | "super-admin";
+type Method = "get" | "post" | "put" | "patch" | "delete";
+
+interface Route {
+  summary: string;
+  tag: string;
+  access: Access;
+  description?: string;
+  query?: Parameter[];
+  body?: SchemaName | { contentType: string; description: string };
+  /** Status code → JSON schema or non-JSON content type; errors default to `ErrorResponse`. */
+  responses: Record<number, { description?: string; schema?: SchemaName | JsonSchema; contentType?: string }>;
+}
+
+const ERROR_DESCRIPTIONS: Record<number, string> = {
+  400: "Invalid query or body",
+  401: "Not signed in",
+  403: "Signed in without the required role",
+  404: "Not found",
+  409: "Conflict",
+  502: "The model call failed",
+};
+
+// Express-style paths; `:id` becomes `{id}` in the document
+const ROUTES: Record<string, Partial<Record<Method, Route>>> = {
+  "/api/health": {
+    get: {
+      summary: "Readiness check", tag: "System", access: "public",
+      description: "200 when the store accepts writes and the model provider is configured, 503 otherwise.",
+      responses: { 200: { description: "Ready", schema: "Health" }, 503: { description: "Not ready", schema: "Health" } },
+    },
+  },
+  "/api/docs": {
+    get: {
+      summary: "This OpenAPI document", tag: "System", access: "public",
+      responses: { 200: { description: "OpenAPI 3.1 document", schema: { type: "object" } } },
+    },
+  },
+  "/metrics": {
+    get: {
+      summary: "Prometheus metrics", tag: "System", access: "public",
+      description: "Requires `Authorization: Bearer <METRICS_TOKEN>` when METRICS_TOKEN is set.",
+      responses: { 200: { description: "Prometheus text exposition format", contentType: "text/plain" } },
+    },
+  },
+  "/api/auth/register": {
+    post: {
+      summary: "Create a farmer account and sign in", tag: "Auth", access: "public", body: "Registration",
+      description: "The account joins the tenant whose slug is given as `organisation`, or the default tenant.",
+      responses: { 201: { description: "Signed in", schema: "AuthResponse" }, 400: {}, 409: {} },
+    },
+  },
+  "/api/auth/login": {
+    post: {
+      summary: "Sign in", tag: "Auth", access: "public", body: "Login",
+      responses: { 200: { description: "Signed in", schema: "AuthResponse" }, 400: {}, 401: { description: "Invalid username or password" } },
+    },
+  },
+  "/api/auth/me": {
+    get: { summary: "The signed-in user", tag: "Auth", access: "signed-in", responses: { 200: { description: "Current user", schema: "AuthUser" } } },
+  },
+  "/api/users": {
+    get: {
+      summary: "List users", tag: "Users", access: "admin", query: TENANT_SCOPE,
+      responses: { 200: { description: "Every account in the caller's tenant, or in every tenant for super-admins", schema: arrayOf("AuthUser") } },
+    },
+    post: {
+      summary: "Create a user with any role", tag: "Users", access: "admin", body: "NewUser",
+      description: "Tenant admins create accounts in their own tenant. Super-admins choose one with `tenantId`.",
+      responses: { 201: { description: "Created", schema: "AuthUser" }, 400: {}, 409: {} },
+    },
+  },
+  "/api/users/:id": {
+    patch: {
+      summary: "Change a user's role, password or tenant", tag: "Users", access: "admin", body: "UserUpdate",
+      responses: { 200: { description: "Updated", schema: "AuthUser" }, 400: {}, 404: {} },
+    },
+    delete: {
+      summary: "Delete a user", tag: "Users", access: "admin",
+      responses: { 200: { description: "Deleted", schema: "MessageResponse" }, 400: {}, 404: {} },
+    },
+  },
+  "/api/events": {
+    get: {
+      summary: "Live updates", tag: "Submissions", access: "signed-in",
+      description: "Server-Sent Events stream. EventSource cannot send headers, so the token may be passed as `?token=`.",
+      query: params({ token: str("Bearer token, for clients that cannot set headers.") }),
+      responses: { 200: { description: "Event stream", contentType: "text/event-stream" } },
+    },
+  },
+  "/api/submissions": {
+    get: {
+      summary: "The caller's submissions", tag: "Submissions", access: "signed-in", query: SUBMISSION_QUERY,
+      responses: { 200: { description: "One page, newest first by default", schema: "SubmissionPage" }, 400: {} },
+    },
+    post: {
+      summary: "Save a submission", tag: "Submissions", access: "signed-in", body: "NewSubmission",
+      responses: { 201: { description: "Saved", schema: "Submission" }, 400: {} },
+    },
+    delete: {
+      summary: "Move the caller's whole history to the trash", tag: "Submissions", access: "signed-in",
+      responses: { 200: { description: "Cleared", schema: "CountResponse" } },
+    },
+  },
+  "/api/submissions/trash": {
+    get: {
+      summary: "The caller's trashed submissions", tag: "Submissions", access: "signed-in", query: SUBMISSION_QUERY,
+      responses: { 200: { description: "One page", schema: "SubmissionPage" }, 400: {} },
+    },
+  },
+  "/api/submissions/crops": {
+    get: {
+      summary: "Every crop with a live submission in the caller's tenant", tag: "Submissions", access: "signed-in", query: TENANT_SCOPE,
+      responses: { 200: { description: "Crop names", schema: { type: "array", items: { type: "string" } } } },
+    },
+  },
+  "/api/submissions/export": {
+    get: {
+      summary: "Export submissions", tag: "Admin", access: "admin",
+      query: [...SUBMISSION_FILTER, ...TENANT_SCOPE, ...params({ format: str("File format.", { enum: [...EXPORT_FORMATS], default: "csv" }) })],
+      responses: { 200: { description: "CSV, XLSX, GeoJSON or JSON attachment", contentType: "application/octet-stream" }, 400: {} },
+    },
+  },
+  "/api/submissions/:id": {
+    delete: {
+      summary: "Move a submission to the trash", tag: "Submissions", access: "signed-in",
+      responses: { 200: { description: "Trashed", schema: "Submission" }, 404: {} },
+    },
+  },
+  "/api/submissions/:id/choice": {
+    patch: {
+      summary: "Record the farmer's decision", tag: "Submissions", access: "signed-in", body: "ChoiceUpdate",
+      responses: { 200: { description: "Updated", schema: "Submission" }, 400: {}, 404: {} },
+    },
+  },
+  "/api/submissions/:id/outcome": {
+    put: {
+      summary: "Report the harvest outcome", tag: "Submissions", access: "signed-in", body: "OutcomeInput",
+      description: "Only the owner can report. Reporting again replaces the earlier outcome.",
+      responses: { 200: { description: "Updated", schema: "Submission" }, 400: {}, 404: {} },
+    },
+  },
+  "/api/submissions/:id/thread": {
+    get: {
+      summary: "The follow-up conversation about a submission", tag: "Analysis", access: "signed-in",
+      description: "Only the owner can read it. Messages are oldest first.",
+      responses: { 200: { description: "Messages", schema: arrayOf("FollowUpMessage") }, 404: {} },
+    },
+    post: {
+      summary: "Ask a follow-up question about a submission", tag: "Analysis", access: "signed-in", body: "FollowUpQuestion",
+      description: "Only the owner can ask. The model gets the crop, location, the full analysis and the conversation so far. Returns the whole conversation, including the new question and answer.",
+      responses: { 201: { description: "Messages", schema: arrayOf("FollowUpMessage") }, 400: {}, 404: {}, 409: {}, 502: {} },
+    },
+  },
+  "/api/submissions/:id/thread/stream": {
+    post: {
+      summary: "Ask a follow-up question, streaming the answer", tag: "Analysis", access: "signed-in", body: "FollowUpQuestion",
+      description: "Server-Sent Events. `text` events (`{ text }`) carry the answer as it is written. The stream ends with `result` (the whole conversation) or `error`. Closing the connection cancels the question, and nothing is stored.",
+      responses: { 200: { description: "Event stream", contentType: "text/event-stream" }, 400: {}, 404: {}, 409: {}, 502: {} },
+    },
+  },
+  "/api/submissions/:id/restore": {
+    post: {
+      summary: "Restore a submission from the trash", tag: "Submissions", access: "signed-in",
+      responses: { 200: { description: "Restored", schema: "Submission" }, 404: {} },
+    },
+  },
+  "/api/map/zones": {
+    get: {
+      summary: "Anonymised map zones", tag: "Submissions", access: "signed-in", query: [...SUBMISSION_FILTER, ...TENANT_SCOPE],
+      description: "Live submissions from every farmer in the caller's tenant, grouped by rounded coordinates, crop and risk level. Groups with fewer than `MAP_ZONE_MIN_COUNT` reports (3 by default) are left out, and each zone names only its region and the month of its latest report.",
+      responses: { 200: { description: "Zones", schema: arrayOf("MapZone") }, 400: {} },
+    },
+  },
+  "/api/analyze": {
+    post: {
+      summary: "Analyse a crop and save the result", tag: "Analysis", access: "signed-in", body: "AnalyzeRequest",
+      description: "Returns the caller's existing submission for the same crop, location and date instead of saving another, updated to the new analysis if it held a different one (e.g. in another language). A submission whose harvest was reported keeps its analysis and the new one is saved alongside it. With `forceRefresh`, that submission is moved to the trash and replaced, unless a harvest was reported for it.",
+      responses: { 200: { description: "Analysis and the saved submission", schema: "AnalyzeResponse" }, 400: {}, 502: {} },
+    },
+  },
+  "/api/analyze/stream": {
+    post: {
+      summary: "Analyse a crop and save the result, streaming progress", tag: "Analysis", access: "signed-in", body: "AnalyzeRequest",
+      description: "Server-Sent Events. `stage` events (`{ stage }`: searching_weather, assessing_bloom, drafting_advice, checking_results, saving) report progress, and `text` events (`{ text }`) carry the advisory's \"what may happen\" text as it is written. A new `searching_weather` means the model is trying again, so the text starts over. The stream ends with `result` (an AnalyzeResponse) or `error`. Closing the connection cancels the analysis, and nothing is saved.",
+      responses: { 200: { description: "Event stream", contentType: "text/event-stream" }, 400: {} },
+    },
+  },
+  "/api/speech": {
+    post: {
+      summary: "Read text aloud", tag: "Analysis", access: "signed-in", body: "SpeechRequest",
+      responses: { 200: { description: "Audio", schema: "SpeechResponse" }, 400: {}, 502: {} },
+    },
+  },
+  "/api/voice/extract": {
+    post: {
+      summary: "Pick crop, location and date out of a spoken transcript", tag: "Analysis", access: "signed-in", body: "VoiceExtractRequest",
+      responses: { 200: { description: "Extracted details", schema: "VoiceDetails" }, 400: {}, 502: {} },
+    },
+  },
+  "/api/batches": {
+    get: { summary: "The caller's bulk imports", tag: "Batches", access: "signed-in", responses: { 200: { description: "Newest first", schema: arrayOf("Batch") } } },
+    post: {
+      summary: "Upload a CSV or XLSX file for bulk analysis", tag: "Batches", access: "signed-in",
+      query: params({ filename: str("Original file name."), language: str("Advisory language.", { default: "en" }) }),
+      body: { contentType: "application/octet-stream", description: "The CSV or XLSX file, up to 200 rows with crop, location and date columns" },
+      responses: { 201: { description: "Queued", schema: "Batch" }, 400: {} },
+    },
+  },
+  "/api/batches/:id": {
+    get: {
+      summary: "A bulk import with every row", tag: "Batches", access: "signed-in",
+      responses: { 200: { description: "Batch", schema: "BatchDetail" }, 404: {} },
+    },
+  },
+  "/api/batches/:id/results": {
+    get: {
+      summary: "Download a bulk import's results", tag: "Batches", access: "signed-in",
+      query: params({ format: str("File format.", { enum: [...BATCH_RESULT_FORMATS], default: "csv" }) }),
+      responses: { 200: { description: "CSV or XLSX attachment", contentType: "application/octet-stream" }, 400: {}, 404: {} },
+    },
+  },
+  "/api/scientist/accuracy": {
+    get: {
+      summary: "Predicted versus reported yield loss", tag: "Scientist", access: "scientist", query: [...SUBMISSION_FILTER, ...TENANT_SCOPE],
+      description: "Covers submissions with both an analysis and a harvest outcome, broken down by risk level, crop, region and model.",
+      responses: { 200: { description: "Accuracy report", schema: "AccuracyReport" }, 400: {} },
+    },
+  },
+  "/api/admin/stats": {
+    get: {
+      summary: "Aggregated statistics", tag: "Admin", access: "admin",
+      query: [...SUBMISSION_FILTER, ...TENANT_SCOPE, ...params({ interval: str("Time series bucket.", { enum: ["day", "week", "month"], default: "day" }) })],
+      responses: { 200: { description: "Statistics", schema: "AdminStats" }, 400: {} },
+    },
+  },
+  "/api/admin/tenants": {
+    get: {
+      summary: "Every tenant with its counts", tag: "Admin", access: "super-admin",
+      responses: { 200: { description: "Oldest first", schema: arrayOf("TenantSummary") } },
+    },
+    post: {
+      summary: "Add a tenant", tag: "Admin", access: "super-admin", body: "NewTenant",
+      responses: { 201: { description: "Created", schema: "Tenant" }, 400: {}, 409: {} },
+    },
+  },
+  "/api/admin/tenants/:id": {
+    patch: {
+      summary: "Rename a tenant", tag: "Admin", access: "super-admin", body: "TenantUpdate",
+      responses: { 200: { description: "Updated", schema: "Tenant" }, 400: {}, 404: {} },
+    },
+    delete: {
+      summary: "Remove an empty tenant", tag: "Admin", access: "super-admin",
+      description: "Fails with 409 while the tenant still has users or submissions. The default tenant cannot be removed.",
+      responses: { 200: { description: "Deleted", schema: "MessageResponse" }, 400: {}, 404: {}, 409: {} },
+    },
+  },
+  "/api/admin/prompts": {
+    get: {
+      summary: "Every prompt with its versions and rollout", tag: "Admin", access: "super-admin",
+      responses: { 200: { description: "Prompts", schema: arrayOf("PromptSummary") } },
+    },
+  },
+  "/api/admin/prompts/:name/versions": {
+    post: {
+      summary: "Save a new prompt version", tag: "Admin", access: "super-admin", body: "NewPromptVersion",
+      description: "The version is not used until the rollout names it. Placeholders must be among the prompt's `variables`.",
+      responses: { 201: { description: "Created", schema: "PromptVersion" }, 400: {}, 404: {} },
+    },
+  },
+  "/api/admin/prompts/:name/rollout": {
+    put: {
+      summary: "Choose the prompt versions in use", tag: "Admin", access: "super-admin", body: "PromptRollout",
+      description: "`candidatePercent`% of calls get the candidate version and the rest the active one. Compare the two in the admin stats' `byPrompt`.",
+      responses: { 200: { description: "Updated", schema: "PromptSummary" }, 400: {}, 404: {} },
+    },
+  },
+  "/api/admin/audit": {
+    get: {
+      summary: "Audit log", tag: "Admin", access: "admin",
+      query: [
+        ...params({
+          action: csv("Actions.", AUDIT_ACTIONS),
+          actorId: str("User who made the change."),
+          entityId: str("Record that was changed."),
+          since: str("At or after; epoch milliseconds or an ISO date."),
+          until: str("At or before; epoch milliseconds or an ISO date."),
+        }),
+        ...TENANT_SCOPE,
+        ...PAGINATION,
+      ],
+      responses: { 200: { description: "One page, newest first", schema: "AuditPage" }, 400: {} },
+    },
+  },
+  "/api/admin/cache": {
+    get: {
+      summary: "List analysis cache entries", tag: "Admin", access: "super-admin",
+      query: [...CACHE_FILTER, PAGINATION[0]],
+      responses: { 200: { description: "Newest first", schema: arrayOf("AnalysisCacheSummary") }, 400: {} },
+    },
+    delete: {
+      summary: "Invalidate matching cache entries", tag: "Admin", access: "super-admin", query: CACHE_FILTER,
+      description: "Without filters the whole cache is emptied.",
+      responses: { 200: { description: "Invalidated", schema: "CountResponse" }, 400: {} },
+    },
+  },
+  "/api/admin/cache/:key": {
+    get: {
+      summary: "One cache entry with its analysis", tag: "Admin", access: "super-admin",
+      responses: { 200: { description: "Entry", schema: "AnalysisCacheEntry" }, 404: {} },
+    },
+    delete: {
+      summary: "Invalidate one cache entry", tag: "Admin", access: "super-admin",
+      responses: { 200: { description: "Invalidated", schema: "MessageResponse" }, 404: {} },
+    },
+  },
+  "/api/admin/backups": {
+    get: {
+      summary: "List backups", tag: "Admin", access: "super-admin",
+      responses: { 200: { description: "Newest first, with the current schema version", schema: "BackupList" } },
+    },
+    post: {
+      summary: "Take a backup", tag: "Admin", access: "super-admin",
+      description: "Snapshots the whole database into `BACKUP_DIR`.",
+      responses: { 201: { description: "Backup written", schema: "Backup" } },
+    },
+  },
+  "/api/admin/backups/:name/restore": {
+    post: {
+      summary: "Restore submissions from a backup", tag: "Admin", access: "super-admin",
+      description: "Replaces every submission, live or trashed, with the backup's and migrates them to the current schema version. A `pre-restore` backup is taken first.",
+      responses: { 200: { description: "Restored", schema: "BackupRestore" }, 400: {}, 404: {} },
+    },
+  },
+  "/api/admin/webhooks": {
+    get: {
+      summary: "List webhooks", tag: "Admin", access: "super-admin",
+      responses: { 200: { description: "Newest first", schema: arrayOf("Webhook") } },
+    },
+    post: {
+      summary: "Add a webhook", tag: "Admin", access: "super-admin", body: "NewWebhook",
+      description: "Deliveries are signed with the secret, which is generated when omitted and only returned here.",
+      responses: { 201: { description: "Created", schema: "CreatedWebhook" }, 400: {} },
+    },
+  },
+  "/api/admin/webhooks/:id": {
+    patch: {
+      summary: "Change a webhook", tag: "Admin", access: "super-admin", body: "WebhookUpdate",
+      responses: { 200: { description: "Updated", schema: "Webhook" }, 400: {}, 404: {} },
+    },
+    delete: {
+      summary: "Remove a webhook and its delivery log", tag: "Admin", access: "super-admin",
+      responses: { 200: { description: "Deleted", schema: "MessageResponse" }, 404: {} },
+    },
+  },
+  "/api/admin/webhooks/:id/deliveries": {
+    get: {
+      summary: "Webhook delivery log", tag: "Admin", access: "super-admin",
+      query: [...params({ status: csv("Delivery statuses.", WebhookDeliveryStatusSchema.options) }), ...PAGINATION],
+      responses: { 200: { description: "One page, newest first", schema: "WebhookDeliveryPage" }, 400: {}, 404: {} },
+    },
+  },
+};
+
+function operation(method: Method, path: string, route: Route) {
+  const pathParams = [...path.matchAll(/:(\w+)/g)].map(([, name]) => ({ name, in: "path", required: true, schema: { type: "string" } }));
+  const queryParams = (route.query ?? []).map(({ required, ...param }) => ({ in: "query", required: !!required, ...param }));
+
+  const responses: Record<string, unknown> = {};
+  const statuses = { ...route.responses };
+  if (route.access !== "public") statuses[401] ??= {};
+  if (route.access !== "public" && route.access !== "signed-in") statuses[403] ??= {};
+  for (const [status, { description, schema, contentType }] of Object.entries(statuses)) {
+    const code = Number(status);
+    const isError = code >= 400 && !schema && !contentType;
+    responses[status] = {
+      description: description ?? ERROR_DESCRIPTIONS[code] ?? "Error",
+      content: contentType
+        ? { [contentType]: { schema: { type: "string" } } }
+        : { "application/json": { schema: isError ? ref("ErrorResponse") : typeof schema === "string" ? ref(schema) : schema } },
+    };
+  }
+
+  return {
+    tags: [route.tag],
+    summary: route.summary,
+    ...(route.description && { description: route.description }),
+    // e.g. PATCH /api/submissions/:id/choice → patchSubmissionsIdChoice
+    operationId: method + path.replace(/^\/api/, "").replace(/[/:-]+(\w)/g, (_, c: string) => c.toUpperCase()),
+    ...(route.access === "public" && { security: [] }),
+    ...(route.access === "scientist" && { "x-required-role": "scientist" }),
+    ...(route.access === "admin" && { "x-required-role": "admin" }),
+    ...(route.access === "super-admin" && { "x-required-role": "super-admin" }),
+    parameters: [...pathParams, ...queryParams],
+    ...(route.body && {
+      requestBody: {
+        required: true,
+        content: typeof route.body === "string"
+          ? { "application/json": { schema: ref(route.body) } }
+          : { [route.body.contentType]: { schema: { type: "string", format: "binary", description: route.body.description } } },
+      },
+    }),
+    responses,
+  };
+}
+
+/** The OpenAPI 3.1 description of every route, served at `/api/docs`. */
+export function buildOpenApiDocument() {
+  const paths: Record<string, Record<string, unknown>> = {};
+  for (const [path, methods] of Object.entries(ROUTES)) {
+    const key = path.replace(/:(\w+)/g, "{$1}");
+    paths[key] = Object.fromEntries(
+      Object.entries(methods).map(([method, route]) => [method, operation(method as Method, path, route)])
+    );
+  }
+
+  return {
+    openapi: "3.1.0",
+    info: {
+      title: "BloomSync API",
+      version: "1.0.0",
+      description: "Crop bloom and pollination mismatch analysis. Sign in with `POST /api/auth/login` and send the token as `Authorization: Bearer <token>`.",
+    },
+    security: [{ bearerAuth: [] }],
+    paths,
+    components: {
+      securitySchemes: { bearerAuth: { type: "http", scheme: "bearer", bearerFormat: "JWT" } },
+      schemas: {
+        ...componentSchemas(RESPONSE_SCHEMAS, "output"),
+        ...componentSchemas(REQUEST_SCHEMAS, "input"),
+      },
+    },
+  };
+}
@@ -0,0 +1,112 @@
+import { describe, expect, it } from "vitest";
+import { climateNormals, cropProfile, estimatePhenology, GENERIC_PROFILE, seasonStartFor } from "./phenology";
+import type { CropProfile, TemperatureDay } from "./phenology";
+import { checkPhenology } from "./phenologyCheck";
+import { DEFAULT_OFFLINE_FIXTURES } from "./llm/offlineFixtures";
+import type { TemperatureSource } from "./weather";
+
+/** `days` days from 2026-01-01 at a constant daily minimum and maximum. */
+function constant(days: number, min: number, max: number): TemperatureDay[] {
+  return Array.from({ length: days }, (_, i) => ({
+    date: new Date(Date.UTC(2026, 0, 1 + i)).toISOString().split("T")[0],
+    min,
+    max,
+  }));
+}
+
+const PROFILE: CropProfile = { baseTemp: 10, upperTemp: 35, bloomStart: 300, bloomEnd: 500, heatStress: 38, pollinatorDependence: 1 };
+
+describe("cropProfile", () => {
+  it("resolves aliases and falls back to the generic profile", () => {
+    expect(cropProfile(" Paddy ").name).toBe("rice");
+    expect(cropProfile("Dragon fruit")).toEqual({ name: "generic", profile: GENERIC_PROFILE });
+  });
+});
+
+describe("seasonStartFor", () => {
+  it("takes the latest season start on or before the target date", () => {
+    const mango = cropProfile("mango").profile;
+    expect(seasonStartFor(mango, "2026-03-01", 16)).toBe("2025-11-01");
+    expect(seasonStartFor(mango, "2026-11-20", 16)).toBe("2026-11-01");
+  });
+
+  it("shifts the season six months south of the equator", () => {
+    expect(seasonStartFor(cropProfile("mango").profile, "2026-06-01", -20)).toBe("2026-05-01");
+  });
+
+  it("counts back 120 days for crops without a season start", () => {
+    expect(seasonStartFor(GENERIC_PROFILE, "2026-05-01", 16)).toBe("2026-01-01");
+  });
+});
+
+describe("climateNormals", () => {
+  it("is coldest in January in the north and in July in the south", () => {
+    const mean = (day: TemperatureDay) => (day.min + day.max) / 2;
+    const north = climateNormals(45, "2026-01-01");
+    const south = climateNormals(-45, "2026-01-01");
+    expect(mean(north[14])).toBeLessThan(mean(north[195]));
+    expect(mean(south[14])).toBeGreaterThan(mean(south[195]));
+  });
+});
+
+describe("estimatePhenology", () => {
+  it("finds the bloom peak from accumulated degree days", () => {
+    // A 25 °C mean adds 15 degree days a day: bloom runs from the 20th to the 33rd day
+    const estimate = estimatePhenology(PROFILE, constant(120, 20, 30));
+    expect(estimate.bloomPeak).toBe("2026-01-27");
+    expect(estimate.pollinatorsActive).toBe("2026-01-27");
+    expect(estimate.mismatchDays).toBe(0);
+    expect(estimate.riskLevel).toBe('low');
+  });
+
+  it("reports high risk when pollinators are never active during bloom", () => {
+    // A 37 °C mean is too hot for pollinators and for the flowers
+    const estimate = estimatePhenology(PROFILE, constant(120, 34, 40));
+    expect(estimate.bloomPeak).not.toBeNull();
+    expect(estimate.pollinatorsActive).toBeNull();
+    expect(estimate.mismatchDays).toBe(60);
+    expect(estimate.heatStressDays).toBeGreaterThan(0);
+    expect(estimate.riskLevel).toBe('high');
+  });
+
+  it("reports no risk when the crop never blooms", () => {
+    const estimate = estimatePhenology(PROFILE, constant(120, 5, 9));
+    expect(estimate.bloomPeak).toBeNull();
+    expect(estimate.riskScore).toBe(0);
+  });
+});
+
+describe("checkPhenology", () => {
+  const input = { crop: "Mango", location: "Guntur, AP", date: "2026-03-01", language: "en" };
+  const analysis = { ...DEFAULT_OFFLINE_FIXTURES[0].result, lat: 16.3, lng: 80.45 };
+
+  it("flags a model answer far from the degree-day estimate", async () => {
+    const check = await checkPhenology({ ...analysis, riskScore: 10, riskLevel: 'high' }, input, null);
+    expect(check.riskLevel).toBe('low');
+    expect(check.disagrees).toBe(true);
+    expect(check.reasons).toContain("Risk level high vs. low from degree days");
+    expect(check.observedDays).toBe(0);
+  });
+
+  it("runs on the source's temperatures where it has them", async () => {
+    const weather: TemperatureSource = {
+      name: "test",
+      dailyTemperatures: async (_lat, _lng, from) => constant(30, 20, 30).map((day, i) => ({
+        ...day,
+        date: new Date(Date.parse(from) + i * 24 * 60 * 60 * 1000).toISOString().split("T")[0],
+      })),
+    };
+    const check = await checkPhenology(analysis, input, weather);
+    expect(check.observedDays).toBe(30);
+  });
+
+  it("falls back to climate normals when the source fails", async () => {
+    const weather: TemperatureSource = {
+      name: "test",
+      dailyTemperatures: async () => { throw new Error("offline"); },
+    };
+    const check = await checkPhenology(analysis, input, weather);
+    expect(check.observedDays).toBe(0);
+    expect(check).toEqual(await checkPhenology(analysis, input, null));
+  });
+});
@@ -0,0 +1,214 @@
+import type { RiskLevel } from "../src/schemas";
+import { riskLevelForYield } from "./analysisValidator";
+
+/** Bumped whenever the thresholds or the scoring change, so stored checks say which rules produced them. */
+export const PHENOLOGY_ENGINE = "gdd-v1";
+
+export interface TemperatureDay {
+  /** YYYY-MM-DD */
+  date: string;
+  /** Daily minimum and maximum air temperature in °C. */
+  min: number;
+  max: number;
+}
+
+/**
+ * Growing-degree-day thresholds for one crop. Degree days accumulate from
+ * `seasonStart` (northern hemisphere; shifted six months in the south) and the
+ * crop blooms between `bloomStart` and `bloomEnd`.
+ */
+export interface CropProfile {
+  /** No development below this daily mean, in °C. */
+  baseTemp: number;
+  /** Temperatures above this add no further development. */
+  upperTemp: number;
+  /** MM-DD the season's degree days start counting from; absent means 120 days before the target date. */
+  seasonStart?: string;
+  bloomStart: number;
+  bloomEnd: number;
+  /** Daily maximum above which open flowers are damaged. */
+  heatStress: number;
+  /** How much fruit set relies on insects, 0 (self- or wind-pollinated) to 1. */
+  pollinatorDependence: number;
+}
+
+/** Pollinators (mostly bees and flies) fly between these daily means and are busiest at the optimum. */
+const POLLINATOR_TEMPS = { min: 12, optimum: 26, max: 38 };
+/** Activity from which pollinators count as present; below it, bloom days go largely unvisited. */
+const POLLINATORS_ACTIVE = 0.6;
+/** How far either side of the bloom peak to look for active pollinators. */
+const MAX_MISMATCH_DAYS = 60;
+
+export const CROP_PROFILES: Record<string, CropProfile> = {
+  mango: { baseTemp: 10, upperTemp: 35, seasonStart: "11-01", bloomStart: 900, bloomEnd: 1500, heatStress: 38, pollinatorDependence: 0.9 },
+  rice: { baseTemp: 10, upperTemp: 35, seasonStart: "06-15", bloomStart: 1100, bloomEnd: 1400, heatStress: 35, pollinatorDependence: 0.05 },
+  wheat: { baseTemp: 0, upperTemp: 30, seasonStart: "11-15", bloomStart: 1100, bloomEnd: 1350, heatStress: 32, pollinatorDependence: 0.05 },
+  maize: { baseTemp: 10, upperTemp: 30, seasonStart: "06-15", bloomStart: 750, bloomEnd: 950, heatStress: 35, pollinatorDependence: 0.1 },
+  cotton: { baseTemp: 15.5, upperTemp: 35, seasonStart: "06-01", bloomStart: 550, bloomEnd: 1100, heatStress: 36, pollinatorDependence: 0.3 },
+  tomato: { baseTemp: 10, upperTemp: 30, seasonStart: "10-01", bloomStart: 450, bloomEnd: 900, heatStress: 32, pollinatorDependence: 0.3 },
+  chilli: { baseTemp: 12, upperTemp: 32, seasonStart: "07-01", bloomStart: 650, bloomEnd: 1150, heatStress: 33, pollinatorDependence: 0.3 },
+  groundnut: { baseTemp: 13, upperTemp: 33, seasonStart: "06-15", bloomStart: 450, bloomEnd: 900, heatStress: 34, pollinatorDependence: 0.1 },
+};
+
+const CROP_ALIASES: Record<string, string> = { paddy: "rice", corn: "maize", chili: "chilli", mirchi: "chilli", peanut: "groundnut" };
+
+/** Used for crops without a profile of their own. */
+export const GENERIC_PROFILE: CropProfile = { baseTemp: 10, upperTemp: 32, bloomStart: 900, bloomEnd: 1300, heatStress: 35, pollinatorDependence: 0.6 };
+
+export function cropProfile(crop: string): { name: string; profile: CropProfile } {
+  const key = crop.trim().toLowerCase();
+  const name = CROP_ALIASES[key] ?? key;
+  return CROP_PROFILES[name] ? { name, profile: CROP_PROFILES[name] } : { name: "generic", profile: GENERIC_PROFILE };
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MONTHS = ["Jan", "Feb", "Mar", "Apr", "May", "Jun", "Jul", "Aug", "Sep", "Oct", "Nov", "Dec"];
+
+function toDate(date: string) {
+  return new Date(`${date}T00:00:00Z`);
+}
+
+function isoDate(time: number) {
+  return new Date(time).toISOString().split("T")[0];
+}
+
+/** Where the season that `targetDate` falls in starts: the latest `seasonStart` on or before the target. */
+export function seasonStartFor(profile: CropProfile, targetDate: string, lat: number): string {
+  const target = toDate(targetDate).getTime();
+  if (!profile.seasonStart) return isoDate(target - 120 * DAY_MS);
+  const [month, day] = profile.seasonStart.split("-").map(Number);
+  // The same season falls six months later south of the equator
+  const shifted = lat < 0 ? (month + 5) % 12 + 1 : month;
+  let year = toDate(targetDate).getUTCFullYear();
+  let start = Date.UTC(year, shifted - 1, day);
+  while (start > target) {
+    year -= 1;
+    start = Date.UTC(year, shifted - 1, day);
+  }
+  return isoDate(start);
+}
+
+/**
+ * A year of typical daily temperatures for a latitude, from `from` onwards.
+ * A coarse stand-in for measured data: the annual mean falls off towards the
+ * poles, the seasonal swing grows, and the coldest day is mid-January in the
+ * north and mid-July in the south.
+ */
+export function climateNormals(lat: number, from: string, days = 365): TemperatureDay[] {
+  const absLat = Math.min(Math.abs(lat), 70);
+  const annualMean = 27 - 0.008 * absLat * absLat;
+  const amplitude = Math.min(1 + 0.28 * absLat, 16);
+  const coldestDay = lat < 0 ? 196 : 15;
+  const start = toDate(from).getTime();
+  return Array.from({ length: days }, (_, i) => {
+    const time = start + i * DAY_MS;
+    const date = new Date(time);
+    const dayOfYear = Math.floor((time - Date.UTC(date.getUTCFullYear(), 0, 1)) / DAY_MS) + 1;
+    const mean = annualMean - amplitude * Math.cos((2 * Math.PI * (dayOfYear - coldestDay)) / 365);
+    return { date: isoDate(time), min: mean - 6, max: mean + 6 };
+  });
+}
+
+function degreeDays(day: TemperatureDay, profile: CropProfile) {
+  const clamp = (t: number) => Math.min(Math.max(t, profile.baseTemp), profile.upperTemp);
+  return (clamp(day.min) + clamp(day.max)) / 2 - profile.baseTemp;
+}
+
+function pollinatorActivity(day: TemperatureDay) {
+  const mean = (day.min + day.max) / 2;
+  const { min, optimum, max } = POLLINATOR_TEMPS;
+  if (mean <= min || mean >= max) return 0;
+  return mean < optimum ? (mean - min) / (optimum - min) : (max - mean) / (max - optimum);
+}
+
+function monthlyCurve(days: TemperatureDay[], values: number[]) {
+  const sums = new Array(12).fill(0);
+  const counts = new Array(12).fill(0);
+  days.forEach((day, i) => {
+    const month = toDate(day.date).getUTCMonth();
+    sums[month] += values[i];
+    counts[month] += 1;
+  });
+  const means = sums.map((sum, month) => (counts[month] ? sum / counts[month] : 0));
+  const peak = Math.max(...means, Number.EPSILON);
+  return MONTHS.map((date, month) => ({ date, activity: Math.round((means[month] / peak) * 100) }));
+}
+
+export interface PhenologyEstimate {
+  bloomingData: { date: string; activity: number }[];
+  pollinationData: { date: string; activity: number }[];
+  /** Null when the series ends before the crop accumulates enough degree days to bloom. */
+  bloomPeak: string | null;
+  /** The day nearest the bloom peak on which pollinators are active; null when there is none within two months. */
+  pollinatorsActive: string | null;
+  mismatchDays: number;
+  /** Share of bloom intensity that pollinators were active for, 0–1. */
+  overlap: number;
+  heatStressDays: number;
+  riskScore: number;
+  riskLevel: RiskLevel;
+  yieldRiskPercentage: number;
+}
+
+/**
+ * Runs the degree-day model over a daily temperature series that starts at the
+ * beginning of the season. Bloom intensity rises and falls across the
+ * `bloomStart`–`bloomEnd` window; pollinator activity follows temperature.
+ * Risk weighs how little of the bloom pollinators cover and how far the bloom
+ * peak is from active pollinators (both scaled by the crop's dependence on
+ * insects) against the share of bloom days that are too hot.
+ */
+export function estimatePhenology(profile: CropProfile, days: TemperatureDay[]): PhenologyEstimate {
+  let accumulated = 0;
+  const bloom: number[] = [];
+  const pollinators: number[] = [];
+  for (const day of days) {
+    accumulated += degreeDays(day, profile);
+    const progress = (accumulated - profile.bloomStart) / (profile.bloomEnd - profile.bloomStart);
+    bloom.push(progress < 0 || progress > 1 ? 0 : 1 - Math.abs(progress * 2 - 1));
+    pollinators.push(pollinatorActivity(day));
+  }
+
+  const bloomTotal = bloom.reduce((sum, b) => sum + b, 0);
+  const bloomDays = bloom.map((b, i) => (b > 0 ? i : -1)).filter(i => i >= 0);
+  let bloomPeak: number | null = null;
+  let pollinatorsActive: number | null = null;
+  let mismatchDays = 0;
+  let overlap = 0;
+  let heatStressDays = 0;
+
+  if (bloomTotal > 0) {
+    bloomPeak = bloom.indexOf(Math.max(...bloom));
+    overlap = bloom.reduce((sum, b, i) => sum + Math.min(b, pollinators[i]), 0) / bloomTotal;
+    heatStressDays = bloomDays.filter(i => days[i].max > profile.heatStress).length;
+    mismatchDays = MAX_MISMATCH_DAYS;
+    for (let offset = 0; offset <= MAX_MISMATCH_DAYS; offset++) {
+      const candidates = [bloomPeak - offset, bloomPeak + offset].filter(i => i >= 0 && i < days.length);
+      const active = candidates.find(i => pollinators[i] >= POLLINATORS_ACTIVE);
+      if (active !== undefined) {
+        pollinatorsActive = active;
+        mismatchDays = offset;
+        break;
+      }
+    }
+  }
+
+  const heatShare = bloomDays.length ? heatStressDays / bloomDays.length : 0;
+  const pollinationRisk = profile.pollinatorDependence * (0.6 * (1 - overlap) + 0.4 * Math.min(mismatchDays / 30, 1));
+  const riskScore = bloomPeak === null ? 0 : Math.round(100 * (0.7 * pollinationRisk + 0.3 * heatShare)) / 10;
+  const yieldRiskPercentage = Math.round(riskScore * 5);
+  const riskLevel = riskLevelForYield(yieldRiskPercentage);
+
+  return {
+    bloomingData: monthlyCurve(days, bloom),
+    pollinationData: monthlyCurve(days, pollinators),
+    bloomPeak: bloomPeak === null ? null : days[bloomPeak].date,
+    pollinatorsActive: pollinatorsActive === null ? null : days[pollinatorsActive].date,
+    mismatchDays,
+    overlap: Math.round(overlap * 100) / 100,
+    heatStressDays,
+    riskScore,
+    riskLevel,
+    yieldRiskPercentage,
+  };
+}
@@ -0,0 +1,106 @@
+import { AnalysisResultSchema } from "../src/schemas";
+import type { AnalysisResult, PhenologyCheck, RiskLevel } from "../src/schemas";
+import type { AnalysisInput } from "./llm/llmProvider";
+import { cropProfile, estimatePhenology, PHENOLOGY_ENGINE, seasonStartFor } from "./phenology";
+import { seasonTemperatures } from "./weather";
+import type { TemperatureSource } from "./weather";
+
+/** Gaps from which the model and the phenology engine count as disagreeing. */
+export const DISAGREEMENT_THRESHOLDS = { riskScore: 4, mismatchDays: 21 } as const;
+
+const RISK_ORDER: RiskLevel[] = ['low', 'medium', 'high'];
+
+async function estimateFor(input: AnalysisInput, coordinates: { lat: number; lng: number }, weather: TemperatureSource | null) {
+  const { name, profile } = cropProfile(input.crop);
+  const { lat, lng } = coordinates;
+  const { days, observedDays } = await seasonTemperatures(weather, lat, lng, seasonStartFor(profile, input.date, lat));
+  return { cropProfile: name, estimate: estimatePhenology(profile, days), observedDays };
+}
+
+/**
+ * Runs the phenology engine for the analysis' place, on the temperatures
+ * `weather` has for the season, and compares its numbers with the model's.
+ */
+export async function checkPhenology(analysis: AnalysisResult, input: AnalysisInput, weather: TemperatureSource | null): Promise<PhenologyCheck> {
+  const { cropProfile, estimate, observedDays } = await estimateFor(input, analysis, weather);
+  const reasons: string[] = [];
+  const scoreGap = Math.abs(analysis.riskScore - estimate.riskScore);
+  if (scoreGap >= DISAGREEMENT_THRESHOLDS.riskScore) {
+    reasons.push(`Risk score ${analysis.riskScore} vs. ${estimate.riskScore} from degree days`);
+  }
+  const mismatchGap = Math.abs(analysis.mismatchDays - estimate.mismatchDays);
+  if (mismatchGap >= DISAGREEMENT_THRESHOLDS.mismatchDays) {
+    reasons.push(`Mismatch of ${analysis.mismatchDays} days vs. ${estimate.mismatchDays} from degree days`);
+  }
+  if (Math.abs(RISK_ORDER.indexOf(analysis.riskLevel) - RISK_ORDER.indexOf(estimate.riskLevel)) === 2) {
+    reasons.push(`Risk level ${analysis.riskLevel} vs. ${estimate.riskLevel} from degree days`);
+  }
+  return {
+    engine: PHENOLOGY_ENGINE,
+    cropProfile,
+    riskScore: estimate.riskScore,
+    riskLevel: estimate.riskLevel,
+    mismatchDays: estimate.mismatchDays,
+    yieldRiskPercentage: estimate.yieldRiskPercentage,
+    bloomPeak: estimate.bloomPeak,
+    pollinatorsActive: estimate.pollinatorsActive,
+    bloomingData: estimate.bloomingData,
+    pollinationData: estimate.pollinationData,
+    disagrees: reasons.length > 0,
+    reasons,
+    observedDays,
+  };
+}
+
+function monthName(date: string) {
+  return new Date(`${date}T00:00:00Z`).toLocaleString("en", { month: "long", timeZone: "UTC" });
+}
+
+/**
+ * An analysis built from the phenology engine alone, for when the model cannot
+ * be reached. It needs coordinates from an earlier analysis of the same place,
+ * uses recorded temperatures where `weather` has them and typical ones for the
+ * rest, and its advice is in English.
+ */
+export async function phenologyFallback(input: AnalysisInput, coordinates: { lat: number; lng: number }, weather: TemperatureSource | null): Promise<AnalysisResult> {
+  const { estimate, observedDays } = await estimateFor(input, coordinates, weather);
+  const { crop, location } = input;
+
+  const timing = !estimate.bloomPeak
+    ? `${crop} is not expected to flower within the year from its usual season start.`
+    : estimate.mismatchDays > 7
+      ? `${crop} should flower around ${monthName(estimate.bloomPeak)}, about ${estimate.mismatchDays} days apart from when bees and other insects are busy.`
+      : `${crop} should flower around ${monthName(estimate.bloomPeak)}, while bees and other insects are active.`;
+  const heat = estimate.heatStressDays > 0 ? ` Some flowering days may be too hot, so flowers may fall.` : "";
+  const steps = [
+    ...(estimate.heatStressDays > 0 ? ["Water in the early morning and use mulch to keep plants cool during flowering."] : []),
+    ...(estimate.mismatchDays > 7 ? ["Keep bee boxes near the field during flowering."] : []),
+    "Avoid insecticide sprays while the crop is flowering.",
+    "Check again when the full analysis is available.",
+  ];
+
+  return AnalysisResultSchema.parse({
+    bloomingData: estimate.bloomingData,
+    pollinationData: estimate.pollinationData,
+    riskLevel: estimate.riskLevel,
+    riskScore: estimate.riskScore,
+    mismatchDays: estimate.mismatchDays,
+    yieldRiskPercentage: estimate.yieldRiskPercentage,
+    lat: coordinates.lat,
+    lng: coordinates.lng,
+    climaticConditions: observedDays > 0
+      ? `The full weather check is unavailable. This estimate uses recorded temperatures for ${location} where available and typical ones for the rest of the season.`
+      : `Live weather could not be checked. This estimate uses typical temperatures for ${location}.`,
+    advisory: {
+      whatMayHappen: `${timing}${heat}`,
+      expectedYieldChange: estimate.yieldRiskPercentage < 10 ? "Close to a normal year" : `About ${estimate.yieldRiskPercentage}% lower than normal`,
+      optionA: {
+        suggestion: "This is only an estimate from typical weather. Wait for the full analysis before changing crops.",
+        crops: [],
+      },
+      optionB: { precautionSteps: steps },
+    },
+    model: `phenology-${PHENOLOGY_ENGINE}`,
+    fallback: true,
+  });
+}
@@ -0,0 +1,38 @@
+import { Router } from "express";
+import { requireRole, tenantScope } from "../auth";
+import { logger } from "../logger";
+import { DEFAULT_PAGE_SIZE, MAX_PAGE_SIZE, number, oneOf, single, timestamp } from "../submissionQuery";
+import type { QueryParams } from "../submissionQuery";
+import { AUDIT_ACTIONS } from "../storage/auditLogRepository";
+import type { AuditLogRepository, AuditQuery } from "../storage/auditLogRepository";
+import { InvalidQueryError } from "../storage/submissionRepository";
+
+function parseAuditQuery(params: QueryParams): AuditQuery {
+  return {
+    action: oneOf(params, "action", AUDIT_ACTIONS),
+    actorId: single(params, "actorId"),
+    entityId: single(params, "entityId"),
+    since: timestamp(params, "since"),
+    until: timestamp(params, "until"),
+    limit: Math.floor(number(params, "limit", 1, MAX_PAGE_SIZE) ?? DEFAULT_PAGE_SIZE),
+    cursor: single(params, "cursor"),
+  };
+}
+
+export function createAuditRouter(audit: AuditLogRepository) {
+  const router = Router();
+
+  router.get("/admin/audit", requireRole('admin'), (req, res) => {
+    try {
+      res.json(audit.query({ ...parseAuditQuery(req.query), tenantId: tenantScope(req) }));
+    } catch (error) {
+      if (error instanceof InvalidQueryError) {
+        return res.status(400).json({ error: error.message });
+      }
+      logger.error("Error reading audit log", { error });
+      res.status(500).json({ error: "Failed to read audit log" });
+    }
+  });
+
+  return router;
+}
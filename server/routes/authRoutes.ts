@@ -0,0 +1,129 @@
+import { Router } from "express";
+import { isSuperAdmin } from "../../src/constants";
+import type { AuthUser, Role } from "../../src/constants";
+import { LoginSchema, NewUserSchema, RegistrationSchema, UserUpdateSchema } from "../../src/schemas";
+import type { Login, NewUser, Registration, UserUpdate } from "../../src/schemas";
+import { hashPassword, requireRole, signToken, tenantScope, verifyPassword } from "../auth";
+import { logger } from "../logger";
+import { DEFAULT_TENANT_ID } from "../storage/tenantRepository";
+import type { TenantRepository } from "../storage/tenantRepository";
+import { DuplicateUserError } from "../storage/userRepository";
+import type { UserRepository } from "../storage/userRepository";
+import { validateBody } from "../validation";
+
+// Only super-admins live outside a tenant
+function tenantError(role: Role, tenantId: string | null, tenants: TenantRepository) {
+  if (tenantId === null) {
+    return role === 'admin' ? null : "tenantId is required for farmers and scientists";
+  }
+  return tenants.get(tenantId) ? null : "Unknown tenant";
+}
+
+/** Tenant admins only see and manage accounts in their own tenant. */
+function canManage(actor: AuthUser, target: AuthUser) {
+  return isSuperAdmin(actor) || target.tenantId === actor.tenantId;
+}
+
+export function createAuthRouter(users: UserRepository, tenants: TenantRepository) {
+  const router = Router();
+
+  // Self-registration always creates a farmer, in the organisation whose code was given; admins grant other roles
+  router.post("/auth/register", validateBody(RegistrationSchema), (req, res) => {
+    const { username, password, organisation } = req.body as Registration;
+    const tenant = organisation ? tenants.findBySlug(organisation.trim().toLowerCase()) : tenants.get(DEFAULT_TENANT_ID);
+    if (!tenant) {
+      return res.status(400).json({ error: "Unknown organisation code" });
+    }
+    try {
+      const user = users.create({ username, passwordHash: hashPassword(password), role: 'farmer', tenantId: tenant.id });
+      logger.info("Registered new farmer account", { userId: user.id, username: user.username, tenantId: tenant.id });
+      res.status(201).json({ token: signToken(user), user });
+    } catch (err) {
+      if (err instanceof DuplicateUserError) {
+        return res.status(409).json({ error: err.message });
+      }
+      logger.error("Error registering user", { error: err });
+      res.status(500).json({ error: "Failed to register" });
+    }
+  });
+
+  router.post("/auth/login", validateBody(LoginSchema), (req, res) => {
+    const { username, password } = req.body as Login;
+    const record = users.findByUsername(username);
+    if (!record || !verifyPassword(password, record.passwordHash)) {
+      return res.status(401).json({ error: "Invalid username or password" });
+    }
+    const { passwordHash, ...user } = record;
+    res.json({ token: signToken(user), user });
+  });
+
+  router.get("/auth/me", (req, res) => {
+    res.json(req.user);
+  });
+
+  router.get("/users", requireRole('admin'), (req, res) => {
+    res.json(users.list(tenantScope(req)));
+  });
+
+  router.post("/users", requireRole('admin'), validateBody(NewUserSchema), (req, res) => {
+    const { username, password, role, tenantId: requestedTenant } = req.body as NewUser;
+    if (requestedTenant !== undefined && !isSuperAdmin(req.user!)) {
+      return res.status(403).json({ error: "Only super-admins can choose the tenant" });
+    }
+    const tenantId: string | null = isSuperAdmin(req.user!) ? requestedTenant ?? null : req.user!.tenantId;
+    const invalidTenant = tenantError(role, tenantId, tenants);
+    if (invalidTenant) {
+      return res.status(400).json({ error: invalidTenant });
+    }
+    try {
+      const user = users.create({ username, passwordHash: hashPassword(password), role, tenantId });
+      res.status(201).json(user);
+    } catch (err) {
+      if (err instanceof DuplicateUserError) {
+        return res.status(409).json({ error: err.message });
+      }
+      logger.error("Error creating user", { error: err });
+      res.status(500).json({ error: "Failed to create user" });
+    }
+  });
+
+  router.patch("/users/:id", requireRole('admin'), validateBody(UserUpdateSchema), (req, res) => {
+    const { role, password, tenantId } = req.body as UserUpdate;
+    if (req.params.id === req.user!.id && role && role !== 'admin') {
+      return res.status(400).json({ error: "Admins cannot remove their own admin role" });
+    }
+    if (tenantId !== undefined && !isSuperAdmin(req.user!)) {
+      return res.status(403).json({ error: "Only super-admins can move accounts between tenants" });
+    }
+    if (req.params.id === req.user!.id && tenantId !== undefined && tenantId !== req.user!.tenantId) {
+      return res.status(400).json({ error: "Admins cannot change their own tenant" });
+    }
+    const existing = users.get(req.params.id);
+    if (!existing || !canManage(req.user!, existing)) {
+      return res.status(404).json({ error: "User not found" });
+    }
+    const invalidTenant = tenantError(role ?? existing.role, tenantId === undefined ? existing.tenantId : tenantId, tenants);
+    if (invalidTenant) {
+      return res.status(400).json({ error: invalidTenant });
+    }
+    const user = users.update(req.params.id, {
+      role,
+      passwordHash: password ? hashPassword(password) : undefined,
+      tenantId,
+    });
+    res.json(user);
+  });
+
+  router.delete("/users/:id", requireRole('admin'), (req, res) => {
+    if (req.params.id === req.user!.id) {
+      return res.status(400).json({ error: "Admins cannot delete their own account" });
+    }
+    const existing = users.get(req.params.id);
+    if (!existing || !canManage(req.user!, existing) || !users.delete(existing.id)) {
+      return res.status(404).json({ error: "User not found" });
+    }
+    res.json({ message: "User deleted" });
+  });
+
+  return router;
+}
@@ -0,0 +1,65 @@
+import { Router } from "express";
+import { requireSuperAdmin } from "../auth";
+import type { EventHub } from "../events";
+import { logger } from "../logger";
+import { BackupNotFoundError, InvalidBackupError } from "../storage/backups";
+import type { BackupManager } from "../storage/backups";
+import type { AuditLogRepository } from "../storage/auditLogRepository";
+import { SUBMISSION_SCHEMA_VERSION } from "../storage/submissionMigrations";
+import type { TenantRepository } from "../storage/tenantRepository";
+
+// Backups cover every tenant, so only super-admins may take or restore them
+export function createBackupRouter(deps: { backups: BackupManager; audit: AuditLogRepository; events: EventHub; tenants: TenantRepository }) {
+  const { backups, audit, events, tenants } = deps;
+  const router = Router();
+
+  router.get("/admin/backups", requireSuperAdmin(), (req, res) => {
+    try {
+      res.json({ schemaVersion: SUBMISSION_SCHEMA_VERSION, items: backups.list() });
+    } catch (error) {
+      logger.error("Error listing backups", { error });
+      res.status(500).json({ error: "Failed to list backups" });
+    }
+  });
+
+  router.post("/admin/backups", requireSuperAdmin(), async (req, res) => {
+    try {
+      const backup = await backups.create();
+      audit.record({ actor: req.user!, action: 'backup.create', entityType: 'backup', entityId: backup.name });
+      logger.info("Created backup", { backup: backup.name, sizeBytes: backup.sizeBytes });
+      res.status(201).json(backup);
+    } catch (error) {
+      logger.error("Error creating backup", { error });
+      res.status(500).json({ error: "Failed to create backup" });
+    }
+  });
+
+  router.post("/admin/backups/:name/restore", requireSuperAdmin(), async (req, res) => {
+    try {
+      const { restored, migrated, safetyBackup } = await backups.restore(req.params.name);
+      // Snapshots from before tenants existed bring back submissions without one
+      tenants.assignUnscoped();
+      audit.record({
+        actor: req.user!,
+        action: 'backup.restore',
+        entityType: 'backup',
+        entityId: req.params.name,
+        details: { restored, migrated, safetyBackup: safetyBackup.name },
+      });
+      logger.info("Restored backup", { backup: req.params.name, restored, migrated, safetyBackup: safetyBackup.name });
+      events.publish({ type: 'store.restored', ownerId: null, data: {} });
+      res.json({ message: "Backup restored", restored, migrated, safetyBackup });
+    } catch (error) {
+      if (error instanceof BackupNotFoundError) {
+        return res.status(404).json({ error: error.message });
+      }
+      if (error instanceof InvalidBackupError) {
+        return res.status(400).json({ error: error.message });
+      }
+      logger.error("Error restoring backup", { error });
+      res.status(500).json({ error: "Failed to restore backup" });
+    }
+  });
+
+  return router;
+}
@@ -0,0 +1,79 @@
+import express, { Router } from "express";
+import { ROLES } from "../../src/constants";
+import { requireRole } from "../auth";
+import { parseBatchFile } from "../batchImport";
+import type { BatchQueue } from "../batchQueue";
+import { BATCH_RESULT_FORMATS, toBatchResults } from "../exporters";
+import type { BatchResultFormat } from "../exporters";
+import { logger } from "../logger";
+import type { BatchRepository } from "../storage/batchRepository";
+import { InvalidQueryError } from "../storage/submissionRepository";
+import type { SubmissionRepository } from "../storage/submissionRepository";
+
+const MAX_UPLOAD_BYTES = "5mb";
+
+export function createBatchRouter(deps: { batches: BatchRepository; queue: BatchQueue; repo: SubmissionRepository }) {
+  const { batches, queue, repo } = deps;
+  const router = Router();
+
+  // The file is the raw request body; its name and the advisory language ride in the query string
+  router.post(
+    "/batches",
+    requireRole(...ROLES),
+    express.raw({ type: () => true, limit: MAX_UPLOAD_BYTES }),
+    async (req, res) => {
+      try {
+        if (!Buffer.isBuffer(req.body) || req.body.length === 0) {
+          return res.status(400).json({ error: "Upload a CSV or XLSX file as the request body" });
+        }
+        const items = await parseBatchFile(req.body);
+        const filename = typeof req.query.filename === "string" && req.query.filename ? req.query.filename : "upload";
+        const language = typeof req.query.language === "string" && req.query.language ? req.query.language : "en";
+        const batch = batches.create({ ownerId: req.user!.id, filename, language }, items);
+        logger.info("Queued batch", { batchId: batch.id, rows: batch.total, userId: req.user!.id });
+        queue.pump();
+        res.status(201).json(batch);
+      } catch (error: any) {
+        if (error instanceof InvalidQueryError) {
+          return res.status(400).json({ error: error.message });
+        }
+        logger.error("Error creating batch", { error });
+        res.status(500).json({ error: "Failed to create batch" });
+      }
+    }
+  );
+
+  router.get("/batches", requireRole(...ROLES), (req, res) => {
+    res.json(batches.listByOwner(req.user!.id));
+  });
+
+  router.get("/batches/:id", requireRole(...ROLES), (req, res) => {
+    const batch = batches.get(req.params.id);
+    if (!batch || batch.ownerId !== req.user!.id) {
+      return res.status(404).json({ error: "Batch not found" });
+    }
+    res.json({ ...batch, items: batches.items(batch.id) });
+  });
+
+  router.get("/batches/:id/results", requireRole(...ROLES), async (req, res) => {
+    const batch = batches.get(req.params.id);
+    if (!batch || batch.ownerId !== req.user!.id) {
+      return res.status(404).json({ error: "Batch not found" });
+    }
+    const format = (req.query.format || "csv") as BatchResultFormat;
+    if (!BATCH_RESULT_FORMATS.includes(format)) {
+      return res.status(400).json({ error: `format must be one of ${BATCH_RESULT_FORMATS.join(", ")}` });
+    }
+    try {
+      const results = await toBatchResults(format, batches.items(batch.id), id => repo.get(id));
+      const stem = batch.filename.replace(/\.[^.]+$/, "").replace(/[^\w.-]+/g, "_") || "batch";
+      res.attachment(`${stem}-results.${format}`);
+      res.type(format === 'csv' ? "text/csv" : "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet").send(results);
+    } catch (error) {
+      logger.error("Error writing batch results", { error, batchId: batch.id });
+      res.status(500).json({ error: "Failed to write batch results" });
+    }
+  });
+
+  return router;
+}
@@ -0,0 +1,70 @@
+import { Router } from "express";
+import { requireSuperAdmin } from "../auth";
+import { normalizeKeyPart } from "../analysisCache";
+import { logger } from "../logger";
+import { MAX_PAGE_SIZE, DEFAULT_PAGE_SIZE, number, single } from "../submissionQuery";
+import type { QueryParams } from "../submissionQuery";
+import type { AnalysisCacheFilter, AnalysisCacheRepository } from "../storage/analysisCacheRepository";
+import type { AuditLogRepository } from "../storage/auditLogRepository";
+import { InvalidQueryError } from "../storage/submissionRepository";
+
+function parseCacheFilter(params: QueryParams): AnalysisCacheFilter {
+  const normalized = (name: string) => {
+    const value = single(params, name);
+    return value === undefined ? undefined : normalizeKeyPart(value);
+  };
+  return { crop: normalized("crop"), location: normalized("location"), language: normalized("language") };
+}
+
+// The cache is shared by every tenant, so only super-admins manage it
+export function createCacheRouter(deps: { entries: AnalysisCacheRepository; audit: AuditLogRepository }) {
+  const { entries, audit } = deps;
+  const router = Router();
+
+  router.get("/admin/cache", requireSuperAdmin(), (req, res) => {
+    try {
+      const limit = Math.floor(number(req.query, "limit", 1, MAX_PAGE_SIZE) ?? DEFAULT_PAGE_SIZE);
+      res.json(entries.list(parseCacheFilter(req.query), limit));
+    } catch (error) {
+      if (error instanceof InvalidQueryError) {
+        return res.status(400).json({ error: error.message });
+      }
+      logger.error("Error listing analysis cache", { error });
+      res.status(500).json({ error: "Failed to list analysis cache" });
+    }
+  });
+
+  router.get("/admin/cache/:key", requireSuperAdmin(), (req, res) => {
+    const entry = entries.get(req.params.key);
+    if (!entry) {
+      return res.status(404).json({ error: "Cache entry not found" });
+    }
+    res.json(entry);
+  });
+
+  router.delete("/admin/cache/:key", requireSuperAdmin(), (req, res) => {
+    if (!entries.delete(req.params.key)) {
+      return res.status(404).json({ error: "Cache entry not found" });
+    }
+    audit.record({ actor: req.user!, action: 'cache.invalidate', entityType: 'analysis_cache', entityId: req.params.key, details: { key: req.params.key } });
+    res.json({ message: "Cache entry invalidated" });
+  });
+
+  // Without filters this empties the whole cache
+  router.delete("/admin/cache", requireSuperAdmin(), (req, res) => {
+    try {
+      const filter = parseCacheFilter(req.query);
+      const removed = entries.clear(filter);
+      audit.record({ actor: req.user!, action: 'cache.invalidate', entityType: 'analysis_cache', details: { count: removed, filter } });
+      res.json({ message: "Cache invalidated", count: removed });
+    } catch (error) {
+      if (error instanceof InvalidQueryError) {
+        return res.status(400).json({ error: error.message });
+      }
+      logger.error("Error invalidating analysis cache", { error });
+      res.status(500).json({ error: "Failed to invalidate analysis cache" });
+    }
+  });
+
+  return router;
+}
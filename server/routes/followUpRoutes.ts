@@ -0,0 +1,104 @@
+import { Router } from "express";
+import type { Request, Response } from "express";
+import { ROLES } from "../../src/constants";
+import { FollowUpQuestionSchema } from "../../src/schemas";
+import type { FollowUpQuestion } from "../../src/schemas";
+import { requireRole } from "../auth";
+import { openResponseStream } from "../events";
+import { throwIfAborted } from "../llm/analysisStream";
+import { AbortedError } from "../llm/llmProvider";
+import type { LlmProvider } from "../llm/llmProvider";
+import { choosePrompt } from "../llm/prompts";
+import { logger } from "../logger";
+import type { FollowUpRepository } from "../storage/followUpRepository";
+import type { PromptRepository } from "../storage/promptRepository";
+import type { SubmissionRepository } from "../storage/submissionRepository";
+import { validateBody } from "../validation";
+
+// Older turns stay stored and visible, but only the latest ones go to the model
+const HISTORY_WINDOW = 20;
+const MAX_THREAD_MESSAGES = 200;
+
+export function createFollowUpRouter(deps: { submissions: SubmissionRepository; followUps: FollowUpRepository; prompts: PromptRepository; llm: LlmProvider }) {
+  const { submissions, followUps, prompts, llm } = deps;
+  const router = Router();
+
+  router.get("/submissions/:id/thread", requireRole(...ROLES), (req, res) => {
+    const sub = submissions.get(req.params.id);
+    if (!sub || sub.ownerId !== req.user!.id) {
+      return res.status(404).json({ error: "Submission not found" });
+    }
+    res.json(followUps.list(sub.id));
+  });
+
+  // Finds the thread a question goes to, or answers with why it cannot be asked
+  function openThread(req: Request, res: Response) {
+    const sub = submissions.get(req.params.id);
+    if (!sub || sub.ownerId !== req.user!.id) {
+      res.status(404).json({ error: "Submission not found" });
+      return undefined;
+    }
+    if (!sub.fullAnalysis) {
+      res.status(400).json({ error: "This submission has no analysis to ask about" });
+      return undefined;
+    }
+    const thread = followUps.list(sub.id);
+    if (thread.length >= MAX_THREAD_MESSAGES) {
+      res.status(409).json({ error: `This conversation has reached its limit of ${MAX_THREAD_MESSAGES} messages` });
+      return undefined;
+    }
+    const history = thread.slice(-HISTORY_WINDOW).map(({ role, content }) => ({ role, content }));
+    const context = { crop: sub.crop, location: sub.location, date: sub.date, analysis: sub.fullAnalysis };
+    return { sub, thread, history, context, prompt: choosePrompt(prompts, 'follow_up') };
+  }
+
+  // Nothing is stored unless the model answers, so a failed question can simply be asked again
+  router.post("/submissions/:id/thread", requireRole(...ROLES), validateBody(FollowUpQuestionSchema), async (req, res) => {
+    const { question, language } = req.body as FollowUpQuestion;
+    try {
+      const open = openThread(req, res);
+      if (!open) return;
+      const answer = await llm.askFollowUp(open.context, open.history, question, language, open.prompt);
+      const added = followUps.appendExchange(open.sub.id, question, answer, llm.models.followUp);
+      res.status(201).json([...open.thread, ...added]);
+    } catch (error) {
+      logger.error("Follow-up question failed", { error, submissionId: req.params.id });
+      res.status(502).json({ error: "The assistant could not answer right now. Please try again." });
+    }
+  });
+
+  // The same, streamed: `text` events as the answer is written, then `result` with the conversation, or `error`
+  router.post("/submissions/:id/thread/stream", requireRole(...ROLES), validateBody(FollowUpQuestionSchema), async (req, res) => {
+    const { question, language } = req.body as FollowUpQuestion;
+    // Opened only once the question can be asked, so refusals are still plain JSON
+    let stream: ReturnType<typeof openResponseStream> | undefined;
+    try {
+      const open = openThread(req, res);
+      if (!open) return;
+      stream = openResponseStream(res);
+      const answer = await llm.askFollowUp(open.context, open.history, question, language, open.prompt, {
+        signal: stream.signal,
+        onText: text => stream!.send("text", { text }),
+      });
+      throwIfAborted(stream.signal);
+      const added = followUps.appendExchange(open.sub.id, question, answer, llm.models.followUp);
+      stream.send("result", [...open.thread, ...added]);
+    } catch (error) {
+      if (error instanceof AbortedError) {
+        logger.info("Follow-up question cancelled by the client", { submissionId: req.params.id });
+        return;
+      }
+      logger.error("Follow-up question failed", { error, submissionId: req.params.id });
+      const message = { error: "The assistant could not answer right now. Please try again." };
+      if (stream) {
+        stream.send("error", message);
+      } else {
+        res.status(502).json(message);
+      }
+    } finally {
+      stream?.end();
+    }
+  });
+
+  return router;
+}
@@ -0,0 +1,83 @@
+import { Router } from "express";
+import type { Request, Response } from "express";
+import { NewPromptVersionSchema, PROMPT_NAMES, PromptNameSchema, PromptRolloutSchema } from "../../src/schemas";
+import type { NewPromptVersion, PromptName, PromptRollout, PromptSummary } from "../../src/schemas";
+import { requireSuperAdmin } from "../auth";
+import { PROMPT_VARIABLES, unknownVariables } from "../llm/prompts";
+import { logger } from "../logger";
+import type { AuditLogRepository } from "../storage/auditLogRepository";
+import type { PromptRepository } from "../storage/promptRepository";
+import { validateBody } from "../validation";
+
+function describeRollout(rollout: PromptRollout | undefined) {
+  if (!rollout) return null;
+  return rollout.candidateVersion === null
+    ? `v${rollout.activeVersion}`
+    : `v${rollout.activeVersion}, v${rollout.candidateVersion} for ${rollout.candidatePercent}%`;
+}
+
+// Prompts are shared by every tenant, so only super-admins change them
+export function createPromptRouter(deps: { prompts: PromptRepository; audit: AuditLogRepository }) {
+  const { prompts, audit } = deps;
+  const router = Router();
+
+  function summary(name: PromptName): PromptSummary {
+    return { name, variables: PROMPT_VARIABLES[name], rollout: prompts.rollout(name)!, versions: prompts.versions(name) };
+  }
+
+  function promptName(req: Request, res: Response) {
+    const name = PromptNameSchema.safeParse(req.params.name);
+    if (!name.success) {
+      res.status(404).json({ error: "Prompt not found" });
+      return undefined;
+    }
+    return name.data;
+  }
+
+  router.get("/admin/prompts", requireSuperAdmin(), (req, res) => {
+    try {
+      res.json(PROMPT_NAMES.map(summary));
+    } catch (error) {
+      logger.error("Error listing prompts", { error });
+      res.status(500).json({ error: "Failed to list prompts" });
+    }
+  });
+
+  // A new version is only saved; the rollout decides when it is used
+  router.post("/admin/prompts/:name/versions", requireSuperAdmin(), validateBody(NewPromptVersionSchema), (req, res) => {
+    const name = promptName(req, res);
+    if (!name) return;
+    const { template, notes } = req.body as NewPromptVersion;
+    const unknown = unknownVariables(name, template);
+    if (unknown.length > 0) {
+      return res.status(400).json({ error: `Unknown placeholders: ${unknown.map(v => `{{${v}}}`).join(", ")}. This prompt can use ${PROMPT_VARIABLES[name].map(v => `{{${v}}}`).join(", ")}` });
+    }
+    const version = prompts.addVersion(name, template, notes, req.user!.username);
+    audit.record({ actor: req.user!, action: 'prompt.version', entityType: 'prompt', entityId: name, details: { prompt: name, version: version.version, notes } });
+    logger.info("Added prompt version", { prompt: name, version: version.version });
+    res.status(201).json(version);
+  });
+
+  router.put("/admin/prompts/:name/rollout", requireSuperAdmin(), validateBody(PromptRolloutSchema), (req, res) => {
+    const name = promptName(req, res);
+    if (!name) return;
+    const rollout = req.body as PromptRollout;
+    const missing = [rollout.activeVersion, rollout.candidateVersion].filter(v => v !== null && !prompts.getVersion(name, v));
+    if (missing.length > 0) {
+      return res.status(400).json({ error: `No version ${missing.join(" or ")} of this prompt` });
+    }
+    if (rollout.candidateVersion === rollout.activeVersion) {
+      return res.status(400).json({ error: "The candidate must differ from the active version" });
+    }
+    if (rollout.candidatePercent > 0 && rollout.candidateVersion === null) {
+      return res.status(400).json({ error: "A traffic share needs a candidate version" });
+    }
+    const previous = prompts.rollout(name);
+    prompts.setRollout(name, rollout);
+    audit.record({ actor: req.user!, action: 'prompt.rollout', entityType: 'prompt', entityId: name, details: { from: describeRollout(previous), to: describeRollout(rollout) } });
+    logger.info("Changed prompt rollout", { prompt: name, ...rollout });
+    res.json(summary(name));
+  });
+
+  return router;
+}
@@ -0,0 +1,66 @@
+import { Router } from "express";
+import { NewTenantSchema, TenantUpdateSchema } from "../../src/schemas";
+import type { NewTenant, TenantUpdate } from "../../src/schemas";
+import { requireSuperAdmin } from "../auth";
+import { logger } from "../logger";
+import type { AuditLogRepository } from "../storage/auditLogRepository";
+import { DEFAULT_TENANT_ID, DuplicateTenantError } from "../storage/tenantRepository";
+import type { TenantRepository } from "../storage/tenantRepository";
+import { validateBody } from "../validation";
+
+export function createTenantRouter(deps: { tenants: TenantRepository; audit: AuditLogRepository }) {
+  const { tenants, audit } = deps;
+  const router = Router();
+
+  router.get("/admin/tenants", requireSuperAdmin(), (req, res) => {
+    try {
+      res.json(tenants.list());
+    } catch (error) {
+      logger.error("Error listing tenants", { error });
+      res.status(500).json({ error: "Failed to list tenants" });
+    }
+  });
+
+  router.post("/admin/tenants", requireSuperAdmin(), validateBody(NewTenantSchema), (req, res) => {
+    try {
+      const tenant = tenants.create(req.body as NewTenant);
+      audit.record({ actor: req.user!, action: 'tenant.create', entityType: 'tenant', entityId: tenant.id, details: { name: tenant.name, slug: tenant.slug } });
+      logger.info("Created tenant", { tenantId: tenant.id, slug: tenant.slug });
+      res.status(201).json(tenant);
+    } catch (error) {
+      if (error instanceof DuplicateTenantError) {
+        return res.status(409).json({ error: error.message });
+      }
+      logger.error("Error creating tenant", { error });
+      res.status(500).json({ error: "Failed to create tenant" });
+    }
+  });
+
+  router.patch("/admin/tenants/:id", requireSuperAdmin(), validateBody(TenantUpdateSchema), (req, res) => {
+    const existing = tenants.get(req.params.id);
+    if (!existing) {
+      return res.status(404).json({ error: "Tenant not found" });
+    }
+    const tenant = tenants.update(existing.id, req.body as TenantUpdate)!;
+    audit.record({ actor: req.user!, action: 'tenant.update', entityType: 'tenant', entityId: tenant.id, details: { from: existing.name, to: tenant.name } });
+    res.json(tenant);
+  });
+
+  // Accounts and submissions are never deleted along with a tenant; move or remove them first
+  router.delete("/admin/tenants/:id", requireSuperAdmin(), (req, res) => {
+    const tenant = tenants.get(req.params.id);
+    if (!tenant) {
+      return res.status(404).json({ error: "Tenant not found" });
+    }
+    if (tenant.id === DEFAULT_TENANT_ID) {
+      return res.status(400).json({ error: "The default tenant cannot be deleted" });
+    }
+    if (!tenants.delete(tenant.id)) {
+      return res.status(409).json({ error: "The tenant still has users or submissions" });
+    }
+    audit.record({ actor: req.user!, action: 'tenant.delete', entityType: 'tenant', entityId: tenant.id, details: { name: tenant.name, slug: tenant.slug } });
+    res.json({ message: "Tenant deleted" });
+  });
+
+  return router;
+}
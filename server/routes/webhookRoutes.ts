@@ -0,0 +1,77 @@
+import crypto from "crypto";
+import { Router } from "express";
+import { NewWebhookSchema, WebhookDeliveryStatusSchema, WebhookUpdateSchema } from "../../src/schemas";
+import type { NewWebhook, WebhookUpdate } from "../../src/schemas";
+import { requireSuperAdmin } from "../auth";
+import { logger } from "../logger";
+import { DEFAULT_PAGE_SIZE, MAX_PAGE_SIZE, number, oneOf, single } from "../submissionQuery";
+import { validateBody } from "../validation";
+import type { AuditLogRepository } from "../storage/auditLogRepository";
+import { InvalidQueryError } from "../storage/submissionRepository";
+import type { WebhookRepository } from "../storage/webhookRepository";
+
+// Webhooks hear about submissions from every tenant, so only super-admins manage them
+export function createWebhookRouter(deps: { hooks: WebhookRepository; audit: AuditLogRepository }) {
+  const { hooks, audit } = deps;
+  const router = Router();
+
+  router.get("/admin/webhooks", requireSuperAdmin(), (req, res) => {
+    res.json(hooks.list());
+  });
+
+  // The secret is returned this once; receivers need it to check signatures
+  router.post("/admin/webhooks", requireSuperAdmin(), validateBody(NewWebhookSchema), (req, res) => {
+    try {
+      const input = req.body as NewWebhook;
+      const secret = input.secret ?? `whsec_${crypto.randomBytes(24).toString("hex")}`;
+      const hook = hooks.create({ ...input, secret });
+      audit.record({ actor: req.user!, action: 'webhook.create', entityType: 'webhook', entityId: hook.id, details: { url: hook.url, events: hook.events } });
+      logger.info("Created webhook", { webhookId: hook.id, url: hook.url });
+      res.status(201).json({ ...hook, secret });
+    } catch (error) {
+      logger.error("Error creating webhook", { error });
+      res.status(500).json({ error: "Failed to create webhook" });
+    }
+  });
+
+  router.patch("/admin/webhooks/:id", requireSuperAdmin(), validateBody(WebhookUpdateSchema), (req, res) => {
+    const changes = req.body as WebhookUpdate;
+    if (!hooks.get(req.params.id)) {
+      return res.status(404).json({ error: "Webhook not found" });
+    }
+    const hook = hooks.update(req.params.id, changes);
+    audit.record({ actor: req.user!, action: 'webhook.update', entityType: 'webhook', entityId: hook.id, details: { changes } });
+    res.json(hook);
+  });
+
+  // Pending deliveries are dropped along with the log
+  router.delete("/admin/webhooks/:id", requireSuperAdmin(), (req, res) => {
+    const hook = hooks.get(req.params.id);
+    if (!hook || !hooks.delete(hook.id)) {
+      return res.status(404).json({ error: "Webhook not found" });
+    }
+    audit.record({ actor: req.user!, action: 'webhook.delete', entityType: 'webhook', entityId: hook.id, details: { url: hook.url } });
+    res.json({ message: "Webhook deleted" });
+  });
+
+  router.get("/admin/webhooks/:id/deliveries", requireSuperAdmin(), (req, res) => {
+    try {
+      if (!hooks.get(req.params.id)) {
+        return res.status(404).json({ error: "Webhook not found" });
+      }
+      res.json(hooks.deliveries(req.params.id, {
+        status: oneOf(req.query, "status", WebhookDeliveryStatusSchema.options),
+        limit: Math.floor(number(req.query, "limit", 1, MAX_PAGE_SIZE) ?? DEFAULT_PAGE_SIZE),
+        cursor: single(req.query, "cursor"),
+      }));
+    } catch (error) {
+      if (error instanceof InvalidQueryError) {
+        return res.status(400).json({ error: error.message });
+      }
+      logger.error("Error reading webhook deliveries", { error });
+      res.status(500).json({ error: "Failed to read webhook deliveries" });
+    }
+  });
+
+  return router;
+}
@@ -0,0 +1,37 @@
+import type { AnalysisResult } from "../../src/schemas";
+
+export interface AnalysisCacheEntry {
+  /** Normalised `crop|location|date|language`. */
+  key: string;
+  crop: string;
+  location: string;
+  date: string;
+  language: string;
+  result: AnalysisResult;
+  createdAt: number;
+  expiresAt: number;
+  hits: number;
+  lastHitAt: number | null;
+}
+
+export type AnalysisCacheSummary = Omit<AnalysisCacheEntry, 'result'> & { riskLevel: AnalysisResult['riskLevel'] };
+
+export interface AnalysisCacheFilter {
+  crop?: string;
+  location?: string;
+  language?: string;
+}
+
+export interface AnalysisCacheRepository {
+  /** Returns an unexpired entry and counts the hit. */
+  hit(key: string, now: number): AnalysisCacheEntry | undefined;
+  /** Looks an entry up without counting a hit, expired or not. */
+  get(key: string): AnalysisCacheEntry | undefined;
+  put(entry: Omit<AnalysisCacheEntry, 'hits' | 'lastHitAt'>): void;
+  /** Newest first, without the stored analyses. */
+  list(filter: AnalysisCacheFilter, limit: number): AnalysisCacheSummary[];
+  delete(key: string): boolean;
+  /** Deletes every entry matching the filter and returns how many went. */
+  clear(filter: AnalysisCacheFilter): number;
+  purgeExpired(now: number): number;
+}
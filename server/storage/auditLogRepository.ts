@@ -0,0 +1,68 @@
+import type { AuthUser } from "../../src/constants";
+
+export const AUDIT_ACTIONS = [
+  'submission.delete',
+  'submission.clear',
+  'submission.restore',
+  'submission.purge',
+  'submission.choice',
+  'submission.outcome',
+  'cache.invalidate',
+  'backup.create',
+  'backup.restore',
+  'webhook.create',
+  'webhook.update',
+  'webhook.delete',
+  'tenant.create',
+  'tenant.update',
+  'tenant.delete',
+  'prompt.version',
+  'prompt.rollout',
+] as const;
+export type AuditAction = typeof AUDIT_ACTIONS[number];
+
+export interface AuditEntry {
+  id: number;
+  timestamp: number;
+  /** Null for changes made by the server itself, such as retention purges. */
+  actorId: string | null;
+  actorUsername: string | null;
+  /** Tenant of the actor; null for super-admins and the server itself. */
+  tenantId: string | null;
+  action: AuditAction;
+  entityType: string;
+  entityId: string | null;
+  details: Record<string, unknown> | null;
+}
+
+export interface NewAuditEntry {
+  actor: AuthUser | null;
+  action: AuditAction;
+  entityType: string;
+  entityId?: string | null;
+  details?: Record<string, unknown>;
+}
+
+export interface AuditQuery {
+  /** Entries made by members of this tenant. */
+  tenantId?: string;
+  action?: AuditAction[];
+  actorId?: string;
+  entityId?: string;
+  since?: number;
+  until?: number;
+  limit: number;
+  cursor?: string;
+}
+
+export interface AuditPage {
+  items: AuditEntry[];
+  nextCursor: string | null;
+}
+
+/** Append-only log of who changed which record; entries are never edited or removed. */
+export interface AuditLogRepository {
+  record(entry: NewAuditEntry): AuditEntry;
+  /** Newest entries first. */
+  query(query: AuditQuery): AuditPage;
+}
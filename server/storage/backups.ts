@@ -0,0 +1,126 @@
+import fs from "fs";
+import path from "path";
+import Database from "better-sqlite3";
+import { getMeta } from "./database";
+import { migrateSubmissions, SCHEMA_VERSION_META_KEY } from "./submissionMigrations";
+import type { Backup } from "../../src/schemas";
+
+export type { Backup };
+
+const BACKUP_NAME_PATTERN = /^bloomsync-[\w-]+\.db$/;
+// A snapshot without these cannot hold submissions
+const REQUIRED_COLUMNS = ["id", "crop", "location", "date", "risk_level", "timestamp"];
+
+export class BackupNotFoundError extends Error {}
+export class InvalidBackupError extends Error {}
+
+export interface RestoreResult {
+  restored: number;
+  migrated: number;
+  safetyBackup: Backup;
+}
+
+function columnsOf(db: Database.Database, schema: string, table: string) {
+  const columns = db.prepare(`PRAGMA ${schema}.table_info(${table})`).all() as { name: string }[];
+  return columns.map(c => c.name);
+}
+
+// Columns added after the backup was taken fall back to their defaults
+function sharedColumns(db: Database.Database, table: string) {
+  const available = columnsOf(db, "snapshot", table);
+  return columnsOf(db, "main", table).filter(column => available.includes(column)).join(", ");
+}
+
+/**
+ * Timestamped snapshots of the whole SQLite file, written with SQLite's
+ * online backup so requests keep being served while one is taken.
+ */
+export class BackupManager {
+  constructor(private readonly db: Database.Database, private readonly dir: string) {}
+
+  /** `label` is appended to the file name, e.g. `pre-restore`. */
+  async create(label?: string): Promise<Backup> {
+    fs.mkdirSync(this.dir, { recursive: true });
+    const stamp = new Date().toISOString().replace(/[:.]/g, "-");
+    const name = `bloomsync-${stamp}${label ? `-${label}` : ""}.db`;
+    const file = path.join(this.dir, name);
+    await this.db.backup(file);
+    // The copy inherits WAL mode; switch it back so each backup is one self-contained file
+    const snapshot = new Database(file);
+    snapshot.pragma("journal_mode = DELETE");
+    snapshot.close();
+    return this.describe(name);
+  }
+
+  /** Newest first. */
+  list(): Backup[] {
+    if (!fs.existsSync(this.dir)) return [];
+    return fs.readdirSync(this.dir)
+      .filter(name => BACKUP_NAME_PATTERN.test(name))
+      .map(name => this.describe(name))
+      .sort((a, b) => b.createdAt - a.createdAt || b.name.localeCompare(a.name));
+  }
+
+  /**
+   * Replaces every submission, live or trashed, with the ones in the backup
+   * and upgrades them to the current schema version. Follow-up threads go
+   * with their submissions; backups taken before threads existed restore
+   * without any. Users, batches, the
+   * audit log and the analysis cache are left as they are. The store is
+   * snapshotted first so the restore itself can be undone.
+   */
+  async restore(name: string): Promise<RestoreResult> {
+    const file = this.resolve(name);
+    const safetyBackup = await this.create("pre-restore");
+
+    let restored: number;
+    this.db.prepare("ATTACH DATABASE ? AS snapshot").run(file);
+    try {
+      const available = columnsOf(this.db, "snapshot", "submissions");
+      if (!REQUIRED_COLUMNS.every(column => available.includes(column))) {
+        throw new InvalidBackupError("Backup does not contain a submissions table");
+      }
+      const shared = sharedColumns(this.db, "submissions");
+      const threads = sharedColumns(this.db, "follow_up_messages");
+      restored = this.db.transaction(() => {
+        // Cascades to the follow-up threads
+        this.db.exec("DELETE FROM main.submissions");
+        const changes = this.db.prepare(`INSERT INTO main.submissions (${shared}) SELECT ${shared} FROM snapshot.submissions`).run().changes;
+        if (threads) {
+          this.db.exec(`INSERT INTO main.follow_up_messages (${threads}) SELECT ${threads} FROM snapshot.follow_up_messages`);
+        }
+        return changes;
+      })();
+    } finally {
+      this.db.exec("DETACH DATABASE snapshot");
+    }
+
+    return { restored, migrated: migrateSubmissions(this.db), safetyBackup };
+  }
+
+  private resolve(name: string) {
+    const file = path.join(this.dir, name);
+    if (!BACKUP_NAME_PATTERN.test(name) || !fs.existsSync(file)) {
+      throw new BackupNotFoundError("Backup not found");
+    }
+    return file;
+  }
+
+  private describe(name: string): Backup {
+    const file = path.join(this.dir, name);
+    let schemaVersion: number | null = null;
+    try {
+      const snapshot = new Database(file, { readonly: true, fileMustExist: true });
+      try {
+        const version = getMeta(snapshot, SCHEMA_VERSION_META_KEY);
+        schemaVersion = version === undefined ? null : Number(version);
+      } finally {
+        snapshot.close();
+      }
+    } catch {
+      // Unreadable or pre-meta snapshots are still listed, just without a version
+    }
+    const stat = fs.statSync(file);
+    return { name, createdAt: Math.round(stat.mtimeMs), sizeBytes: stat.size, schemaVersion };
+  }
+}
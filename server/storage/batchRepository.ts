@@ -0,0 +1,45 @@
+export const BATCH_ITEM_STATUSES = ['queued', 'running', 'done', 'failed'] as const;
+export type BatchItemStatus = typeof BATCH_ITEM_STATUSES[number];
+
+/** One uploaded row; `row` is its spreadsheet row number, with the header as row 1. */
+export interface BatchItem {
+  batchId: string;
+  row: number;
+  crop: string;
+  location: string;
+  date: string;
+  status: BatchItemStatus;
+  error: string | null;
+  submissionId: string | null;
+}
+
+export type NewBatchItem = Pick<BatchItem, 'row' | 'crop' | 'location' | 'date'> & {
+  /** Rows that failed validation are stored as already failed with this message. */
+  error?: string;
+};
+
+export interface Batch {
+  id: string;
+  ownerId: string;
+  filename: string;
+  language: string;
+  createdAt: number;
+  total: number;
+  counts: Record<BatchItemStatus, number>;
+  /** 'completed' once no row is queued or running. */
+  status: 'running' | 'completed';
+}
+
+export interface BatchRepository {
+  create(input: { ownerId: string; filename: string; language: string }, items: NewBatchItem[]): Batch;
+  get(id: string): Batch | undefined;
+  /** Newest first. */
+  listByOwner(ownerId: string): Batch[];
+  items(batchId: string): BatchItem[];
+  /** Atomically marks the oldest queued row as running and returns it with its batch's language and owner. */
+  claimNext(): (BatchItem & { language: string; ownerId: string }) | undefined;
+  complete(batchId: string, row: number, submissionId: string): void;
+  fail(batchId: string, row: number, error: string): void;
+  /** Puts rows left running by a previous process back in the queue. */
+  requeueInterrupted(): number;
+}
@@ -0,0 +1,37 @@
+import Database from "better-sqlite3";
+
+export type { Database };
+
+/** Opens the shared SQLite file; each repository creates its own tables on top of it. */
+export function openDatabase(filename: string): Database.Database {
+  const db = new Database(filename);
+  // WAL keeps readers unblocked while a write is in flight and makes
+  // every committed transaction durable even if the process dies mid-write.
+  db.pragma("journal_mode = WAL");
+  db.pragma("synchronous = NORMAL");
+  db.pragma("foreign_keys = ON");
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS meta (
+      key TEXT PRIMARY KEY,
+      value TEXT NOT NULL
+    );
+  `);
+  return db;
+}
+
+export function getMeta(db: Database.Database, key: string): string | undefined {
+  const row = db.prepare("SELECT value FROM meta WHERE key = ?").get(key) as { value: string } | undefined;
+  return row?.value;
+}
+
+export function setMeta(db: Database.Database, key: string, value: string) {
+  db.prepare("INSERT INTO meta (key, value) VALUES (?, ?) ON CONFLICT(key) DO UPDATE SET value = excluded.value").run(key, value);
+}
+
+/** Adds a column to a table created by an older version of the schema. */
+export function ensureColumn(db: Database.Database, table: string, column: string, definition: string) {
+  const columns = db.prepare(`PRAGMA table_info(${table})`).all() as { name: string }[];
+  if (!columns.some(c => c.name === column)) {
+    db.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+  }
+}
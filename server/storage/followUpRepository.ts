@@ -0,0 +1,8 @@
+import type { FollowUpMessage } from "../../src/schemas";
+
+export interface FollowUpRepository {
+  /** The submission's conversation, oldest first. */
+  list(submissionId: string): FollowUpMessage[];
+  /** Stores a farmer's question and the model's answer together and returns both. */
+  appendExchange(submissionId: string, question: string, answer: string, model: string): FollowUpMessage[];
+}
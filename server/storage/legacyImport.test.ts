@@ -0,0 +1,74 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { openDatabase } from "./database";
+import type { Database } from "./database";
+import { importLegacyJson } from "./legacyImport";
+import { SqliteSubmissionRepository } from "./sqliteSubmissionRepository";
+import { migrateSubmissions } from "./submissionMigrations";
+
+let dir: string;
+let file: string;
+let db: Database.Database;
+let submissions: SqliteSubmissionRepository;
+
+function legacy(id: string, changes: Record<string, unknown> = {}) {
+  return {
+    id,
+    crop: "Mango",
+    location: "Guntur, AP",
+    lat: 16.3,
+    lng: 80.45,
+    date: "2026-03-01",
+    riskLevel: "high",
+    climaticConditions: "Dry",
+    timestamp: 1,
+    choice: null,
+    ...changes,
+  };
+}
+
+beforeEach(() => {
+  dir = fs.mkdtempSync(path.join(os.tmpdir(), "legacy-import-"));
+  file = path.join(dir, "db.json");
+  db = openDatabase(":memory:");
+  submissions = new SqliteSubmissionRepository(db);
+});
+
+afterEach(() => {
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+describe("importLegacyJson", () => {
+  it("imports records with an off-schema analysis and leaves it to the migrations", () => {
+    fs.writeFileSync(file, JSON.stringify({
+      submissions: [
+        legacy("raw", { fullAnalysis: { riskLevel: "extreme", text: "raw model answer" }, choice: "maybe" }),
+        legacy("plain"),
+        legacy("no-coords", { lat: "unknown" }),
+        legacy("no-crop", { crop: "" }),
+      ],
+    }));
+
+    expect(importLegacyJson(db, submissions, file)).toBe(2);
+    expect(fs.existsSync(file)).toBe(false);
+    expect(fs.existsSync(`${file}.imported`)).toBe(true);
+
+    migrateSubmissions(db);
+    const raw = submissions.get("raw");
+    expect(raw).toMatchObject({ choice: null, climaticConditions: "Dry" });
+    expect(raw.fullAnalysis).toBeUndefined();
+    expect(submissions.get("plain")).toMatchObject({ crop: "Mango" });
+    expect(submissions.get("no-coords")).toBeUndefined();
+  });
+
+  it("runs only once", () => {
+    fs.writeFileSync(file, JSON.stringify({ submissions: [legacy("a")] }));
+    importLegacyJson(db, submissions, file);
+    fs.writeFileSync(file, JSON.stringify({ submissions: [legacy("b")] }));
+
+    expect(importLegacyJson(db, submissions, file)).toBe(0);
+    expect(fs.existsSync(file)).toBe(true);
+  });
+});
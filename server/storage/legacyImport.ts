@@ -0,0 +1,58 @@
+import fs from "fs";
+import { getMeta, setMeta } from "./database";
+import type { Database } from "./database";
+import { SubmissionSchema } from "../../src/schemas";
+import { logger } from "../logger";
+import type { SubmissionRecord, SubmissionRepository } from "./submissionRepository";
+
+const IMPORT_META_KEY = "legacy_json_import";
+
+/**
+ * The columns a legacy record must have to be imported. The stored analysis is
+ * copied as it is: older versions kept the model's raw answer there, and the
+ * submission migrations drop it when it is not a valid analysis.
+ */
+const LegacyRecordSchema = SubmissionSchema.omit({ fullAnalysis: true });
+
+/**
+ * One-time importer for the old `db.json` store. Records are copied inside a
+ * single transaction and the file is renamed afterwards, so a later start
+ * never imports it twice. Records whose core fields are unusable are skipped
+ * and counted in the log.
+ */
+export function importLegacyJson(db: Database.Database, repo: SubmissionRepository, jsonFile: string): number {
+  if (getMeta(db, IMPORT_META_KEY) || !fs.existsSync(jsonFile)) {
+    return 0;
+  }
+
+  const content = fs.readFileSync(jsonFile, "utf-8");
+  const data = content.trim() ? JSON.parse(content) : {};
+  const records: SubmissionRecord[] = [];
+  let skipped = 0;
+  for (const s of data.submissions || []) {
+    const parsed = LegacyRecordSchema.safeParse({
+      ...s,
+      id: String(s.id || Math.random().toString(36).substr(2, 9)),
+      timestamp: typeof s.timestamp === "number" ? s.timestamp : Date.now(),
+      choice: s.choice === 'A' || s.choice === 'B' ? s.choice : null,
+      ownerId: null,
+      tenantId: null,
+      // Filled in from the analysis by the migrations
+      model: null,
+      promptVersion: null,
+    });
+    if (parsed.success) {
+      records.push({ ...parsed.data, fullAnalysis: s.fullAnalysis || undefined });
+    } else {
+      skipped++;
+    }
+  }
+  if (skipped > 0) {
+    logger.warn("Skipped malformed legacy submissions", { count: skipped, file: jsonFile });
+  }
+
+  const imported = repo.importMany(records);
+  setMeta(db, IMPORT_META_KEY, new Date().toISOString());
+  fs.renameSync(jsonFile, `${jsonFile}.imported`);
+  return imported;
+}
@@ -0,0 +1,12 @@
+import type { PromptName, PromptRollout, PromptVersion } from "../../src/schemas";
+
+export interface PromptRepository {
+  /** Oldest first. */
+  versions(name: PromptName): PromptVersion[];
+  getVersion(name: PromptName, version: number): PromptVersion | undefined;
+  /** Saves `template` as the prompt's next version; it is not used until a rollout picks it. */
+  addVersion(name: PromptName, template: string, notes: string, createdBy: string | null): PromptVersion;
+  /** Undefined until the prompt has been seeded. */
+  rollout(name: PromptName): PromptRollout | undefined;
+  setRollout(name: PromptName, rollout: PromptRollout): PromptRollout;
+}
@@ -0,0 +1,129 @@
+import type { Database } from "./database";
+import type { AnalysisCacheEntry, AnalysisCacheFilter, AnalysisCacheRepository, AnalysisCacheSummary } from "./analysisCacheRepository";
+
+interface CacheRow {
+  key: string;
+  crop: string;
+  location: string;
+  date: string;
+  language: string;
+  result: string;
+  created_at: number;
+  expires_at: number;
+  hits: number;
+  last_hit_at: number | null;
+}
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS analysis_cache (
+    key TEXT PRIMARY KEY,
+    crop TEXT NOT NULL,
+    location TEXT NOT NULL,
+    date TEXT NOT NULL,
+    language TEXT NOT NULL,
+    result TEXT NOT NULL,
+    created_at INTEGER NOT NULL,
+    expires_at INTEGER NOT NULL,
+    hits INTEGER NOT NULL DEFAULT 0,
+    last_hit_at INTEGER
+  );
+  CREATE INDEX IF NOT EXISTS idx_analysis_cache_expires_at ON analysis_cache (expires_at);
+`;
+
+function toEntry(row: CacheRow): AnalysisCacheEntry {
+  return {
+    key: row.key,
+    crop: row.crop,
+    location: row.location,
+    date: row.date,
+    language: row.language,
+    result: JSON.parse(row.result),
+    createdAt: row.created_at,
+    expiresAt: row.expires_at,
+    hits: row.hits,
+    lastHitAt: row.last_hit_at,
+  };
+}
+
+// Filters compare against the normalised values stored alongside the key
+function buildWhere(filter: AnalysisCacheFilter) {
+  const conditions: string[] = [];
+  const params: unknown[] = [];
+  for (const column of ["crop", "location", "language"] as const) {
+    if (filter[column] !== undefined) {
+      conditions.push(`${column} = ?`);
+      params.push(filter[column]);
+    }
+  }
+  return { where: conditions.length ? `WHERE ${conditions.join(" AND ")}` : "", params };
+}
+
+export class SqliteAnalysisCacheRepository implements AnalysisCacheRepository {
+  constructor(private readonly db: Database.Database) {
+    this.db.exec(SCHEMA);
+  }
+
+  hit(key: string, now: number): AnalysisCacheEntry | undefined {
+    const result = this.db.prepare(
+      "UPDATE analysis_cache SET hits = hits + 1, last_hit_at = ? WHERE key = ? AND expires_at > ?"
+    ).run(now, key, now);
+    return result.changes > 0 ? this.get(key) : undefined;
+  }
+
+  get(key: string): AnalysisCacheEntry | undefined {
+    const row = this.db.prepare("SELECT * FROM analysis_cache WHERE key = ?").get(key) as CacheRow | undefined;
+    return row ? toEntry(row) : undefined;
+  }
+
+  put(entry: Omit<AnalysisCacheEntry, 'hits' | 'lastHitAt'>) {
+    this.db.prepare(`
+      INSERT INTO analysis_cache (key, crop, location, date, language, result, created_at, expires_at, hits, last_hit_at)
+      VALUES (@key, @crop, @location, @date, @language, @result, @created_at, @expires_at, 0, NULL)
+      ON CONFLICT(key) DO UPDATE SET
+        result = excluded.result, created_at = excluded.created_at, expires_at = excluded.expires_at, hits = 0, last_hit_at = NULL
+    `).run({
+      key: entry.key,
+      crop: entry.crop,
+      location: entry.location,
+      date: entry.date,
+      language: entry.language,
+      result: JSON.stringify(entry.result),
+      created_at: entry.createdAt,
+      expires_at: entry.expiresAt,
+    });
+  }
+
+  list(filter: AnalysisCacheFilter, limit: number): AnalysisCacheSummary[] {
+    const { where, params } = buildWhere(filter);
+    const rows = this.db.prepare(`
+      SELECT key, crop, location, date, language, created_at, expires_at, hits, last_hit_at,
+        json_extract(result, '$.riskLevel') AS risk_level
+      FROM analysis_cache ${where} ORDER BY created_at DESC LIMIT ?
+    `).all(...params, limit) as (Omit<CacheRow, 'result'> & { risk_level: AnalysisCacheSummary['riskLevel'] })[];
+    return rows.map(row => ({
+      key: row.key,
+      crop: row.crop,
+      location: row.location,
+      date: row.date,
+      language: row.language,
+      createdAt: row.created_at,
+      expiresAt: row.expires_at,
+      hits: row.hits,
+      lastHitAt: row.last_hit_at,
+      riskLevel: row.risk_level,
+    }));
+  }
+
+  delete(key: string): boolean {
+    return this.db.prepare("DELETE FROM analysis_cache WHERE key = ?").run(key).changes > 0;
+  }
+
+  clear(filter: AnalysisCacheFilter): number {
+    const { where, params } = buildWhere(filter);
+    return this.db.prepare(`DELETE FROM analysis_cache ${where}`).run(...params).changes;
+  }
+
+  purgeExpired(now: number): number {
+    return this.db.prepare("DELETE FROM analysis_cache WHERE expires_at <= ?").run(now).changes;
+  }
+}
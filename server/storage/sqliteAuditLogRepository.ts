@@ -0,0 +1,117 @@
+import { ensureColumn } from "./database";
+import type { Database } from "./database";
+import { InvalidQueryError } from "./submissionRepository";
+import type { AuditAction, AuditEntry, AuditLogRepository, AuditPage, AuditQuery, NewAuditEntry } from "./auditLogRepository";
+
+interface AuditRow {
+  id: number;
+  timestamp: number;
+  actor_id: string | null;
+  actor_username: string | null;
+  tenant_id: string | null;
+  action: AuditAction;
+  entity_type: string;
+  entity_id: string | null;
+  details: string | null;
+}
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS audit_log (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    timestamp INTEGER NOT NULL,
+    actor_id TEXT,
+    actor_username TEXT,
+    tenant_id TEXT,
+    action TEXT NOT NULL,
+    entity_type TEXT NOT NULL,
+    entity_id TEXT,
+    details TEXT
+  );
+  CREATE INDEX IF NOT EXISTS idx_audit_log_entity ON audit_log (entity_type, entity_id);
+  CREATE INDEX IF NOT EXISTS idx_audit_log_actor ON audit_log (actor_id);
+`;
+
+function toEntry(row: AuditRow): AuditEntry {
+  return {
+    id: row.id,
+    timestamp: row.timestamp,
+    actorId: row.actor_id,
+    actorUsername: row.actor_username,
+    tenantId: row.tenant_id,
+    action: row.action,
+    entityType: row.entity_type,
+    entityId: row.entity_id,
+    details: row.details ? JSON.parse(row.details) : null,
+  };
+}
+
+export class SqliteAuditLogRepository implements AuditLogRepository {
+  constructor(private readonly db: Database.Database) {
+    this.db.exec(SCHEMA);
+    ensureColumn(this.db, "audit_log", "tenant_id", "TEXT");
+    this.db.exec("CREATE INDEX IF NOT EXISTS idx_audit_log_tenant ON audit_log (tenant_id, id)");
+  }
+
+  record(entry: NewAuditEntry): AuditEntry {
+    const row: Omit<AuditRow, 'id'> = {
+      timestamp: Date.now(),
+      // The username is copied so the entry still reads correctly after the account is deleted
+      actor_id: entry.actor?.id ?? null,
+      actor_username: entry.actor?.username ?? null,
+      tenant_id: entry.actor?.tenantId ?? null,
+      action: entry.action,
+      entity_type: entry.entityType,
+      entity_id: entry.entityId ?? null,
+      details: entry.details ? JSON.stringify(entry.details) : null,
+    };
+    const result = this.db.prepare(`
+      INSERT INTO audit_log (timestamp, actor_id, actor_username, tenant_id, action, entity_type, entity_id, details)
+      VALUES (@timestamp, @actor_id, @actor_username, @tenant_id, @action, @entity_type, @entity_id, @details)
+    `).run(row);
+    return toEntry({ ...row, id: Number(result.lastInsertRowid) });
+  }
+
+  query(query: AuditQuery): AuditPage {
+    const conditions: string[] = [];
+    const params: unknown[] = [];
+    if (query.action?.length) {
+      conditions.push(`action IN (${query.action.map(() => "?").join(", ")})`);
+      params.push(...query.action);
+    }
+    const equals = (column: string, value: unknown) => {
+      if (value === undefined) return;
+      conditions.push(`${column} = ?`);
+      params.push(value);
+    };
+    equals("tenant_id", query.tenantId);
+    equals("actor_id", query.actorId);
+    equals("entity_id", query.entityId);
+    if (query.since !== undefined) {
+      conditions.push("timestamp >= ?");
+      params.push(query.since);
+    }
+    if (query.until !== undefined) {
+      conditions.push("timestamp <= ?");
+      params.push(query.until);
+    }
+    // Ids only ever grow, so the last id seen is enough to continue from
+    if (query.cursor) {
+      const before = Number(query.cursor);
+      if (!Number.isInteger(before)) throw new InvalidQueryError("Invalid cursor");
+      conditions.push("id < ?");
+      params.push(before);
+    }
+
+    const where = conditions.length ? `WHERE ${conditions.join(" AND ")}` : "";
+    const rows = this.db.prepare(
+      `SELECT * FROM audit_log ${where} ORDER BY id DESC LIMIT ?`
+    ).all(...params, query.limit + 1) as AuditRow[];
+
+    const hasMore = rows.length > query.limit;
+    const page = hasMore ? rows.slice(0, query.limit) : rows;
+    return {
+      items: page.map(toEntry),
+      nextCursor: hasMore ? String(page[page.length - 1].id) : null,
+    };
+  }
+}
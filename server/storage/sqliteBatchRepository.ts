@@ -0,0 +1,148 @@
+import crypto from "crypto";
+import type { Database } from "./database";
+import { BATCH_ITEM_STATUSES } from "./batchRepository";
+import type { Batch, BatchItem, BatchItemStatus, BatchRepository, NewBatchItem } from "./batchRepository";
+
+interface BatchRow {
+  id: string;
+  owner_id: string;
+  filename: string;
+  language: string;
+  created_at: number;
+}
+
+interface BatchItemRow {
+  batch_id: string;
+  row: number;
+  crop: string;
+  location: string;
+  date: string;
+  status: BatchItemStatus;
+  error: string | null;
+  submission_id: string | null;
+}
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS batches (
+    id TEXT PRIMARY KEY,
+    owner_id TEXT NOT NULL,
+    filename TEXT NOT NULL,
+    language TEXT NOT NULL,
+    created_at INTEGER NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS idx_batches_owner ON batches (owner_id, created_at);
+  CREATE TABLE IF NOT EXISTS batch_items (
+    batch_id TEXT NOT NULL REFERENCES batches (id) ON DELETE CASCADE,
+    row INTEGER NOT NULL,
+    crop TEXT NOT NULL,
+    location TEXT NOT NULL,
+    date TEXT NOT NULL,
+    status TEXT NOT NULL,
+    error TEXT,
+    submission_id TEXT,
+    PRIMARY KEY (batch_id, row)
+  );
+  CREATE INDEX IF NOT EXISTS idx_batch_items_status ON batch_items (status);
+`;
+
+function toItem(row: BatchItemRow): BatchItem {
+  return {
+    batchId: row.batch_id,
+    row: row.row,
+    crop: row.crop,
+    location: row.location,
+    date: row.date,
+    status: row.status,
+    error: row.error,
+    submissionId: row.submission_id,
+  };
+}
+
+export class SqliteBatchRepository implements BatchRepository {
+  constructor(private readonly db: Database.Database) {
+    this.db.exec(SCHEMA);
+  }
+
+  private toBatch(row: BatchRow): Batch {
+    const counts = Object.fromEntries(BATCH_ITEM_STATUSES.map(s => [s, 0])) as Record<BatchItemStatus, number>;
+    const grouped = this.db.prepare(
+      "SELECT status, COUNT(*) AS count FROM batch_items WHERE batch_id = ? GROUP BY status"
+    ).all(row.id) as { status: BatchItemStatus; count: number }[];
+    for (const { status, count } of grouped) counts[status] = count;
+    return {
+      id: row.id,
+      ownerId: row.owner_id,
+      filename: row.filename,
+      language: row.language,
+      createdAt: row.created_at,
+      total: grouped.reduce((sum, g) => sum + g.count, 0),
+      counts,
+      status: counts.queued + counts.running > 0 ? 'running' : 'completed',
+    };
+  }
+
+  create(input: { ownerId: string; filename: string; language: string }, items: NewBatchItem[]): Batch {
+    const batch: BatchRow = {
+      id: crypto.randomUUID(),
+      owner_id: input.ownerId,
+      filename: input.filename,
+      language: input.language,
+      created_at: Date.now(),
+    };
+    const insertBatch = this.db.prepare(
+      "INSERT INTO batches (id, owner_id, filename, language, created_at) VALUES (@id, @owner_id, @filename, @language, @created_at)"
+    );
+    const insertItem = this.db.prepare(`
+      INSERT INTO batch_items (batch_id, row, crop, location, date, status, error)
+      VALUES (?, ?, ?, ?, ?, ?, ?)
+    `);
+    this.db.transaction(() => {
+      insertBatch.run(batch);
+      for (const item of items) {
+        insertItem.run(batch.id, item.row, item.crop, item.location, item.date, item.error ? 'failed' : 'queued', item.error ?? null);
+      }
+    })();
+    return this.toBatch(batch);
+  }
+
+  get(id: string): Batch | undefined {
+    const row = this.db.prepare("SELECT * FROM batches WHERE id = ?").get(id) as BatchRow | undefined;
+    return row ? this.toBatch(row) : undefined;
+  }
+
+  listByOwner(ownerId: string): Batch[] {
+    const rows = this.db.prepare("SELECT * FROM batches WHERE owner_id = ? ORDER BY created_at DESC").all(ownerId) as BatchRow[];
+    return rows.map(row => this.toBatch(row));
+  }
+
+  items(batchId: string): BatchItem[] {
+    const rows = this.db.prepare("SELECT * FROM batch_items WHERE batch_id = ? ORDER BY row ASC").all(batchId) as BatchItemRow[];
+    return rows.map(toItem);
+  }
+
+  claimNext(): (BatchItem & { language: string; ownerId: string }) | undefined {
+    return this.db.transaction(() => {
+      const row = this.db.prepare(`
+        SELECT i.*, b.language, b.owner_id FROM batch_items i JOIN batches b ON b.id = i.batch_id
+        WHERE i.status = 'queued' ORDER BY b.created_at ASC, i.row ASC LIMIT 1
+      `).get() as (BatchItemRow & { language: string; owner_id: string }) | undefined;
+      if (!row) return undefined;
+      this.db.prepare("UPDATE batch_items SET status = 'running' WHERE batch_id = ? AND row = ?").run(row.batch_id, row.row);
+      return { ...toItem(row), status: 'running' as const, language: row.language, ownerId: row.owner_id };
+    })();
+  }
+
+  complete(batchId: string, row: number, submissionId: string) {
+    this.db.prepare(
+      "UPDATE batch_items SET status = 'done', error = NULL, submission_id = ? WHERE batch_id = ? AND row = ?"
+    ).run(submissionId, batchId, row);
+  }
+
+  fail(batchId: string, row: number, error: string) {
+    this.db.prepare("UPDATE batch_items SET status = 'failed', error = ? WHERE batch_id = ? AND row = ?").run(error, batchId, row);
+  }
+
+  requeueInterrupted(): number {
+    return this.db.prepare("UPDATE batch_items SET status = 'queued' WHERE status = 'running'").run().changes;
+  }
+}
@@ -0,0 +1,67 @@
+import crypto from "crypto";
+import type { FollowUpMessage, FollowUpRole } from "../../src/schemas";
+import type { Database } from "./database";
+import type { FollowUpRepository } from "./followUpRepository";
+
+interface MessageRow {
+  id: string;
+  submission_id: string;
+  role: FollowUpRole;
+  content: string;
+  model: string | null;
+  created_at: number;
+}
+
+// Threads go with their submission, so deleting or restoring submissions needs no extra cleanup
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS follow_up_messages (
+    id TEXT PRIMARY KEY,
+    submission_id TEXT NOT NULL REFERENCES submissions (id) ON DELETE CASCADE,
+    role TEXT NOT NULL,
+    content TEXT NOT NULL,
+    model TEXT,
+    created_at INTEGER NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS idx_follow_up_messages_submission ON follow_up_messages (submission_id, created_at);
+`;
+
+function toMessage(row: MessageRow): FollowUpMessage {
+  return {
+    id: row.id,
+    submissionId: row.submission_id,
+    role: row.role,
+    content: row.content,
+    model: row.model,
+    createdAt: row.created_at,
+  };
+}
+
+export class SqliteFollowUpRepository implements FollowUpRepository {
+  constructor(private readonly db: Database.Database) {
+    this.db.exec(SCHEMA);
+  }
+
+  list(submissionId: string): FollowUpMessage[] {
+    // rowid breaks ties between a question and its answer stored in the same millisecond
+    const rows = this.db.prepare(
+      "SELECT * FROM follow_up_messages WHERE submission_id = ? ORDER BY created_at ASC, rowid ASC"
+    ).all(submissionId) as MessageRow[];
+    return rows.map(toMessage);
+  }
+
+  appendExchange(submissionId: string, question: string, answer: string, model: string): FollowUpMessage[] {
+    const now = Date.now();
+    const rows: MessageRow[] = [
+      { id: crypto.randomUUID(), submission_id: submissionId, role: 'farmer', content: question, model: null, created_at: now },
+      { id: crypto.randomUUID(), submission_id: submissionId, role: 'assistant', content: answer, model, created_at: now },
+    ];
+    const insert = this.db.prepare(`
+      INSERT INTO follow_up_messages (id, submission_id, role, content, model, created_at)
+      VALUES (@id, @submission_id, @role, @content, @model, @created_at)
+    `);
+    this.db.transaction(() => {
+      for (const row of rows) insert.run(row);
+    })();
+    return rows.map(toMessage);
+  }
+}
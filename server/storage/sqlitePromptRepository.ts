@@ -0,0 +1,92 @@
+import type { PromptName, PromptRollout, PromptVersion } from "../../src/schemas";
+import type { Database } from "./database";
+import type { PromptRepository } from "./promptRepository";
+
+interface VersionRow {
+  name: PromptName;
+  version: number;
+  template: string;
+  notes: string;
+  created_at: number;
+  created_by: string | null;
+}
+
+interface RolloutRow {
+  active_version: number;
+  candidate_version: number | null;
+  candidate_percent: number;
+}
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS prompt_versions (
+    name TEXT NOT NULL,
+    version INTEGER NOT NULL,
+    template TEXT NOT NULL,
+    notes TEXT NOT NULL DEFAULT '',
+    created_at INTEGER NOT NULL,
+    created_by TEXT,
+    PRIMARY KEY (name, version)
+  );
+  CREATE TABLE IF NOT EXISTS prompt_rollouts (
+    name TEXT PRIMARY KEY,
+    active_version INTEGER NOT NULL,
+    candidate_version INTEGER,
+    candidate_percent INTEGER NOT NULL DEFAULT 0
+  );
+`;
+
+function toVersion(row: VersionRow): PromptVersion {
+  return {
+    name: row.name,
+    version: row.version,
+    template: row.template,
+    notes: row.notes,
+    createdAt: row.created_at,
+    createdBy: row.created_by,
+  };
+}
+
+export class SqlitePromptRepository implements PromptRepository {
+  constructor(private readonly db: Database.Database) {
+    this.db.exec(SCHEMA);
+  }
+
+  versions(name: PromptName): PromptVersion[] {
+    const rows = this.db.prepare("SELECT * FROM prompt_versions WHERE name = ? ORDER BY version ASC").all(name) as VersionRow[];
+    return rows.map(toVersion);
+  }
+
+  getVersion(name: PromptName, version: number): PromptVersion | undefined {
+    const row = this.db.prepare("SELECT * FROM prompt_versions WHERE name = ? AND version = ?").get(name, version) as VersionRow | undefined;
+    return row ? toVersion(row) : undefined;
+  }
+
+  addVersion(name: PromptName, template: string, notes: string, createdBy: string | null): PromptVersion {
+    // Numbering and inserting in one transaction, so two admins saving at once get different versions
+    return this.db.transaction(() => {
+      const { latest } = this.db.prepare("SELECT MAX(version) AS latest FROM prompt_versions WHERE name = ?").get(name) as { latest: number | null };
+      const row: VersionRow = { name, version: (latest ?? 0) + 1, template, notes, created_at: Date.now(), created_by: createdBy };
+      this.db.prepare(`
+        INSERT INTO prompt_versions (name, version, template, notes, created_at, created_by)
+        VALUES (@name, @version, @template, @notes, @created_at, @created_by)
+      `).run(row);
+      return toVersion(row);
+    })();
+  }
+
+  rollout(name: PromptName): PromptRollout | undefined {
+    const row = this.db.prepare("SELECT * FROM prompt_rollouts WHERE name = ?").get(name) as RolloutRow | undefined;
+    return row
+      ? { activeVersion: row.active_version, candidateVersion: row.candidate_version, candidatePercent: row.candidate_percent }
+      : undefined;
+  }
+
+  setRollout(name: PromptName, rollout: PromptRollout): PromptRollout {
+    this.db.prepare(`
+      INSERT INTO prompt_rollouts (name, active_version, candidate_version, candidate_percent) VALUES (?, ?, ?, ?)
+      ON CONFLICT (name) DO UPDATE SET active_version = excluded.active_version,
+        candidate_version = excluded.candidate_version, candidate_percent = excluded.candidate_percent
+    `).run(name, rollout.activeVersion, rollout.candidateVersion, rollout.candidatePercent);
+    return rollout;
+  }
+}
@@ -0,0 +1,107 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import { DEFAULT_OFFLINE_FIXTURES } from "../llm/offlineFixtures";
+import { openDatabase } from "./database";
+import { SqliteSubmissionRepository } from "./sqliteSubmissionRepository";
+import { InvalidQueryError } from "./submissionRepository";
+import type { SubmissionQuery, SubmissionRecord } from "./submissionRepository";
+
+let submissions: SqliteSubmissionRepository;
+
+function record(id: string, timestamp: number, changes: Partial<SubmissionRecord> = {}): SubmissionRecord {
+  return {
+    id,
+    crop: "Mango",
+    location: "Guntur, AP",
+    lat: 16.3,
+    lng: 80.45,
+    date: "2026-03-01",
+    riskLevel: 'high',
+    climaticConditions: "",
+    timestamp,
+    choice: null,
+    ownerId: null,
+    tenantId: null,
+    model: null,
+    promptVersion: null,
+    ...changes,
+  };
+}
+
+/** Follows `nextCursor` until the last page and returns the ids in the order they came. */
+function walk(query: Omit<SubmissionQuery, 'cursor'>) {
+  const ids: string[] = [];
+  let cursor: string | undefined;
+  do {
+    const page = submissions.query({ ...query, cursor });
+    expect(page.items.length).toBeLessThanOrEqual(query.limit);
+    ids.push(...page.items.map(item => item.id));
+    cursor = page.nextCursor ?? undefined;
+  } while (cursor);
+  return ids;
+}
+
+beforeEach(() => {
+  submissions = new SqliteSubmissionRepository(openDatabase(":memory:"));
+  // Several rows share a timestamp, so pages must break ties on the id
+  submissions.importMany([
+    record("e", 300, { crop: "Rice" }),
+    record("a", 100),
+    record("c", 200, { crop: "rice" }),
+    record("b", 200),
+    record("d", 200),
+    record("f", 400, { deletedAt: 500 }),
+  ]);
+});
+
+describe("SqliteSubmissionRepository.query", () => {
+  it("pages through every live row exactly once, newest first", () => {
+    expect(walk({ sort: 'timestamp', order: 'desc', limit: 2 })).toEqual(["e", "d", "c", "b", "a"]);
+  });
+
+  it("pages in ascending order too", () => {
+    expect(walk({ sort: 'timestamp', order: 'asc', limit: 2 })).toEqual(["a", "b", "c", "d", "e"]);
+  });
+
+  it("keeps paging stable on a text column with filters applied", () => {
+    expect(walk({ sort: 'crop', order: 'asc', limit: 1, crop: ["rice"] })).toEqual(["e", "c"]);
+  });
+
+  it("does not repeat rows when new ones arrive between pages", () => {
+    const first = submissions.query({ sort: 'timestamp', order: 'desc', limit: 2 });
+    submissions.importMany([record("g", 1000)]);
+    const second = submissions.query({ sort: 'timestamp', order: 'desc', limit: 2, cursor: first.nextCursor! });
+    expect(second.items.map(item => item.id)).toEqual(["c", "b"]);
+  });
+
+  it("rejects a cursor it did not issue", () => {
+    expect(() => submissions.query({ sort: 'timestamp', order: 'desc', limit: 2, cursor: "not-a-cursor" }))
+      .toThrow(InvalidQueryError);
+  });
+});
+
+describe("SqliteSubmissionRepository.updateAnalysis", () => {
+  it("replaces the analysis and the columns taken from it on live rows only", () => {
+    const analysis = { ...DEFAULT_OFFLINE_FIXTURES[0].result, lat: 16.5, lng: 80.6, riskLevel: 'low' as const, model: "gemini-test", promptVersion: 3 };
+
+    expect(submissions.updateAnalysis("a", analysis)).toMatchObject({
+      lat: 16.5,
+      riskLevel: 'low',
+      climaticConditions: analysis.climaticConditions,
+      fullAnalysis: analysis,
+      model: "gemini-test",
+      promptVersion: 3,
+    });
+    expect(submissions.updateAnalysis("f", analysis)).toBeUndefined();
+  });
+});
+
+describe("SqliteSubmissionRepository.mapZones", () => {
+  it("leaves out small groups and names only the region and month", () => {
+    submissions.importMany([record("g", 500, { location: "Tenali, Guntur, AP", lat: 16.31, date: "2026-03-20" })]);
+
+    expect(submissions.mapZones({}, 1, 3)).toEqual([
+      { lat: 16.3, lng: 80.5, crop: "Mango", riskLevel: 'high', count: 4, region: "AP", latestMonth: "2026-03" },
+    ]);
+    expect(submissions.mapZones({}, 1, 1).map(zone => [zone.crop, zone.count])).toEqual([["Mango", 4], ["Rice", 2]]);
+  });
+});
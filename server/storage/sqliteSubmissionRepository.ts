@@ -0,0 +1,477 @@
+import { ensureColumn } from "./database";
+import type { Database } from "./database";
+import { SUBMISSION_SCHEMA_VERSION } from "./submissionMigrations";
+import { InvalidQueryError, regionOf } from "./submissionRepository";
+import type {
+  AdminStats,
+  AnalysisResult,
+  Choice,
+  MapZone,
+  NewSubmission,
+  Outcome,
+  PredictionOutcome,
+  RiskCounts,
+  SortField,
+  StatsInterval,
+  SubmissionFilter,
+  SubmissionPage,
+  SubmissionQuery,
+  SubmissionRecord,
+  SubmissionRepository,
+} from "./submissionRepository";
+
+interface SubmissionRow {
+  id: string;
+  crop: string;
+  location: string;
+  lat: number;
+  lng: number;
+  date: string;
+  risk_level: SubmissionRecord['riskLevel'];
+  climatic_conditions: string;
+  timestamp: number;
+  choice: Choice | null;
+  full_analysis: string | null;
+  owner_id: string | null;
+  tenant_id: string | null;
+  deleted_at: number | null;
+  outcome: string | null;
+  model: string | null;
+  prompt_version: number | null;
+  schema_version: number;
+}
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS submissions (
+    id TEXT PRIMARY KEY,
+    crop TEXT NOT NULL,
+    location TEXT NOT NULL,
+    lat REAL,
+    lng REAL,
+    date TEXT NOT NULL,
+    risk_level TEXT NOT NULL,
+    climatic_conditions TEXT NOT NULL DEFAULT '',
+    timestamp INTEGER NOT NULL,
+    choice TEXT,
+    full_analysis TEXT,
+    owner_id TEXT,
+    tenant_id TEXT,
+    deleted_at INTEGER,
+    outcome TEXT,
+    model TEXT,
+    prompt_version INTEGER,
+    schema_version INTEGER NOT NULL DEFAULT 0
+  );
+  CREATE INDEX IF NOT EXISTS idx_submissions_crop ON submissions (crop);
+  CREATE INDEX IF NOT EXISTS idx_submissions_risk_level ON submissions (risk_level);
+  CREATE INDEX IF NOT EXISTS idx_submissions_timestamp ON submissions (timestamp);
+  CREATE INDEX IF NOT EXISTS idx_submissions_lat_lng ON submissions (lat, lng);
+`;
+
+const LATE_INDEXES = `
+  CREATE INDEX IF NOT EXISTS idx_submissions_owner ON submissions (owner_id, timestamp);
+  CREATE INDEX IF NOT EXISTS idx_submissions_deleted_at ON submissions (deleted_at);
+  CREATE INDEX IF NOT EXISTS idx_submissions_tenant ON submissions (tenant_id, timestamp);
+`;
+
+const SORT_COLUMNS: Record<SortField, string> = {
+  timestamp: "timestamp",
+  date: "date",
+  crop: "crop",
+  location: "location",
+};
+
+/** Builds parameterised WHERE conditions; shared by listing, export and stats. */
+export function buildWhere(filter: SubmissionFilter): { conditions: string[]; params: unknown[] } {
+  const conditions: string[] = [filter.deleted ? "deleted_at IS NOT NULL" : "deleted_at IS NULL"];
+  const params: unknown[] = [];
+  const inList = (column: string, values: unknown[], collate = "") => {
+    conditions.push(`${column}${collate} IN (${values.map(() => "?").join(", ")})`);
+    params.push(...values);
+  };
+
+  if (filter.ownerId) {
+    conditions.push("owner_id = ?");
+    params.push(filter.ownerId);
+  }
+  if (filter.tenantId) {
+    conditions.push("tenant_id = ?");
+    params.push(filter.tenantId);
+  }
+  if (filter.crop?.length) inList("crop", filter.crop, " COLLATE NOCASE");
+  if (filter.riskLevel?.length) inList("risk_level", filter.riskLevel);
+  if (filter.choice?.length) {
+    const picked = filter.choice.filter(c => c !== 'none');
+    const parts: string[] = [];
+    if (picked.length) {
+      parts.push(`choice IN (${picked.map(() => "?").join(", ")})`);
+      params.push(...picked);
+    }
+    if (filter.choice.includes('none')) parts.push("choice IS NULL");
+    conditions.push(`(${parts.join(" OR ")})`);
+  }
+  const range = (column: string, op: string, value: unknown) => {
+    if (value === undefined) return;
+    conditions.push(`${column} ${op} ?`);
+    params.push(value);
+  };
+  range("date", ">=", filter.dateFrom);
+  range("date", "<=", filter.dateTo);
+  range("timestamp", ">=", filter.since);
+  range("timestamp", "<=", filter.until);
+  range("lat", ">=", filter.minLat);
+  range("lat", "<=", filter.maxLat);
+  range("lng", ">=", filter.minLng);
+  range("lng", "<=", filter.maxLng);
+  if (filter.q) {
+    conditions.push("location LIKE ? ESCAPE '\\'");
+    params.push(`%${filter.q.replace(/[\\%_]/g, m => `\\${m}`)}%`);
+  }
+
+  return { conditions, params };
+}
+
+export function whereSql(conditions: string[]) {
+  return conditions.length ? `WHERE ${conditions.join(" AND ")}` : "";
+}
+
+// Creation time bucketed in UTC; weeks are labelled by their Monday
+const PERIOD_SQL: Record<StatsInterval, string> = {
+  day: "strftime('%Y-%m-%d', timestamp / 1000, 'unixepoch')",
+  week: "date(timestamp / 1000, 'unixepoch', 'weekday 0', '-6 days')",
+  month: "strftime('%Y-%m', timestamp / 1000, 'unixepoch')",
+};
+
+const RISK_COUNT_SQL = `COUNT(*) AS total,
+  SUM(risk_level = 'low') AS low, SUM(risk_level = 'medium') AS medium, SUM(risk_level = 'high') AS high`;
+
+function encodeCursor(value: unknown, id: string) {
+  return Buffer.from(JSON.stringify([value, id])).toString("base64url");
+}
+
+function decodeCursor(cursor: string): [string | number, string] {
+  try {
+    const decoded = JSON.parse(Buffer.from(cursor, "base64url").toString("utf-8"));
+    if (
+      Array.isArray(decoded) && decoded.length === 2 &&
+      ["string", "number"].includes(typeof decoded[0]) && typeof decoded[1] === "string"
+    ) {
+      return decoded as [string | number, string];
+    }
+  } catch {
+    // fall through
+  }
+  throw new InvalidQueryError("Invalid cursor");
+}
+
+function toRecord(row: SubmissionRow): SubmissionRecord {
+  return {
+    id: row.id,
+    crop: row.crop,
+    location: row.location,
+    lat: row.lat,
+    lng: row.lng,
+    date: row.date,
+    riskLevel: row.risk_level,
+    climaticConditions: row.climatic_conditions,
+    timestamp: row.timestamp,
+    choice: row.choice,
+    ownerId: row.owner_id,
+    tenantId: row.tenant_id,
+    ...(row.deleted_at !== null ? { deletedAt: row.deleted_at } : {}),
+    ...(row.full_analysis ? { fullAnalysis: JSON.parse(row.full_analysis) } : {}),
+    ...(row.outcome ? { outcome: JSON.parse(row.outcome) } : {}),
+    model: row.model,
+    promptVersion: row.prompt_version,
+  };
+}
+
+function toRow(record: SubmissionRecord, schemaVersion: number): SubmissionRow {
+  return {
+    id: record.id,
+    crop: record.crop,
+    location: record.location,
+    lat: record.lat,
+    lng: record.lng,
+    date: record.date,
+    risk_level: record.riskLevel,
+    climatic_conditions: record.climaticConditions || "",
+    timestamp: record.timestamp,
+    choice: record.choice ?? null,
+    full_analysis: record.fullAnalysis ? JSON.stringify(record.fullAnalysis) : null,
+    owner_id: record.ownerId ?? null,
+    tenant_id: record.tenantId ?? null,
+    deleted_at: record.deletedAt ?? null,
+    outcome: record.outcome ? JSON.stringify(record.outcome) : null,
+    // Kept in columns of their own so stats can group by them
+    model: record.fullAnalysis?.model ?? null,
+    prompt_version: record.fullAnalysis?.promptVersion ?? null,
+    schema_version: schemaVersion,
+  };
+}
+
+export class SqliteSubmissionRepository implements SubmissionRepository {
+  constructor(private readonly db: Database.Database) {
+    this.db.exec(SCHEMA);
+    ensureColumn(this.db, "submissions", "owner_id", "TEXT");
+    ensureColumn(this.db, "submissions", "deleted_at", "INTEGER");
+    ensureColumn(this.db, "submissions", "schema_version", "INTEGER NOT NULL DEFAULT 0");
+    ensureColumn(this.db, "submissions", "outcome", "TEXT");
+    ensureColumn(this.db, "submissions", "tenant_id", "TEXT");
+    ensureColumn(this.db, "submissions", "model", "TEXT");
+    ensureColumn(this.db, "submissions", "prompt_version", "INTEGER");
+    this.db.exec(LATE_INDEXES);
+  }
+
+  list(): SubmissionRecord[] {
+    const rows = this.db.prepare("SELECT * FROM submissions WHERE deleted_at IS NULL ORDER BY timestamp ASC").all() as SubmissionRow[];
+    return rows.map(toRecord);
+  }
+
+  query(query: SubmissionQuery): SubmissionPage {
+    const column = SORT_COLUMNS[query.sort];
+    const direction = query.order === 'asc' ? "ASC" : "DESC";
+    const { conditions, params } = buildWhere(query);
+
+    // Keyset pagination: continue strictly after the last (sort value, id) pair
+    if (query.cursor) {
+      const [value, id] = decodeCursor(query.cursor);
+      const op = query.order === 'asc' ? ">" : "<";
+      conditions.push(`(${column} ${op} ? OR (${column} = ? AND id ${op} ?))`);
+      params.push(value, value, id);
+    }
+
+    const rows = this.db.prepare(
+      `SELECT * FROM submissions ${whereSql(conditions)} ORDER BY ${column} ${direction}, id ${direction} LIMIT ?`
+    ).all(...params, query.limit + 1) as SubmissionRow[];
+
+    const hasMore = rows.length > query.limit;
+    const page = hasMore ? rows.slice(0, query.limit) : rows;
+    const last = page[page.length - 1];
+    return {
+      items: page.map(toRecord),
+      nextCursor: hasMore && last ? encodeCursor(last[column as keyof SubmissionRow], last.id) : null,
+    };
+  }
+
+  find(filter: SubmissionFilter): SubmissionRecord[] {
+    const { conditions, params } = buildWhere(filter);
+    const rows = this.db.prepare(
+      `SELECT * FROM submissions ${whereSql(conditions)} ORDER BY timestamp ASC, id ASC`
+    ).all(...params) as SubmissionRow[];
+    return rows.map(toRecord);
+  }
+
+  distinctCrops(tenantId?: string): string[] {
+    const { conditions, params } = buildWhere({ tenantId });
+    const rows = this.db.prepare(
+      `SELECT DISTINCT crop FROM submissions ${whereSql(conditions)} ORDER BY crop COLLATE NOCASE`
+    ).all(...params) as { crop: string }[];
+    return rows.map(r => r.crop);
+  }
+
+  mapZones(filter: SubmissionFilter, precision: number, minCount: number): MapZone[] {
+    const { conditions, params } = buildWhere(filter);
+    conditions.push("lat IS NOT NULL", "lng IS NOT NULL");
+    // The latest row per cell supplies the region and month; SQLite returns the bare columns from the MAX(timestamp) row
+    const rows = this.db.prepare(`
+      SELECT ROUND(lat, ?) AS lat, ROUND(lng, ?) AS lng, crop, risk_level AS riskLevel,
+        COUNT(*) AS count, location, SUBSTR(date, 1, 7) AS latestMonth, MAX(timestamp) AS latestTimestamp
+      FROM submissions ${whereSql(conditions)}
+      GROUP BY ROUND(lat, ?), ROUND(lng, ?), crop COLLATE NOCASE, risk_level
+      HAVING COUNT(*) >= ?
+      ORDER BY latestTimestamp DESC
+    `).all(precision, precision, ...params, precision, precision, minCount) as (Omit<MapZone, 'region'> & { location: string; latestTimestamp: number })[];
+    return rows.map(({ location, latestTimestamp, ...zone }) => ({ ...zone, region: regionOf(location) }));
+  }
+
+  knownCoordinates(location: string): { lat: number; lng: number } | undefined {
+    return this.db.prepare(`
+      SELECT lat, lng FROM submissions
+      WHERE location = ? COLLATE NOCASE AND lat IS NOT NULL AND lng IS NOT NULL
+      ORDER BY timestamp DESC LIMIT 1
+    `).get(location.trim()) as { lat: number; lng: number } | undefined;
+  }
+
+  get(id: string, includeDeleted = false): SubmissionRecord | undefined {
+    const row = this.db.prepare(
+      `SELECT * FROM submissions WHERE id = ?${includeDeleted ? "" : " AND deleted_at IS NULL"}`
+    ).get(id) as SubmissionRow | undefined;
+    return row ? toRecord(row) : undefined;
+  }
+
+  create(input: NewSubmission): SubmissionRecord {
+    const record: SubmissionRecord = {
+      ...input,
+      id: Math.random().toString(36).substr(2, 9),
+      timestamp: Date.now(),
+      choice: null,
+      model: input.fullAnalysis?.model ?? null,
+      promptVersion: input.fullAnalysis?.promptVersion ?? null,
+    };
+    this.db.prepare(`
+      INSERT INTO submissions (id, crop, location, lat, lng, date, risk_level, climatic_conditions, timestamp, choice, full_analysis, owner_id, tenant_id, deleted_at, outcome, model, prompt_version, schema_version)
+      VALUES (@id, @crop, @location, @lat, @lng, @date, @risk_level, @climatic_conditions, @timestamp, @choice, @full_analysis, @owner_id, @tenant_id, @deleted_at, @outcome, @model, @prompt_version, @schema_version)
+    `).run(toRow(record, SUBMISSION_SCHEMA_VERSION));
+    return record;
+  }
+
+  updateChoice(id: string, choice: Choice | null): SubmissionRecord | undefined {
+    const result = this.db.prepare("UPDATE submissions SET choice = ? WHERE id = ? AND deleted_at IS NULL").run(choice, id);
+    return result.changes > 0 ? this.get(id) : undefined;
+  }
+
+  updateAnalysis(id: string, analysis: AnalysisResult): SubmissionRecord | undefined {
+    const result = this.db.prepare(`
+      UPDATE submissions
+      SET lat = ?, lng = ?, risk_level = ?, climatic_conditions = ?, full_analysis = ?, model = ?, prompt_version = ?
+      WHERE id = ? AND deleted_at IS NULL
+    `).run(analysis.lat, analysis.lng, analysis.riskLevel, analysis.climaticConditions || "", JSON.stringify(analysis), analysis.model ?? null, analysis.promptVersion ?? null, id);
+    return result.changes > 0 ? this.get(id) : undefined;
+  }
+
+  recordOutcome(id: string, outcome: Outcome): SubmissionRecord | undefined {
+    const result = this.db.prepare("UPDATE submissions SET outcome = ? WHERE id = ? AND deleted_at IS NULL").run(JSON.stringify(outcome), id);
+    return result.changes > 0 ? this.get(id) : undefined;
+  }
+
+  softDelete(id: string): SubmissionRecord | undefined {
+    const result = this.db.prepare("UPDATE submissions SET deleted_at = ? WHERE id = ? AND deleted_at IS NULL").run(Date.now(), id);
+    return result.changes > 0 ? this.get(id, true) : undefined;
+  }
+
+  softDeleteMany(filter: SubmissionFilter = {}): number {
+    const { conditions, params } = buildWhere({ ...filter, deleted: false });
+    return this.db.prepare(`UPDATE submissions SET deleted_at = ? ${whereSql(conditions)}`).run(Date.now(), ...params).changes;
+  }
+
+  restore(id: string): SubmissionRecord | undefined {
+    const result = this.db.prepare("UPDATE submissions SET deleted_at = NULL WHERE id = ? AND deleted_at IS NOT NULL").run(id);
+    return result.changes > 0 ? this.get(id) : undefined;
+  }
+
+  purgeDeleted(before: number): number {
+    return this.db.prepare("DELETE FROM submissions WHERE deleted_at IS NOT NULL AND deleted_at < ?").run(before).changes;
+  }
+
+  count(): number {
+    const { total } = this.db.prepare("SELECT COUNT(*) AS total FROM submissions WHERE deleted_at IS NULL").get() as { total: number };
+    return total;
+  }
+
+  stats(filter: SubmissionFilter, interval: StatsInterval): AdminStats {
+    const { conditions, params } = buildWhere(filter);
+    const where = whereSql(conditions);
+    const all = <T>(sql: string) => this.db.prepare(sql).all(...params) as T[];
+
+    const totals = this.db.prepare(`
+      SELECT ${RISK_COUNT_SQL},
+        SUM(choice IS 'A') AS change, SUM(choice IS 'B') AS continue, SUM(choice IS NULL) AS none,
+        COUNT(full_analysis) AS analysed,
+        AVG(json_extract(full_analysis, '$.riskScore')) AS riskScore,
+        AVG(json_extract(full_analysis, '$.mismatchDays')) AS mismatchDays,
+        AVG(json_extract(full_analysis, '$.yieldRiskPercentage')) AS yieldRiskPercentage
+      FROM submissions ${where}
+    `).get(...params) as RiskCounts & {
+      change: number | null; continue: number | null; none: number | null; analysed: number;
+      riskScore: number | null; mismatchDays: number | null; yieldRiskPercentage: number | null;
+    };
+
+    const crops = all<RiskCounts & { crop: string }>(
+      `SELECT crop, ${RISK_COUNT_SQL} FROM submissions ${where} GROUP BY crop COLLATE NOCASE ORDER BY total DESC`
+    );
+    const locations = all<RiskCounts & { location: string }>(
+      `SELECT location, ${RISK_COUNT_SQL} FROM submissions ${where} GROUP BY location COLLATE NOCASE ORDER BY total DESC`
+    );
+    const choices = all<{ riskLevel: SubmissionRecord['riskLevel']; A: number; B: number; none: number }>(`
+      SELECT risk_level AS riskLevel, SUM(choice IS 'A') AS A, SUM(choice IS 'B') AS B, SUM(choice IS NULL) AS none
+      FROM submissions ${where} GROUP BY risk_level
+    `);
+
+    // Actual loss is the negated yield change, floored at 0, as in the accuracy report
+    const prompts = all<AdminStats['byPrompt'][number]>(`
+      SELECT prompt_version AS promptVersion, model, ${RISK_COUNT_SQL},
+        SUM(choice IS NOT NULL) AS decided,
+        AVG(json_extract(full_analysis, '$.riskScore')) AS riskScore,
+        AVG(json_extract(full_analysis, '$.yieldRiskPercentage')) AS yieldRiskPercentage,
+        COUNT(outcome) AS outcomes,
+        AVG(ABS(json_extract(full_analysis, '$.yieldRiskPercentage') - MAX(0, -json_extract(outcome, '$.yieldChangePercent')))) AS meanAbsoluteError
+      FROM submissions ${where} GROUP BY prompt_version, model ORDER BY prompt_version DESC, total DESC
+    `);
+
+    const regions = new Map<string, RiskCounts & { region: string }>();
+    for (const loc of locations) {
+      const region = regionOf(loc.location);
+      const entry = regions.get(region.toLowerCase()) ?? { region, total: 0, low: 0, medium: 0, high: 0 };
+      entry.total += loc.total;
+      entry.low += loc.low;
+      entry.medium += loc.medium;
+      entry.high += loc.high;
+      regions.set(region.toLowerCase(), entry);
+    }
+
+    return {
+      total: totals.total,
+      byRisk: { high: totals.high ?? 0, medium: totals.medium ?? 0, low: totals.low ?? 0 },
+      byChoice: { change: totals.change ?? 0, continue: totals.continue ?? 0, none: totals.none ?? 0 },
+      byCrop: Object.fromEntries(crops.map(c => [c.crop, c.total])),
+      timeSeries: all<RiskCounts & { period: string }>(
+        `SELECT ${PERIOD_SQL[interval]} AS period, ${RISK_COUNT_SQL} FROM submissions ${where} GROUP BY period ORDER BY period`
+      ),
+      byLocation: locations,
+      byRegion: [...regions.values()].sort((a, b) => b.total - a.total),
+      cropRisk: crops,
+      choiceByRisk: (['high', 'medium', 'low'] as const).map(riskLevel => {
+        const row = choices.find(c => c.riskLevel === riskLevel) ?? { A: 0, B: 0, none: 0 };
+        const decided = row.A + row.B;
+        return {
+          riskLevel,
+          A: row.A,
+          B: row.B,
+          none: row.none,
+          shareA: decided ? row.A / decided : null,
+          shareB: decided ? row.B / decided : null,
+        };
+      }),
+      averages: {
+        analysed: totals.analysed,
+        riskScore: totals.riskScore,
+        mismatchDays: totals.mismatchDays,
+        yieldRiskPercentage: totals.yieldRiskPercentage,
+      },
+      byPrompt: prompts,
+    };
+  }
+
+  predictionOutcomes(filter: SubmissionFilter): { outcomes: number; pairs: PredictionOutcome[] } {
+    const { conditions, params } = buildWhere(filter);
+    conditions.push("outcome IS NOT NULL");
+    const where = whereSql(conditions);
+    const { outcomes } = this.db.prepare(`SELECT COUNT(*) AS outcomes FROM submissions ${where}`).get(...params) as { outcomes: number };
+    const pairs = this.db.prepare(`
+      SELECT crop, location, risk_level AS riskLevel,
+        json_extract(full_analysis, '$.yieldRiskPercentage') AS predictedLoss,
+        json_extract(outcome, '$.yieldChangePercent') AS yieldChangePercent,
+        json_extract(full_analysis, '$.model') AS model
+      FROM submissions ${where} AND full_analysis IS NOT NULL
+      ORDER BY timestamp DESC
+    `).all(...params) as PredictionOutcome[];
+    return { outcomes, pairs };
+  }
+
+  importMany(records: SubmissionRecord[]): number {
+    const insert = this.db.prepare(`
+      INSERT OR IGNORE INTO submissions (id, crop, location, lat, lng, date, risk_level, climatic_conditions, timestamp, choice, full_analysis, owner_id, tenant_id, deleted_at, outcome, model, prompt_version, schema_version)
+      VALUES (@id, @crop, @location, @lat, @lng, @date, @risk_level, @climatic_conditions, @timestamp, @choice, @full_analysis, @owner_id, @tenant_id, @deleted_at, @outcome, @model, @prompt_version, @schema_version)
+    `);
+    const importAll = this.db.transaction((items: SubmissionRecord[]) => {
+      let imported = 0;
+      for (const item of items) {
+        // Imported records start unversioned so every migration checks them
+        imported += insert.run(toRow(item, 0)).changes;
+      }
+      return imported;
+    });
+    return importAll(records);
+  }
+}
@@ -0,0 +1,106 @@
+import crypto from "crypto";
+import type { Database } from "./database";
+import { DEFAULT_TENANT_ID, DuplicateTenantError } from "./tenantRepository";
+import type { NewTenant, Tenant, TenantRepository, TenantSummary, TenantUpdate } from "./tenantRepository";
+
+interface TenantRow {
+  id: string;
+  name: string;
+  slug: string;
+  created_at: number;
+}
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS tenants (
+    id TEXT PRIMARY KEY,
+    name TEXT NOT NULL,
+    slug TEXT NOT NULL UNIQUE,
+    created_at INTEGER NOT NULL
+  );
+`;
+
+function toTenant(row: TenantRow): Tenant {
+  return { id: row.id, name: row.name, slug: row.slug, createdAt: row.created_at };
+}
+
+/** Needs the `users`, `submissions` and `audit_log` tables, so open it after their repositories. */
+export class SqliteTenantRepository implements TenantRepository {
+  constructor(private readonly db: Database.Database) {
+    this.db.exec(SCHEMA);
+    this.db.prepare("INSERT OR IGNORE INTO tenants (id, name, slug, created_at) VALUES (?, ?, ?, ?)")
+      .run(DEFAULT_TENANT_ID, "Default organisation", DEFAULT_TENANT_ID, Date.now());
+  }
+
+  list(): TenantSummary[] {
+    const rows = this.db.prepare(`
+      SELECT t.*,
+        (SELECT COUNT(*) FROM users u WHERE u.tenant_id = t.id) AS users,
+        COUNT(s.id) AS submissions,
+        COALESCE(SUM(s.risk_level = 'high'), 0) AS highRisk,
+        COALESCE(SUM(s.outcome IS NOT NULL), 0) AS outcomes
+      FROM tenants t LEFT JOIN submissions s ON s.tenant_id = t.id AND s.deleted_at IS NULL
+      GROUP BY t.id
+      ORDER BY t.created_at ASC
+    `).all() as (TenantRow & { users: number; submissions: number; highRisk: number; outcomes: number })[];
+    return rows.map(({ users, submissions, highRisk, outcomes, ...row }) => ({ ...toTenant(row), users, submissions, highRisk, outcomes }));
+  }
+
+  get(id: string): Tenant | undefined {
+    const row = this.db.prepare("SELECT * FROM tenants WHERE id = ?").get(id) as TenantRow | undefined;
+    return row ? toTenant(row) : undefined;
+  }
+
+  findBySlug(slug: string): Tenant | undefined {
+    const row = this.db.prepare("SELECT * FROM tenants WHERE slug = ?").get(slug) as TenantRow | undefined;
+    return row ? toTenant(row) : undefined;
+  }
+
+  create(input: NewTenant): Tenant {
+    const row: TenantRow = { id: crypto.randomUUID(), name: input.name, slug: input.slug, created_at: Date.now() };
+    try {
+      this.db.prepare("INSERT INTO tenants (id, name, slug, created_at) VALUES (@id, @name, @slug, @created_at)").run(row);
+    } catch (error: any) {
+      if (error.code === "SQLITE_CONSTRAINT_UNIQUE") {
+        throw new DuplicateTenantError(`Organisation code "${input.slug}" is already taken`);
+      }
+      throw error;
+    }
+    return toTenant(row);
+  }
+
+  update(id: string, changes: TenantUpdate): Tenant | undefined {
+    this.db.prepare("UPDATE tenants SET name = ? WHERE id = ?").run(changes.name, id);
+    return this.get(id);
+  }
+
+  delete(id: string): boolean {
+    return this.db.transaction(() => {
+      const inUse = this.db.prepare(`
+        SELECT EXISTS (SELECT 1 FROM users WHERE tenant_id = ?) OR EXISTS (SELECT 1 FROM submissions WHERE tenant_id = ?) AS inUse
+      `).get(id, id) as { inUse: number };
+      if (inUse.inUse) return false;
+      return this.db.prepare("DELETE FROM tenants WHERE id = ?").run(id).changes > 0;
+    })();
+  }
+
+  assignUnscoped(): { users: number; submissions: number } {
+    return this.db.transaction(() => {
+      const users = this.db.prepare(
+        "UPDATE users SET tenant_id = ? WHERE tenant_id IS NULL AND role != 'admin'"
+      ).run(DEFAULT_TENANT_ID).changes;
+      const followOwner = this.db.prepare(`
+        UPDATE submissions SET tenant_id = (SELECT u.tenant_id FROM users u WHERE u.id = submissions.owner_id)
+        WHERE tenant_id IS NULL AND owner_id IN (SELECT id FROM users WHERE tenant_id IS NOT NULL)
+      `).run().changes;
+      const orphans = this.db.prepare(`
+        UPDATE submissions SET tenant_id = ?
+        WHERE tenant_id IS NULL AND (owner_id IS NULL OR owner_id NOT IN (SELECT id FROM users))
+      `).run(DEFAULT_TENANT_ID).changes;
+      this.db.prepare(`
+        UPDATE audit_log SET tenant_id = (SELECT u.tenant_id FROM users u WHERE u.id = audit_log.actor_id)
+        WHERE tenant_id IS NULL AND actor_id IN (SELECT id FROM users WHERE tenant_id IS NOT NULL)
+      `).run();
+      return { users, submissions: followOwner + orphans };
+    })();
+  }
+}
@@ -0,0 +1,106 @@
+import crypto from "crypto";
+import { ensureColumn } from "./database";
+import type { Database } from "./database";
+import type { AuthUser, Role } from "../../src/constants";
+import { DuplicateUserError } from "./userRepository";
+import type { UserRecord, UserRepository } from "./userRepository";
+
+interface UserRow {
+  id: string;
+  username: string;
+  password_hash: string;
+  role: Role;
+  tenant_id: string | null;
+  created_at: number;
+}
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS users (
+    id TEXT PRIMARY KEY,
+    username TEXT NOT NULL UNIQUE COLLATE NOCASE,
+    password_hash TEXT NOT NULL,
+    role TEXT NOT NULL,
+    tenant_id TEXT,
+    created_at INTEGER NOT NULL
+  );
+`;
+
+function toRecord(row: UserRow): UserRecord {
+  return {
+    id: row.id,
+    username: row.username,
+    role: row.role,
+    tenantId: row.tenant_id,
+    createdAt: row.created_at,
+    passwordHash: row.password_hash,
+  };
+}
+
+function toPublic({ passwordHash, ...user }: UserRecord): AuthUser {
+  return user;
+}
+
+export class SqliteUserRepository implements UserRepository {
+  constructor(private readonly db: Database.Database) {
+    this.db.exec(SCHEMA);
+    ensureColumn(this.db, "users", "tenant_id", "TEXT");
+    this.db.exec("CREATE INDEX IF NOT EXISTS idx_users_tenant ON users (tenant_id)");
+  }
+
+  list(tenantId?: string): AuthUser[] {
+    const rows = (tenantId === undefined
+      ? this.db.prepare("SELECT * FROM users ORDER BY created_at ASC").all()
+      : this.db.prepare("SELECT * FROM users WHERE tenant_id = ? ORDER BY created_at ASC").all(tenantId)) as UserRow[];
+    return rows.map(row => toPublic(toRecord(row)));
+  }
+
+  get(id: string): UserRecord | undefined {
+    const row = this.db.prepare("SELECT * FROM users WHERE id = ?").get(id) as UserRow | undefined;
+    return row ? toRecord(row) : undefined;
+  }
+
+  findByUsername(username: string): UserRecord | undefined {
+    const row = this.db.prepare("SELECT * FROM users WHERE username = ?").get(username) as UserRow | undefined;
+    return row ? toRecord(row) : undefined;
+  }
+
+  create(input: { username: string; passwordHash: string; role: Role; tenantId: string | null }): AuthUser {
+    const user: UserRecord = {
+      id: crypto.randomUUID(),
+      username: input.username,
+      role: input.role,
+      tenantId: input.tenantId,
+      createdAt: Date.now(),
+      passwordHash: input.passwordHash,
+    };
+    try {
+      this.db.prepare(
+        "INSERT INTO users (id, username, password_hash, role, tenant_id, created_at) VALUES (?, ?, ?, ?, ?, ?)"
+      ).run(user.id, user.username, user.passwordHash, user.role, user.tenantId, user.createdAt);
+    } catch (error: any) {
+      if (error.code === "SQLITE_CONSTRAINT_UNIQUE") {
+        throw new DuplicateUserError(`Username "${input.username}" is already taken`);
+      }
+      throw error;
+    }
+    return toPublic(user);
+  }
+
+  update(id: string, changes: { role?: Role; passwordHash?: string; tenantId?: string | null }): AuthUser | undefined {
+    const existing = this.get(id);
+    if (!existing) return undefined;
+    const updated = {
+      ...existing,
+      role: changes.role ?? existing.role,
+      passwordHash: changes.passwordHash ?? existing.passwordHash,
+      tenantId: changes.tenantId === undefined ? existing.tenantId : changes.tenantId,
+    };
+    this.db.prepare("UPDATE users SET role = ?, password_hash = ?, tenant_id = ? WHERE id = ?")
+      .run(updated.role, updated.passwordHash, updated.tenantId, id);
+    return toPublic(updated);
+  }
+
+  delete(id: string): boolean {
+    return this.db.prepare("DELETE FROM users WHERE id = ?").run(id).changes > 0;
+  }
+}
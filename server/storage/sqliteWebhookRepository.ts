@@ -0,0 +1,244 @@
+import crypto from "crypto";
+import type { Database } from "./database";
+import { InvalidQueryError } from "./submissionRepository";
+import type {
+  DeliveryJob,
+  DeliveryQuery,
+  NewWebhook,
+  Webhook,
+  WebhookDelivery,
+  WebhookDeliveryPage,
+  WebhookDeliveryStatus,
+  WebhookEvent,
+  WebhookRepository,
+  WebhookUpdate,
+} from "./webhookRepository";
+
+interface WebhookRow {
+  id: string;
+  url: string;
+  description: string;
+  secret: string;
+  events: string;
+  risk_levels: string;
+  crops: string;
+  regions: string;
+  active: number;
+  created_at: number;
+}
+
+interface DeliveryRow {
+  id: number;
+  webhook_id: string;
+  event: WebhookEvent;
+  payload: string;
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  next_attempt_at: number | null;
+  response_status: number | null;
+  error: string | null;
+  created_at: number;
+  delivered_at: number | null;
+}
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS webhooks (
+    id TEXT PRIMARY KEY,
+    url TEXT NOT NULL,
+    description TEXT NOT NULL DEFAULT '',
+    secret TEXT NOT NULL,
+    events TEXT NOT NULL,
+    risk_levels TEXT NOT NULL DEFAULT '[]',
+    crops TEXT NOT NULL DEFAULT '[]',
+    regions TEXT NOT NULL DEFAULT '[]',
+    active INTEGER NOT NULL DEFAULT 1,
+    created_at INTEGER NOT NULL
+  );
+  CREATE TABLE IF NOT EXISTS webhook_deliveries (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    webhook_id TEXT NOT NULL REFERENCES webhooks (id) ON DELETE CASCADE,
+    event TEXT NOT NULL,
+    payload TEXT NOT NULL,
+    status TEXT NOT NULL,
+    attempts INTEGER NOT NULL DEFAULT 0,
+    next_attempt_at INTEGER,
+    response_status INTEGER,
+    error TEXT,
+    created_at INTEGER NOT NULL,
+    delivered_at INTEGER
+  );
+  CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_due ON webhook_deliveries (status, next_attempt_at);
+  CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_webhook ON webhook_deliveries (webhook_id, id);
+`;
+
+function toWebhook(row: WebhookRow): Webhook {
+  return {
+    id: row.id,
+    url: row.url,
+    description: row.description,
+    events: JSON.parse(row.events),
+    riskLevel: JSON.parse(row.risk_levels),
+    crop: JSON.parse(row.crops),
+    region: JSON.parse(row.regions),
+    active: row.active === 1,
+    createdAt: row.created_at,
+  };
+}
+
+function toDelivery(row: DeliveryRow): WebhookDelivery {
+  return {
+    id: row.id,
+    webhookId: row.webhook_id,
+    event: row.event,
+    status: row.status,
+    attempts: row.attempts,
+    nextAttemptAt: row.next_attempt_at,
+    responseStatus: row.response_status,
+    error: row.error,
+    createdAt: row.created_at,
+    deliveredAt: row.delivered_at,
+    payload: row.payload,
+  };
+}
+
+export class SqliteWebhookRepository implements WebhookRepository {
+  constructor(private readonly db: Database.Database) {
+    this.db.exec(SCHEMA);
+  }
+
+  list(): Webhook[] {
+    const rows = this.db.prepare("SELECT * FROM webhooks ORDER BY created_at DESC").all() as WebhookRow[];
+    return rows.map(toWebhook);
+  }
+
+  get(id: string): Webhook | undefined {
+    const row = this.db.prepare("SELECT * FROM webhooks WHERE id = ?").get(id) as WebhookRow | undefined;
+    return row ? toWebhook(row) : undefined;
+  }
+
+  create(input: NewWebhook & { secret: string }): Webhook {
+    const row: WebhookRow = {
+      id: crypto.randomUUID(),
+      url: input.url,
+      description: input.description,
+      secret: input.secret,
+      events: JSON.stringify(input.events),
+      risk_levels: JSON.stringify(input.riskLevel),
+      crops: JSON.stringify(input.crop),
+      regions: JSON.stringify(input.region),
+      active: 1,
+      created_at: Date.now(),
+    };
+    this.db.prepare(`
+      INSERT INTO webhooks (id, url, description, secret, events, risk_levels, crops, regions, active, created_at)
+      VALUES (@id, @url, @description, @secret, @events, @risk_levels, @crops, @regions, @active, @created_at)
+    `).run(row);
+    return toWebhook(row);
+  }
+
+  update(id: string, changes: WebhookUpdate): Webhook | undefined {
+    const columns: Record<string, unknown> = {
+      url: changes.url,
+      description: changes.description,
+      events: changes.events && JSON.stringify(changes.events),
+      risk_levels: changes.riskLevel && JSON.stringify(changes.riskLevel),
+      crops: changes.crop && JSON.stringify(changes.crop),
+      regions: changes.region && JSON.stringify(changes.region),
+      active: changes.active === undefined ? undefined : Number(changes.active),
+    };
+    const set = Object.entries(columns).filter(([, value]) => value !== undefined);
+    if (set.length > 0) {
+      this.db.prepare(
+        `UPDATE webhooks SET ${set.map(([column]) => `${column} = ?`).join(", ")} WHERE id = ?`
+      ).run(...set.map(([, value]) => value), id);
+    }
+    return this.get(id);
+  }
+
+  delete(id: string): boolean {
+    return this.db.prepare("DELETE FROM webhooks WHERE id = ?").run(id).changes > 0;
+  }
+
+  subscribers(event: WebhookEvent): Webhook[] {
+    const rows = this.db.prepare(`
+      SELECT * FROM webhooks
+      WHERE active = 1 AND EXISTS (SELECT 1 FROM json_each(events) WHERE value = ?)
+    `).all(event) as WebhookRow[];
+    return rows.map(toWebhook);
+  }
+
+  enqueue(webhookId: string, event: WebhookEvent, payload: string): WebhookDelivery {
+    const now = Date.now();
+    const result = this.db.prepare(`
+      INSERT INTO webhook_deliveries (webhook_id, event, payload, status, next_attempt_at, created_at)
+      VALUES (?, ?, ?, 'pending', ?, ?)
+    `).run(webhookId, event, payload, now, now);
+    return this.delivery(Number(result.lastInsertRowid))!;
+  }
+
+  claimDue(now: number, limit: number): DeliveryJob[] {
+    if (limit <= 0) return [];
+    return this.db.transaction(() => {
+      const rows = this.db.prepare(`
+        SELECT d.*, w.url, w.secret FROM webhook_deliveries d JOIN webhooks w ON w.id = d.webhook_id
+        WHERE d.status = 'pending' AND d.next_attempt_at <= ? AND w.active = 1 ORDER BY d.next_attempt_at ASC, d.id ASC LIMIT ?
+      `).all(now, limit) as (DeliveryRow & { url: string; secret: string })[];
+      const claim = this.db.prepare("UPDATE webhook_deliveries SET status = 'sending', attempts = attempts + 1 WHERE id = ?");
+      return rows.map(row => {
+        claim.run(row.id);
+        return { ...toDelivery({ ...row, status: 'sending', attempts: row.attempts + 1 }), url: row.url, secret: row.secret };
+      });
+    })();
+  }
+
+  markDelivered(id: number, responseStatus: number) {
+    this.db.prepare(`
+      UPDATE webhook_deliveries
+      SET status = 'delivered', response_status = ?, error = NULL, next_attempt_at = NULL, delivered_at = ?
+      WHERE id = ?
+    `).run(responseStatus, Date.now(), id);
+  }
+
+  markFailed(id: number, failure: { responseStatus: number | null; error: string; nextAttemptAt: number | null }) {
+    this.db.prepare(`
+      UPDATE webhook_deliveries SET status = ?, response_status = ?, error = ?, next_attempt_at = ? WHERE id = ?
+    `).run(failure.nextAttemptAt === null ? 'failed' : 'pending', failure.responseStatus, failure.error, failure.nextAttemptAt, id);
+  }
+
+  deliveries(webhookId: string, query: DeliveryQuery): WebhookDeliveryPage {
+    const conditions = ["webhook_id = ?"];
+    const params: unknown[] = [webhookId];
+    if (query.status?.length) {
+      conditions.push(`status IN (${query.status.map(() => "?").join(", ")})`);
+      params.push(...query.status);
+    }
+    if (query.cursor) {
+      const before = Number(query.cursor);
+      if (!Number.isInteger(before)) throw new InvalidQueryError("Invalid cursor");
+      conditions.push("id < ?");
+      params.push(before);
+    }
+
+    const rows = this.db.prepare(
+      `SELECT * FROM webhook_deliveries WHERE ${conditions.join(" AND ")} ORDER BY id DESC LIMIT ?`
+    ).all(...params, query.limit + 1) as DeliveryRow[];
+
+    const hasMore = rows.length > query.limit;
+    const page = hasMore ? rows.slice(0, query.limit) : rows;
+    return {
+      items: page.map(toDelivery),
+      nextCursor: hasMore ? String(page[page.length - 1].id) : null,
+    };
+  }
+
+  requeueInterrupted(): number {
+    return this.db.prepare(
+      "UPDATE webhook_deliveries SET status = 'pending', next_attempt_at = ? WHERE status = 'sending'"
+    ).run(Date.now()).changes;
+  }
+
+  private delivery(id: number): WebhookDelivery | undefined {
+    const row = this.db.prepare("SELECT * FROM webhook_deliveries WHERE id = ?").get(id) as DeliveryRow | undefined;
+    return row ? toDelivery(row) : undefined;
+  }
+}
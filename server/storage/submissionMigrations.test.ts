@@ -0,0 +1,76 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import { DEFAULT_OFFLINE_FIXTURES } from "../llm/offlineFixtures";
+import { getMeta, openDatabase } from "./database";
+import type { Database } from "./database";
+import { SqliteSubmissionRepository } from "./sqliteSubmissionRepository";
+import { countPendingMigrations, migrateSubmissions, SCHEMA_VERSION_META_KEY, SUBMISSION_SCHEMA_VERSION } from "./submissionMigrations";
+
+const ANALYSIS = { ...DEFAULT_OFFLINE_FIXTURES[0].result, lat: 16.3, lng: 80.45, model: "gemini-test", promptVersion: 2 };
+
+let db: Database.Database;
+
+/** Inserts a row as an older version of the app would have stored it. */
+function insertLegacy(id: string, columns: { choice?: string | null; full_analysis?: string | null; climatic_conditions?: string }) {
+  db.prepare(`
+    INSERT INTO submissions (id, crop, location, lat, lng, date, risk_level, climatic_conditions, timestamp, choice, full_analysis, schema_version)
+    VALUES (?, 'Mango', 'Guntur, AP', 16.3, 80.45, '2026-03-01', 'high', ?, 1, ?, ?, 0)
+  `).run(id, columns.climatic_conditions ?? "", columns.choice ?? null, columns.full_analysis ?? null);
+}
+
+function row(id: string) {
+  return db.prepare("SELECT * FROM submissions WHERE id = ?").get(id) as Record<string, any>;
+}
+
+beforeEach(() => {
+  db = openDatabase(":memory:");
+  new SqliteSubmissionRepository(db);
+});
+
+describe("migrateSubmissions", () => {
+  it("brings old rows up to the current schema version", () => {
+    insertLegacy("a", { choice: "A", full_analysis: JSON.stringify(ANALYSIS) });
+    insertLegacy("b", { choice: "maybe" });
+
+    expect(countPendingMigrations(db)).toBe(2);
+    expect(migrateSubmissions(db)).toBe(2);
+
+    expect(countPendingMigrations(db)).toBe(0);
+    expect(getMeta(db, SCHEMA_VERSION_META_KEY)).toBe(String(SUBMISSION_SCHEMA_VERSION));
+    expect(row("a")).toMatchObject({
+      choice: "A",
+      climatic_conditions: ANALYSIS.climaticConditions,
+      model: "gemini-test",
+      prompt_version: 2,
+      schema_version: SUBMISSION_SCHEMA_VERSION,
+    });
+    expect(row("b").choice).toBeNull();
+  });
+
+  it("drops stored analyses that are not valid", () => {
+    insertLegacy("broken", { full_analysis: "{not json" });
+    insertLegacy("wrong", { full_analysis: JSON.stringify({ riskLevel: "extreme" }), climatic_conditions: "Hot" });
+
+    migrateSubmissions(db);
+
+    expect(row("broken").full_analysis).toBeNull();
+    expect(row("wrong")).toMatchObject({ full_analysis: null, climatic_conditions: "Hot", model: null });
+  });
+
+  it("leaves rows already on the current version alone", () => {
+    const created = new SqliteSubmissionRepository(db).create({
+      crop: "Mango",
+      location: "Guntur, AP",
+      lat: 16.3,
+      lng: 80.45,
+      date: "2026-03-01",
+      riskLevel: 'high',
+      climaticConditions: "",
+      fullAnalysis: ANALYSIS,
+    });
+
+    const before = row(created.id);
+
+    expect(migrateSubmissions(db)).toBe(0);
+    expect(row(created.id)).toEqual(before);
+  });
+});
@@ -0,0 +1,102 @@
+import { setMeta } from "./database";
+import type { Database } from "./database";
+import { AnalysisResultSchema } from "../../src/schemas";
+import { logger } from "../logger";
+
+export const SCHEMA_VERSION_META_KEY = "submission_schema_version";
+
+/** The columns a data migration may rewrite. */
+export interface MigratableSubmission {
+  id: string;
+  choice: string | null;
+  full_analysis: string | null;
+  climatic_conditions: string;
+  model: string | null;
+  prompt_version: number | null;
+}
+
+export interface SubmissionMigration {
+  version: number;
+  description: string;
+  up(row: MigratableSubmission): MigratableSubmission;
+}
+
+/**
+ * Ordered upgrades for stored submissions. Each row remembers the last one it
+ * went through in `schema_version`; rows written before versioning start at 0.
+ * Append new entries here and never edit a released one.
+ */
+export const SUBMISSION_MIGRATIONS: SubmissionMigration[] = [
+  {
+    version: 1,
+    description: "Clear choices other than A and B",
+    up: row => ({ ...row, choice: row.choice === 'A' || row.choice === 'B' ? row.choice : null }),
+  },
+  {
+    version: 2,
+    description: "Drop analyses that are not a valid AnalysisResult and fill in missing climatic conditions",
+    up: row => {
+      if (!row.full_analysis) return row;
+      let parsed: ReturnType<typeof AnalysisResultSchema.safeParse>;
+      try {
+        parsed = AnalysisResultSchema.safeParse(JSON.parse(row.full_analysis));
+      } catch {
+        parsed = null;
+      }
+      if (!parsed?.success) {
+        logger.warn("Dropping invalid stored analysis", { submissionId: row.id });
+        return { ...row, full_analysis: null };
+      }
+      return {
+        ...row,
+        full_analysis: JSON.stringify(parsed.data),
+        climatic_conditions: row.climatic_conditions || parsed.data.climaticConditions,
+      };
+    },
+  },
+  {
+    version: 3,
+    description: "Copy the model and prompt version out of the analysis",
+    up: row => {
+      const analysis = row.full_analysis ? JSON.parse(row.full_analysis) : null;
+      return { ...row, model: analysis?.model ?? null, prompt_version: analysis?.promptVersion ?? null };
+    },
+  },
+];
+
+export const SUBMISSION_SCHEMA_VERSION = SUBMISSION_MIGRATIONS[SUBMISSION_MIGRATIONS.length - 1].version;
+
+/** Rows (live or trashed) still on an older schema version. */
+export function countPendingMigrations(db: Database.Database): number {
+  const row = db.prepare("SELECT COUNT(*) AS count FROM submissions WHERE schema_version < ?").get(SUBMISSION_SCHEMA_VERSION) as { count: number };
+  return row.count;
+}
+
+/**
+ * Brings every submission up to `SUBMISSION_SCHEMA_VERSION` in one
+ * transaction and returns how many rows changed version.
+ */
+export function migrateSubmissions(db: Database.Database): number {
+  const rows = db.prepare(`
+    SELECT id, choice, full_analysis, climatic_conditions, model, prompt_version, schema_version
+    FROM submissions WHERE schema_version < ?
+  `).all(SUBMISSION_SCHEMA_VERSION) as (MigratableSubmission & { schema_version: number })[];
+
+  const update = db.prepare(`
+    UPDATE submissions
+    SET choice = @choice, full_analysis = @full_analysis, climatic_conditions = @climatic_conditions,
+      model = @model, prompt_version = @prompt_version, schema_version = @schema_version
+    WHERE id = @id
+  `);
+  const migrateAll = db.transaction(() => {
+    for (const { schema_version, ...row } of rows) {
+      const migrated = SUBMISSION_MIGRATIONS
+        .filter(migration => migration.version > schema_version)
+        .reduce((current, migration) => migration.up(current), row);
+      update.run({ ...migrated, schema_version: SUBMISSION_SCHEMA_VERSION });
+    }
+    setMeta(db, SCHEMA_VERSION_META_KEY, String(SUBMISSION_SCHEMA_VERSION));
+  });
+  migrateAll();
+  return rows.length;
+}
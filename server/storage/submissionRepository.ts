@@ -0,0 +1,112 @@
+import type { AdminStats, AnalysisResult, Choice, MapZone, Outcome, RiskCounts, StatsInterval, Submission } from "../../src/schemas";
+
+export type { AdminStats, AnalysisResult, Choice, MapZone, Outcome, RiskCounts, StatsInterval };
+
+export type SubmissionRecord = Submission;
+
+/** `model` and `promptVersion` are taken from `fullAnalysis`. */
+export type NewSubmission = Omit<SubmissionRecord, 'id' | 'timestamp' | 'choice' | 'deletedAt' | 'outcome' | 'model' | 'promptVersion'>;
+
+export const SORT_FIELDS = ['timestamp', 'date', 'crop', 'location'] as const;
+export type SortField = typeof SORT_FIELDS[number];
+
+export interface SubmissionFilter {
+  ownerId?: string;
+  tenantId?: string;
+  /** Match trashed submissions instead of live ones. */
+  deleted?: boolean;
+  crop?: string[];
+  riskLevel?: SubmissionRecord['riskLevel'][];
+  /** 'none' matches submissions where the farmer has not decided yet. */
+  choice?: (Choice | 'none')[];
+  /** Inclusive bounds on the target `date` (YYYY-MM-DD). */
+  dateFrom?: string;
+  dateTo?: string;
+  /** Inclusive bounds on the creation `timestamp` (epoch ms). */
+  since?: number;
+  until?: number;
+  minLat?: number;
+  maxLat?: number;
+  minLng?: number;
+  maxLng?: number;
+  /** Case-insensitive substring match on the location text. */
+  q?: string;
+}
+
+export interface SubmissionQuery extends SubmissionFilter {
+  sort: SortField;
+  order: 'asc' | 'desc';
+  limit: number;
+  /** Opaque token returned as `nextCursor` by the previous page. */
+  cursor?: string;
+}
+
+export interface SubmissionPage {
+  items: SubmissionRecord[];
+  nextCursor: string | null;
+}
+
+/** A stored prediction next to what the farmer later reported. */
+export interface PredictionOutcome {
+  crop: string;
+  location: string;
+  riskLevel: SubmissionRecord['riskLevel'];
+  /** `yieldRiskPercentage` from the analysis. */
+  predictedLoss: number;
+  yieldChangePercent: number;
+  model: string | null;
+}
+
+export class InvalidQueryError extends Error {}
+
+/** The region of a location is its last comma-separated part, e.g. "AP" in "Guntur, AP". */
+export function regionOf(location: string) {
+  const parts = location.split(",").map(p => p.trim()).filter(Boolean);
+  return parts[parts.length - 1] || location;
+}
+
+/**
+ * Storage contract for submissions. Every method is atomic: a write either
+ * lands completely or not at all, so concurrent requests cannot lose updates.
+ */
+export interface SubmissionRepository {
+  list(): SubmissionRecord[];
+  query(query: SubmissionQuery): SubmissionPage;
+  /** Every submission matching the filter, oldest first and unpaginated. */
+  find(filter: SubmissionFilter): SubmissionRecord[];
+  /** Crops with live submissions, optionally only in `tenantId`. */
+  distinctCrops(tenantId?: string): string[];
+  /**
+   * Groups matching submissions into cells of `precision` decimal degrees, without
+   * ids, owners, place names or exact dates. Groups of fewer than `minCount` are left out.
+   */
+  mapZones(filter: SubmissionFilter, precision: number, minCount: number): MapZone[];
+  /** Coordinates of the latest submission for `location` (ignoring case), trashed ones included. */
+  knownCoordinates(location: string): { lat: number; lng: number } | undefined;
+  /** Live submissions only, unless `includeDeleted` is set. */
+  get(id: string, includeDeleted?: boolean): SubmissionRecord | undefined;
+  create(input: NewSubmission): SubmissionRecord;
+  updateChoice(id: string, choice: Choice | null): SubmissionRecord | undefined;
+  /** Replaces the analysis of a live submission, along with the columns taken from it. */
+  updateAnalysis(id: string, analysis: AnalysisResult): SubmissionRecord | undefined;
+  /** Stores the harvest outcome of a live submission, replacing any earlier report. */
+  recordOutcome(id: string, outcome: Outcome): SubmissionRecord | undefined;
+  /** Moves a live submission to the trash. */
+  softDelete(id: string): SubmissionRecord | undefined;
+  /** Moves every live submission matching the filter to the trash and returns how many moved. */
+  softDeleteMany(filter?: SubmissionFilter): number;
+  /** Brings a trashed submission back. */
+  restore(id: string): SubmissionRecord | undefined;
+  /** Permanently removes submissions that were trashed before `before` (epoch ms). */
+  purgeDeleted(before: number): number;
+  count(): number;
+  /** Aggregates over the live submissions matching the filter. */
+  stats(filter: SubmissionFilter, interval: StatsInterval): AdminStats;
+  /**
+   * Live submissions matching the filter that have a reported outcome.
+   * `outcomes` counts them all and `pairs` holds those that also have an analysis.
+   */
+  predictionOutcomes(filter: SubmissionFilter): { outcomes: number; pairs: PredictionOutcome[] };
+  /** Inserts pre-existing records as-is, skipping ids that already exist; they are left for the migrations to upgrade. */
+  importMany(records: SubmissionRecord[]): number;
+}
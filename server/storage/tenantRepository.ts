@@ -0,0 +1,27 @@
+import type { NewTenant, Tenant, TenantSummary, TenantUpdate } from "../../src/schemas";
+
+export type { NewTenant, Tenant, TenantSummary, TenantUpdate };
+
+/** Holds every account and record that predates tenants, and farmers who register without an organisation code. */
+export const DEFAULT_TENANT_ID = "default";
+
+export class DuplicateTenantError extends Error {}
+
+export interface TenantRepository {
+  /** Every tenant with its user, submission, high-risk and outcome counts; oldest first. */
+  list(): TenantSummary[];
+  get(id: string): Tenant | undefined;
+  findBySlug(slug: string): Tenant | undefined;
+  /** Throws `DuplicateTenantError` when the slug is already taken. */
+  create(input: NewTenant): Tenant;
+  update(id: string, changes: TenantUpdate): Tenant | undefined;
+  /** Removes a tenant that has no users and no submissions, live or trashed; false otherwise. */
+  delete(id: string): boolean;
+  /**
+   * Puts accounts and submissions without a tenant into one: submissions follow
+   * their owner, and anything else goes to the default tenant. Super-admins and
+   * their own submissions stay outside every tenant. Audit entries made by
+   * tenant members before tenants existed are attributed to their tenant.
+   */
+  assignUnscoped(): { users: number; submissions: number };
+}
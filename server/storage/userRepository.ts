@@ -0,0 +1,18 @@
+import type { AuthUser, Role } from "../../src/constants";
+
+export interface UserRecord extends AuthUser {
+  passwordHash: string;
+}
+
+export class DuplicateUserError extends Error {}
+
+export interface UserRepository {
+  /** Every account, or only those in `tenantId`. */
+  list(tenantId?: string): AuthUser[];
+  get(id: string): UserRecord | undefined;
+  findByUsername(username: string): UserRecord | undefined;
+  /** Throws `DuplicateUserError` when the username is already taken. */
+  create(input: { username: string; passwordHash: string; role: Role; tenantId: string | null }): AuthUser;
+  update(id: string, changes: { role?: Role; passwordHash?: string; tenantId?: string | null }): AuthUser | undefined;
+  delete(id: string): boolean;
+}
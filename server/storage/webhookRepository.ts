@@ -0,0 +1,41 @@
+import type {
+  NewWebhook,
+  Webhook,
+  WebhookDelivery,
+  WebhookDeliveryPage,
+  WebhookDeliveryStatus,
+  WebhookEvent,
+  WebhookUpdate,
+} from "../../src/schemas";
+
+export type { NewWebhook, Webhook, WebhookDelivery, WebhookDeliveryPage, WebhookDeliveryStatus, WebhookEvent, WebhookUpdate };
+
+/** A claimed delivery with what is needed to send it. */
+export type DeliveryJob = WebhookDelivery & { url: string; secret: string };
+
+export interface DeliveryQuery {
+  status?: WebhookDeliveryStatus[];
+  limit: number;
+  cursor?: string;
+}
+
+export interface WebhookRepository {
+  list(): Webhook[];
+  get(id: string): Webhook | undefined;
+  create(input: NewWebhook & { secret: string }): Webhook;
+  update(id: string, changes: WebhookUpdate): Webhook | undefined;
+  /** Removes the subscription together with its delivery log. */
+  delete(id: string): boolean;
+  /** Active subscriptions to `event`. */
+  subscribers(event: WebhookEvent): Webhook[];
+  enqueue(webhookId: string, event: WebhookEvent, payload: string): WebhookDelivery;
+  /** Atomically marks up to `limit` pending deliveries due by `now` as sending and counts the attempt; paused webhooks are skipped. */
+  claimDue(now: number, limit: number): DeliveryJob[];
+  markDelivered(id: number, responseStatus: number): void;
+  /** Puts the delivery back in the queue for `nextAttemptAt`, or fails it for good when that is null. */
+  markFailed(id: number, failure: { responseStatus: number | null; error: string; nextAttemptAt: number | null }): void;
+  /** Newest first. */
+  deliveries(webhookId: string, query: DeliveryQuery): WebhookDeliveryPage;
+  /** Puts deliveries left sending by a previous process back in the queue. */
+  requeueInterrupted(): number;
+}
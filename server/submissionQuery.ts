@@ -0,0 +1,99 @@
+import { InvalidQueryError, SORT_FIELDS } from "./storage/submissionRepository";
+import type { SortField, SubmissionFilter, SubmissionQuery } from "./storage/submissionRepository";
+
+export const DEFAULT_PAGE_SIZE = 50;
+export const MAX_PAGE_SIZE = 500;
+
+const RISK_LEVELS = ['low', 'medium', 'high'] as const;
+const CHOICES = ['A', 'B', 'none'] as const;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+export type QueryParams = Record<string, unknown>;
+
+export function single(params: QueryParams, name: string): string | undefined {
+  const value = params[name];
+  if (value === undefined || value === "") return undefined;
+  if (typeof value !== "string") throw new InvalidQueryError(`${name} must be given once`);
+  return value;
+}
+
+/** Accepts `?crop=Mango,Rice` as well as repeated `?crop=Mango&crop=Rice`. */
+export function list(params: QueryParams, name: string): string[] | undefined {
+  const value = params[name];
+  if (value === undefined || value === "") return undefined;
+  const values = (Array.isArray(value) ? value : [value])
+    .flatMap(v => String(v).split(","))
+    .map(v => v.trim())
+    .filter(Boolean);
+  return values.length ? values : undefined;
+}
+
+export function oneOf<T extends string>(params: QueryParams, name: string, allowed: readonly T[]): T[] | undefined {
+  const values = list(params, name);
+  const invalid = values?.find(v => !allowed.includes(v as T));
+  if (invalid) throw new InvalidQueryError(`${name} must be one of ${allowed.join(", ")}`);
+  return values as T[] | undefined;
+}
+
+export function number(params: QueryParams, name: string, min: number, max: number): number | undefined {
+  const raw = single(params, name);
+  if (raw === undefined) return undefined;
+  const value = Number(raw);
+  if (!Number.isFinite(value) || value < min || value > max) {
+    throw new InvalidQueryError(`${name} must be a number between ${min} and ${max}`);
+  }
+  return value;
+}
+
+function date(params: QueryParams, name: string): string | undefined {
+  const value = single(params, name);
+  if (value !== undefined && !DATE_PATTERN.test(value)) {
+    throw new InvalidQueryError(`${name} must be a YYYY-MM-DD date`);
+  }
+  return value;
+}
+
+/** Timestamps may be epoch milliseconds or any string `Date.parse` understands. */
+export function timestamp(params: QueryParams, name: string): number | undefined {
+  const raw = single(params, name);
+  if (raw === undefined) return undefined;
+  const value = /^\d+$/.test(raw) ? Number(raw) : Date.parse(raw);
+  if (Number.isNaN(value)) throw new InvalidQueryError(`${name} must be epoch milliseconds or an ISO date`);
+  return value;
+}
+
+export function parseSubmissionFilter(params: QueryParams): SubmissionFilter {
+  return {
+    crop: list(params, "crop"),
+    riskLevel: oneOf(params, "riskLevel", RISK_LEVELS),
+    choice: oneOf(params, "choice", CHOICES),
+    dateFrom: date(params, "dateFrom"),
+    dateTo: date(params, "dateTo"),
+    since: timestamp(params, "since"),
+    until: timestamp(params, "until"),
+    minLat: number(params, "minLat", -90, 90),
+    maxLat: number(params, "maxLat", -90, 90),
+    minLng: number(params, "minLng", -180, 180),
+    maxLng: number(params, "maxLng", -180, 180),
+    q: single(params, "q"),
+  };
+}
+
+export function parseSubmissionQuery(params: QueryParams): SubmissionQuery {
+  const sort = single(params, "sort") ?? "timestamp";
+  if (!SORT_FIELDS.includes(sort as SortField)) {
+    throw new InvalidQueryError(`sort must be one of ${SORT_FIELDS.join(", ")}`);
+  }
+  const order = single(params, "order") ?? "desc";
+  if (order !== "asc" && order !== "desc") {
+    throw new InvalidQueryError("order must be asc or desc");
+  }
+
+  return {
+    ...parseSubmissionFilter(params),
+    sort: sort as SortField,
+    order,
+    limit: Math.floor(number(params, "limit", 1, MAX_PAGE_SIZE) ?? DEFAULT_PAGE_SIZE),
+    cursor: single(params, "cursor"),
+  };
+}
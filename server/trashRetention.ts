@@ -0,0 +1,30 @@
+import { logger } from "./logger";
+import type { AuditLogRepository } from "./storage/auditLogRepository";
+import type { SubmissionRepository } from "./storage/submissionRepository";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const PURGE_INTERVAL_MS = 60 * 60 * 1000;
+
+/** Permanently deletes submissions that have been in the trash longer than the retention period. */
+export function purgeExpiredTrash(repo: SubmissionRepository, audit: AuditLogRepository, retentionDays: number) {
+  const before = Date.now() - retentionDays * DAY_MS;
+  const purged = repo.purgeDeleted(before);
+  if (purged > 0) {
+    audit.record({ actor: null, action: 'submission.purge', entityType: 'submission', details: { count: purged, before, retentionDays } });
+    logger.info("Purged expired trash", { count: purged, retentionDays });
+  }
+  return purged;
+}
+
+/** Runs the purge now and then hourly for as long as the process lives. */
+export function scheduleTrashPurge(repo: SubmissionRepository, audit: AuditLogRepository, retentionDays: number) {
+  const run = () => {
+    try {
+      purgeExpiredTrash(repo, audit, retentionDays);
+    } catch (error) {
+      logger.error("Trash purge failed", { error });
+    }
+  };
+  run();
+  setInterval(run, PURGE_INTERVAL_MS).unref();
+}
@@ -0,0 +1,28 @@
+import type { NextFunction, Request, Response } from "express";
+import type { z } from "zod";
+
+/** Flattens Zod issues into `{ "advisory.optionA.crops": "message" }`, keeping the first message per field. */
+export function fieldErrors(error: z.ZodError): Record<string, string> {
+  const fields: Record<string, string> = {};
+  for (const issue of error.issues) {
+    const field = issue.path.map(String).join(".") || "body";
+    fields[field] ??= issue.message;
+  }
+  return fields;
+}
+
+/**
+ * Parses `req.body` with the schema and replaces it with the parsed value, so
+ * handlers only ever see known, correctly typed fields. Invalid bodies get a
+ * 400 listing every offending field.
+ */
+export function validateBody(schema: z.ZodType) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    const result = schema.safeParse(req.body ?? {});
+    if (!result.success) {
+      return res.status(400).json({ error: "Invalid request body", fields: fieldErrors(result.error) });
+    }
+    req.body = result.data;
+    next();
+  };
+}
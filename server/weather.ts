@@ -0,0 +1,100 @@
+import { logger } from "./logger";
+import { climateNormals } from "./phenology";
+import type { TemperatureDay } from "./phenology";
+
+export const WEATHER_PROVIDERS = ['open-meteo', 'none'] as const;
+
+/** Daily minimum and maximum air temperatures recorded (or forecast) for a place. */
+export interface TemperatureSource {
+  readonly name: string;
+  /** Days between `from` and `to` (YYYY-MM-DD, inclusive) the source has both values for; may be incomplete. */
+  dailyTemperatures(lat: number, lng: number, from: string, to: string): Promise<TemperatureDay[]>;
+}
+
+const LOOKUP_TIMEOUT_MS = 8000;
+// The archive lags a few days behind; the forecast API covers the days since and the next two weeks
+const ARCHIVE_LAG_DAYS = 5;
+const FORECAST_DAYS = 16;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function isoDate(time: number) {
+  return new Date(time).toISOString().split("T")[0];
+}
+
+interface DailyResponse {
+  daily?: { time: string[]; temperature_2m_min: (number | null)[]; temperature_2m_max: (number | null)[] };
+}
+
+/** Open-Meteo's free APIs: the reanalysis archive for the past, the forecast for the last days and the next two weeks. */
+export class OpenMeteoSource implements TemperatureSource {
+  readonly name = "open-meteo";
+
+  private async daily(url: string, params: Record<string, string | number>): Promise<TemperatureDay[]> {
+    const query = new URLSearchParams({ daily: "temperature_2m_min,temperature_2m_max", timezone: "UTC" });
+    for (const [key, value] of Object.entries(params)) query.set(key, String(value));
+    const response = await fetch(`${url}?${query}`, { signal: AbortSignal.timeout(LOOKUP_TIMEOUT_MS) });
+    if (!response.ok) {
+      throw new Error(`Open-Meteo answered ${response.status}`);
+    }
+    const { daily } = await response.json() as DailyResponse;
+    if (!daily) return [];
+    return daily.time
+      .map((date, i) => ({ date, min: daily.temperature_2m_min[i], max: daily.temperature_2m_max[i] }))
+      .filter((day): day is TemperatureDay => day.min !== null && day.max !== null);
+  }
+
+  async dailyTemperatures(lat: number, lng: number, from: string, to: string): Promise<TemperatureDay[]> {
+    const archived = Date.now() - ARCHIVE_LAG_DAYS * DAY_MS;
+    const archiveEnd = isoDate(Math.min(Date.parse(to), archived));
+    const location = { latitude: lat, longitude: lng };
+    const [archive, forecast] = await Promise.all([
+      archiveEnd >= from
+        ? this.daily("https://archive-api.open-meteo.com/v1/archive", { ...location, start_date: from, end_date: archiveEnd })
+        : Promise.resolve([]),
+      Date.parse(to) > archived
+        ? this.daily("https://api.open-meteo.com/v1/forecast", { ...location, past_days: ARCHIVE_LAG_DAYS + 2, forecast_days: FORECAST_DAYS })
+        : Promise.resolve([]),
+    ]);
+    return [...archive, ...forecast].filter(day => day.date >= from && day.date <= to);
+  }
+}
+
+/** Builds the source named by `WEATHER_PROVIDER` (Open-Meteo by default), or null for `none`. */
+export function createTemperatureSource(env: NodeJS.ProcessEnv = process.env): TemperatureSource | null {
+  const name = (env.WEATHER_PROVIDER || "open-meteo").trim().toLowerCase();
+  switch (name) {
+    case "open-meteo":
+      return new OpenMeteoSource();
+    case "none":
+      return null;
+    default:
+      throw new Error(`Unknown WEATHER_PROVIDER "${name}"; expected one of ${WEATHER_PROVIDERS.join(", ")}`);
+  }
+}
+
+export interface SeasonTemperatures {
+  days: TemperatureDay[];
+  /** How many of `days` are recorded or forecast values; the rest are climate normals. */
+  observedDays: number;
+}
+
+/**
+ * A year of daily temperatures from `from` onwards: the source's values where
+ * it has them, typical temperatures for the latitude for every other day (the
+ * far future, gaps, or all of them when the source is unavailable).
+ */
+export async function seasonTemperatures(source: TemperatureSource | null, lat: number, lng: number, from: string, days = 365): Promise<SeasonTemperatures> {
+  const normals = climateNormals(lat, from, days);
+  if (!source) return { days: normals, observedDays: 0 };
+  let observed: TemperatureDay[] = [];
+  try {
+    observed = await source.dailyTemperatures(lat, lng, from, normals[normals.length - 1].date);
+  } catch (error) {
+    logger.warn("Temperature lookup failed; using climate normals", { source: source.name, error });
+  }
+  const byDate = new Map(observed.map(day => [day.date, day]));
+  return {
+    days: normals.map(day => byDate.get(day.date) ?? day),
+    observedDays: normals.filter(day => byDate.has(day.date)).length,
+  };
+}
@@ -0,0 +1,170 @@
+import crypto from "crypto";
+import http from "http";
+import type { AddressInfo } from "net";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { Submission } from "../src/schemas";
+import { openDatabase } from "./storage/database";
+import { SqliteWebhookRepository } from "./storage/sqliteWebhookRepository";
+import { SIGNATURE_HEADER, signPayload, TIMESTAMP_HEADER, WebhookDispatcher } from "./webhooks";
+
+const SECRET = "test-secret-0123456789";
+
+interface Received {
+  headers: http.IncomingHttpHeaders;
+  body: string;
+}
+
+/** A local receiver that answers each delivery with the next status, 200 once they run out. */
+function startReceiver(statuses: number[]) {
+  const received: Received[] = [];
+  const server = http.createServer((req, res) => {
+    let body = "";
+    req.on("data", chunk => { body += chunk; });
+    req.on("end", () => {
+      received.push({ headers: req.headers, body });
+      res.writeHead(statuses.shift() ?? 200).end();
+    });
+  });
+  return new Promise<{ url: string; received: Received[]; close: () => Promise<void> }>(resolve => {
+    server.listen(0, "127.0.0.1", () => {
+      const { port } = server.address() as AddressInfo;
+      resolve({
+        url: `http://127.0.0.1:${port}/hook`,
+        received,
+        close: () => new Promise(done => server.close(() => done())),
+      });
+    });
+  });
+}
+
+function submission(changes: Partial<Submission> = {}): Submission {
+  return {
+    id: "s1",
+    crop: "Mango",
+    location: "Guntur, AP",
+    lat: 16.3,
+    lng: 80.45,
+    date: "2026-03-01",
+    riskLevel: 'high',
+    climaticConditions: "",
+    timestamp: 1,
+    choice: null,
+    ownerId: "u1",
+    tenantId: null,
+    model: null,
+    promptVersion: null,
+    ...changes,
+  };
+}
+
+let hooks: SqliteWebhookRepository;
+let dispatcher: WebhookDispatcher;
+let receiver: Awaited<ReturnType<typeof startReceiver>>;
+
+async function setUp(statuses: number[], filters: { riskLevel?: Submission['riskLevel'][]; region?: string[] } = {}) {
+  receiver = await startReceiver(statuses);
+  const hook = hooks.create({
+    url: receiver.url,
+    description: "",
+    events: ['submission.created'],
+    riskLevel: filters.riskLevel ?? [],
+    crop: [],
+    region: filters.region ?? [],
+    secret: SECRET,
+  });
+  return hook.id;
+}
+
+function publishCreated(data: Submission) {
+  dispatcher.handle({ type: 'submission.created', ownerId: data.ownerId, data: { submission: data } });
+}
+
+function delivery(webhookId: string) {
+  return hooks.deliveries(webhookId, { limit: 1 }).items[0];
+}
+
+beforeEach(() => {
+  hooks = new SqliteWebhookRepository(openDatabase(":memory:"));
+  dispatcher = new WebhookDispatcher(hooks);
+});
+
+afterEach(async () => {
+  vi.useRealTimers();
+  await receiver?.close();
+  receiver = undefined;
+});
+
+describe("signPayload", () => {
+  it("is the hex HMAC-SHA256 of the timestamp and body", () => {
+    const expected = crypto.createHmac("sha256", SECRET).update('1700000000.{"a":1}').digest("hex");
+    expect(signPayload(SECRET, "1700000000", '{"a":1}')).toBe(`sha256=${expected}`);
+    expect(signPayload("another-secret-0123", "1700000000", '{"a":1}')).not.toBe(`sha256=${expected}`);
+  });
+});
+
+describe("WebhookDispatcher", () => {
+  it("delivers a signed payload the receiver can verify", async () => {
+    const webhookId = await setUp([]);
+
+    publishCreated(submission());
+    await vi.waitFor(() => expect(delivery(webhookId).status).toBe('delivered'));
+
+    const [{ headers, body }] = receiver.received;
+    const timestamp = headers[TIMESTAMP_HEADER.toLowerCase()] as string;
+    expect(headers[SIGNATURE_HEADER.toLowerCase()]).toBe(signPayload(SECRET, timestamp, body));
+    expect(headers["x-bloomsync-event"]).toBe("submission.created");
+    expect(JSON.parse(body)).toMatchObject({ event: "submission.created", data: { submission: { id: "s1" } } });
+    expect(delivery(webhookId)).toMatchObject({ attempts: 1, responseStatus: 200 });
+  });
+
+  it("only queues deliveries for submissions matching the filters", async () => {
+    const webhookId = await setUp([], { riskLevel: ['high'], region: ["ap"] });
+
+    publishCreated(submission({ id: "low", riskLevel: 'low' }));
+    publishCreated(submission({ id: "elsewhere", location: "Pune, MH" }));
+    publishCreated(submission({ id: "match" }));
+    await vi.waitFor(() => expect(delivery(webhookId).status).toBe('delivered'));
+
+    expect(hooks.deliveries(webhookId, { limit: 10 }).items).toHaveLength(1);
+    expect(JSON.parse(receiver.received[0].body).data.submission.id).toBe("match");
+  });
+
+  it("retries a failed delivery once it is due", async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    const webhookId = await setUp([500]);
+
+    publishCreated(submission());
+    await vi.waitFor(() => expect(delivery(webhookId).error).not.toBeNull());
+    const failed = delivery(webhookId);
+    expect(failed).toMatchObject({ status: 'pending', attempts: 1, responseStatus: 500, error: "Receiver answered 500" });
+    // vi.waitFor moves the fake clock on a little while it polls
+    expect(failed.nextAttemptAt).toBeGreaterThan(Date.now() + 29_000);
+    expect(failed.nextAttemptAt).toBeLessThanOrEqual(Date.now() + 30_000);
+
+    // Not due yet: nothing is sent
+    dispatcher.pump();
+    expect(delivery(webhookId).status).toBe('pending');
+
+    vi.advanceTimersByTime(30_000);
+    dispatcher.pump();
+    await vi.waitFor(() => expect(delivery(webhookId).status).toBe('delivered'));
+
+    expect(delivery(webhookId)).toMatchObject({ attempts: 2, responseStatus: 200, error: null });
+    expect(receiver.received.map(r => r.body)).toEqual([failed.payload, failed.payload]);
+  });
+
+  it("gives up after the last retry", async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    const webhookId = await setUp(new Array(10).fill(503));
+
+    publishCreated(submission());
+    for (let attempt = 1; attempt <= 6; attempt++) {
+      await vi.waitFor(() => expect(delivery(webhookId)).toMatchObject({ attempts: attempt, status: attempt < 6 ? 'pending' : 'failed' }));
+      vi.advanceTimersByTime(6 * 60 * 60_000);
+      dispatcher.pump();
+    }
+
+    expect(delivery(webhookId)).toMatchObject({ status: 'failed', attempts: 6, nextAttemptAt: null });
+    expect(receiver.received).toHaveLength(6);
+  });
+});
@@ -0,0 +1,118 @@
+import crypto from "crypto";
+import { WebhookEventSchema } from "../src/schemas";
+import type { Submission } from "../src/schemas";
+import type { ServerEvent } from "./events";
+import { logger, withLogContext } from "./logger";
+import { countWebhookDelivery } from "./metrics";
+import { regionOf } from "./storage/submissionRepository";
+import type { DeliveryJob, Webhook, WebhookRepository } from "./storage/webhookRepository";
+
+export const SIGNATURE_HEADER = "X-BloomSync-Signature";
+export const TIMESTAMP_HEADER = "X-BloomSync-Timestamp";
+
+// Waits before the 2nd, 3rd, ... attempt; a delivery fails for good after the last one
+const RETRY_DELAYS_MS = [30_000, 2 * 60_000, 10 * 60_000, 60 * 60_000, 6 * 60 * 60_000];
+const DELIVERY_TIMEOUT_MS = 10_000;
+const POLL_INTERVAL_MS = 15_000;
+const MAX_IN_FLIGHT = 4;
+
+/**
+ * `sha256=` followed by the hex HMAC-SHA256 of `<timestamp>.<body>` under the
+ * webhook's secret. Receivers recompute it and reject stale timestamps.
+ */
+export function signPayload(secret: string, timestamp: string, body: string) {
+  return "sha256=" + crypto.createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex");
+}
+
+function matchesFilters(hook: Webhook, submission: Submission) {
+  const includes = (values: string[], value: string) =>
+    values.length === 0 || values.some(v => v.toLowerCase() === value.toLowerCase());
+  return includes(hook.riskLevel, submission.riskLevel)
+    && includes(hook.crop, submission.crop)
+    && includes(hook.region, regionOf(submission.location));
+}
+
+/**
+ * Queues a signed delivery for every subscription matching a submission event
+ * and sends them with retries. Deliveries are stored before they are sent, so
+ * anything still pending when the server stops goes out after `start()`.
+ */
+export class WebhookDispatcher {
+  private active = 0;
+
+  constructor(private readonly hooks: WebhookRepository) {}
+
+  start() {
+    const requeued = this.hooks.requeueInterrupted();
+    if (requeued > 0) {
+      logger.info("Re-queued webhook deliveries interrupted by a restart", { count: requeued });
+    }
+    this.pump();
+    setInterval(() => this.pump(), POLL_INTERVAL_MS).unref();
+  }
+
+  handle(event: ServerEvent) {
+    const submission = event.data.submission as Submission | undefined;
+    const parsed = WebhookEventSchema.safeParse(event.type);
+    if (!parsed.success || !submission) return;
+    const type = parsed.data;
+    const payload = JSON.stringify({ event: type, occurredAt: Date.now(), data: event.data });
+    let queued = 0;
+    for (const hook of this.hooks.subscribers(type)) {
+      if (matchesFilters(hook, submission)) {
+        this.hooks.enqueue(hook.id, type, payload);
+        queued++;
+      }
+    }
+    if (queued > 0) this.pump();
+  }
+
+  /** Sends due deliveries, at most `MAX_IN_FLIGHT` at a time. */
+  pump() {
+    for (const job of this.hooks.claimDue(Date.now(), MAX_IN_FLIGHT - this.active)) {
+      this.active++;
+      void withLogContext({ webhookId: job.webhookId, deliveryId: job.id }, () => this.deliver(job));
+    }
+  }
+
+  private async deliver(job: DeliveryJob) {
+    let responseStatus: number | null = null;
+    try {
+      const timestamp = String(Math.floor(Date.now() / 1000));
+      const response = await fetch(job.url, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          "User-Agent": "BloomSync-Webhooks/1.0",
+          "X-BloomSync-Event": job.event,
+          "X-BloomSync-Delivery": String(job.id),
+          [TIMESTAMP_HEADER]: timestamp,
+          [SIGNATURE_HEADER]: signPayload(job.secret, timestamp, job.payload),
+        },
+        body: job.payload,
+        redirect: "manual",
+        signal: AbortSignal.timeout(DELIVERY_TIMEOUT_MS),
+      });
+      responseStatus = response.status;
+      await response.body?.cancel();
+      if (!response.ok) {
+        throw new Error(`Receiver answered ${response.status}`);
+      }
+      this.hooks.markDelivered(job.id, response.status);
+      countWebhookDelivery("delivered");
+    } catch (error: any) {
+      const delay = RETRY_DELAYS_MS[job.attempts - 1];
+      const nextAttemptAt = delay === undefined ? null : Date.now() + delay;
+      this.hooks.markFailed(job.id, { responseStatus, error: error.message || String(error), nextAttemptAt });
+      countWebhookDelivery(nextAttemptAt === null ? "failed" : "retrying");
+      logger.warn(nextAttemptAt === null ? "Webhook delivery failed for good" : "Webhook delivery failed; will retry", {
+        attempts: job.attempts,
+        responseStatus,
+        error,
+      });
+    } finally {
+      this.active--;
+      this.pump();
+    }
+  }
+}
@@ -31,11 +31,11 @@ import {
   ArrowRight,
   Zap,
   Square,
-  Trash2
+  Trash2,
+  LogOut,
+  ArchiveRestore
 } from 'lucide-react';
 import { 
-  LineChart, 
-  Line, 
   XAxis, 
   YAxis, 
   CartesianGrid, 
@@ -51,10 +51,26 @@ import {
   Cell
 } from 'recharts';
 import { motion, AnimatePresence } from 'motion/react';
-import { MapContainer, TileLayer, Marker, Popup, Circle, useMap } from 'react-leaflet';
+import { MapContainer, TileLayer, Marker, Popup, Circle, useMap, useMapEvents } from 'react-leaflet';
 import L from 'leaflet';
-import { analyzeCropMismatch, AnalysisResult, generateSpeech, extractDetailsFromVoice, askFollowUp } from './services/geminiService';
-import { TRANSLATIONS, LANGUAGES, Language, Submission } from './constants';
+import { analyzeCropMismatch, generateSpeech, extractDetailsFromVoice, askInThread, api, downloadFile, fetchCurrentUser, fetchThread, onUnauthorized, openEventStream, setToken, unwrap } from './services/apiService';
+import type { paths } from './services/apiTypes';
+import { TRANSLATIONS, LANGUAGES, Language, Submission, AnalysisResult, AuthUser, MapZone, RiskLevel, ServerEventType, Tab, ROLE_TABS, isSuperAdmin } from './constants';
+import { AdminStatsSchema, AnalysisResultSchema, MapZoneSchema, SubmissionPageSchema, SubmissionSchema } from './schemas';
+import type { AdminStats, AnalysisStage, FollowUpMessage, StatsInterval, TenantSummary } from './schemas';
+import LoginScreen from './components/LoginScreen';
+import TrashPanel from './components/TrashPanel';
+import AuditLogPanel from './components/AuditLogPanel';
+import WebhooksPanel from './components/WebhooksPanel';
+import AdminStatsBreakdown from './components/AdminStatsBreakdown';
+import BatchImportPanel from './components/BatchImportPanel';
+import HarvestOutcomeForm from './components/HarvestOutcomeForm';
+import ScientistAccuracyPanel from './components/ScientistAccuracyPanel';
+import TenantsPanel from './components/TenantsPanel';
+import PromptsPanel from './components/PromptsPanel';
+import PhenologyCheckNotice from './components/PhenologyCheckNotice';
+import FollowUpThread from './components/FollowUpThread';
+import AnalysisProgress from './components/AnalysisProgress';
 import { clsx, type ClassValue } from 'clsx';
 import { twMerge } from 'tailwind-merge';
 
@@ -72,6 +88,32 @@ function MapUpdater({ center }: { center: [number, number] }) {
   return null;
 }
 
+interface MapBounds {
+  minLat: number;
+  maxLat: number;
+  minLng: number;
+  maxLng: number;
+}
+
+// Reports the visible map area so only markers inside it are requested
+function MapBoundsWatcher({ onChange }: { onChange: (bounds: MapBounds) => void }) {
+  const report = (bounds: L.LatLngBounds) => onChange({
+    minLat: Math.max(-90, bounds.getSouth()),
+    maxLat: Math.min(90, bounds.getNorth()),
+    minLng: Math.max(-180, bounds.getWest()),
+    maxLng: Math.min(180, bounds.getEast()),
+  });
+  const map = useMapEvents({
+    moveend: () => report(map.getBounds()),
+  });
+  useEffect(() => {
+    report(map.getBounds());
+  }, [map]);
+  return null;
+}
+
+const HISTORY_PAGE_SIZE = 30;
+
 // Fix Leaflet icon issue safely
 if (typeof window !== 'undefined' && L.Icon.Default) {
   // @ts-ignore
@@ -87,7 +129,9 @@ export default function App() {
   const [showLanding, setShowLanding] = useState(true);
   const [lang, setLang] = useState<Language>('en');
   const [voiceLang, setVoiceLang] = useState<Language>('en');
-  const [activeTab, setActiveTab] = useState<'farmer' | 'map' | 'scientist' | 'history' | 'admin'>('farmer');
+  const [user, setUser] = useState<AuthUser | null>(null);
+  const [authChecked, setAuthChecked] = useState(false);
+  const [activeTab, setActiveTab] = useState<Tab>('farmer');
   const [loading, setLoading] = useState(false);
   const [saving, setSaving] = useState(false);
   const [speaking, setSpeaking] = useState(false);
@@ -102,19 +146,42 @@ export default function App() {
   const lastProcessedTranscript = React.useRef("");
   const [interimTranscript, setInterimTranscript] = useState("");
   const [voiceError, setVoiceError] = useState<string | null>(null);
-  const [analysis, setAnalysis] = useState<any | null>(null);
+  const [analysis, setAnalysis] = useState<AnalysisResult | null>(null);
+  // Set when the server answered from its analysis cache
+  const [analysisCachedAt, setAnalysisCachedAt] = useState<number | null>(null);
+  // Progress of the running analysis, streamed from the server
+  const [analysisStage, setAnalysisStage] = useState<AnalysisStage | null>(null);
+  const [analysisDraft, setAnalysisDraft] = useState("");
+  const analysisAbortRef = React.useRef<AbortController | null>(null);
   const [followUpQuestion, setFollowUpQuestion] = useState("");
-  const [followUpAnswer, setFollowUpAnswer] = useState("");
+  const [pendingFollowUp, setPendingFollowUp] = useState<{ question: string; answer: string } | null>(null);
+  const followUpAbortRef = React.useRef<AbortController | null>(null);
+  const [followUpThread, setFollowUpThread] = useState<FollowUpMessage[]>([]);
+  const [followUpError, setFollowUpError] = useState<string | null>(null);
   const [followUpLoading, setFollowUpLoading] = useState(false);
   const [analysisError, setAnalysisError] = useState<string | null>(null);
-  const [submissions, setSubmissions] = useState<any[]>([]);
-  const [adminStats, setAdminStats] = useState<any>(null);
+  const [submissions, setSubmissions] = useState<Submission[]>([]);
+  const [historyCursor, setHistoryCursor] = useState<string | null>(null);
+  const [showTrash, setShowTrash] = useState(false);
+  const [reportingOutcomeFor, setReportingOutcomeFor] = useState<string | null>(null);
+  const [liveConnected, setLiveConnected] = useState(false);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [mapZones, setMapZones] = useState<MapZone[]>([]);
+  const [mapBounds, setMapBounds] = useState<MapBounds | null>(null);
+  const [cropOptions, setCropOptions] = useState<string[]>([]);
+  const [adminStats, setAdminStats] = useState<AdminStats | null>(null);
+  const [statsRange, setStatsRange] = useState({ from: '', to: '' });
+  const [statsInterval, setStatsInterval] = useState<StatsInterval>('day');
+  // Super-admins see every tenant unless they narrow the admin view to one
+  const [tenants, setTenants] = useState<TenantSummary[]>([]);
+  const [statsTenant, setStatsTenant] = useState('');
+  const [exportFormat, setExportFormat] = useState<'csv' | 'xlsx' | 'geojson' | 'json'>('csv');
   const [mapCenter, setMapCenter] = useState<[number, number]>([17.3850, 78.4867]);
   const [currentSubmissionId, setCurrentSubmissionId] = useState<string | null>(null);
   const [userChoice, setUserChoice] = useState<'A' | 'B' | null>(null);
 
   // Filters
-  const [filterRisk, setFilterRisk] = useState<string>('all');
+  const [filterRisk, setFilterRisk] = useState<RiskLevel | 'all'>('all');
   const [filterCrop, setFilterCrop] = useState<string>('all');
   
   const t = TRANSLATIONS[lang];
@@ -132,20 +199,64 @@ export default function App() {
   useEffect(() => { locationRef.current = location; }, [location]);
   useEffect(() => { dateRef.current = date; }, [date]);
 
-  // Fetch submissions on mount
+  // Restore the session and sign out whenever the server rejects the token
   useEffect(() => {
-    const initFetch = async () => {
-      // Small delay to ensure server is ready
-      await new Promise(resolve => setTimeout(resolve, 500));
-      fetchSubmissions();
-      if (activeTab === 'admin') {
-        fetchAdminStats();
-      }
-    };
-    initFetch();
-  }, [activeTab]);
+    onUnauthorized(() => setUser(null));
+    fetchCurrentUser()
+      .then(setUser)
+      .finally(() => setAuthChecked(true));
+    return () => onUnauthorized(null);
+  }, []);
 
-  // Re-run analysis when language changes if an analysis is active
+  // Fall back to the farmer portal if the current tab is not open to this role
+  useEffect(() => {
+    if (user && !ROLE_TABS[user.role].includes(activeTab)) {
+      setActiveTab('farmer');
+    }
+  }, [user, activeTab]);
+
+  const canView = (tab: Tab) => !!user && ROLE_TABS[user.role].includes(tab);
+  const superAdmin = !!user && isSuperAdmin(user);
+
+  const handleLogout = () => {
+    setToken(null);
+    setUser(null);
+    setSubmissions([]);
+    setMapZones([]);
+    setAdminStats(null);
+    setTenants([]);
+    setStatsTenant('');
+    setAnalysis(null);
+    setCurrentSubmissionId(null);
+    setUserChoice(null);
+  };
+
+  // History and admin data load once per sign-in; live events keep them current after that
+  useEffect(() => {
+    if (!user) return;
+    fetchSubmissions();
+    if (ROLE_TABS[user.role].includes('admin')) {
+      fetchAdminStats();
+      if (isSuperAdmin(user)) fetchTenants();
+    }
+  }, [user]);
+
+  useEffect(() => {
+    if (user && activeTab === 'map') fetchCropOptions();
+  }, [activeTab, user]);
+
+  useEffect(() => {
+    if (canView('admin')) fetchAdminStats();
+  }, [statsRange, statsInterval, statsTenant]);
+
+  // The map only asks for markers matching its filters and visible area
+  useEffect(() => {
+    if (user && activeTab === 'map') {
+      fetchMapSubmissions();
+    }
+  }, [activeTab, filterRisk, filterCrop, mapBounds, user]);
+
+  // Re-run analysis when language changes if an analysis is active; the cache answers it once each language has been seen
   useEffect(() => {
     if (analysis && crop && location && date) {
       handleAnalyze(new Event('submit') as any);
@@ -163,7 +274,7 @@ export default function App() {
 
     if (savedAnalysis) {
       try {
-        setAnalysis(JSON.parse(savedAnalysis));
+        setAnalysis(AnalysisResultSchema.parse(JSON.parse(savedAnalysis)));
         if (savedCrop) setCrop(savedCrop);
         if (savedLocation) setLocation(savedLocation);
         if (savedDate) setDate(savedDate);
@@ -174,8 +285,6 @@ export default function App() {
         console.error("Failed to load saved analysis", e);
       }
     }
-    
-    fetchSubmissions();
   }, []);
 
   // Save state to localStorage when it changes
@@ -194,63 +303,128 @@ export default function App() {
     }
   }, [analysis, crop, location, date, currentSubmissionId, userChoice]);
 
-  // Periodic fetch for submissions to keep map updated
-  useEffect(() => {
-    const interval = setInterval(() => {
+  // Live updates. Our own records arrive with their data and are patched into the
+  // history in place; any change refreshes the aggregated map and admin stats.
+  const handleServerEvent = React.useRef<(type: ServerEventType, data: Record<string, any>) => void>(() => {});
+  handleServerEvent.current = (type, data) => {
+    if (type === 'submission.created' && data.submission) {
+      const sub = SubmissionSchema.parse(data.submission);
+      setSubmissions(prev => prev.some(s => s.id === sub.id) ? prev : [sub, ...prev]);
+    }
+    if ((type === 'submission.choice' || type === 'submission.outcome' || type === 'submission.analysis') && data.submission) {
+      const sub = SubmissionSchema.parse(data.submission);
+      setSubmissions(prev => prev.map(s => s.id === sub.id ? sub : s));
+    }
+    if (type === 'submission.deleted' && data.id) {
+      setSubmissions(prev => prev.filter(s => s.id !== data.id));
+    }
+    if (type === 'submission.restored' && data.submission) {
       fetchSubmissions();
-      if (activeTab === 'admin') {
-        fetchAdminStats();
-      }
-    }, 30000);
-    return () => clearInterval(interval);
-  }, [activeTab]);
+    }
+    if (type === 'history.cleared' && data.count) {
+      setSubmissions([]);
+      setHistoryCursor(null);
+    }
+    if (type === 'store.restored') {
+      fetchSubmissions();
+    }
+    if (activeTab === 'map') {
+      fetchMapSubmissions();
+    }
+    if (canView('admin')) {
+      fetchAdminStats();
+      if (superAdmin) fetchTenants();
+    }
+  };
+
+  useEffect(() => {
+    if (!user) return;
+    return openEventStream((type, data) => handleServerEvent.current(type, data), setLiveConnected);
+  }, [user]);
 
-  const fetchAdminStats = async (retries = 5) => {
-    const origin = window.location.origin;
-    const url = `${origin}/api/admin/stats`;
+  const fetchAdminStats = async () => {
     try {
-      console.log(`Attempting to fetch admin stats from: ${url}`);
-      const response = await fetch(url, {
-        headers: {
-          'Accept': 'application/json',
-          'Cache-Control': 'no-cache'
-        }
-      });
-      if (!response.ok) throw new Error(`HTTP error! status: ${response.status}`);
-      const data = await response.json();
-      setAdminStats(data);
+      const data = await unwrap(api.GET('/api/admin/stats', {
+        params: {
+          query: {
+            interval: statsInterval,
+            // Range bounds are whole UTC days, matching the server's time buckets
+            since: statsRange.from ? `${statsRange.from}T00:00:00.000Z` : undefined,
+            until: statsRange.to ? `${statsRange.to}T23:59:59.999Z` : undefined,
+            tenant: statsTenant || undefined,
+          }
+        },
+        headers: { 'Cache-Control': 'no-cache' }
+      }));
+      setAdminStats(AdminStatsSchema.parse(data));
     } catch (error: any) {
-      console.error(`Fetch error for ${url}:`, error.message || error);
-      if (retries > 0) {
-        const delay = (6 - retries) * 2000;
-        console.log(`Retrying admin stats fetch in ${delay}ms (${retries} retries left)...`);
-        setTimeout(() => fetchAdminStats(retries - 1), delay);
-      }
+      console.error("Failed to fetch admin stats:", error.message || error);
+    }
+  };
+
+  const fetchTenants = async () => {
+    try {
+      setTenants(await unwrap(api.GET('/api/admin/tenants')));
+    } catch (error: any) {
+      console.error("Failed to fetch tenants:", error.message || error);
+    }
+  };
+
+  const querySubmissions = async (query: paths['/api/submissions']['get']['parameters']['query']) => {
+    const data = await unwrap(api.GET('/api/submissions', {
+      params: { query },
+      headers: { 'Cache-Control': 'no-cache' }
+    }));
+    return SubmissionPageSchema.parse(data);
+  };
+
+  const fetchSubmissions = async () => {
+    try {
+      const data = await querySubmissions({ sort: 'timestamp', order: 'desc', limit: HISTORY_PAGE_SIZE });
+      setSubmissions(data.items);
+      setHistoryCursor(data.nextCursor);
+    } catch (error: any) {
+      console.error("Failed to fetch submissions:", error.message || error);
+    }
+  };
+
+  const loadMoreSubmissions = async () => {
+    if (!historyCursor) return;
+    setLoadingMore(true);
+    try {
+      const data = await querySubmissions({ sort: 'timestamp', order: 'desc', limit: HISTORY_PAGE_SIZE, cursor: historyCursor });
+      setSubmissions(prev => [...prev, ...data.items]);
+      setHistoryCursor(data.nextCursor);
+    } catch (error: any) {
+      console.error("Failed to load more submissions:", error.message || error);
+    } finally {
+      setLoadingMore(false);
     }
   };
 
-  const fetchSubmissions = async (retries = 5) => {
-    const origin = window.location.origin;
-    const url = `${origin}/api/submissions`;
+  // The map shows anonymised zones aggregated across every farmer, not individual records
+  const fetchMapSubmissions = async () => {
     try {
-      console.log(`Attempting to fetch submissions from: ${url}`);
-      const response = await fetch(url, {
-        headers: {
-          'Accept': 'application/json',
-          'Cache-Control': 'no-cache'
+      const data = await unwrap(api.GET('/api/map/zones', {
+        params: {
+          query: {
+            riskLevel: filterRisk !== 'all' ? [filterRisk] : undefined,
+            crop: filterCrop !== 'all' ? [filterCrop] : undefined,
+            ...mapBounds,
+          }
         }
-      });
-      if (!response.ok) throw new Error(`HTTP error! status: ${response.status}`);
-      const data = await response.json();
-      console.log("Successfully fetched submissions:", data.length);
-      setSubmissions(data);
+      }));
+      setMapZones(MapZoneSchema.array().parse(data));
     } catch (error: any) {
-      console.error(`Fetch error for ${url}:`, error.message || error);
-      if (retries > 0) {
-        const delay = (6 - retries) * 2000; // Exponential-ish backoff
-        console.log(`Retrying fetch in ${delay}ms (${retries} retries left)...`);
-        setTimeout(() => fetchSubmissions(retries - 1), delay);
-      }
+      console.error("Failed to fetch map submissions:", error.message || error);
+    }
+  };
+
+  const fetchCropOptions = async () => {
+    try {
+      setCropOptions(await unwrap(api.GET('/api/submissions/crops')));
+    } catch (error: any) {
+      console.error("Failed to fetch crop options:", error.message || error);
     }
   };
 
@@ -435,7 +609,7 @@ export default function App() {
 
   const chartData = React.useMemo(() => {
     if (!analysis) return [];
-    return analysis.bloomingData.map((item: any, index: number) => ({
+    return analysis.bloomingData.map((item, index) => ({
       ...item,
       pollinationActivity: analysis.pollinationData[index]?.activity || 0
     }));
@@ -444,17 +618,31 @@ export default function App() {
   useEffect(() => {
     return () => {
       stopSpeaking();
+      analysisAbortRef.current?.abort();
+      followUpAbortRef.current?.abort();
     };
   }, []);
 
+  const handleDeleteSubmission = async (id: string) => {
+    try {
+      await unwrap(api.DELETE('/api/submissions/{id}', { params: { path: { id } } }));
+      setSubmissions(prev => prev.filter(sub => sub.id !== id));
+      if (id === currentSubmissionId) {
+        setCurrentSubmissionId(null);
+        setUserChoice(null);
+      }
+    } catch (error) {
+      console.error("Failed to delete submission", error);
+    }
+  };
+
   const handleChoice = async (choice: 'A' | 'B') => {
     if (!currentSubmissionId) return;
     try {
-      await fetch(`/api/submissions/${currentSubmissionId}/choice`, {
-        method: 'PATCH',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ choice }),
-      });
+      await unwrap(api.PATCH('/api/submissions/{id}/choice', {
+        params: { path: { id: currentSubmissionId } },
+        body: { choice },
+      }));
       setUserChoice(choice);
       fetchSubmissions();
     } catch (error) {
@@ -462,20 +650,50 @@ export default function App() {
     }
   };
 
+  // The conversation is stored with the submission, so reopening one from History brings it back
+  useEffect(() => {
+    followUpAbortRef.current?.abort();
+    setFollowUpThread([]);
+    setFollowUpError(null);
+    if (!user || !currentSubmissionId) return;
+    let cancelled = false;
+    fetchThread(currentSubmissionId)
+      .then(messages => { if (!cancelled) setFollowUpThread(messages); })
+      .catch(error => console.error("Failed to load follow-up conversation", error));
+    return () => { cancelled = true; };
+  }, [currentSubmissionId, user]);
+
   const handleFollowUp = async (e: React.FormEvent) => {
     e.preventDefault();
-    if (!followUpQuestion.trim() || !analysis) return;
+    const question = followUpQuestion.trim();
+    if (!question || !currentSubmissionId) return;
     
+    const controller = new AbortController();
+    followUpAbortRef.current = controller;
     setFollowUpLoading(true);
+    setFollowUpError(null);
+    setFollowUpQuestion("");
+    setPendingFollowUp({ question, answer: "" });
     try {
-      const answer = await askFollowUp(followUpQuestion, analysis, lang);
-      setFollowUpAnswer(answer);
-      if (autoSpeak) {
-        handleSpeak(answer);
+      const messages = await askInThread(currentSubmissionId, question, lang, {
+        signal: controller.signal,
+        onText: delta => setPendingFollowUp(pending => pending && { ...pending, answer: pending.answer + delta }),
+      });
+      setFollowUpThread(messages);
+      const answer = messages[messages.length - 1];
+      if (autoSpeak && answer?.role === 'assistant') {
+        handleSpeak(answer.content);
+      }
+    } catch (error: any) {
+      // Nothing was stored, so the question goes back in the box to ask again
+      setFollowUpQuestion(question);
+      if (!controller.signal.aborted) {
+        console.error("Follow-up failed", error);
+        setFollowUpError(error.message || "The assistant could not answer right now. Please try again.");
       }
-    } catch (error) {
-      console.error("Follow-up failed", error);
     } finally {
+      followUpAbortRef.current = null;
+      setPendingFollowUp(null);
       setFollowUpLoading(false);
     }
   };
@@ -580,11 +798,15 @@ export default function App() {
     }
   };
 
-  const loadSubmission = (sub: any) => {
+  const loadSubmission = (sub: Submission) => {
     setCrop(sub.crop);
     setLocation(sub.location);
     setDate(sub.date);
     setAnalysis(sub.fullAnalysis || null);
+    setAnalysisCachedAt(null);
+    setCurrentSubmissionId(sub.id);
+    setUserChoice(sub.choice);
+    setFollowUpQuestion("");
     setMapCenter([sub.lat, sub.lng]);
     setActiveTab('farmer');
     
@@ -599,48 +821,42 @@ export default function App() {
     }
   };
 
-  const handleAnalyze = async (e: React.FormEvent) => {
+  const handleAnalyze = async (e: React.FormEvent, forceRefresh = false) => {
     e.preventDefault();
     if (!crop || !location || !date) return;
 
+    // A new request replaces one still running, e.g. after switching language
+    analysisAbortRef.current?.abort();
+    const controller = new AbortController();
+    analysisAbortRef.current = controller;
     setLoading(true);
     setAnalysisError(null);
     setAnalysis(null);
-    setFollowUpAnswer("");
+    setAnalysisCachedAt(null);
+    setAnalysisStage(null);
+    setAnalysisDraft("");
+    setCurrentSubmissionId(null);
     setFollowUpQuestion("");
     try {
-      const result = await analyzeCropMismatch(crop, location, date, lang);
-      setAnalysis(result);
-      setMapCenter([result.lat, result.lng]);
-      
-      const newSubmission = {
-        crop,
-        location,
-        lat: result.lat,
-        lng: result.lng,
-        date,
-        riskLevel: result.riskLevel,
-        climaticConditions: result.climaticConditions,
-        fullAnalysis: result // Store full analysis for re-checking
-      };
-
-      // Save to backend
       setSaving(true);
-      const response = await fetch(`/api/submissions`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify(newSubmission),
+      const { analysis: result, submission: savedSub, cachedAt } = await analyzeCropMismatch(crop, location, date, lang, forceRefresh, {
+        signal: controller.signal,
+        onStage: stage => {
+          setAnalysisStage(stage);
+          // The model is trying again, so its earlier draft is void
+          if (stage === 'searching_weather') setAnalysisDraft("");
+        },
+        onText: delta => setAnalysisDraft(draft => draft + delta),
       });
+      setAnalysis(result);
+      setAnalysisCachedAt(cachedAt);
+      setMapCenter([result.lat, result.lng]);
 
-      if (response.ok) {
-        const savedSub = await response.json();
-        console.log("Successfully saved submission to backend:", savedSub.id);
-        setCurrentSubmissionId(savedSub.id);
-        setUserChoice(null);
-        await fetchSubmissions();
-      } else {
-        console.error("Failed to save submission to backend:", response.statusText);
-      }
+      // The server saves the submission as part of the analysis call, or returns the existing one for the same request
+      console.log("Successfully saved submission to backend:", savedSub.id);
+      setCurrentSubmissionId(savedSub.id);
+      setUserChoice(savedSub.choice);
+      await fetchSubmissions();
       setSaving(false);
 
       // Auto-trigger voice assistant for high risk
@@ -653,13 +869,23 @@ export default function App() {
         handleSpeak(voiceText);
       }
     } catch (error) {
+      if (controller.signal.aborted) return;
       console.error("Analysis failed", error);
       setAnalysisError("Analysis failed. Please check your inputs and try again.");
     } finally {
-      setLoading(false);
+      // A replacement request owns the loading state now
+      if (analysisAbortRef.current === controller) {
+        analysisAbortRef.current = null;
+        setLoading(false);
+        setSaving(false);
+      }
     }
   };
 
+  const cancelAnalysis = () => {
+    analysisAbortRef.current?.abort();
+  };
+
   if (showLanding) {
     return (
       <div className="min-h-screen flex flex-col relative overflow-hidden">
@@ -724,6 +950,18 @@ export default function App() {
     );
   }
 
+  if (!authChecked) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <Loader2 size={32} className="animate-spin text-emerald-500" />
+      </div>
+    );
+  }
+
+  if (!user) {
+    return <LoginScreen onLogin={setUser} onBack={() => setShowLanding(true)} />;
+  }
+
   return (
     <div className="min-h-screen flex flex-col">
       {/* Header */}
@@ -740,57 +978,67 @@ export default function App() {
           </div>
 
           <nav className="hidden md:flex items-center gap-1 bg-stone-950/40 p-1 rounded-lg border border-stone-800">
-            <button 
-              onClick={() => setActiveTab('farmer')}
-              className={cn(
-                "px-4 py-1.5 rounded-md text-sm font-medium transition-all",
-                activeTab === 'farmer' ? "bg-emerald-600 text-white shadow-sm" : "text-stone-400 hover:text-stone-100"
-              )}
-            >
-              {t.farmerPortal}
-            </button>
-            <button 
-              onClick={() => setActiveTab('map')}
-              className={cn(
-                "px-4 py-1.5 rounded-md text-sm font-medium transition-all",
-                activeTab === 'map' ? "bg-emerald-600 text-white shadow-sm" : "text-stone-400 hover:text-stone-100"
-              )}
-            >
-              {t.mapPortal}
-            </button>
-            <button 
-              onClick={() => setActiveTab('scientist')}
-              className={cn(
-                "px-4 py-1.5 rounded-md text-sm font-medium transition-all",
-                activeTab === 'scientist' ? "bg-emerald-600 text-white shadow-sm" : "text-stone-400 hover:text-stone-100"
-              )}
-            >
-              {t.nasaScientistView}
-            </button>
-            <button 
-              onClick={() => setActiveTab('history')}
-              className={cn(
-                "px-4 py-1.5 rounded-md text-sm font-medium transition-all",
-                activeTab === 'history' ? "bg-emerald-600 text-white shadow-sm" : "text-stone-400 hover:text-stone-100"
-              )}
-            >
-              <div className="flex items-center gap-1.5">
-                <Calendar size={14} />
-                {t.historyPortal}
-              </div>
-            </button>
-            <button 
-              onClick={() => setActiveTab('admin')}
-              className={cn(
-                "px-4 py-1.5 rounded-md text-sm font-medium transition-all",
-                activeTab === 'admin' ? "bg-emerald-600 text-white shadow-sm" : "text-stone-400 hover:text-stone-100"
-              )}
-            >
-              <div className="flex items-center gap-1.5">
-                <BarChart3 size={14} />
-                {t.adminPortal}
-              </div>
-            </button>
+            {canView('farmer') && (
+              <button 
+                onClick={() => setActiveTab('farmer')}
+                className={cn(
+                  "px-4 py-1.5 rounded-md text-sm font-medium transition-all",
+                  activeTab === 'farmer' ? "bg-emerald-600 text-white shadow-sm" : "text-stone-400 hover:text-stone-100"
+                )}
+              >
+                {t.farmerPortal}
+              </button>
+            )}
+            {canView('map') && (
+              <button 
+                onClick={() => setActiveTab('map')}
+                className={cn(
+                  "px-4 py-1.5 rounded-md text-sm font-medium transition-all",
+                  activeTab === 'map' ? "bg-emerald-600 text-white shadow-sm" : "text-stone-400 hover:text-stone-100"
+                )}
+              >
+                {t.mapPortal}
+              </button>
+            )}
+            {canView('scientist') && (
+              <button 
+                onClick={() => setActiveTab('scientist')}
+                className={cn(
+                  "px-4 py-1.5 rounded-md text-sm font-medium transition-all",
+                  activeTab === 'scientist' ? "bg-emerald-600 text-white shadow-sm" : "text-stone-400 hover:text-stone-100"
+                )}
+              >
+                {t.nasaScientistView}
+              </button>
+            )}
+            {canView('history') && (
+              <button 
+                onClick={() => setActiveTab('history')}
+                className={cn(
+                  "px-4 py-1.5 rounded-md text-sm font-medium transition-all",
+                  activeTab === 'history' ? "bg-emerald-600 text-white shadow-sm" : "text-stone-400 hover:text-stone-100"
+                )}
+              >
+                <div className="flex items-center gap-1.5">
+                  <Calendar size={14} />
+                  {t.historyPortal}
+                </div>
+              </button>
+            )}
+            {canView('admin') && (
+              <button 
+                onClick={() => setActiveTab('admin')}
+                className={cn(
+                  "px-4 py-1.5 rounded-md text-sm font-medium transition-all",
+                  activeTab === 'admin' ? "bg-emerald-600 text-white shadow-sm" : "text-stone-400 hover:text-stone-100"
+                )}
+              >
+                <div className="flex items-center gap-1.5">
+                  <BarChart3 size={14} />
+                  {t.adminPortal}
+                </div>
+              </button>
+            )}
           </nav>
 
           <div className="flex items-center gap-3">
@@ -824,6 +1072,19 @@ export default function App() {
                 <option key={l.code} value={l.code} className="bg-stone-900">{l.name}</option>
               ))}
             </select>
+            <div className="flex items-center gap-2 pl-3 border-l border-stone-800">
+              <div className="hidden sm:block text-right">
+                <p className="text-xs font-bold text-stone-200 leading-none">{user.username}</p>
+                <p className="text-[10px] uppercase tracking-widest font-semibold text-emerald-400">{user.role}</p>
+              </div>
+              <button
+                onClick={handleLogout}
+                className="p-2 rounded-full bg-stone-800/40 border border-stone-700 text-stone-400 hover:text-red-400 transition-all"
+                title="Sign Out"
+              >
+                <LogOut size={16} />
+              </button>
+            </div>
           </div>
         </div>
       </header>
@@ -1050,6 +1311,8 @@ export default function App() {
                   </form>
                 </div>
 
+                <BatchImportPanel language={lang} onBatchFinished={() => fetchSubmissions()} />
+
                 {/* Quick Info */}
                 <div className="bg-emerald-900/40 backdrop-blur-md text-emerald-50 p-6 rounded-2xl border border-emerald-800/30 shadow-xl">
                   <h3 className="font-bold mb-2 flex items-center gap-2 text-emerald-300">
@@ -1075,11 +1338,7 @@ export default function App() {
                 )}
 
                 {loading && (
-                  <div className="h-full min-h-[400px] flex flex-col items-center justify-center text-center p-12 bg-stone-900/40 backdrop-blur-md rounded-2xl border border-stone-800">
-                    <Loader2 size={48} className="text-emerald-500 animate-spin mb-4" />
-                    <h3 className="text-xl font-bold text-stone-100">{t.analyzing}</h3>
-                    <p className="text-stone-500 mt-2">Connecting to NASA Earth Data nodes...</p>
-                  </div>
+                  <AnalysisProgress title={t.analyzing} stage={analysisStage} draft={analysisDraft} onCancel={cancelAnalysis} />
                 )}
 
                 {analysis && !loading && (
@@ -1103,10 +1362,26 @@ export default function App() {
                               )}>{t[analysis.riskLevel]}</span>
                             </h2>
                           </div>
-                          <div className="flex items-center gap-1.5 text-[10px] font-bold text-blue-400 uppercase tracking-widest bg-blue-500/10 px-2 py-0.5 rounded border border-blue-500/20 w-fit">
-                            <Zap size={10} />
-                            Real-Time Verified Prediction
-                          </div>
+                          {!analysis.fallback && (
+                            <div className="flex items-center gap-1.5 text-[10px] font-bold text-blue-400 uppercase tracking-widest bg-blue-500/10 px-2 py-0.5 rounded border border-blue-500/20 w-fit">
+                              <Zap size={10} />
+                              Real-Time Verified Prediction
+                            </div>
+                          )}
+                          {analysisCachedAt && (
+                            <div className="flex items-center gap-2 text-[10px] font-bold text-amber-400 uppercase tracking-widest">
+                              <span>Cached result from {new Date(analysisCachedAt).toLocaleString()}</span>
+                              <button
+                                onClick={(e) => handleAnalyze(e, true)}
+                                className="flex items-center gap-1 px-2 py-0.5 rounded border border-amber-500/30 bg-amber-500/10 hover:bg-amber-500/20 transition-colors"
+                                title="Run a fresh analysis instead of using the cache"
+                              >
+                                <RefreshCw size={10} />
+                                Force Refresh
+                              </button>
+                            </div>
+                          )}
+                          <PhenologyCheckNotice analysis={analysis} />
                         </div>
                         <button 
                           onClick={() => handleSpeak()}
@@ -1144,7 +1419,7 @@ export default function App() {
                                 Verified Sources
                               </h3>
                               <div className="space-y-2">
-                                {analysis.sources.slice(0, 3).map((source: any, idx: number) => (
+                                {analysis.sources.slice(0, 3).map((source, idx) => (
                                   <a 
                                     key={idx} 
                                     href={source.url} 
@@ -1230,41 +1505,31 @@ export default function App() {
                                 </div>
                               )}
                             </div>
-                            <button
-                              type="submit"
-                              disabled={followUpLoading || !followUpQuestion.trim()}
-                              className="bg-emerald-600 hover:bg-emerald-500 disabled:opacity-50 text-white p-3 rounded-xl transition-all shadow-lg shadow-emerald-900/20"
-                            >
-                              {followUpLoading ? <Loader2 size={18} className="animate-spin" /> : <ArrowRight size={18} />}
-                            </button>
-                          </form>
-
-                          <AnimatePresence>
-                            {followUpAnswer && (
-                              <motion.div
-                                initial={{ opacity: 0, y: 10 }}
-                                animate={{ opacity: 1, y: 0 }}
-                                exit={{ opacity: 0, y: 10 }}
-                                className="p-4 bg-stone-900/30 rounded-xl border border-stone-800/50 text-sm text-stone-300 leading-relaxed"
+                            {followUpLoading ? (
+                              <button
+                                type="button"
+                                onClick={() => followUpAbortRef.current?.abort()}
+                                className="bg-stone-800 hover:bg-red-600 text-white p-3 rounded-xl transition-all"
+                                title="Stop"
                               >
-                                <div className="flex justify-between items-start">
-                                  <div className="flex-1">
-                                    {followUpAnswer}
-                                  </div>
-                                  <button 
-                                    onClick={() => handleSpeak(followUpAnswer)}
-                                    className={cn(
-                                      "p-2 rounded-full transition-all ml-2",
-                                      speaking ? "bg-red-500/20 text-red-400" : "bg-stone-800/40 text-stone-400 hover:bg-emerald-500/20 hover:text-emerald-400"
-                                    )}
-                                    title={speaking ? "Stop Speaking" : "Listen to Answer"}
-                                  >
-                                    {speaking ? <VolumeX size={16} className="animate-pulse" /> : <Volume2 size={16} />}
-                                  </button>
-                                </div>
-                              </motion.div>
+                                <Square size={18} />
+                              </button>
+                            ) : (
+                              <button
+                                type="submit"
+                                disabled={!followUpQuestion.trim() || !currentSubmissionId}
+                                className="bg-emerald-600 hover:bg-emerald-500 disabled:opacity-50 text-white p-3 rounded-xl transition-all shadow-lg shadow-emerald-900/20"
+                              >
+                                <ArrowRight size={18} />
+                              </button>
                             )}
-                          </AnimatePresence>
+                          </form>
+
+                          {followUpError && (
+                            <p className="mb-4 text-xs text-red-400">{followUpError}</p>
+                          )}
+
+                          <FollowUpThread messages={followUpThread} pending={pendingFollowUp} speaking={speaking} onSpeak={handleSpeak} />
                         </div>
 
                         <div className="space-y-4">
@@ -1408,18 +1673,100 @@ export default function App() {
                   <p className="text-stone-400 text-sm">{t.adminStats}</p>
                 </div>
                 <div className="flex items-center gap-3">
-                  <div className="flex items-center gap-2 px-3 py-1.5 bg-emerald-500/10 border border-emerald-500/20 rounded-full text-[10px] font-bold text-emerald-400 uppercase tracking-widest animate-pulse">
+                  <div className={cn(
+                    "flex items-center gap-2 px-3 py-1.5 rounded-full text-[10px] font-bold uppercase tracking-widest",
+                    liveConnected ? "bg-emerald-500/10 border border-emerald-500/20 text-emerald-400 animate-pulse" : "bg-stone-800/40 border border-stone-700 text-stone-500"
+                  )}>
                     <Activity size={12} />
-                    System Monitoring: Active
+                    {liveConnected ? "System Monitoring: Active" : "System Monitoring: Reconnecting..."}
+                  </div>
+                  <div className="flex items-center">
+                    <select
+                      value={exportFormat}
+                      onChange={(e) => setExportFormat(e.target.value as typeof exportFormat)}
+                      className="bg-stone-900/60 border border-stone-700 border-r-0 text-stone-300 rounded-l-xl px-2 py-2 text-xs font-bold outline-none"
+                    >
+                      <option value="csv" className="bg-stone-900">CSV</option>
+                      <option value="xlsx" className="bg-stone-900">XLSX</option>
+                      <option value="geojson" className="bg-stone-900">GeoJSON</option>
+                      <option value="json" className="bg-stone-900">JSON</option>
+                    </select>
+                    <button
+                      onClick={() => downloadFile(`/api/submissions/export?format=${exportFormat}${statsTenant ? `&tenant=${encodeURIComponent(statsTenant)}` : ''}`).catch(error => console.error("Export failed", error))}
+                      className="px-4 py-2 bg-emerald-600 text-white rounded-r-xl text-xs font-bold hover:bg-emerald-700 transition-all flex items-center gap-2"
+                    >
+                      <Download size={16} />
+                      {t.exportData}
+                    </button>
                   </div>
-                  <button className="px-4 py-2 bg-emerald-600 text-white rounded-xl text-xs font-bold hover:bg-emerald-700 transition-all flex items-center gap-2">
-                    <Download size={16} />
-                    {t.exportData}
-                  </button>
                 </div>
               </div>
 
+              <div className="flex flex-wrap items-end gap-4 bg-stone-900/40 backdrop-blur-md p-4 rounded-2xl border border-stone-800 shadow-xl">
+                <div>
+                  <label className="block text-xs font-bold uppercase tracking-wider text-stone-500 mb-1.5">{t.dateRange}</label>
+                  <div className="flex items-center gap-2">
+                    <input
+                      type="date"
+                      value={statsRange.from}
+                      max={statsRange.to || undefined}
+                      onChange={(e) => setStatsRange({ ...statsRange, from: e.target.value })}
+                      className="px-3 py-2 rounded-xl bg-stone-950/40 border border-stone-800 text-stone-100 text-xs outline-none focus:ring-2 focus:ring-emerald-500 [color-scheme:dark]"
+                    />
+                    <span className="text-stone-500 text-xs">–</span>
+                    <input
+                      type="date"
+                      value={statsRange.to}
+                      min={statsRange.from || undefined}
+                      onChange={(e) => setStatsRange({ ...statsRange, to: e.target.value })}
+                      className="px-3 py-2 rounded-xl bg-stone-950/40 border border-stone-800 text-stone-100 text-xs outline-none focus:ring-2 focus:ring-emerald-500 [color-scheme:dark]"
+                    />
+                  </div>
+                </div>
+                <div>
+                  <label className="block text-xs font-bold uppercase tracking-wider text-stone-500 mb-1.5">Group By</label>
+                  <div className="flex bg-stone-950/40 rounded-xl p-1 border border-stone-800">
+                    {(['day', 'week', 'month'] as const).map((interval) => (
+                      <button
+                        key={interval}
+                        onClick={() => setStatsInterval(interval)}
+                        className={cn(
+                          "px-3 py-1 rounded-lg text-xs font-bold capitalize transition-all",
+                          statsInterval === interval ? "bg-emerald-600 text-white" : "text-stone-400 hover:text-stone-100"
+                        )}
+                      >
+                        {interval}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+                {superAdmin && (
+                  <div>
+                    <label className="block text-xs font-bold uppercase tracking-wider text-stone-500 mb-1.5">Organisation</label>
+                    <select
+                      value={statsTenant}
+                      onChange={(e) => setStatsTenant(e.target.value)}
+                      className="px-3 py-2 rounded-xl bg-stone-950/40 border border-stone-800 text-stone-100 text-xs outline-none focus:ring-2 focus:ring-emerald-500"
+                    >
+                      <option value="" className="bg-stone-900">All organisations</option>
+                      {tenants.map(tenant => (
+                        <option key={tenant.id} value={tenant.id} className="bg-stone-900">{tenant.name}</option>
+                      ))}
+                    </select>
+                  </div>
+                )}
+                {(statsRange.from || statsRange.to) && (
+                  <button
+                    onClick={() => setStatsRange({ from: '', to: '' })}
+                    className="text-xs font-bold text-stone-500 hover:text-emerald-400 transition-colors pb-2"
+                  >
+                    Clear
+                  </button>
+                )}
+              </div>
+
               {adminStats ? (
+                <>
                 <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
                   <div className="bg-stone-900/40 backdrop-blur-md p-6 rounded-2xl border border-stone-800 shadow-xl">
                     <p className="text-xs font-bold text-stone-500 uppercase mb-2">{t.totalSubmissions}</p>
@@ -1486,11 +1833,18 @@ export default function App() {
                     </div>
                   </div>
                 </div>
+                <AdminStatsBreakdown stats={adminStats} />
+                </>
               ) : (
                 <div className="flex items-center justify-center h-64">
                   <Loader2 size={32} className="animate-spin text-emerald-500" />
                 </div>
               )}
+
+              {superAdmin && <TenantsPanel tenants={tenants} onChanged={fetchTenants} />}
+              {superAdmin && <WebhooksPanel />}
+              {superAdmin && <PromptsPanel />}
+              <AuditLogPanel />
             </motion.div>
           )}
           {activeTab === 'history' && (
@@ -1507,9 +1861,12 @@ export default function App() {
                   <p className="text-stone-400 text-sm">Access and re-examine all your previous agricultural assessments.</p>
                 </div>
                 <div className="flex items-center gap-3">
-                  <div className="flex items-center gap-2 px-3 py-1.5 bg-blue-500/10 border border-blue-500/20 rounded-full text-[10px] font-bold text-blue-400 uppercase tracking-widest">
+                  <div className={cn(
+                    "flex items-center gap-2 px-3 py-1.5 rounded-full text-[10px] font-bold uppercase tracking-widest",
+                    liveConnected ? "bg-blue-500/10 border border-blue-500/20 text-blue-400" : "bg-stone-800/40 border border-stone-700 text-stone-500"
+                  )}>
                     <Activity size={12} />
-                    History Sync: Active
+                    {liveConnected ? "History Sync: Active" : "History Sync: Reconnecting..."}
                   </div>
                   {(loading || saving) && (
                     <div className="flex items-center gap-2 px-3 py-1.5 bg-emerald-500/10 border border-emerald-500/20 rounded-full text-[10px] font-bold text-emerald-400 uppercase tracking-widest animate-pulse">
@@ -1517,10 +1874,20 @@ export default function App() {
                       Syncing History...
                     </div>
                   )}
+                  <button 
+                    onClick={() => setShowTrash(!showTrash)}
+                    className={cn(
+                      "flex items-center gap-2 px-4 py-2 rounded-xl border transition-all text-sm font-bold",
+                      showTrash ? "bg-emerald-600 text-white border-emerald-600" : "bg-stone-900/40 backdrop-blur-md border-stone-800 text-stone-400 hover:text-emerald-400"
+                    )}
+                  >
+                    <ArchiveRestore size={16} />
+                    {showTrash ? "Back to History" : "Trash"}
+                  </button>
                   <button 
                     onClick={async () => {
-                      if (confirm("Are you sure you want to clear all history?")) {
-                        await fetch(`/api/submissions`, { method: 'DELETE' });
+                      if (confirm("Move all of your history to the trash?")) {
+                        await unwrap(api.DELETE('/api/submissions'));
                         fetchSubmissions();
                       }
                     }}
@@ -1539,64 +1906,118 @@ export default function App() {
                 </div>
               </div>
 
-              {submissions.length === 0 ? (
+              {showTrash ? (
+                <TrashPanel onRestored={() => fetchSubmissions()} />
+              ) : submissions.length === 0 ? (
                 <div className="bg-stone-900/40 backdrop-blur-md p-12 rounded-2xl border border-stone-800 text-center">
                   <Calendar size={48} className="mx-auto text-stone-700 mb-4" />
                   <p className="text-stone-500">{t.noRecords}</p>
                 </div>
               ) : (
-                <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
-                  {submissions.map((sub) => (
-                    <div key={sub.id} className="bg-stone-900/40 backdrop-blur-md p-5 rounded-2xl border border-stone-800 shadow-xl hover:bg-stone-800/40 transition-all group">
-                      <div className="flex justify-between items-start mb-3">
-                        <div className="flex-1">
-                          <h3 className="font-bold text-stone-100 group-hover:text-emerald-400 transition-colors">{sub.crop}</h3>
-                          <p className="text-xs text-stone-500 flex items-center gap-1">
-                            <MapPin size={12} />
-                            {sub.location}
-                          </p>
-                          <div className="mt-2 flex items-center gap-2">
-                            <div className="flex-1 h-1 bg-stone-800 rounded-full overflow-hidden">
-                              <div className="h-full bg-blue-500" style={{ width: '94%' }} />
+                <div className="space-y-6">
+                  <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+                    {submissions.map((sub) => (
+                      <div key={sub.id} className="bg-stone-900/40 backdrop-blur-md p-5 rounded-2xl border border-stone-800 shadow-xl hover:bg-stone-800/40 transition-all group">
+                        <div className="flex justify-between items-start mb-3">
+                          <div className="flex-1">
+                            <h3 className="font-bold text-stone-100 group-hover:text-emerald-400 transition-colors">{sub.crop}</h3>
+                            <p className="text-xs text-stone-500 flex items-center gap-1">
+                              <MapPin size={12} />
+                              {sub.location}
+                            </p>
+                            <div className="mt-2 flex items-center gap-2">
+                              <div className="flex-1 h-1 bg-stone-800 rounded-full overflow-hidden">
+                                <div className="h-full bg-blue-500" style={{ width: '94%' }} />
+                              </div>
+                              <span className="text-[10px] font-bold text-blue-400">94% Conf.</span>
+                            </div>
+                          </div>
+                          <div className="flex flex-col items-end gap-2">
+                            <span className={cn(
+                              "px-2 py-1 rounded-lg text-[10px] font-bold uppercase",
+                              sub.riskLevel === 'high' ? "bg-red-900/40 text-red-400 border border-red-800/30" : sub.riskLevel === 'medium' ? "bg-amber-900/40 text-amber-400 border border-amber-800/30" : "bg-emerald-900/40 text-emerald-400 border border-emerald-800/30"
+                            )}>
+                              {t[sub.riskLevel]}
+                            </span>
+                            <div className="flex items-center gap-1 text-[8px] font-bold text-blue-400 uppercase tracking-widest bg-blue-500/10 px-1 rounded border border-blue-500/20">
+                              <Zap size={8} />
+                              Verified
                             </div>
-                            <span className="text-[10px] font-bold text-blue-400">94% Conf.</span>
+                            <button 
+                              onClick={(e) => {
+                                e.stopPropagation();
+                                handleSpeak(`${sub.crop} in ${sub.location}. Risk level is ${t[sub.riskLevel]}. ${sub.climaticConditions}`);
+                              }}
+                              className="p-1.5 rounded-full bg-stone-800/40 text-stone-500 hover:text-emerald-400 transition-colors"
+                              title="Speak summary"
+                            >
+                              <Volume2 size={12} />
+                            </button>
+                            <button 
+                              onClick={(e) => {
+                                e.stopPropagation();
+                                handleDeleteSubmission(sub.id);
+                              }}
+                              className="p-1.5 rounded-full bg-stone-800/40 text-stone-500 hover:text-red-400 transition-colors"
+                              title="Move to trash"
+                            >
+                              <Trash2 size={12} />
+                            </button>
                           </div>
                         </div>
-                        <div className="flex flex-col items-end gap-2">
-                          <span className={cn(
-                            "px-2 py-1 rounded-lg text-[10px] font-bold uppercase",
-                            sub.riskLevel === 'high' ? "bg-red-900/40 text-red-400 border border-red-800/30" : sub.riskLevel === 'medium' ? "bg-amber-900/40 text-amber-400 border border-amber-800/30" : "bg-emerald-900/40 text-emerald-400 border border-emerald-800/30"
-                          )}>
-                            {t[sub.riskLevel]}
-                          </span>
-                          <div className="flex items-center gap-1 text-[8px] font-bold text-blue-400 uppercase tracking-widest bg-blue-500/10 px-1 rounded border border-blue-500/20">
-                            <Zap size={8} />
-                            Verified
+                        <div className="text-[10px] text-stone-500 mb-4">
+                          {new Date(sub.timestamp).toLocaleString()}
+                        </div>
+                        {sub.outcome && reportingOutcomeFor !== sub.id && (
+                          <div className="mb-3 px-3 py-2 rounded-xl bg-stone-950/40 border border-stone-800 text-[11px] text-stone-400">
+                            <span className="font-bold text-stone-300">Harvest {sub.outcome.harvestDate}:</span>{' '}
+                            <span className={sub.outcome.yieldChangePercent < 0 ? 'text-red-400' : 'text-emerald-400'}>
+                              {sub.outcome.yieldChangePercent > 0 ? '+' : ''}{sub.outcome.yieldChangePercent}% yield
+                            </span>
+                            {sub.fullAnalysis && <> (predicted risk {sub.fullAnalysis.yieldRiskPercentage}%)</>}
                           </div>
+                        )}
+                        <div className="flex gap-2">
                           <button 
-                            onClick={(e) => {
-                              e.stopPropagation();
-                              handleSpeak(`${sub.crop} in ${sub.location}. Risk level is ${t[sub.riskLevel]}. ${sub.climaticConditions}`);
-                            }}
-                            className="p-1.5 rounded-full bg-stone-800/40 text-stone-500 hover:text-emerald-400 transition-colors"
-                            title="Speak summary"
+                            onClick={() => loadSubmission(sub)}
+                            className="flex-1 py-2 bg-stone-950/40 hover:bg-emerald-600 text-stone-400 hover:text-white rounded-xl text-xs font-bold transition-all flex items-center justify-center gap-2 border border-stone-800"
                           >
-                            <Volume2 size={12} />
+                            <Search size={14} />
+                            {t.viewAnalysis}
+                          </button>
+                          <button
+                            onClick={() => setReportingOutcomeFor(reportingOutcomeFor === sub.id ? null : sub.id)}
+                            className="flex-1 py-2 bg-stone-950/40 hover:bg-emerald-600 text-stone-400 hover:text-white rounded-xl text-xs font-bold transition-all flex items-center justify-center gap-2 border border-stone-800"
+                          >
+                            <Sprout size={14} />
+                            {sub.outcome ? 'Edit Harvest' : 'Report Harvest'}
                           </button>
                         </div>
+                        {reportingOutcomeFor === sub.id && (
+                          <HarvestOutcomeForm
+                            submission={sub}
+                            onCancel={() => setReportingOutcomeFor(null)}
+                            onSaved={(updated) => {
+                              setSubmissions(prev => prev.map(s => s.id === updated.id ? updated : s));
+                              setReportingOutcomeFor(null);
+                            }}
+                          />
+                        )}
                       </div>
-                      <div className="text-[10px] text-stone-500 mb-4">
-                        {new Date(sub.timestamp).toLocaleString()}
-                      </div>
-                      <button 
-                        onClick={() => loadSubmission(sub)}
-                        className="w-full py-2 bg-stone-950/40 hover:bg-emerald-600 text-stone-400 hover:text-white rounded-xl text-xs font-bold transition-all flex items-center justify-center gap-2 border border-stone-800"
+                    ))}
+                  </div>
+                  {historyCursor && (
+                    <div className="flex justify-center">
+                      <button
+                        onClick={loadMoreSubmissions}
+                        disabled={loadingMore}
+                        className="flex items-center gap-2 px-6 py-2 bg-stone-900/40 backdrop-blur-md rounded-xl border border-stone-800 text-stone-400 hover:text-emerald-400 transition-all text-sm font-bold disabled:opacity-50"
                       >
-                        <Search size={14} />
-                        {t.viewAnalysis}
+                        {loadingMore && <Loader2 size={16} className="animate-spin" />}
+                        Load More
                       </button>
                     </div>
-                  ))}
+                  )}
                 </div>
               )}
             </motion.div>
@@ -1617,16 +2038,19 @@ export default function App() {
                 </div>
                 
                 <div className="flex flex-wrap items-center gap-3">
-                  <div className="flex items-center gap-2 px-3 py-1.5 bg-emerald-500/10 border border-emerald-500/20 rounded-full text-[10px] font-bold text-emerald-400 uppercase tracking-widest animate-pulse">
+                  <div className={cn(
+                    "flex items-center gap-2 px-3 py-1.5 rounded-full text-[10px] font-bold uppercase tracking-widest",
+                    liveConnected ? "bg-emerald-500/10 border border-emerald-500/20 text-emerald-400 animate-pulse" : "bg-stone-800/40 border border-stone-700 text-stone-500"
+                  )}>
                     <Activity size={12} />
-                    Live Monitoring Active
+                    {liveConnected ? "Live Monitoring Active" : "Live Monitoring Reconnecting..."}
                   </div>
                   <div className="flex items-center gap-2 px-3 py-1.5 bg-blue-500/10 border border-blue-500/20 rounded-full text-[10px] font-bold text-blue-400 uppercase tracking-widest">
                     <Globe size={12} />
                     NASA Feed: Active
                   </div>
                   <button 
-                    onClick={() => fetchSubmissions()}
+                    onClick={() => fetchMapSubmissions()}
                     className="p-2 bg-stone-900/40 backdrop-blur-md rounded-xl border border-stone-800 text-stone-400 hover:text-emerald-400 transition-all"
                     title="Refresh Map Data"
                   >
@@ -1636,7 +2060,7 @@ export default function App() {
                     <Filter size={14} className="text-stone-500 ml-2" />
                     <select 
                       value={filterRisk}
-                      onChange={(e) => setFilterRisk(e.target.value)}
+                      onChange={(e) => setFilterRisk(e.target.value as RiskLevel | 'all')}
                       className="bg-transparent text-xs text-stone-300 outline-none border-none cursor-pointer"
                     >
                       <option value="all" className="bg-stone-900">All Risks</option>
@@ -1654,7 +2078,7 @@ export default function App() {
                       className="bg-transparent text-xs text-stone-300 outline-none border-none cursor-pointer"
                     >
                       <option value="all" className="bg-stone-900">All Crops</option>
-                      {Array.from(new Set(submissions.map(s => s.crop))).map(crop => (
+                      {cropOptions.map(crop => (
                         <option key={crop} value={crop} className="bg-stone-900">{crop}</option>
                       ))}
                     </select>
@@ -1684,21 +2108,18 @@ export default function App() {
                   className="z-0"
                 >
                   <MapUpdater center={mapCenter} />
+                  <MapBoundsWatcher onChange={setMapBounds} />
                   <TileLayer
                     url="https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png"
                     attribution='&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors'
                   />
-                  {submissions
-                    .filter(s => filterRisk === 'all' || s.riskLevel === filterRisk)
-                    .filter(s => filterCrop === 'all' || s.crop === filterCrop)
-                    .filter(s => typeof s.lat === 'number' && typeof s.lng === 'number')
-                    .map((sub) => (
-                    <React.Fragment key={sub.id}>
+                  {mapZones.map((sub) => (
+                    <React.Fragment key={`${sub.lat},${sub.lng},${sub.crop},${sub.riskLevel}`}>
                       <Marker position={[sub.lat, sub.lng]}>
                         <Popup>
                           <div className="p-1 min-w-[150px]">
                             <h4 className="font-bold text-emerald-700 text-sm">{sub.crop}</h4>
-                            <p className="text-[10px] text-stone-500 mb-2">{sub.location}</p>
+                            <p className="text-[10px] text-stone-500 mb-2">{sub.region}</p>
                             <div className="space-y-1">
                               <div className="flex justify-between text-[10px]">
                                 <span className="text-stone-400">Risk:</span>
@@ -1708,19 +2129,20 @@ export default function App() {
                                 )}>{t[sub.riskLevel]}</span>
                               </div>
                               <div className="flex justify-between text-[10px]">
-                                <span className="text-stone-400">Date:</span>
-                                <span className="font-medium">{sub.date}</span>
+                                <span className="text-stone-400">Month:</span>
+                                <span className="font-medium">{sub.latestMonth}</span>
+                              </div>
+                              <div className="flex justify-between text-[10px]">
+                                <span className="text-stone-400">Reports:</span>
+                                <span className="font-medium">{sub.count}</span>
                               </div>
-                            </div>
-                            <div className="mt-2 pt-2 border-t border-stone-100">
-                              <span className="text-[9px] text-stone-300">{new Date(sub.timestamp).toLocaleString()}</span>
                             </div>
                           </div>
                         </Popup>
                       </Marker>
                       <Circle 
                         center={[sub.lat, sub.lng]}
-                        radius={20000}
+                        radius={20000 * Math.min(3, Math.sqrt(sub.count))}
                         pathOptions={{
                           fillColor: sub.riskLevel === 'high' ? '#ef4444' : sub.riskLevel === 'medium' ? '#f59e0b' : '#10b981',
                           color: sub.riskLevel === 'high' ? '#ef4444' : sub.riskLevel === 'medium' ? '#f59e0b' : '#10b981',
@@ -1746,92 +2168,11 @@ export default function App() {
               <div className="flex items-center justify-between">
                 <div>
                   <h2 className="text-2xl font-bold text-stone-100">{t.nasaScientistView}</h2>
-                  <p className="text-stone-400 text-sm">Advanced satellite data correlation and global trend analysis.</p>
-                </div>
-                <div className="flex items-center gap-2">
-                  <span className="flex items-center gap-1.5 px-3 py-1.5 bg-emerald-900/40 text-emerald-400 border border-emerald-800/30 rounded-lg text-xs font-bold">
-                    <Globe size={14} />
-                    LIVE SATELLITE FEED
-                  </span>
-                  <span className="flex items-center gap-1.5 px-3 py-1.5 bg-blue-900/40 text-blue-400 border border-blue-800/30 rounded-lg text-xs font-bold animate-pulse">
-                    <Zap size={14} />
-                    REAL-TIME VERIFIED
-                  </span>
+                  <p className="text-stone-400 text-sm">Stored predictions checked against the harvests farmers reported.</p>
                 </div>
               </div>
 
-              <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
-                <div className="md:col-span-2 bg-stone-900/40 backdrop-blur-md p-6 rounded-2xl border border-stone-800 shadow-xl">
-                  <h3 className="font-bold mb-6 flex items-center gap-2 text-stone-100">
-                    <BarChart3 size={20} className="text-emerald-400" />
-                    Global Mismatch Trends (2020-2026)
-                  </h3>
-                  <div className="h-[350px]">
-                    <ResponsiveContainer width="100%" height="100%">
-                      <LineChart data={[
-                        { year: '2020', mismatch: 4.2, temp: 1.1 },
-                        { year: '2021', mismatch: 5.1, temp: 1.2 },
-                        { year: '2022', mismatch: 7.4, temp: 1.3 },
-                        { year: '2023', mismatch: 8.9, temp: 1.5 },
-                        { year: '2024', mismatch: 11.2, temp: 1.6 },
-                        { year: '2025', mismatch: 13.5, temp: 1.8 },
-                        { year: '2026', mismatch: 15.8, temp: 2.0 },
-                      ]}>
-                        <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#292524" />
-                        <XAxis dataKey="year" axisLine={false} tickLine={false} tick={{ fill: '#78716c' }} />
-                        <YAxis axisLine={false} tickLine={false} tick={{ fill: '#78716c' }} />
-                        <Tooltip 
-                          contentStyle={{ backgroundColor: '#1c1917', border: '1px solid #44403c', color: '#e7e5e4' }}
-                        />
-                        <Legend />
-                        <Line type="monotone" dataKey="mismatch" stroke="#10b981" strokeWidth={3} name="Avg Mismatch (Days)" />
-                        <Line type="monotone" dataKey="temp" stroke="#ef4444" strokeWidth={3} name="Global Temp Anomaly (°C)" />
-                      </LineChart>
-                    </ResponsiveContainer>
-                  </div>
-                </div>
-
-                <div className="space-y-6">
-                  <div className="bg-stone-900/40 backdrop-blur-md p-6 rounded-2xl border border-stone-800 shadow-xl">
-                    <h3 className="font-bold mb-4 text-sm uppercase tracking-wider text-stone-500">Critical Regions</h3>
-                    <div className="space-y-4">
-                      {[
-                        { region: 'South Asia', risk: 'High', trend: 'Increasing' },
-                        { region: 'Sub-Saharan Africa', risk: 'High', trend: 'Stable' },
-                        { region: 'Mediterranean', risk: 'Medium', trend: 'Increasing' },
-                        { region: 'Central America', risk: 'High', trend: 'Increasing' },
-                      ].map((item, i) => (
-                        <div key={i} className="flex items-center justify-between p-3 bg-stone-950/40 rounded-xl border border-stone-800/50">
-                          <div>
-                            <p className="font-bold text-sm text-stone-200">{item.region}</p>
-                            <p className="text-[10px] text-stone-500 uppercase tracking-tighter">{item.trend}</p>
-                          </div>
-                          <span className={cn(
-                            "px-2 py-1 rounded-md text-[10px] font-bold",
-                            item.risk === 'High' ? "bg-red-900/40 text-red-400 border border-red-800/30" : "bg-yellow-900/40 text-yellow-400 border border-yellow-800/30"
-                          )}>
-                            {item.risk}
-                          </span>
-                        </div>
-                      ))}
-                    </div>
-                  </div>
-
-                  <div className="bg-emerald-900/40 backdrop-blur-md text-white p-6 rounded-2xl border border-emerald-800/30 shadow-xl relative overflow-hidden">
-                    <div className="relative z-10">
-                      <h3 className="font-bold mb-2 text-emerald-300">Satellite Status</h3>
-                      <div className="flex items-center gap-2 mb-4">
-                        <div className="w-2 h-2 bg-emerald-400 rounded-full animate-pulse" />
-                        <span className="text-xs font-medium opacity-80">Terra & Aqua (MODIS) Online</span>
-                      </div>
-                      <p className="text-xs opacity-70 leading-relaxed">
-                        Processing 4.2TB of spectral data per hour. Resolution: 250m.
-                      </p>
-                    </div>
-                    <Globe size={120} className="absolute -bottom-10 -right-10 opacity-10" />
-                  </div>
-                </div>
-              </div>
+              <ScientistAccuracyPanel />
             </motion.div>
           )}
         </AnimatePresence>
@@ -0,0 +1,214 @@
+import React, { useState } from 'react';
+import {
+  AreaChart,
+  Area,
+  BarChart,
+  Bar,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer,
+  Legend,
+} from 'recharts';
+import type { AdminStats } from '../schemas';
+
+const RISK_COLORS = { high: '#ef4444', medium: '#f59e0b', low: '#10b981' };
+const TOOLTIP_STYLE = { backgroundColor: '#1c1917', border: '1px solid #44403c' };
+const AXIS_TICK = { fill: '#78716c', fontSize: 11 };
+const TOP_ROWS = 10;
+
+function formatAverage(value: number | null, suffix = '') {
+  return value === null ? '—' : `${Math.round(value * 10) / 10}${suffix}`;
+}
+
+function formatShare(value: number | null) {
+  return value === null ? '—' : `${Math.round(value * 100)}%`;
+}
+
+const RISK_SERIES = [
+  { key: 'low', name: 'Low' },
+  { key: 'medium', name: 'Medium' },
+  { key: 'high', name: 'High' },
+] as const;
+
+/**
+ * Time series, regional, crop × risk, decision and prompt version breakdowns
+ * for the admin dashboard, drawn from `GET /api/admin/stats`.
+ */
+export default function AdminStatsBreakdown({ stats }: { stats: AdminStats }) {
+  const [groupBy, setGroupBy] = useState<'region' | 'location'>('region');
+  const places = (groupBy === 'region'
+    ? stats.byRegion.map(({ region, ...counts }) => ({ name: region, ...counts }))
+    : stats.byLocation.map(({ location, ...counts }) => ({ name: location, ...counts }))
+  ).slice(0, TOP_ROWS);
+  const crops = stats.cropRisk.slice(0, TOP_ROWS);
+  const choiceShares = stats.choiceByRisk.map(row => ({
+    name: row.riskLevel.charAt(0).toUpperCase() + row.riskLevel.slice(1),
+    A: row.shareA === null ? 0 : Math.round(row.shareA * 100),
+    B: row.shareB === null ? 0 : Math.round(row.shareB * 100),
+  }));
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-4 gap-6">
+      {[
+        { label: 'Avg. Risk Score', value: formatAverage(stats.averages.riskScore) },
+        { label: 'Avg. Mismatch', value: formatAverage(stats.averages.mismatchDays, ' days') },
+        { label: 'Avg. Yield Risk', value: formatAverage(stats.averages.yieldRiskPercentage, '%') },
+        { label: 'Analysed Submissions', value: String(stats.averages.analysed) },
+      ].map(card => (
+        <div key={card.label} className="bg-stone-900/40 backdrop-blur-md p-6 rounded-2xl border border-stone-800 shadow-xl">
+          <p className="text-xs font-bold text-stone-500 uppercase mb-2">{card.label}</p>
+          <p className="text-3xl font-bold text-stone-100">{card.value}</p>
+        </div>
+      ))}
+
+      <div className="lg:col-span-4 bg-stone-900/40 backdrop-blur-md p-6 rounded-2xl border border-stone-800 shadow-xl">
+        <h3 className="font-bold mb-6 text-stone-100">Submissions Over Time</h3>
+        <div className="h-[250px]">
+          {stats.timeSeries.length === 0 ? (
+            <p className="text-stone-500 text-sm">No submissions in this range.</p>
+          ) : (
+            <ResponsiveContainer width="100%" height="100%">
+              <AreaChart data={stats.timeSeries}>
+                <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#292524" />
+                <XAxis dataKey="period" axisLine={false} tickLine={false} tick={AXIS_TICK} />
+                <YAxis allowDecimals={false} axisLine={false} tickLine={false} tick={AXIS_TICK} />
+                <Tooltip contentStyle={TOOLTIP_STYLE} />
+                <Legend />
+                {RISK_SERIES.map(risk => (
+                  <Area key={risk.key} type="monotone" dataKey={risk.key} name={risk.name} stackId="risk" stroke={RISK_COLORS[risk.key]} fill={RISK_COLORS[risk.key]} fillOpacity={0.3} />
+                ))}
+              </AreaChart>
+            </ResponsiveContainer>
+          )}
+        </div>
+      </div>
+
+      <div className="lg:col-span-2 bg-stone-900/40 backdrop-blur-md p-6 rounded-2xl border border-stone-800 shadow-xl">
+        <div className="flex items-center justify-between mb-6">
+          <h3 className="font-bold text-stone-100">Risk by {groupBy === 'region' ? 'Region' : 'Location'}</h3>
+          <div className="flex bg-stone-950/40 rounded-lg p-0.5 border border-stone-800">
+            {(['region', 'location'] as const).map(option => (
+              <button
+                key={option}
+                onClick={() => setGroupBy(option)}
+                className={`px-2 py-1 rounded-md text-[10px] font-bold uppercase transition-all ${groupBy === option ? 'bg-emerald-600 text-white' : 'text-stone-500 hover:text-stone-300'}`}
+              >
+                {option}
+              </button>
+            ))}
+          </div>
+        </div>
+        <div className="h-[300px]">
+          <ResponsiveContainer width="100%" height="100%">
+            <BarChart data={places} layout="vertical" margin={{ left: 20 }}>
+              <CartesianGrid strokeDasharray="3 3" horizontal={false} stroke="#292524" />
+              <XAxis type="number" allowDecimals={false} axisLine={false} tickLine={false} tick={AXIS_TICK} />
+              <YAxis type="category" dataKey="name" width={110} axisLine={false} tickLine={false} tick={AXIS_TICK} />
+              <Tooltip cursor={{ fill: 'transparent' }} contentStyle={TOOLTIP_STYLE} />
+              {RISK_SERIES.map(risk => (
+                <Bar key={risk.key} dataKey={risk.key} name={risk.name} stackId="risk" fill={RISK_COLORS[risk.key]} />
+              ))}
+            </BarChart>
+          </ResponsiveContainer>
+        </div>
+      </div>
+
+      <div className="lg:col-span-2 bg-stone-900/40 backdrop-blur-md p-6 rounded-2xl border border-stone-800 shadow-xl">
+        <h3 className="font-bold mb-6 text-stone-100">Crop × Risk Level</h3>
+        <div className="h-[300px]">
+          <ResponsiveContainer width="100%" height="100%">
+            <BarChart data={crops}>
+              <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#292524" />
+              <XAxis dataKey="crop" axisLine={false} tickLine={false} tick={AXIS_TICK} />
+              <YAxis allowDecimals={false} axisLine={false} tickLine={false} tick={AXIS_TICK} />
+              <Tooltip cursor={{ fill: 'transparent' }} contentStyle={TOOLTIP_STYLE} />
+              <Legend />
+              {RISK_SERIES.map(risk => (
+                <Bar key={risk.key} dataKey={risk.key} name={risk.name} stackId="risk" fill={RISK_COLORS[risk.key]} />
+              ))}
+            </BarChart>
+          </ResponsiveContainer>
+        </div>
+      </div>
+
+      <div className="lg:col-span-4 bg-stone-900/40 backdrop-blur-md p-6 rounded-2xl border border-stone-800 shadow-xl">
+        <h3 className="font-bold mb-1 text-stone-100">Decisions by Risk Level</h3>
+        <p className="text-xs text-stone-500 mb-6">Share of farmers who chose Option A (change crop) or Option B (continue), among those who decided.</p>
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-6 items-center">
+          <div className="md:col-span-2 h-[200px]">
+            <ResponsiveContainer width="100%" height="100%">
+              <BarChart data={choiceShares} layout="vertical">
+                <CartesianGrid strokeDasharray="3 3" horizontal={false} stroke="#292524" />
+                <XAxis type="number" domain={[0, 100]} unit="%" axisLine={false} tickLine={false} tick={AXIS_TICK} />
+                <YAxis type="category" dataKey="name" axisLine={false} tickLine={false} tick={AXIS_TICK} />
+                <Tooltip cursor={{ fill: 'transparent' }} contentStyle={TOOLTIP_STYLE} formatter={(value) => `${value}%`} />
+                <Legend />
+                <Bar dataKey="A" name="Option A" stackId="choice" fill="#3b82f6" />
+                <Bar dataKey="B" name="Option B" stackId="choice" fill="#10b981" />
+              </BarChart>
+            </ResponsiveContainer>
+          </div>
+          <table className="w-full text-xs">
+            <thead>
+              <tr className="text-stone-500 uppercase text-left">
+                <th className="py-1">Risk</th>
+                <th className="py-1">A</th>
+                <th className="py-1">B</th>
+                <th className="py-1">Undecided</th>
+              </tr>
+            </thead>
+            <tbody className="text-stone-300">
+              {stats.choiceByRisk.map(row => (
+                <tr key={row.riskLevel} className="border-t border-stone-800">
+                  <td className="py-1.5 font-bold capitalize" style={{ color: RISK_COLORS[row.riskLevel] }}>{row.riskLevel}</td>
+                  <td className="py-1.5">{row.A} ({formatShare(row.shareA)})</td>
+                  <td className="py-1.5">{row.B} ({formatShare(row.shareB)})</td>
+                  <td className="py-1.5">{row.none}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      <div className="lg:col-span-4 bg-stone-900/40 backdrop-blur-md p-6 rounded-2xl border border-stone-800 shadow-xl">
+        <h3 className="font-bold mb-1 text-stone-100">Prompt Versions</h3>
+        <p className="text-xs text-stone-500 mb-6">Submissions by the analysis prompt and model that produced them. Error compares predicted with reported yield loss.</p>
+        <div className="overflow-x-auto">
+          <table className="w-full text-left text-xs">
+            <thead>
+              <tr className="text-stone-500 uppercase tracking-wider border-b border-stone-800">
+                <th className="py-2 pr-4 font-bold">Prompt</th>
+                <th className="py-2 pr-4 font-bold">Model</th>
+                <th className="py-2 pr-4 font-bold">Submissions</th>
+                <th className="py-2 pr-4 font-bold">High risk</th>
+                <th className="py-2 pr-4 font-bold">Avg. Risk Score</th>
+                <th className="py-2 pr-4 font-bold">Avg. Yield Risk</th>
+                <th className="py-2 pr-4 font-bold">Decided</th>
+                <th className="py-2 pr-4 font-bold">Harvests</th>
+                <th className="py-2 font-bold">Mean Abs. Error</th>
+              </tr>
+            </thead>
+            <tbody>
+              {stats.byPrompt.map(row => (
+                <tr key={`${row.promptVersion}-${row.model}`} className="border-b border-stone-800/50 text-stone-300">
+                  <td className="py-2 pr-4 font-bold text-stone-200">{row.promptVersion === null ? 'Unrecorded' : `v${row.promptVersion}`}</td>
+                  <td className="py-2 pr-4 font-mono text-stone-400">{row.model ?? '—'}</td>
+                  <td className="py-2 pr-4">{row.total}</td>
+                  <td className="py-2 pr-4" style={{ color: RISK_COLORS.high }}>{row.high} ({formatShare(row.total ? row.high / row.total : null)})</td>
+                  <td className="py-2 pr-4">{formatAverage(row.riskScore)}</td>
+                  <td className="py-2 pr-4">{formatAverage(row.yieldRiskPercentage, '%')}</td>
+                  <td className="py-2 pr-4">{row.decided} ({formatShare(row.total ? row.decided / row.total : null)})</td>
+                  <td className="py-2 pr-4">{row.outcomes}</td>
+                  <td className="py-2">{formatAverage(row.meanAbsoluteError, ' pts')}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+}
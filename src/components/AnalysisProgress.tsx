@@ -0,0 +1,64 @@
+import React from 'react';
+import { CheckCircle2, Loader2, Square } from 'lucide-react';
+import { ANALYSIS_STAGES } from '../schemas';
+import type { AnalysisStage } from '../schemas';
+
+const STAGE_LABELS: Record<AnalysisStage, string> = {
+  searching_weather: 'Searching weather and local reports',
+  assessing_bloom: 'Assessing bloom and pollinator timing',
+  drafting_advice: 'Drafting advice',
+  checking_results: 'Checking the results',
+  saving: 'Saving to History',
+};
+
+/**
+ * Shows how far a running analysis has got, with the advice as the model
+ * writes it, and lets the farmer cancel.
+ */
+export default function AnalysisProgress({ title, stage, draft, onCancel }: {
+  title: string;
+  stage: AnalysisStage | null;
+  draft: string;
+  onCancel: () => void;
+}) {
+  const current = stage ? ANALYSIS_STAGES.indexOf(stage) : -1;
+
+  return (
+    <div className="h-full min-h-[400px] flex flex-col items-center justify-center p-12 bg-stone-900/40 backdrop-blur-md rounded-2xl border border-stone-800">
+      <Loader2 size={48} className="text-emerald-500 animate-spin mb-4" />
+      <h3 className="text-xl font-bold text-stone-100">{title}</h3>
+
+      <ol className="mt-6 space-y-2 text-sm">
+        {ANALYSIS_STAGES.map((name, index) => (
+          <li
+            key={name}
+            className={`flex items-center gap-2 ${index < current ? 'text-emerald-400' : index === current ? 'text-stone-100 font-bold' : 'text-stone-600'}`}
+          >
+            {index < current
+              ? <CheckCircle2 size={16} />
+              : index === current
+                ? <Loader2 size={16} className="animate-spin" />
+                : <span className="w-4 h-4 rounded-full border border-stone-700" />}
+            {STAGE_LABELS[name]}
+          </li>
+        ))}
+      </ol>
+
+      {draft && (
+        <p className="mt-6 max-w-xl text-sm text-stone-300 leading-relaxed bg-stone-950/40 p-4 rounded-xl border border-stone-800">
+          {draft}
+          <span className="inline-block w-1.5 h-4 ml-0.5 align-middle bg-emerald-500 animate-pulse" />
+        </p>
+      )}
+
+      <button
+        type="button"
+        onClick={onCancel}
+        className="mt-6 flex items-center gap-2 text-xs font-bold uppercase tracking-wider text-stone-400 hover:text-red-400 border border-stone-700 hover:border-red-500/40 px-4 py-2 rounded-xl transition-all"
+      >
+        <Square size={12} />
+        Cancel
+      </button>
+    </div>
+  );
+}
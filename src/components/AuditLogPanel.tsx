@@ -0,0 +1,138 @@
+import React, { useEffect, useState } from 'react';
+import { History, Loader2 } from 'lucide-react';
+import { api, unwrap } from '../services/apiService';
+import type { AuditEntry } from '../schemas';
+import type { paths } from '../services/apiTypes';
+
+const AUDIT_PAGE_SIZE = 50;
+
+type AuditAction = paths['/api/admin/audit']['get']['parameters']['query']['action'][number];
+
+const ACTION_LABELS: Record<AuditAction, string> = {
+  'submission.delete': 'Deleted',
+  'submission.clear': 'Cleared history',
+  'submission.restore': 'Restored',
+  'submission.purge': 'Purged trash',
+  'submission.choice': 'Changed choice',
+  'submission.outcome': 'Reported harvest',
+  'cache.invalidate': 'Invalidated cache',
+  'backup.create': 'Took backup',
+  'backup.restore': 'Restored backup',
+  'webhook.create': 'Added webhook',
+  'webhook.update': 'Changed webhook',
+  'webhook.delete': 'Removed webhook',
+  'tenant.create': 'Added tenant',
+  'tenant.update': 'Renamed tenant',
+  'tenant.delete': 'Removed tenant',
+  'prompt.version': 'Added prompt version',
+  'prompt.rollout': 'Changed prompt rollout',
+};
+
+function describe(details: Record<string, any> | null) {
+  if (!details) return '';
+  if ('from' in details) return `${details.from ?? 'none'} → ${details.to ?? 'none'}`;
+  if ('key' in details) return details.key;
+  if ('yieldChangePercent' in details) return `${details.yieldChangePercent > 0 ? '+' : ''}${details.yieldChangePercent}% yield, followed ${details.followedOption}`;
+  if ('restored' in details) return `${details.restored} submissions (${details.migrated} migrated)`;
+  if ('count' in details) return `${details.count} ${details.filter ? 'cache entries' : 'submissions'}`;
+  if ('version' in details) return `${details.prompt} v${details.version}${details.notes ? `: ${details.notes}` : ''}`;
+  if ('slug' in details) return `${details.name} (${details.slug})`;
+  if ('crop' in details) return `${details.crop}, ${details.location} (${details.date})`;
+  return JSON.stringify(details);
+}
+
+/** Admin view of the audit log, newest first, optionally narrowed to one action. */
+export default function AuditLogPanel() {
+  const [entries, setEntries] = useState<AuditEntry[]>([]);
+  const [cursor, setCursor] = useState<string | null>(null);
+  const [action, setAction] = useState<AuditAction | 'all'>('all');
+  const [loading, setLoading] = useState(false);
+
+  const load = async (after?: string) => {
+    setLoading(true);
+    try {
+      const data = await unwrap(api.GET('/api/admin/audit', {
+        params: {
+          query: {
+            limit: AUDIT_PAGE_SIZE,
+            action: action !== 'all' ? [action] : undefined,
+            cursor: after,
+          }
+        }
+      }));
+      setEntries(prev => after ? [...prev, ...data.items] : data.items);
+      setCursor(data.nextCursor);
+    } catch (error: any) {
+      console.error("Failed to load audit log:", error.message || error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    load();
+  }, [action]);
+
+  return (
+    <div className="bg-stone-900/40 backdrop-blur-md p-6 rounded-2xl border border-stone-800 shadow-xl">
+      <div className="flex items-center justify-between mb-6">
+        <h3 className="font-bold text-stone-100 flex items-center gap-2">
+          <History size={18} className="text-emerald-400" />
+          Audit Log
+        </h3>
+        <select
+          value={action}
+          onChange={(e) => setAction(e.target.value as AuditAction | 'all')}
+          className="bg-stone-900/60 border border-stone-700 text-stone-300 rounded-xl px-2 py-1.5 text-xs font-bold outline-none"
+        >
+          <option value="all" className="bg-stone-900">All actions</option>
+          {Object.entries(ACTION_LABELS).map(([value, label]) => (
+            <option key={value} value={value} className="bg-stone-900">{label}</option>
+          ))}
+        </select>
+      </div>
+
+      {entries.length === 0 && !loading ? (
+        <p className="text-stone-500 text-sm text-center py-8">No audit entries yet.</p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full text-left text-xs">
+            <thead>
+              <tr className="text-stone-500 uppercase tracking-wider border-b border-stone-800">
+                <th className="py-2 pr-4 font-bold">When</th>
+                <th className="py-2 pr-4 font-bold">Who</th>
+                <th className="py-2 pr-4 font-bold">Action</th>
+                <th className="py-2 pr-4 font-bold">Record</th>
+                <th className="py-2 font-bold">Details</th>
+              </tr>
+            </thead>
+            <tbody>
+              {entries.map((entry) => (
+                <tr key={entry.id} className="border-b border-stone-800/50 text-stone-300">
+                  <td className="py-2 pr-4 whitespace-nowrap text-stone-500">{new Date(entry.timestamp).toLocaleString()}</td>
+                  <td className="py-2 pr-4">{entry.actorUsername ?? 'system'}</td>
+                  <td className="py-2 pr-4">{ACTION_LABELS[entry.action] ?? entry.action}</td>
+                  <td className="py-2 pr-4 font-mono text-stone-500">{entry.entityId ?? '—'}</td>
+                  <td className="py-2">{describe(entry.details)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {(loading || cursor) && (
+        <div className="flex justify-center mt-4">
+          <button
+            onClick={() => cursor && load(cursor)}
+            disabled={loading}
+            className="flex items-center gap-2 px-6 py-2 bg-stone-900/40 rounded-xl border border-stone-800 text-stone-400 hover:text-emerald-400 transition-all text-sm font-bold disabled:opacity-50"
+          >
+            {loading && <Loader2 size={16} className="animate-spin" />}
+            Load More
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,145 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { AlertTriangle, CheckCircle2, Download, FileSpreadsheet, Loader2, Upload } from 'lucide-react';
+import { api, apiFetch, downloadFile, unwrap } from '../services/apiService';
+import type { Batch } from '../schemas';
+
+const POLL_INTERVAL_MS = 3000;
+
+/**
+ * Uploads a CSV or XLSX sheet of crop, location and date rows for the server
+ * to analyse in the background, and tracks the caller's batches until they finish.
+ */
+export default function BatchImportPanel({ language, onBatchFinished }: { language: string; onBatchFinished: () => void }) {
+  const [batches, setBatches] = useState<Batch[]>([]);
+  const [file, setFile] = useState<File | null>(null);
+  const [uploading, setUploading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const inputRef = useRef<HTMLInputElement>(null);
+  const runningRef = useRef<Set<string>>(new Set());
+
+  const fetchBatches = async () => {
+    try {
+      const data = await unwrap(api.GET('/api/batches'));
+      // Refresh the history as soon as a batch we were watching finishes
+      const finished = data.some(b => b.status === 'completed' && runningRef.current.has(b.id));
+      runningRef.current = new Set(data.filter(b => b.status === 'running').map(b => b.id));
+      setBatches(data);
+      if (finished) onBatchFinished();
+    } catch (err: any) {
+      console.error("Failed to load batches:", err.message || err);
+    }
+  };
+
+  useEffect(() => {
+    fetchBatches();
+  }, []);
+
+  const hasRunning = batches.some(b => b.status === 'running');
+  useEffect(() => {
+    if (!hasRunning) return;
+    const interval = setInterval(fetchBatches, POLL_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [hasRunning]);
+
+  const handleUpload = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!file) return;
+    setUploading(true);
+    setError(null);
+    try {
+      const query = new URLSearchParams({ filename: file.name, language });
+      const response = await apiFetch(`/api/batches?${query}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/octet-stream' },
+        body: file,
+      });
+      const data = await response.json().catch(() => ({}));
+      if (!response.ok) throw new Error(data.error || `HTTP error! status: ${response.status}`);
+      setFile(null);
+      if (inputRef.current) inputRef.current.value = '';
+      await fetchBatches();
+    } catch (err: any) {
+      setError(err.message || "Upload failed");
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  return (
+    <div className="bg-stone-900/40 backdrop-blur-md p-6 rounded-2xl border border-stone-800 shadow-xl">
+      <h2 className="text-lg font-semibold flex items-center gap-2 text-stone-100 mb-1">
+        <FileSpreadsheet size={20} className="text-emerald-400" />
+        Bulk Import
+      </h2>
+      <p className="text-xs text-stone-500 mb-4">
+        Upload a CSV or XLSX file with <span className="font-mono">crop</span>, <span className="font-mono">location</span> and <span className="font-mono">date</span> columns. Every row is analysed and saved to your history.
+      </p>
+
+      <form onSubmit={handleUpload} className="space-y-3">
+        {error && (
+          <div className="p-3 bg-red-500/10 border border-red-500/20 rounded-xl text-red-400 text-xs font-medium flex items-center gap-2">
+            <AlertTriangle size={14} />
+            {error}
+          </div>
+        )}
+        <input
+          ref={inputRef}
+          type="file"
+          accept=".csv,.xlsx"
+          onChange={(e) => setFile(e.target.files?.[0] ?? null)}
+          className="w-full text-xs text-stone-400 file:mr-3 file:px-3 file:py-2 file:rounded-lg file:border-0 file:bg-stone-800 file:text-stone-300 file:font-bold"
+        />
+        <button
+          type="submit"
+          disabled={!file || uploading}
+          className="w-full bg-emerald-600 text-white py-2.5 rounded-xl text-sm font-bold hover:bg-emerald-700 transition-all disabled:opacity-50 flex items-center justify-center gap-2"
+        >
+          {uploading ? <Loader2 size={16} className="animate-spin" /> : <Upload size={16} />}
+          Start Batch
+        </button>
+      </form>
+
+      {batches.length > 0 && (
+        <div className="mt-6 space-y-3">
+          {batches.slice(0, 5).map((batch) => {
+            const finished = batch.counts.done + batch.counts.failed;
+            return (
+              <div key={batch.id} className="p-3 bg-stone-950/40 rounded-xl border border-stone-800">
+                <div className="flex items-center justify-between text-xs mb-2">
+                  <span className="font-bold text-stone-300 truncate mr-2">{batch.filename}</span>
+                  {batch.status === 'running' ? (
+                    <span className="flex items-center gap-1 text-emerald-400 font-bold">
+                      <Loader2 size={12} className="animate-spin" />
+                      {finished}/{batch.total}
+                    </span>
+                  ) : (
+                    <span className="flex items-center gap-1 text-stone-400 font-bold">
+                      <CheckCircle2 size={12} className="text-emerald-400" />
+                      {batch.counts.done} done{batch.counts.failed > 0 && `, ${batch.counts.failed} failed`}
+                    </span>
+                  )}
+                </div>
+                <div className="h-1.5 bg-stone-800 rounded-full overflow-hidden flex">
+                  <div className="h-full bg-emerald-500" style={{ width: `${(batch.counts.done / batch.total) * 100}%` }} />
+                  <div className="h-full bg-red-500" style={{ width: `${(batch.counts.failed / batch.total) * 100}%` }} />
+                </div>
+                <div className="flex gap-2 mt-2">
+                  {(['csv', 'xlsx'] as const).map((format) => (
+                    <button
+                      key={format}
+                      onClick={() => downloadFile(`/api/batches/${batch.id}/results?format=${format}`).catch(err => console.error("Download failed", err))}
+                      className="flex items-center gap-1 text-[10px] font-bold uppercase text-stone-500 hover:text-emerald-400 transition-colors"
+                    >
+                      <Download size={10} />
+                      {format}
+                    </button>
+                  ))}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
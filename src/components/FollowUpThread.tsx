@@ -0,0 +1,60 @@
+import React from 'react';
+import { Volume2, VolumeX } from 'lucide-react';
+import { motion, AnimatePresence } from 'motion/react';
+import type { FollowUpMessage } from '../schemas';
+
+const FARMER_CLASS = "ml-8 bg-emerald-500/10 border-emerald-500/20 text-emerald-100";
+const ASSISTANT_CLASS = "mr-8 bg-stone-900/30 border-stone-800/50 text-stone-300";
+
+/**
+ * The farmer's follow-up conversation about one analysis, oldest message
+ * first. Answers can be read aloud. `pending` is a question still being
+ * answered, with as much of the answer as has arrived.
+ */
+export default function FollowUpThread({ messages, pending, speaking, onSpeak }: {
+  messages: FollowUpMessage[];
+  pending: { question: string; answer: string } | null;
+  speaking: boolean;
+  onSpeak: (text: string) => void;
+}) {
+  return (
+    <div className="space-y-3 max-h-96 overflow-y-auto pr-1">
+      <AnimatePresence initial={false}>
+        {messages.map(message => (
+          <motion.div
+            key={message.id}
+            initial={{ opacity: 0, y: 10 }}
+            animate={{ opacity: 1, y: 0 }}
+            className={`p-4 rounded-xl border text-sm leading-relaxed ${message.role === 'farmer' ? FARMER_CLASS : ASSISTANT_CLASS}`}
+          >
+            {message.role === 'farmer' ? message.content : (
+              <div className="flex justify-between items-start">
+                <div className="flex-1 whitespace-pre-line">
+                  {message.content}
+                </div>
+                <button
+                  onClick={() => onSpeak(message.content)}
+                  className={`p-2 rounded-full transition-all ml-2 ${
+                    speaking ? "bg-red-500/20 text-red-400" : "bg-stone-800/40 text-stone-400 hover:bg-emerald-500/20 hover:text-emerald-400"
+                  }`}
+                  title={speaking ? "Stop Speaking" : "Listen to Answer"}
+                >
+                  {speaking ? <VolumeX size={16} className="animate-pulse" /> : <Volume2 size={16} />}
+                </button>
+              </div>
+            )}
+          </motion.div>
+        ))}
+      </AnimatePresence>
+      {pending && (
+        <>
+          <div className={`p-4 rounded-xl border text-sm leading-relaxed ${FARMER_CLASS}`}>{pending.question}</div>
+          <div className={`p-4 rounded-xl border text-sm leading-relaxed whitespace-pre-line ${ASSISTANT_CLASS}`}>
+            {pending.answer}
+            <span className="inline-block w-1.5 h-4 ml-0.5 align-middle bg-emerald-500 animate-pulse" />
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
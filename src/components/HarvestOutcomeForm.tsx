@@ -0,0 +1,123 @@
+import React, { useState } from 'react';
+import { Loader2, Sprout } from 'lucide-react';
+import { api, unwrap } from '../services/apiService';
+import { SubmissionSchema } from '../schemas';
+import type { OutcomeInput, Submission } from '../schemas';
+
+const FOLLOWED_OPTIONS: { value: OutcomeInput['followedOption']; label: string }[] = [
+  { value: 'A', label: 'Option A – changed crop' },
+  { value: 'B', label: 'Option B – same crop' },
+  { value: 'none', label: 'Neither' },
+];
+
+const INPUT_CLASS = 'w-full bg-stone-900/60 border border-stone-700 text-stone-200 rounded-lg px-2 py-1.5 text-xs outline-none focus:border-emerald-500';
+const LABEL_CLASS = 'block text-[10px] font-bold uppercase tracking-wider text-stone-500 mb-1';
+
+/**
+ * Lets the farmer report what happened at harvest for one of their
+ * submissions, so predictions can be checked against reality.
+ */
+export default function HarvestOutcomeForm({ submission, onSaved, onCancel }: {
+  submission: Submission;
+  onSaved: (submission: Submission) => void;
+  onCancel: () => void;
+}) {
+  const previous = submission.outcome;
+  const [harvestDate, setHarvestDate] = useState(previous?.harvestDate ?? new Date().toISOString().split('T')[0]);
+  const [yieldChange, setYieldChange] = useState(previous ? String(previous.yieldChangePercent) : '');
+  const [quantity, setQuantity] = useState(previous?.harvestQuantity != null ? String(previous.harvestQuantity) : '');
+  const [unit, setUnit] = useState(previous?.harvestUnit ?? '');
+  const [floweringDate, setFloweringDate] = useState(previous?.floweringDate ?? '');
+  const [followedOption, setFollowedOption] = useState<OutcomeInput['followedOption']>(previous?.followedOption ?? submission.choice ?? 'none');
+  const [notes, setNotes] = useState(previous?.notes ?? '');
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const save = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    setError(null);
+    try {
+      const updated = await unwrap(api.PUT('/api/submissions/{id}/outcome', {
+        params: { path: { id: submission.id } },
+        body: {
+          harvestDate,
+          yieldChangePercent: Number(yieldChange),
+          harvestQuantity: quantity ? Number(quantity) : null,
+          harvestUnit: unit.trim() || null,
+          floweringDate: floweringDate || null,
+          followedOption,
+          notes,
+        },
+      }));
+      onSaved(SubmissionSchema.parse(updated));
+    } catch (error: any) {
+      setError(error.message || String(error));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <form onSubmit={save} className="mt-3 space-y-3 border-t border-stone-800 pt-3">
+      <div className="grid grid-cols-2 gap-2">
+        <div>
+          <label className={LABEL_CLASS}>Harvest date</label>
+          <input type="date" required value={harvestDate} onChange={(e) => setHarvestDate(e.target.value)} className={INPUT_CLASS} />
+        </div>
+        <div>
+          <label className={LABEL_CLASS}>Yield change %</label>
+          <input
+            type="number"
+            required
+            min={-100}
+            max={1000}
+            step="any"
+            value={yieldChange}
+            onChange={(e) => setYieldChange(e.target.value)}
+            placeholder="-20 = 20% less"
+            className={INPUT_CLASS}
+          />
+        </div>
+        <div>
+          <label className={LABEL_CLASS}>Harvested</label>
+          <input type="number" min={0} step="any" value={quantity} onChange={(e) => setQuantity(e.target.value)} placeholder="Optional" className={INPUT_CLASS} />
+        </div>
+        <div>
+          <label className={LABEL_CLASS}>Unit</label>
+          <input value={unit} onChange={(e) => setUnit(e.target.value)} placeholder="quintal/acre" className={INPUT_CLASS} />
+        </div>
+        <div className="col-span-2">
+          <label className={LABEL_CLASS}>Flowering actually started</label>
+          <input type="date" value={floweringDate} onChange={(e) => setFloweringDate(e.target.value)} className={INPUT_CLASS} />
+        </div>
+        <div className="col-span-2">
+          <label className={LABEL_CLASS}>What did you do?</label>
+          <select value={followedOption} onChange={(e) => setFollowedOption(e.target.value as OutcomeInput['followedOption'])} className={INPUT_CLASS}>
+            {FOLLOWED_OPTIONS.map(option => (
+              <option key={option.value} value={option.value} className="bg-stone-900">{option.label}</option>
+            ))}
+          </select>
+        </div>
+        <div className="col-span-2">
+          <label className={LABEL_CLASS}>Notes</label>
+          <textarea value={notes} onChange={(e) => setNotes(e.target.value)} rows={2} maxLength={1000} className={INPUT_CLASS} />
+        </div>
+      </div>
+      {error && <p className="text-red-400 text-xs">{error}</p>}
+      <div className="flex gap-2">
+        <button
+          type="submit"
+          disabled={saving}
+          className="flex-1 flex items-center justify-center gap-2 py-2 bg-emerald-600 hover:bg-emerald-500 text-white rounded-xl text-xs font-bold disabled:opacity-50"
+        >
+          {saving ? <Loader2 size={14} className="animate-spin" /> : <Sprout size={14} />}
+          Save Outcome
+        </button>
+        <button type="button" onClick={onCancel} className="px-4 py-2 text-stone-400 hover:text-stone-200 text-xs font-bold">
+          Cancel
+        </button>
+      </div>
+    </form>
+  );
+}
@@ -0,0 +1,103 @@
+import React, { useState } from 'react';
+import { Sprout, Loader2, AlertTriangle } from 'lucide-react';
+import { motion } from 'motion/react';
+import { login, register } from '../services/apiService';
+import type { AuthUser } from '../constants';
+
+export default function LoginScreen({ onLogin, onBack }: { onLogin: (user: AuthUser) => void; onBack: () => void }) {
+  const [mode, setMode] = useState<'login' | 'register'>('login');
+  const [username, setUsername] = useState('');
+  const [password, setPassword] = useState('');
+  const [organisation, setOrganisation] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSubmitting(true);
+    setError(null);
+    try {
+      const user = mode === 'login' ? await login(username, password) : await register(username, password, organisation.trim());
+      onLogin(user);
+    } catch (err: any) {
+      setError(err.message || "Sign in failed");
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center px-4">
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        className="w-full max-w-sm bg-stone-900/60 backdrop-blur-md p-8 rounded-2xl border border-stone-800 shadow-xl"
+      >
+        <div className="flex items-center gap-2 mb-6 cursor-pointer" onClick={onBack}>
+          <div className="w-10 h-10 bg-emerald-600 rounded-xl flex items-center justify-center text-white shadow-lg shadow-emerald-900/20">
+            <Sprout size={24} />
+          </div>
+          <h1 className="font-bold text-xl tracking-tight text-stone-100">BloomSync</h1>
+        </div>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          {error && (
+            <div className="p-3 bg-red-500/10 border border-red-500/20 rounded-xl text-red-400 text-xs font-medium flex items-center gap-2">
+              <AlertTriangle size={14} />
+              {error}
+            </div>
+          )}
+          <div>
+            <label className="block text-xs font-bold uppercase tracking-wider text-stone-500 mb-1.5">Username</label>
+            <input
+              type="text"
+              value={username}
+              onChange={(e) => setUsername(e.target.value)}
+              autoComplete="username"
+              className="w-full px-4 py-2.5 rounded-xl bg-stone-950/40 border border-stone-800 text-stone-100 focus:ring-2 focus:ring-emerald-500 focus:border-transparent outline-none transition-all"
+              required
+            />
+          </div>
+          <div>
+            <label className="block text-xs font-bold uppercase tracking-wider text-stone-500 mb-1.5">Password</label>
+            <input
+              type="password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              autoComplete={mode === 'login' ? "current-password" : "new-password"}
+              className="w-full px-4 py-2.5 rounded-xl bg-stone-950/40 border border-stone-800 text-stone-100 focus:ring-2 focus:ring-emerald-500 focus:border-transparent outline-none transition-all"
+              required
+            />
+          </div>
+          {mode === 'register' && (
+            <div>
+              <label className="block text-xs font-bold uppercase tracking-wider text-stone-500 mb-1.5">Organisation code</label>
+              <input
+                type="text"
+                value={organisation}
+                onChange={(e) => setOrganisation(e.target.value)}
+                placeholder="Optional, from your FPO or cooperative"
+                className="w-full px-4 py-2.5 rounded-xl bg-stone-950/40 border border-stone-800 text-stone-100 placeholder:text-stone-600 focus:ring-2 focus:ring-emerald-500 focus:border-transparent outline-none transition-all"
+              />
+            </div>
+          )}
+          <button
+            type="submit"
+            disabled={submitting}
+            className="w-full bg-emerald-600 text-white py-3 rounded-xl font-bold hover:bg-emerald-700 transition-all shadow-lg shadow-emerald-900/20 disabled:opacity-50 flex items-center justify-center gap-2"
+          >
+            {submitting && <Loader2 size={20} className="animate-spin" />}
+            {mode === 'login' ? "Sign In" : "Create Farmer Account"}
+          </button>
+        </form>
+
+        <button
+          onClick={() => { setMode(mode === 'login' ? 'register' : 'login'); setError(null); }}
+          className="w-full mt-4 text-xs font-bold text-stone-500 hover:text-emerald-400 transition-colors"
+        >
+          {mode === 'login' ? "New farmer? Create an account" : "Already have an account? Sign in"}
+        </button>
+      </motion.div>
+    </div>
+  );
+}
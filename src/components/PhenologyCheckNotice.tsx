@@ -0,0 +1,54 @@
+import React from 'react';
+import { AlertTriangle, CheckCircle2, Thermometer } from 'lucide-react';
+import type { AnalysisResult } from '../schemas';
+
+/** Which temperatures the degree-day model ran on, so its verdict is read with the right weight. */
+function temperatureBasis(observedDays: number | undefined) {
+  return observedDays
+    ? `${observedDays} days of recorded or forecast temperatures, typical ones for the rest of the season`
+    : 'typical temperatures for this latitude only (climate normals), not live weather';
+}
+
+/**
+ * Shows how the analysis compares with the local degree-day model, or that the
+ * analysis comes from that model alone because the AI model was unavailable.
+ */
+export default function PhenologyCheckNotice({ analysis }: { analysis: AnalysisResult }) {
+  if (analysis.fallback) {
+    return (
+      <div className="flex items-start gap-2 text-xs text-amber-300 bg-amber-500/10 border border-amber-500/30 rounded-xl px-3 py-2">
+        <Thermometer size={14} className="mt-0.5 shrink-0" />
+        <span>
+          The AI analysis is unavailable right now. This estimate comes from our degree-day model; the weather note says which temperatures it used.
+        </span>
+      </div>
+    );
+  }
+
+  const check = analysis.phenology;
+  if (!check) return null;
+
+  if (check.disagrees) {
+    return (
+      <div className="text-xs text-amber-300 bg-amber-500/10 border border-amber-500/30 rounded-xl px-3 py-2">
+        <p className="flex items-center gap-2 font-bold">
+          <AlertTriangle size={14} />
+          Our degree-day model disagrees with this analysis
+        </p>
+        <ul className="mt-1 ml-6 list-disc text-amber-200/80">
+          {check.reasons.map(reason => <li key={reason}>{reason}</li>)}
+        </ul>
+        <p className="mt-1 text-amber-200/60">
+          The model used {temperatureBasis(check.observedDays)}. Treat the numbers with care and check local conditions.
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex items-center gap-2 text-[10px] text-stone-500">
+      <CheckCircle2 size={12} className="text-emerald-500" />
+      Consistent with our degree-day model (risk {check.riskScore}/10, {check.mismatchDays} days mismatch), which used {temperatureBasis(check.observedDays)}
+    </div>
+  );
+}
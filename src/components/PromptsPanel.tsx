@@ -0,0 +1,257 @@
+import React, { useEffect, useState } from 'react';
+import { FileText, Loader2, Plus, Save } from 'lucide-react';
+import { api, unwrap } from '../services/apiService';
+import type { PromptName, PromptSummary, PromptVersion } from '../schemas';
+
+const INPUT_CLASS = 'bg-stone-900/60 border border-stone-700 text-stone-200 rounded-xl px-3 py-2 text-sm outline-none focus:border-emerald-500';
+
+const PROMPT_LABELS: Record<PromptName, string> = {
+  analysis: 'Analysis',
+  extraction: 'Voice extraction',
+  follow_up: 'Follow-up answers',
+};
+
+function RolloutForm({ prompt, onSaved }: { prompt: PromptSummary; onSaved: (prompt: PromptSummary) => void }) {
+  const [active, setActive] = useState(prompt.rollout.activeVersion);
+  const [candidate, setCandidate] = useState<number | null>(prompt.rollout.candidateVersion);
+  const [percent, setPercent] = useState(prompt.rollout.candidatePercent);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setActive(prompt.rollout.activeVersion);
+    setCandidate(prompt.rollout.candidateVersion);
+    setPercent(prompt.rollout.candidatePercent);
+  }, [prompt]);
+
+  const save = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    setError(null);
+    try {
+      onSaved(await unwrap(api.PUT('/api/admin/prompts/{name}/rollout', {
+        params: { path: { name: prompt.name } },
+        body: { activeVersion: active, candidateVersion: candidate, candidatePercent: candidate === null ? 0 : percent },
+      })));
+    } catch (error: any) {
+      setError(error.message || String(error));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <form onSubmit={save} className="space-y-3">
+      <p className="text-xs font-bold uppercase tracking-wider text-stone-500">Rollout</p>
+      <div className="flex flex-wrap items-center gap-3 text-xs text-stone-400">
+        <label className="flex items-center gap-2">
+          Active
+          <select value={active} onChange={(e) => setActive(Number(e.target.value))} className={INPUT_CLASS}>
+            {prompt.versions.map(v => <option key={v.version} value={v.version} className="bg-stone-900">v{v.version}</option>)}
+          </select>
+        </label>
+        <label className="flex items-center gap-2">
+          Candidate
+          <select
+            value={candidate ?? ''}
+            onChange={(e) => setCandidate(e.target.value ? Number(e.target.value) : null)}
+            className={INPUT_CLASS}
+          >
+            <option value="" className="bg-stone-900">None</option>
+            {prompt.versions.filter(v => v.version !== active).map(v => (
+              <option key={v.version} value={v.version} className="bg-stone-900">v{v.version}</option>
+            ))}
+          </select>
+        </label>
+        <label className="flex items-center gap-2">
+          gets
+          <input
+            type="number"
+            min={0}
+            max={100}
+            value={percent}
+            disabled={candidate === null}
+            onChange={(e) => setPercent(Number(e.target.value))}
+            className={`w-20 disabled:opacity-50 ${INPUT_CLASS}`}
+          />
+          % of calls
+        </label>
+        <button
+          type="submit"
+          disabled={saving}
+          className="flex items-center gap-2 px-4 py-2 bg-emerald-600 hover:bg-emerald-500 text-white rounded-xl text-xs font-bold disabled:opacity-50"
+        >
+          {saving ? <Loader2 size={14} className="animate-spin" /> : <Save size={14} />}
+          Save Rollout
+        </button>
+      </div>
+      {error && <p className="text-red-400 text-xs">{error}</p>}
+    </form>
+  );
+}
+
+/**
+ * Super-admin editor for the model prompts: every saved version, a form to
+ * save a new one, and the rollout that decides which versions are used.
+ * Outcomes per version are compared in the stats breakdown above.
+ */
+export default function PromptsPanel() {
+  const [prompts, setPrompts] = useState<PromptSummary[]>([]);
+  const [selected, setSelected] = useState<PromptName>('analysis');
+  const [template, setTemplate] = useState('');
+  const [notes, setNotes] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  const load = async () => {
+    try {
+      setPrompts(await unwrap(api.GET('/api/admin/prompts')));
+    } catch (error: any) {
+      console.error("Failed to load prompts:", error.message || error);
+    }
+  };
+
+  useEffect(() => {
+    load();
+  }, []);
+
+  const prompt = prompts.find(p => p.name === selected);
+
+  // New versions start from the one in use, so edits are small diffs of it
+  useEffect(() => {
+    if (!prompt) return;
+    const active = prompt.versions.find(v => v.version === prompt.rollout.activeVersion);
+    setTemplate(active?.template ?? '');
+    setNotes('');
+  }, [selected, prompts.length > 0]);
+
+  const replace = (updated: PromptSummary) => {
+    setPrompts(prev => prev.map(p => (p.name === updated.name ? updated : p)));
+  };
+
+  const createVersion = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    setError(null);
+    setNotice(null);
+    try {
+      const version = await unwrap(api.POST('/api/admin/prompts/{name}/versions', {
+        params: { path: { name: selected } },
+        body: { template, notes },
+      }));
+      setNotes('');
+      setNotice(`Saved v${version.version}. It is not used until the rollout names it.`);
+      load();
+    } catch (error: any) {
+      setError(error.message || String(error));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const status = (version: PromptVersion) => {
+    if (!prompt) return '';
+    const { activeVersion, candidateVersion, candidatePercent } = prompt.rollout;
+    if (version.version === activeVersion) return candidateVersion === null ? 'Active' : `Active, ${100 - candidatePercent}%`;
+    if (version.version === candidateVersion) return `Candidate, ${candidatePercent}%`;
+    return '';
+  };
+
+  return (
+    <div className="bg-stone-900/40 backdrop-blur-md p-6 rounded-2xl border border-stone-800 shadow-xl space-y-6">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <h3 className="font-bold text-stone-100 flex items-center gap-2">
+          <FileText size={18} className="text-emerald-400" />
+          Prompts
+        </h3>
+        <div className="flex gap-2">
+          {prompts.map(p => (
+            <button
+              key={p.name}
+              onClick={() => setSelected(p.name)}
+              className={`px-3 py-1.5 rounded-lg text-xs font-bold ${p.name === selected ? 'bg-emerald-600 text-white' : 'bg-stone-800 text-stone-400 hover:text-stone-200'}`}
+            >
+              {PROMPT_LABELS[p.name]}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {prompt && (
+        <>
+          <div className="overflow-x-auto">
+            <table className="w-full text-left text-xs">
+              <thead>
+                <tr className="text-stone-500 uppercase tracking-wider border-b border-stone-800">
+                  <th className="py-2 pr-4 font-bold">Version</th>
+                  <th className="py-2 pr-4 font-bold">Notes</th>
+                  <th className="py-2 pr-4 font-bold">Saved</th>
+                  <th className="py-2 pr-4 font-bold">In use</th>
+                  <th className="py-2" />
+                </tr>
+              </thead>
+              <tbody>
+                {[...prompt.versions].reverse().map(version => (
+                  <tr key={version.version} className="border-b border-stone-800/50 text-stone-300">
+                    <td className="py-2 pr-4 font-bold text-stone-200">v{version.version}</td>
+                    <td className="py-2 pr-4">{version.notes || '—'}</td>
+                    <td className="py-2 pr-4 whitespace-nowrap text-stone-500">
+                      {new Date(version.createdAt).toLocaleString()}{version.createdBy ? ` by ${version.createdBy}` : ''}
+                    </td>
+                    <td className="py-2 pr-4 text-emerald-400 font-bold">{status(version)}</td>
+                    <td className="py-2 text-right">
+                      <button
+                        onClick={() => setTemplate(version.template)}
+                        className="text-xs font-bold text-stone-400 hover:text-emerald-400"
+                      >
+                        Edit a copy
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <RolloutForm prompt={prompt} onSaved={replace} />
+
+          <form onSubmit={createVersion} className="space-y-3">
+            <p className="text-xs font-bold uppercase tracking-wider text-stone-500">New version</p>
+            <p className="text-xs text-stone-500">
+              Placeholders: {prompt.variables.map(v => <code key={v} className="mr-2 text-stone-300">{`{{${v}}}`}</code>)}
+            </p>
+            <textarea
+              required
+              value={template}
+              onChange={(e) => setTemplate(e.target.value)}
+              rows={14}
+              maxLength={50000}
+              className={`w-full font-mono text-xs ${INPUT_CLASS}`}
+            />
+            <div className="flex flex-wrap gap-3">
+              <input
+                value={notes}
+                onChange={(e) => setNotes(e.target.value)}
+                maxLength={500}
+                placeholder="What changed (optional)"
+                className={`flex-1 ${INPUT_CLASS}`}
+              />
+              <button
+                type="submit"
+                disabled={saving}
+                className="flex items-center gap-2 px-4 py-2 bg-emerald-600 hover:bg-emerald-500 text-white rounded-xl text-xs font-bold disabled:opacity-50"
+              >
+                {saving ? <Loader2 size={14} className="animate-spin" /> : <Plus size={14} />}
+                Save Version
+              </button>
+            </div>
+          </form>
+        </>
+      )}
+
+      {error && <p className="text-red-400 text-xs">{error}</p>}
+      {notice && <p className="text-emerald-400 text-xs">{notice}</p>}
+    </div>
+  );
+}
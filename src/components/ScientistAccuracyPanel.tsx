@@ -0,0 +1,246 @@
+import React, { useEffect, useState } from 'react';
+import {
+  ScatterChart,
+  Scatter,
+  BarChart,
+  Bar,
+  XAxis,
+  YAxis,
+  ZAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer,
+  Legend,
+  ReferenceLine,
+} from 'recharts';
+import { Loader2, RefreshCw, Target } from 'lucide-react';
+import { api, unwrap } from '../services/apiService';
+import { RiskLevelSchema } from '../schemas';
+import type { AccuracyReport, ErrorSummary } from '../schemas';
+
+const RISK_COLORS = { high: '#ef4444', medium: '#f59e0b', low: '#10b981' };
+const TOOLTIP_STYLE = { backgroundColor: '#1c1917', border: '1px solid #44403c' };
+const AXIS_TICK = { fill: '#78716c', fontSize: 11 };
+
+const BREAKDOWNS = [
+  { key: 'byCrop', label: 'Crop' },
+  { key: 'byRegion', label: 'Region' },
+  { key: 'byModel', label: 'Model' },
+] as const;
+
+function formatPoints(value: number | null) {
+  return value === null ? '—' : `${Math.round(value * 10) / 10} pts`;
+}
+
+function formatShare(value: number | null) {
+  return value === null ? '—' : `${Math.round(value * 100)}%`;
+}
+
+function capitalize(value: string) {
+  return value.charAt(0).toUpperCase() + value.slice(1);
+}
+
+function ErrorCells({ summary }: { summary: ErrorSummary }) {
+  return (
+    <>
+      <td className="py-2 pr-4">{summary.count}</td>
+      <td className="py-2 pr-4">{formatPoints(summary.meanAbsoluteError)}</td>
+      <td className={`py-2 pr-4 ${summary.bias !== null && summary.bias > 0 ? 'text-amber-400' : 'text-blue-400'}`}>
+        {summary.bias !== null && summary.bias > 0 ? '+' : ''}{formatPoints(summary.bias)}
+      </td>
+      <td className="py-2 pr-4">{formatPoints(summary.rootMeanSquaredError)}</td>
+      <td className="py-2">{formatShare(summary.riskLevelAccuracy)}</td>
+    </>
+  );
+}
+
+/**
+ * Scientist dashboard: predicted yield loss against what farmers reported at
+ * harvest, drawn from `GET /api/scientist/accuracy`.
+ */
+export default function ScientistAccuracyPanel() {
+  const [report, setReport] = useState<AccuracyReport | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [breakdown, setBreakdown] = useState<typeof BREAKDOWNS[number]['key']>('byCrop');
+
+  const load = async () => {
+    setLoading(true);
+    try {
+      setReport(await unwrap(api.GET('/api/scientist/accuracy')));
+    } catch (error: any) {
+      console.error("Failed to load accuracy report:", error.message || error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    load();
+  }, []);
+
+  if (!report) {
+    return (
+      <div className="flex justify-center py-12 text-stone-500">
+        {loading ? <Loader2 size={24} className="animate-spin" /> : <p className="text-sm">Accuracy report unavailable.</p>}
+      </div>
+    );
+  }
+
+  const { overall, lossBands } = report;
+  const maxLoss = Math.max(100, ...report.points.flatMap(p => [p.predicted, p.actual]));
+  const calibration = report.calibration.map(row => ({ ...row, name: capitalize(row.riskLevel) }));
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-4 gap-6">
+      <div className="lg:col-span-4 flex items-center justify-between">
+        <p className="text-stone-400 text-sm">
+          {overall.count} of {report.outcomes} reported harvests have a stored prediction to compare against.
+          Actual loss of {lossBands.medium}% or more counts as medium risk, {lossBands.high}% or more as high.
+        </p>
+        <button
+          onClick={load}
+          disabled={loading}
+          className="flex items-center gap-2 px-3 py-1.5 rounded-lg border border-stone-800 text-xs font-bold text-stone-400 hover:text-emerald-400 disabled:opacity-50"
+        >
+          <RefreshCw size={14} className={loading ? 'animate-spin' : ''} />
+          Refresh
+        </button>
+      </div>
+
+      {[
+        { label: 'Mean Abs. Error', value: formatPoints(overall.meanAbsoluteError) },
+        { label: 'Bias (pred − actual)', value: formatPoints(overall.bias) },
+        { label: 'RMSE', value: formatPoints(overall.rootMeanSquaredError) },
+        { label: 'Risk Level Hit Rate', value: formatShare(overall.riskLevelAccuracy) },
+      ].map(card => (
+        <div key={card.label} className="bg-stone-900/40 backdrop-blur-md p-6 rounded-2xl border border-stone-800 shadow-xl">
+          <p className="text-xs font-bold text-stone-500 uppercase mb-2">{card.label}</p>
+          <p className="text-3xl font-bold text-stone-100">{card.value}</p>
+        </div>
+      ))}
+
+      <div className="lg:col-span-2 bg-stone-900/40 backdrop-blur-md p-6 rounded-2xl border border-stone-800 shadow-xl">
+        <h3 className="font-bold mb-6 flex items-center gap-2 text-stone-100">
+          <Target size={18} className="text-emerald-400" />
+          Predicted vs. Actual Yield Loss
+        </h3>
+        <div className="h-[320px]">
+          {report.points.length === 0 ? (
+            <p className="text-stone-500 text-sm">No harvest outcomes reported yet.</p>
+          ) : (
+            <ResponsiveContainer width="100%" height="100%">
+              <ScatterChart margin={{ bottom: 10 }}>
+                <CartesianGrid strokeDasharray="3 3" stroke="#292524" />
+                <XAxis type="number" dataKey="predicted" name="Predicted" unit="%" domain={[0, maxLoss]} tick={AXIS_TICK} />
+                <YAxis type="number" dataKey="actual" name="Actual" unit="%" domain={[0, maxLoss]} tick={AXIS_TICK} />
+                <ZAxis range={[40, 40]} />
+                <Tooltip contentStyle={TOOLTIP_STYLE} cursor={{ strokeDasharray: '3 3' }} />
+                <Legend />
+                <ReferenceLine
+                  segment={[{ x: 0, y: 0 }, { x: maxLoss, y: maxLoss }]}
+                  stroke="#57534e"
+                  strokeDasharray="4 4"
+                  ifOverflow="extendDomain"
+                />
+                {RiskLevelSchema.options.map(level => (
+                  <Scatter
+                    key={level}
+                    name={`${capitalize(level)} risk`}
+                    data={report.points.filter(p => p.riskLevel === level)}
+                    fill={RISK_COLORS[level]}
+                    fillOpacity={0.7}
+                  />
+                ))}
+              </ScatterChart>
+            </ResponsiveContainer>
+          )}
+        </div>
+        <p className="text-[10px] text-stone-500 mt-2">Points above the dashed line lost more than predicted.</p>
+      </div>
+
+      <div className="lg:col-span-2 bg-stone-900/40 backdrop-blur-md p-6 rounded-2xl border border-stone-800 shadow-xl">
+        <h3 className="font-bold mb-6 text-stone-100">Calibration by Risk Level</h3>
+        <div className="h-[200px]">
+          <ResponsiveContainer width="100%" height="100%">
+            <BarChart data={calibration}>
+              <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#292524" />
+              <XAxis dataKey="name" axisLine={false} tickLine={false} tick={AXIS_TICK} />
+              <YAxis unit="%" axisLine={false} tickLine={false} tick={AXIS_TICK} />
+              <Tooltip contentStyle={TOOLTIP_STYLE} />
+              <Legend />
+              <Bar dataKey="predictedLoss" name="Avg. predicted loss" fill="#10b981" radius={[4, 4, 0, 0]} />
+              <Bar dataKey="actualLoss" name="Avg. actual loss" fill="#f59e0b" radius={[4, 4, 0, 0]} />
+            </BarChart>
+          </ResponsiveContainer>
+        </div>
+        <table className="w-full text-left text-xs mt-4">
+          <thead>
+            <tr className="text-stone-500 uppercase tracking-wider border-b border-stone-800">
+              <th className="py-2 pr-4 font-bold">Predicted</th>
+              <th className="py-2 pr-4 font-bold">Count</th>
+              <th className="py-2 pr-4 font-bold">Actual low</th>
+              <th className="py-2 pr-4 font-bold">Actual medium</th>
+              <th className="py-2 font-bold">Actual high</th>
+            </tr>
+          </thead>
+          <tbody>
+            {calibration.map(row => (
+              <tr key={row.riskLevel} className="border-b border-stone-800/50 text-stone-300">
+                <td className="py-2 pr-4 font-bold" style={{ color: RISK_COLORS[row.riskLevel] }}>{row.name}</td>
+                <td className="py-2 pr-4">{row.count}</td>
+                {RiskLevelSchema.options.map(band => (
+                  <td key={band} className={`py-2 pr-4 ${band === row.riskLevel ? 'font-bold text-stone-100' : ''}`}>
+                    {row.actual[band]}
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="lg:col-span-4 bg-stone-900/40 backdrop-blur-md p-6 rounded-2xl border border-stone-800 shadow-xl">
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="font-bold text-stone-100">Error Breakdown</h3>
+          <div className="flex bg-stone-950/40 p-1 rounded-lg border border-stone-800">
+            {BREAKDOWNS.map(option => (
+              <button
+                key={option.key}
+                onClick={() => setBreakdown(option.key)}
+                className={`px-3 py-1 rounded-md text-xs font-bold ${breakdown === option.key ? 'bg-emerald-600 text-white' : 'text-stone-400 hover:text-stone-100'}`}
+              >
+                {option.label}
+              </button>
+            ))}
+          </div>
+        </div>
+        {report[breakdown].length === 0 ? (
+          <p className="text-stone-500 text-sm">Nothing to break down yet.</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-left text-xs">
+              <thead>
+                <tr className="text-stone-500 uppercase tracking-wider border-b border-stone-800">
+                  <th className="py-2 pr-4 font-bold">{BREAKDOWNS.find(b => b.key === breakdown)!.label}</th>
+                  <th className="py-2 pr-4 font-bold">Count</th>
+                  <th className="py-2 pr-4 font-bold">MAE</th>
+                  <th className="py-2 pr-4 font-bold">Bias</th>
+                  <th className="py-2 pr-4 font-bold">RMSE</th>
+                  <th className="py-2 font-bold">Risk hit rate</th>
+                </tr>
+              </thead>
+              <tbody>
+                {report[breakdown].map(row => (
+                  <tr key={row.key} className="border-b border-stone-800/50 text-stone-300">
+                    <td className={`py-2 pr-4 font-bold text-stone-200 ${breakdown === 'byCrop' ? 'capitalize' : ''}`}>{row.key}</td>
+                    <ErrorCells summary={row} />
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,164 @@
+import React, { useState } from 'react';
+import { Building2, Loader2, Plus, Trash2, UserPlus } from 'lucide-react';
+import { api, unwrap } from '../services/apiService';
+import { ROLES } from '../constants';
+import type { Role } from '../constants';
+import type { TenantSummary } from '../schemas';
+
+const INPUT_CLASS = 'bg-stone-900/60 border border-stone-700 text-stone-200 rounded-xl px-3 py-2 text-sm outline-none focus:border-emerald-500';
+
+/**
+ * Super-admin view across every tenant: per-organisation counts, adding and
+ * removing tenants, and creating the first accounts inside one.
+ */
+export default function TenantsPanel({ tenants, onChanged }: { tenants: TenantSummary[]; onChanged: () => void }) {
+  const [name, setName] = useState('');
+  const [slug, setSlug] = useState('');
+  const [accountTenant, setAccountTenant] = useState('');
+  const [username, setUsername] = useState('');
+  const [password, setPassword] = useState('');
+  const [role, setRole] = useState<Role>('admin');
+  const [saving, setSaving] = useState<'tenant' | 'account' | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  const run = async (kind: 'tenant' | 'account', action: () => Promise<string>) => {
+    setSaving(kind);
+    setError(null);
+    setNotice(null);
+    try {
+      setNotice(await action());
+      onChanged();
+    } catch (error: any) {
+      setError(error.message || String(error));
+    } finally {
+      setSaving(null);
+    }
+  };
+
+  const createTenant = (e: React.FormEvent) => {
+    e.preventDefault();
+    run('tenant', async () => {
+      const tenant = await unwrap(api.POST('/api/admin/tenants', { body: { name, slug } }));
+      setName('');
+      setSlug('');
+      setAccountTenant(tenant.id);
+      return `Added ${tenant.name}. Farmers join it with the code "${tenant.slug}".`;
+    });
+  };
+
+  const createAccount = (e: React.FormEvent) => {
+    e.preventDefault();
+    run('account', async () => {
+      const user = await unwrap(api.POST('/api/users', { body: { username, password, role, tenantId: accountTenant } }));
+      setUsername('');
+      setPassword('');
+      return `Created ${user.role} account ${user.username}.`;
+    });
+  };
+
+  const remove = (tenant: TenantSummary) => {
+    if (!confirm(`Remove ${tenant.name}? Only tenants without users or submissions can be removed.`)) return;
+    run('tenant', async () => {
+      await unwrap(api.DELETE('/api/admin/tenants/{id}', { params: { path: { id: tenant.id } } }));
+      return `Removed ${tenant.name}.`;
+    });
+  };
+
+  return (
+    <div className="bg-stone-900/40 backdrop-blur-md p-6 rounded-2xl border border-stone-800 shadow-xl space-y-6">
+      <h3 className="font-bold text-stone-100 flex items-center gap-2">
+        <Building2 size={18} className="text-emerald-400" />
+        Organisations
+      </h3>
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-left text-xs">
+          <thead>
+            <tr className="text-stone-500 uppercase tracking-wider border-b border-stone-800">
+              <th className="py-2 pr-4 font-bold">Name</th>
+              <th className="py-2 pr-4 font-bold">Code</th>
+              <th className="py-2 pr-4 font-bold">Users</th>
+              <th className="py-2 pr-4 font-bold">Submissions</th>
+              <th className="py-2 pr-4 font-bold">High risk</th>
+              <th className="py-2 pr-4 font-bold">Harvests reported</th>
+              <th className="py-2" />
+            </tr>
+          </thead>
+          <tbody>
+            {tenants.map(tenant => (
+              <tr key={tenant.id} className="border-b border-stone-800/50 text-stone-300">
+                <td className="py-2 pr-4 font-bold text-stone-200">{tenant.name}</td>
+                <td className="py-2 pr-4 font-mono text-stone-400">{tenant.slug}</td>
+                <td className="py-2 pr-4">{tenant.users}</td>
+                <td className="py-2 pr-4">{tenant.submissions}</td>
+                <td className="py-2 pr-4 text-red-400">{tenant.highRisk}</td>
+                <td className="py-2 pr-4">{tenant.outcomes}</td>
+                <td className="py-2 text-right">
+                  {tenant.users === 0 && tenant.submissions === 0 && (
+                    <button onClick={() => remove(tenant)} title="Remove" className="p-1.5 rounded-lg text-stone-500 hover:text-red-400 hover:bg-stone-800">
+                      <Trash2 size={14} />
+                    </button>
+                  )}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <form onSubmit={createTenant} className="space-y-3">
+          <p className="text-xs font-bold uppercase tracking-wider text-stone-500">Add organisation</p>
+          <input required value={name} onChange={(e) => setName(e.target.value)} placeholder="Name" className={`w-full ${INPUT_CLASS}`} />
+          <input
+            required
+            value={slug}
+            onChange={(e) => setSlug(e.target.value.toLowerCase())}
+            placeholder="Code farmers enter, e.g. guntur-fpo"
+            pattern="[a-z0-9][a-z0-9\-]{1,39}"
+            className={`w-full font-mono ${INPUT_CLASS}`}
+          />
+          <button
+            type="submit"
+            disabled={saving !== null}
+            className="flex items-center gap-2 px-4 py-2 bg-emerald-600 hover:bg-emerald-500 text-white rounded-xl text-xs font-bold disabled:opacity-50"
+          >
+            {saving === 'tenant' ? <Loader2 size={14} className="animate-spin" /> : <Plus size={14} />}
+            Add Organisation
+          </button>
+        </form>
+
+        <form onSubmit={createAccount} className="space-y-3">
+          <p className="text-xs font-bold uppercase tracking-wider text-stone-500">Add account</p>
+          <div className="grid grid-cols-2 gap-3">
+            <select required value={accountTenant} onChange={(e) => setAccountTenant(e.target.value)} className={INPUT_CLASS}>
+              <option value="" disabled className="bg-stone-900">Organisation</option>
+              {tenants.map(tenant => (
+                <option key={tenant.id} value={tenant.id} className="bg-stone-900">{tenant.name}</option>
+              ))}
+            </select>
+            <select value={role} onChange={(e) => setRole(e.target.value as Role)} className={`capitalize ${INPUT_CLASS}`}>
+              {ROLES.map(option => (
+                <option key={option} value={option} className="bg-stone-900">{option}</option>
+              ))}
+            </select>
+            <input required value={username} onChange={(e) => setUsername(e.target.value)} placeholder="Username" autoComplete="off" className={INPUT_CLASS} />
+            <input required type="password" value={password} onChange={(e) => setPassword(e.target.value)} placeholder="Password" autoComplete="new-password" className={INPUT_CLASS} />
+          </div>
+          <button
+            type="submit"
+            disabled={saving !== null}
+            className="flex items-center gap-2 px-4 py-2 bg-emerald-600 hover:bg-emerald-500 text-white rounded-xl text-xs font-bold disabled:opacity-50"
+          >
+            {saving === 'account' ? <Loader2 size={14} className="animate-spin" /> : <UserPlus size={14} />}
+            Add Account
+          </button>
+        </form>
+      </div>
+
+      {error && <p className="text-red-400 text-xs">{error}</p>}
+      {notice && <p className="text-emerald-400 text-xs">{notice}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,95 @@
+import React, { useEffect, useState } from 'react';
+import { Loader2, MapPin, RotateCcw, Trash2 } from 'lucide-react';
+import { api, unwrap } from '../services/apiService';
+import { SubmissionPageSchema } from '../schemas';
+import type { Submission } from '../constants';
+
+const TRASH_PAGE_SIZE = 30;
+
+/** The signed-in user's trashed submissions, each of which can be restored until it is purged. */
+export default function TrashPanel({ onRestored }: { onRestored: () => void }) {
+  const [items, setItems] = useState<Submission[]>([]);
+  const [cursor, setCursor] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [restoring, setRestoring] = useState<string | null>(null);
+
+  const load = async (after?: string) => {
+    setLoading(true);
+    try {
+      const data = SubmissionPageSchema.parse(await unwrap(api.GET('/api/submissions/trash', {
+        params: { query: { sort: 'timestamp', order: 'desc', limit: TRASH_PAGE_SIZE, cursor: after } }
+      })));
+      setItems(prev => after ? [...prev, ...data.items] : data.items);
+      setCursor(data.nextCursor);
+    } catch (error: any) {
+      console.error("Failed to load trash:", error.message || error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    load();
+  }, []);
+
+  const restore = async (id: string) => {
+    setRestoring(id);
+    try {
+      await unwrap(api.POST('/api/submissions/{id}/restore', { params: { path: { id } } }));
+      setItems(prev => prev.filter(item => item.id !== id));
+      onRestored();
+    } catch (error: any) {
+      console.error("Failed to restore submission:", error.message || error);
+    } finally {
+      setRestoring(null);
+    }
+  };
+
+  if (!loading && items.length === 0) {
+    return (
+      <div className="bg-stone-900/40 backdrop-blur-md p-12 rounded-2xl border border-stone-800 text-center">
+        <Trash2 size={48} className="mx-auto text-stone-700 mb-4" />
+        <p className="text-stone-500">The trash is empty.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+        {items.map((sub) => (
+          <div key={sub.id} className="bg-stone-900/40 backdrop-blur-md p-5 rounded-2xl border border-stone-800 shadow-xl">
+            <h3 className="font-bold text-stone-300">{sub.crop}</h3>
+            <p className="text-xs text-stone-500 flex items-center gap-1">
+              <MapPin size={12} />
+              {sub.location}
+            </p>
+            <div className="text-[10px] text-stone-500 mt-3 mb-4">
+              Deleted {new Date(sub.deletedAt!).toLocaleString()}
+            </div>
+            <button
+              onClick={() => restore(sub.id)}
+              disabled={restoring === sub.id}
+              className="w-full py-2 bg-stone-950/40 hover:bg-emerald-600 text-stone-400 hover:text-white rounded-xl text-xs font-bold transition-all flex items-center justify-center gap-2 border border-stone-800 disabled:opacity-50"
+            >
+              {restoring === sub.id ? <Loader2 size={14} className="animate-spin" /> : <RotateCcw size={14} />}
+              Restore
+            </button>
+          </div>
+        ))}
+      </div>
+      {(loading || cursor) && (
+        <div className="flex justify-center">
+          <button
+            onClick={() => cursor && load(cursor)}
+            disabled={loading}
+            className="flex items-center gap-2 px-6 py-2 bg-stone-900/40 backdrop-blur-md rounded-xl border border-stone-800 text-stone-400 hover:text-emerald-400 transition-all text-sm font-bold disabled:opacity-50"
+          >
+            {loading && <Loader2 size={16} className="animate-spin" />}
+            Load More
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,284 @@
+import React, { useEffect, useState } from 'react';
+import { ChevronDown, Loader2, Plus, Power, Trash2, Webhook as WebhookIcon } from 'lucide-react';
+import { api, unwrap } from '../services/apiService';
+import { RiskLevelSchema, WebhookEventSchema } from '../schemas';
+import type { RiskLevel, Webhook, WebhookDelivery, WebhookEvent } from '../schemas';
+
+const DELIVERY_PAGE_SIZE = 20;
+
+const EVENT_LABELS: Record<WebhookEvent, string> = {
+  'submission.created': 'New submission',
+  'submission.choice': 'Decision recorded',
+};
+
+const STATUS_STYLES: Record<WebhookDelivery['status'], string> = {
+  pending: 'text-amber-400',
+  sending: 'text-blue-400',
+  delivered: 'text-emerald-400',
+  failed: 'text-red-400',
+};
+
+function splitList(value: string) {
+  return value.split(',').map(part => part.trim()).filter(Boolean);
+}
+
+function describeFilters(hook: Webhook) {
+  const parts = [
+    hook.riskLevel.length ? `risk: ${hook.riskLevel.join(', ')}` : '',
+    hook.crop.length ? `crop: ${hook.crop.join(', ')}` : '',
+    hook.region.length ? `region: ${hook.region.join(', ')}` : '',
+  ].filter(Boolean);
+  return parts.length ? parts.join(' · ') : 'All submissions';
+}
+
+function DeliveryLog({ webhookId }: { webhookId: string }) {
+  const [deliveries, setDeliveries] = useState<WebhookDelivery[]>([]);
+  const [cursor, setCursor] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  const load = async (after?: string) => {
+    setLoading(true);
+    try {
+      const data = await unwrap(api.GET('/api/admin/webhooks/{id}/deliveries', {
+        params: { path: { id: webhookId }, query: { limit: DELIVERY_PAGE_SIZE, cursor: after } }
+      }));
+      setDeliveries(prev => after ? [...prev, ...data.items] : data.items);
+      setCursor(data.nextCursor);
+    } catch (error: any) {
+      console.error("Failed to load webhook deliveries:", error.message || error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    load();
+  }, [webhookId]);
+
+  if (deliveries.length === 0 && !loading) {
+    return <p className="text-stone-500 text-xs py-3">Nothing delivered yet.</p>;
+  }
+
+  return (
+    <div className="overflow-x-auto mt-3">
+      <table className="w-full text-left text-xs">
+        <thead>
+          <tr className="text-stone-500 uppercase tracking-wider border-b border-stone-800">
+            <th className="py-2 pr-4 font-bold">Queued</th>
+            <th className="py-2 pr-4 font-bold">Event</th>
+            <th className="py-2 pr-4 font-bold">Status</th>
+            <th className="py-2 pr-4 font-bold">Attempts</th>
+            <th className="py-2 font-bold">Last result</th>
+          </tr>
+        </thead>
+        <tbody>
+          {deliveries.map(delivery => (
+            <tr key={delivery.id} className="border-b border-stone-800/50 text-stone-300">
+              <td className="py-2 pr-4 whitespace-nowrap text-stone-500">{new Date(delivery.createdAt).toLocaleString()}</td>
+              <td className="py-2 pr-4">{EVENT_LABELS[delivery.event]}</td>
+              <td className={`py-2 pr-4 font-bold capitalize ${STATUS_STYLES[delivery.status]}`}>{delivery.status}</td>
+              <td className="py-2 pr-4">{delivery.attempts}</td>
+              <td className="py-2 text-stone-500">
+                {delivery.error ?? (delivery.responseStatus ? `HTTP ${delivery.responseStatus}` : '—')}
+                {delivery.nextAttemptAt && delivery.status === 'pending' && ` · retry ${new Date(delivery.nextAttemptAt).toLocaleTimeString()}`}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      {cursor && (
+        <button
+          onClick={() => load(cursor)}
+          disabled={loading}
+          className="mt-3 text-xs font-bold text-stone-400 hover:text-emerald-400 disabled:opacity-50"
+        >
+          Load more
+        </button>
+      )}
+    </div>
+  );
+}
+
+/** Admin view of partner webhooks: add, pause or remove subscriptions and read their delivery log. */
+export default function WebhooksPanel() {
+  const [hooks, setHooks] = useState<Webhook[]>([]);
+  const [expanded, setExpanded] = useState<string | null>(null);
+  const [url, setUrl] = useState('');
+  const [description, setDescription] = useState('');
+  const [events, setEvents] = useState<WebhookEvent[]>(['submission.created']);
+  const [riskLevel, setRiskLevel] = useState<RiskLevel[]>(['high']);
+  const [crops, setCrops] = useState('');
+  const [regions, setRegions] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [createdSecret, setCreatedSecret] = useState<string | null>(null);
+
+  const load = async () => {
+    try {
+      setHooks(await unwrap(api.GET('/api/admin/webhooks')));
+    } catch (error: any) {
+      console.error("Failed to load webhooks:", error.message || error);
+    }
+  };
+
+  useEffect(() => {
+    load();
+  }, []);
+
+  const toggle = <T,>(values: T[], value: T) =>
+    values.includes(value) ? values.filter(v => v !== value) : [...values, value];
+
+  const create = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    setError(null);
+    try {
+      const hook = await unwrap(api.POST('/api/admin/webhooks', {
+        body: { url, description, events, riskLevel, crop: splitList(crops), region: splitList(regions) }
+      }));
+      setCreatedSecret(hook.secret);
+      setUrl('');
+      setDescription('');
+      setCrops('');
+      setRegions('');
+      load();
+    } catch (error: any) {
+      setError(error.message || String(error));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const setActive = async (hook: Webhook, active: boolean) => {
+    try {
+      await unwrap(api.PATCH('/api/admin/webhooks/{id}', { params: { path: { id: hook.id } }, body: { active } }));
+      load();
+    } catch (error: any) {
+      console.error("Failed to update webhook:", error.message || error);
+    }
+  };
+
+  const remove = async (hook: Webhook) => {
+    if (!confirm(`Remove the webhook for ${hook.url}? Its delivery log is deleted too.`)) return;
+    try {
+      await unwrap(api.DELETE('/api/admin/webhooks/{id}', { params: { path: { id: hook.id } } }));
+      load();
+    } catch (error: any) {
+      console.error("Failed to delete webhook:", error.message || error);
+    }
+  };
+
+  return (
+    <div className="bg-stone-900/40 backdrop-blur-md p-6 rounded-2xl border border-stone-800 shadow-xl space-y-6">
+      <h3 className="font-bold text-stone-100 flex items-center gap-2">
+        <WebhookIcon size={18} className="text-emerald-400" />
+        Webhooks
+      </h3>
+
+      <form onSubmit={create} className="grid grid-cols-1 md:grid-cols-2 gap-3 text-sm">
+        <input
+          type="url"
+          required
+          value={url}
+          onChange={(e) => setUrl(e.target.value)}
+          placeholder="https://partner.example.org/bloomsync"
+          className="bg-stone-900/60 border border-stone-700 text-stone-200 rounded-xl px-3 py-2 outline-none focus:border-emerald-500"
+        />
+        <input
+          value={description}
+          onChange={(e) => setDescription(e.target.value)}
+          placeholder="Description (optional)"
+          className="bg-stone-900/60 border border-stone-700 text-stone-200 rounded-xl px-3 py-2 outline-none focus:border-emerald-500"
+        />
+        <input
+          value={crops}
+          onChange={(e) => setCrops(e.target.value)}
+          placeholder="Crops, comma-separated (all if empty)"
+          className="bg-stone-900/60 border border-stone-700 text-stone-200 rounded-xl px-3 py-2 outline-none focus:border-emerald-500"
+        />
+        <input
+          value={regions}
+          onChange={(e) => setRegions(e.target.value)}
+          placeholder="Regions, comma-separated (all if empty)"
+          className="bg-stone-900/60 border border-stone-700 text-stone-200 rounded-xl px-3 py-2 outline-none focus:border-emerald-500"
+        />
+        <div className="flex flex-wrap items-center gap-4 text-xs text-stone-300">
+          {WebhookEventSchema.options.map(event => (
+            <label key={event} className="flex items-center gap-1.5">
+              <input type="checkbox" checked={events.includes(event)} onChange={() => setEvents(prev => toggle(prev, event))} />
+              {EVENT_LABELS[event]}
+            </label>
+          ))}
+        </div>
+        <div className="flex flex-wrap items-center gap-4 text-xs text-stone-300">
+          <span className="text-stone-500 uppercase font-bold">Risk</span>
+          {RiskLevelSchema.options.map(level => (
+            <label key={level} className="flex items-center gap-1.5 capitalize">
+              <input type="checkbox" checked={riskLevel.includes(level)} onChange={() => setRiskLevel(prev => toggle(prev, level))} />
+              {level}
+            </label>
+          ))}
+        </div>
+        <div className="md:col-span-2 flex items-center gap-4">
+          <button
+            type="submit"
+            disabled={saving || events.length === 0}
+            className="flex items-center gap-2 px-4 py-2 bg-emerald-600 hover:bg-emerald-500 text-white rounded-xl text-xs font-bold disabled:opacity-50"
+          >
+            {saving ? <Loader2 size={14} className="animate-spin" /> : <Plus size={14} />}
+            Add Webhook
+          </button>
+          {error && <p className="text-red-400 text-xs">{error}</p>}
+        </div>
+      </form>
+
+      {createdSecret && (
+        <div className="bg-emerald-950/40 border border-emerald-800 rounded-xl p-4 text-xs text-stone-300">
+          <p className="mb-2">Signing secret for the new webhook. It will not be shown again:</p>
+          <code className="font-mono text-emerald-300 break-all select-all">{createdSecret}</code>
+          <button onClick={() => setCreatedSecret(null)} className="block mt-2 text-stone-500 hover:text-stone-300 font-bold">Dismiss</button>
+        </div>
+      )}
+
+      {hooks.length === 0 ? (
+        <p className="text-stone-500 text-sm text-center py-4">No webhooks yet.</p>
+      ) : (
+        <div className="space-y-3">
+          {hooks.map(hook => (
+            <div key={hook.id} className="border border-stone-800 rounded-xl p-4">
+              <div className="flex items-center justify-between gap-4">
+                <button onClick={() => setExpanded(expanded === hook.id ? null : hook.id)} className="flex items-center gap-2 text-left min-w-0">
+                  <ChevronDown size={16} className={`shrink-0 text-stone-500 transition-transform ${expanded === hook.id ? 'rotate-180' : ''}`} />
+                  <div className="min-w-0">
+                    <p className={`font-mono text-sm truncate ${hook.active ? 'text-stone-200' : 'text-stone-500 line-through'}`}>{hook.url}</p>
+                    <p className="text-xs text-stone-500">
+                      {hook.events.map(event => EVENT_LABELS[event]).join(', ')} · {describeFilters(hook)}
+                      {hook.description && ` · ${hook.description}`}
+                    </p>
+                  </div>
+                </button>
+                <div className="flex items-center gap-2 shrink-0">
+                  <button
+                    onClick={() => setActive(hook, !hook.active)}
+                    title={hook.active ? 'Pause' : 'Resume'}
+                    className={`p-2 rounded-lg border border-stone-800 ${hook.active ? 'text-emerald-400' : 'text-stone-500'} hover:bg-stone-800`}
+                  >
+                    <Power size={14} />
+                  </button>
+                  <button
+                    onClick={() => remove(hook)}
+                    title="Remove"
+                    className="p-2 rounded-lg border border-stone-800 text-stone-500 hover:text-red-400 hover:bg-stone-800"
+                  >
+                    <Trash2 size={14} />
+                  </button>
+                </div>
+              </div>
+              {expanded === hook.id && <DeliveryLog webhookId={hook.id} />}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
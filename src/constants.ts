@@ -1,15 +1,45 @@
-export interface Submission {
+// The submission and analysis shapes are derived from the runtime schemas
+export type { AnalysisResult, Choice, FarmerAdvisory, MapZone, RiskLevel, Submission } from './schemas';
+
+export type Role = 'farmer' | 'scientist' | 'admin';
+export const ROLES: Role[] = ['farmer', 'scientist', 'admin'];
+
+export type Tab = 'farmer' | 'map' | 'scientist' | 'history' | 'admin';
+
+// Which `activeTab` sections each role may open; the server enforces the matching API routes
+export const ROLE_TABS: Record<Role, Tab[]> = {
+  farmer: ['farmer', 'map', 'history'],
+  scientist: ['farmer', 'map', 'scientist', 'history'],
+  admin: ['farmer', 'map', 'scientist', 'history', 'admin'],
+};
+
+export interface AuthUser {
   id: string;
-  crop: string;
-  location: string;
-  lat: number;
-  lng: number;
-  date: string;
-  riskLevel: 'low' | 'medium' | 'high';
-  climaticConditions: string;
-  timestamp: number;
+  username: string;
+  role: Role;
+  /** The organisation the account belongs to; null only for super-admins. */
+  tenantId: string | null;
+  createdAt: number;
+}
+
+/** Admins outside any tenant run the deployment and see every tenant's data. */
+export function isSuperAdmin(user: Pick<AuthUser, 'role' | 'tenantId'>) {
+  return user.role === 'admin' && user.tenantId === null;
 }
 
+// Pushed over `/api/events`; the owner of the record gets its data, everyone else just the event name
+export const SERVER_EVENT_TYPES = [
+  'submission.created',
+  'submission.choice',
+  'submission.outcome',
+  'submission.analysis',
+  'submission.deleted',
+  'submission.restored',
+  'history.cleared',
+  'store.restored',
+] as const;
+export type ServerEventType = typeof SERVER_EVENT_TYPES[number];
+
 export type Language = 'en' | 'te' | 'hi' | 'ta' | 'kn' | 'ml';
 
 export const LANGUAGES = [
@@ -68,7 +98,7 @@ export const TRANSLATIONS: Record<Language, any> = {
     riskDistribution: "Risk Distribution",
     farmerChoices: "Farmer Decisions",
     cropPopularity: "Crop Popularity",
-    exportData: "Export Data (CSV)",
+    exportData: "Export Data",
     filters: "Filters",
     applyFilters: "Apply Filters",
     resetFilters: "Reset",
@@ -140,7 +170,7 @@ export const TRANSLATIONS: Record<Language, any> = {
     riskDistribution: "రిస్క్ పంపిణీ",
     farmerChoices: "రైతు నిర్ణయాలు",
     cropPopularity: "పంట ప్రజాదరణ",
-    exportData: "డేటాను ఎగుమతి చేయండి (CSV)",
+    exportData: "డేటాను ఎగుమతి చేయండి",
     filters: "ఫిల్టర్లు",
     applyFilters: "ఫిల్టర్లను వర్తింపజేయండి",
     resetFilters: "రీసెట్",
@@ -201,7 +231,7 @@ export const TRANSLATIONS: Record<Language, any> = {
     riskDistribution: "जोखिम वितरण",
     farmerChoices: "किसान निर्णय",
     cropPopularity: "फसल लोकप्रियता",
-    exportData: "डेटा निर्यात करें (CSV)",
+    exportData: "डेटा निर्यात करें",
     filters: "फ़िल्टर",
     applyFilters: "फ़िल्टर लागू करें",
     resetFilters: "रीसेट",
@@ -273,7 +303,7 @@ export const TRANSLATIONS: Record<Language, any> = {
     riskDistribution: "ஆபத்து விநியோகம்",
     farmerChoices: "விவசாயி முடிவுகள்",
     cropPopularity: "பயிர் புகழ்",
-    exportData: "தரவை ஏற்றுமதி செய் (CSV)",
+    exportData: "தரவை ஏற்றுமதி செய்",
     filters: "வடிகட்டிகள்",
     applyFilters: "வடிகட்டிகளைப் பயன்படுத்து",
     resetFilters: "மீட்டமை",
@@ -345,7 +375,7 @@ export const TRANSLATIONS: Record<Language, any> = {
     riskDistribution: "ಅಪಾಯದ ವಿತರಣೆ",
     farmerChoices: "ರೈತರ ನಿರ್ಧಾರಗಳು",
     cropPopularity: "ಬೆಳೆ ಜನಪ್ರಿಯತೆ",
-    exportData: "ಡೇಟಾವನ್ನು ರಫ್ತು ಮಾಡಿ (CSV)",
+    exportData: "ಡೇಟಾವನ್ನು ರಫ್ತು ಮಾಡಿ",
     filters: "ಫಿಲ್ಟರ್‌ಗಳು",
     applyFilters: "ಫಿಲ್ಟರ್‌ಗಳನ್ನು ಅನ್ವಯಿಸಿ",
     resetFilters: "ಮರುಹೊಂದಿಸಿ",
@@ -417,7 +447,7 @@ export const TRANSLATIONS: Record<Language, any> = {
     riskDistribution: "അപകടസാധ്യത വിതരണം",
     farmerChoices: "കർഷക തീരുമാനങ്ങൾ",
     cropPopularity: "വിളകളുടെ ജനപ്രീതി",
-    exportData: "ഡാറ്റ എക്‌സ്‌പോർട്ട് ചെയ്യുക (CSV)",
+    exportData: "ഡാറ്റ എക്‌സ്‌പോർട്ട് ചെയ്യുക",
     filters: "ഫിൽട്ടറുകൾ",
     applyFilters: "ഫിൽട്ടറുകൾ പ്രയോഗിക്കുക",
     resetFilters: "റീസെറ്റ്",
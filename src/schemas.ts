@@ -0,0 +1,687 @@
+import { z } from "zod";
+
+// Shared by the client and the server: the server validates request bodies and
+// model output against these, the client validates what the API sends back.
+
+export const RiskLevelSchema = z.enum(['low', 'medium', 'high']);
+export type RiskLevel = z.infer<typeof RiskLevelSchema>;
+
+/** 'A' changes crop, 'B' continues with the same crop. */
+export const ChoiceSchema = z.enum(['A', 'B']);
+export type Choice = z.infer<typeof ChoiceSchema>;
+
+const DateString = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "must be a YYYY-MM-DD date");
+const Latitude = z.number().min(-90).max(90);
+const Longitude = z.number().min(-180).max(180);
+
+const ActivityPointSchema = z.object({
+  date: z.string(),
+  activity: z.number(),
+});
+
+export const FarmerAdvisorySchema = z.object({
+  whatMayHappen: z.string(),
+  expectedYieldChange: z.string(),
+  optionA: z.object({
+    suggestion: z.string(),
+    crops: z.array(z.string()),
+  }),
+  optionB: z.object({
+    precautionSteps: z.array(z.string()),
+  }),
+});
+export type FarmerAdvisory = z.infer<typeof FarmerAdvisorySchema>;
+
+/**
+ * The local degree-day model's estimate for the same crop, place and date,
+ * stored next to the model's analysis so large disagreements can be flagged.
+ */
+export const PhenologyCheckSchema = z.object({
+  /** Rule set that produced the estimate, e.g. "gdd-v1". */
+  engine: z.string(),
+  /** Crop thresholds used; "generic" when the crop has no profile of its own. */
+  cropProfile: z.string(),
+  riskScore: z.number(),
+  riskLevel: RiskLevelSchema,
+  mismatchDays: z.number(),
+  yieldRiskPercentage: z.number(),
+  bloomPeak: DateString.nullable().default(null),
+  /** Day nearest the bloom peak on which pollinators are active. */
+  pollinatorsActive: DateString.nullable().default(null),
+  bloomingData: z.array(ActivityPointSchema),
+  pollinationData: z.array(ActivityPointSchema),
+  disagrees: z.boolean(),
+  /** Why the estimate and the analysis disagree; empty when they agree. */
+  reasons: z.array(z.string()),
+  /**
+   * Days of the season the engine had recorded or forecast temperatures for;
+   * every other day uses climate normals. Absent on checks stored before it
+   * was recorded, which used normals only.
+   */
+  observedDays: z.number().optional(),
+});
+export type PhenologyCheck = z.infer<typeof PhenologyCheckSchema>;
+
+/** One problem found in the model's answer and what was done about it. */
+export const AnalysisCorrectionSchema = z.object({
+  /** Dotted path of the field, e.g. "riskLevel" or "advisory.optionB.precautionSteps". */
+  field: z.string(),
+  problem: z.string(),
+  /** `reprompted`: the model was asked again; `repaired`: the server fixed the value; `unresolved`: neither worked. */
+  action: z.enum(['reprompted', 'repaired', 'unresolved']),
+  /** For repairs, the value before and after, as JSON. */
+  from: z.string().optional(),
+  to: z.string().optional(),
+});
+export type AnalysisCorrection = z.infer<typeof AnalysisCorrectionSchema>;
+
+export const AnalysisResultSchema = z.object({
+  bloomingData: z.array(ActivityPointSchema),
+  pollinationData: z.array(ActivityPointSchema),
+  riskLevel: RiskLevelSchema,
+  riskScore: z.number(),
+  mismatchDays: z.number(),
+  yieldRiskPercentage: z.number(),
+  lat: Latitude,
+  lng: Longitude,
+  advisory: FarmerAdvisorySchema,
+  climaticConditions: z.string(),
+  sources: z.array(z.object({ title: z.string(), url: z.string() })).optional(),
+  /** Model that produced the analysis; absent on analyses stored before it was recorded. */
+  model: z.string().optional(),
+  /** Version of the `analysis` prompt the model was given; absent when no prompt was involved or it was not recorded. */
+  promptVersion: z.number().int().positive().optional(),
+  phenology: PhenologyCheckSchema.optional(),
+  /** Set when the model was unavailable and the analysis comes from the phenology engine alone. */
+  fallback: z.boolean().optional(),
+  /** Consistency problems found in the model's answer, in the order they were handled. */
+  corrections: z.array(AnalysisCorrectionSchema).optional(),
+});
+export type AnalysisResult = z.infer<typeof AnalysisResultSchema>;
+
+/** Body of `POST /api/submissions`; unknown fields are dropped. */
+export const NewSubmissionSchema = z.object({
+  crop: z.string().trim().min(1),
+  location: z.string().trim().min(1),
+  lat: Latitude,
+  lng: Longitude,
+  date: DateString,
+  riskLevel: RiskLevelSchema,
+  climaticConditions: z.string().default(""),
+  fullAnalysis: AnalysisResultSchema.optional(),
+});
+export type NewSubmissionInput = z.infer<typeof NewSubmissionSchema>;
+
+/** Body of `PUT /api/submissions/:id/outcome`: what really happened that season. */
+export const OutcomeInputSchema = z.object({
+  harvestDate: DateString,
+  /** Yield against a normal season in percent; -30 means 30% less. */
+  yieldChangePercent: z.number().min(-100).max(1000),
+  /** Amount harvested, if the farmer weighed it, in `harvestUnit` (e.g. "quintal/acre"). */
+  harvestQuantity: z.number().nonnegative().nullable().default(null),
+  harvestUnit: z.string().trim().max(40).nullable().default(null),
+  /** When flowering was actually seen, if the farmer noted it. */
+  floweringDate: DateString.nullable().default(null),
+  /** The option the farmer actually followed, which may differ from the recorded choice. */
+  followedOption: z.enum(['A', 'B', 'none']),
+  notes: z.string().trim().max(1000).default(""),
+});
+export type OutcomeInput = z.infer<typeof OutcomeInputSchema>;
+
+export const OutcomeSchema = OutcomeInputSchema.extend({
+  reportedAt: z.number(),
+});
+export type Outcome = z.infer<typeof OutcomeSchema>;
+
+export const SubmissionSchema = NewSubmissionSchema.extend({
+  id: z.string(),
+  timestamp: z.number(),
+  choice: ChoiceSchema.nullable(),
+  /** User who created the submission; null for records imported from before accounts existed. */
+  ownerId: z.string().nullable(),
+  /** Organisation the submission belongs to; null for a super-admin's own submissions. */
+  tenantId: z.string().nullable(),
+  /** Set while the submission sits in the trash; absent on live records. */
+  deletedAt: z.number().optional(),
+  /** The harvest outcome, once the farmer has reported it. */
+  outcome: OutcomeSchema.optional(),
+  /** Model and `analysis` prompt version that produced `fullAnalysis`; null when unknown. */
+  model: z.string().nullable(),
+  promptVersion: z.number().nullable(),
+});
+export type Submission = z.infer<typeof SubmissionSchema>;
+
+export const SubmissionPageSchema = z.object({
+  items: z.array(SubmissionSchema),
+  nextCursor: z.string().nullable(),
+});
+export type SubmissionPage = z.infer<typeof SubmissionPageSchema>;
+
+/** Body of `PATCH /api/submissions/:id/choice`; null clears the decision. */
+export const ChoiceUpdateSchema = z.object({
+  choice: ChoiceSchema.nullable(),
+});
+export type ChoiceUpdate = z.infer<typeof ChoiceUpdateSchema>;
+
+/** Body of `POST /api/analyze`. */
+export const AnalyzeRequestSchema = z.object({
+  crop: z.string().trim().min(1),
+  location: z.string().trim().min(1),
+  date: DateString,
+  language: z.string().default("en"),
+  /** Skip the analysis cache and ask the model again. */
+  forceRefresh: z.boolean().optional(),
+});
+export type AnalyzeRequest = z.infer<typeof AnalyzeRequestSchema>;
+
+/** Body of `POST /api/submissions/:id/thread`. */
+export const FollowUpQuestionSchema = z.object({
+  question: z.string().trim().min(1).max(2000),
+  language: z.string().default("en"),
+});
+export type FollowUpQuestion = z.infer<typeof FollowUpQuestionSchema>;
+
+/** Anonymised map cell: submissions grouped by rounded coordinates, crop and risk level. */
+export const MapZoneSchema = z.object({
+  lat: z.number(),
+  lng: z.number(),
+  crop: z.string(),
+  riskLevel: RiskLevelSchema,
+  count: z.number(),
+  /** Last comma-separated part of the latest report's location, e.g. "AP". */
+  region: z.string(),
+  /** Target month (YYYY-MM) of the latest report. */
+  latestMonth: z.string(),
+});
+export type MapZone = z.infer<typeof MapZoneSchema>;
+
+/** Bucket size for the time series in `GET /api/admin/stats`. */
+export const StatsIntervalSchema = z.enum(['day', 'week', 'month']);
+export type StatsInterval = z.infer<typeof StatsIntervalSchema>;
+
+const RiskCountsSchema = z.object({
+  total: z.number(),
+  low: z.number(),
+  medium: z.number(),
+  high: z.number(),
+});
+export type RiskCounts = z.infer<typeof RiskCountsSchema>;
+
+/** Response of `GET /api/admin/stats`; every figure covers live submissions matching the filter. */
+export const AdminStatsSchema = z.object({
+  total: z.number(),
+  byRisk: z.object({ high: z.number(), medium: z.number(), low: z.number() }),
+  byChoice: z.object({ change: z.number(), continue: z.number(), none: z.number() }),
+  byCrop: z.record(z.string(), z.number()),
+  /** Submissions created per period; `period` is the UTC day, the Monday of the week, or YYYY-MM. */
+  timeSeries: z.array(RiskCountsSchema.extend({ period: z.string() })),
+  byLocation: z.array(RiskCountsSchema.extend({ location: z.string() })),
+  /** Locations grouped by their last comma-separated part, e.g. the state in "Guntur, Andhra Pradesh". */
+  byRegion: z.array(RiskCountsSchema.extend({ region: z.string() })),
+  cropRisk: z.array(RiskCountsSchema.extend({ crop: z.string() })),
+  /** Option A/B picks per risk level; shares are fractions of the submissions with a decision. */
+  choiceByRisk: z.array(z.object({
+    riskLevel: RiskLevelSchema,
+    A: z.number(),
+    B: z.number(),
+    none: z.number(),
+    shareA: z.number().nullable(),
+    shareB: z.number().nullable(),
+  })),
+  /** Means over the submissions that carry a full analysis; null when there are none. */
+  averages: z.object({
+    analysed: z.number(),
+    riskScore: z.number().nullable(),
+    mismatchDays: z.number().nullable(),
+    yieldRiskPercentage: z.number().nullable(),
+  }),
+  /**
+   * Submissions grouped by the analysis prompt version and model that produced
+   * them, for comparing prompt versions. Error is against reported harvests.
+   */
+  byPrompt: z.array(RiskCountsSchema.extend({
+    promptVersion: z.number().nullable(),
+    model: z.string().nullable(),
+    /** Submissions where the farmer picked option A or B. */
+    decided: z.number(),
+    riskScore: z.number().nullable(),
+    yieldRiskPercentage: z.number().nullable(),
+    outcomes: z.number(),
+    /** Mean |predicted − actual| yield loss over `outcomes`, in percentage points. */
+    meanAbsoluteError: z.number().nullable(),
+  })),
+});
+export type AdminStats = z.infer<typeof AdminStatsSchema>;
+
+/** Prediction error over a group of submissions that have both an analysis and an outcome. */
+const ErrorSummarySchema = z.object({
+  count: z.number(),
+  /** Mean |predicted − actual| yield loss, in percentage points. */
+  meanAbsoluteError: z.number().nullable(),
+  /** Mean predicted − actual yield loss; positive when losses were overestimated. */
+  bias: z.number().nullable(),
+  rootMeanSquaredError: z.number().nullable(),
+  /** Share of submissions whose `riskLevel` matched the band of the actual loss. */
+  riskLevelAccuracy: z.number().nullable(),
+});
+export type ErrorSummary = z.infer<typeof ErrorSummarySchema>;
+
+const ErrorBreakdownSchema = z.array(ErrorSummarySchema.extend({ key: z.string() }));
+
+/** Response of `GET /api/scientist/accuracy`. Yield loss is the negated yield change, floored at 0. */
+export const AccuracyReportSchema = z.object({
+  /** Submissions with a reported outcome, including those without a stored analysis. */
+  outcomes: z.number(),
+  overall: ErrorSummarySchema,
+  /** Actual loss at or above these percentages counts as a medium or high risk outcome. */
+  lossBands: z.object({ medium: z.number(), high: z.number() }),
+  points: z.array(z.object({
+    predicted: z.number(),
+    actual: z.number(),
+    riskLevel: RiskLevelSchema,
+    crop: z.string(),
+  })),
+  calibration: z.array(z.object({
+    riskLevel: RiskLevelSchema,
+    count: z.number(),
+    predictedLoss: z.number().nullable(),
+    actualLoss: z.number().nullable(),
+    /** How many of these predictions ended in each actual loss band. */
+    actual: z.object({ low: z.number(), medium: z.number(), high: z.number() }),
+  })),
+  byCrop: ErrorBreakdownSchema,
+  byRegion: ErrorBreakdownSchema,
+  byModel: ErrorBreakdownSchema,
+});
+export type AccuracyReport = z.infer<typeof AccuracyReportSchema>;
+
+export const RoleSchema = z.enum(['farmer', 'scientist', 'admin']);
+
+export const AuthUserSchema = z.object({
+  id: z.string(),
+  username: z.string(),
+  role: RoleSchema,
+  /** Null only for super-admins, who see every tenant. */
+  tenantId: z.string().nullable(),
+  createdAt: z.number(),
+});
+
+const Username = z.string().regex(/^[a-zA-Z0-9_.-]{3,32}$/, "must be 3-32 letters, digits, '.', '_' or '-'");
+const Password = z.string().min(8, "must be at least 8 characters");
+
+/** Body of `POST /api/auth/login`; the rules for new accounts are not checked here. */
+export const LoginSchema = z.object({
+  username: z.string(),
+  password: z.string(),
+});
+export type Login = z.infer<typeof LoginSchema>;
+
+/** A new account's username and password, as registration and `POST /api/users` take them. */
+export const CredentialsSchema = z.object({
+  username: Username,
+  password: Password,
+});
+
+export const AuthResponseSchema = z.object({
+  token: z.string(),
+  user: AuthUserSchema,
+});
+
+/** Body of `POST /api/auth/register`; `organisation` is the tenant's slug and defaults to the default tenant. */
+export const RegistrationSchema = CredentialsSchema.extend({
+  organisation: z.string().optional(),
+});
+export type Registration = z.infer<typeof RegistrationSchema>;
+
+/**
+ * Body of `POST /api/users`. Only super-admins may set `tenantId`; other admins
+ * always create accounts in their own tenant. Null makes another super-admin.
+ */
+export const NewUserSchema = CredentialsSchema.extend({
+  role: RoleSchema,
+  tenantId: z.string().nullable().optional(),
+});
+export type NewUser = z.infer<typeof NewUserSchema>;
+
+/** Body of `PATCH /api/users/:id`; `tenantId` moves the account and is for super-admins only. */
+export const UserUpdateSchema = z.object({
+  role: RoleSchema.optional(),
+  password: Password.optional(),
+  tenantId: z.string().nullable().optional(),
+});
+export type UserUpdate = z.infer<typeof UserUpdateSchema>;
+
+const TenantSlug = z.string().regex(/^[a-z0-9][a-z0-9-]{1,39}$/, "must be 2-40 lowercase letters, digits or '-'");
+
+/** A farmer producer organisation or cooperative whose data is kept apart from the others. */
+export const TenantSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  /** Short code farmers enter when they register. */
+  slug: z.string(),
+  createdAt: z.number(),
+});
+export type Tenant = z.infer<typeof TenantSchema>;
+
+/** A tenant with the counts shown on the super-admin's cross-tenant view. */
+export const TenantSummarySchema = TenantSchema.extend({
+  users: z.number(),
+  submissions: z.number(),
+  highRisk: z.number(),
+  outcomes: z.number(),
+});
+export type TenantSummary = z.infer<typeof TenantSummarySchema>;
+
+/** Body of `POST /api/admin/tenants`. */
+export const NewTenantSchema = z.object({
+  name: z.string().trim().min(1).max(80),
+  slug: TenantSlug,
+});
+export type NewTenant = z.infer<typeof NewTenantSchema>;
+
+/** Body of `PATCH /api/admin/tenants/:id`. */
+export const TenantUpdateSchema = z.object({
+  name: z.string().trim().min(1).max(80),
+});
+export type TenantUpdate = z.infer<typeof TenantUpdateSchema>;
+
+export const PROMPT_NAMES = ['analysis', 'extraction', 'follow_up'] as const;
+export const PromptNameSchema = z.enum(PROMPT_NAMES);
+export type PromptName = z.infer<typeof PromptNameSchema>;
+
+/** One wording of a prompt. Versions are never edited; a change is saved as the next version. */
+export const PromptVersionSchema = z.object({
+  name: PromptNameSchema,
+  version: z.number(),
+  template: z.string(),
+  notes: z.string(),
+  createdAt: z.number(),
+  /** Null for the built-in version. */
+  createdBy: z.string().nullable(),
+});
+export type PromptVersion = z.infer<typeof PromptVersionSchema>;
+
+/** Body of `POST /api/admin/prompts/:name/versions`. `{{variable}}` marks where request values go. */
+export const NewPromptVersionSchema = z.object({
+  template: z.string().trim().min(1).max(50000),
+  notes: z.string().trim().max(500).default(""),
+});
+export type NewPromptVersion = z.infer<typeof NewPromptVersionSchema>;
+
+/**
+ * Which versions of a prompt are in use, and body of `PUT
+ * /api/admin/prompts/:name/rollout`. `candidatePercent`% of calls get the
+ * candidate, the rest the active version.
+ */
+export const PromptRolloutSchema = z.object({
+  activeVersion: z.number().int().positive(),
+  candidateVersion: z.number().int().positive().nullable().default(null),
+  candidatePercent: z.number().int().min(0).max(100).default(0),
+});
+export type PromptRollout = z.infer<typeof PromptRolloutSchema>;
+
+export const PromptSummarySchema = z.object({
+  name: PromptNameSchema,
+  /** Placeholders a template of this prompt may use. */
+  variables: z.array(z.string()),
+  rollout: PromptRolloutSchema,
+  /** Oldest first. */
+  versions: z.array(PromptVersionSchema),
+});
+export type PromptSummary = z.infer<typeof PromptSummarySchema>;
+
+export const AnalyzeResponseSchema = z.object({
+  analysis: AnalysisResultSchema,
+  submission: SubmissionSchema,
+  fromCache: z.boolean(),
+  cachedAt: z.number().nullable(),
+});
+
+/**
+ * Steps `POST /api/analyze/stream` reports, in order. A rejected answer
+ * sends the model back to `searching_weather`.
+ */
+export const ANALYSIS_STAGES = ['searching_weather', 'assessing_bloom', 'drafting_advice', 'checking_results', 'saving'] as const;
+export type AnalysisStage = typeof ANALYSIS_STAGES[number];
+
+/** Body of `POST /api/speech`. */
+export const SpeechRequestSchema = z.object({
+  text: z.string().trim().min(1),
+  language: z.string().default("en"),
+});
+export type SpeechRequest = z.infer<typeof SpeechRequestSchema>;
+
+/** Base64-encoded PCM audio. */
+export const SpeechResponseSchema = z.object({
+  audio: z.string(),
+});
+
+/** Body of `POST /api/voice/extract`. */
+export const VoiceExtractRequestSchema = z.object({
+  transcript: z.string().trim().min(1),
+  language: z.string().default("en"),
+});
+export type VoiceExtractRequest = z.infer<typeof VoiceExtractRequestSchema>;
+
+/** Whatever the model could pick out of the transcript; missing details are null or absent. */
+export const VoiceDetailsSchema = z.object({
+  crop: z.string().nullish(),
+  location: z.string().nullish(),
+  date: z.string().nullish(),
+});
+export type VoiceDetails = z.infer<typeof VoiceDetailsSchema>;
+
+export const FollowUpRoleSchema = z.enum(['farmer', 'assistant']);
+export type FollowUpRole = z.infer<typeof FollowUpRoleSchema>;
+
+/** One message in the follow-up conversation about a submission. */
+export const FollowUpMessageSchema = z.object({
+  id: z.string(),
+  submissionId: z.string(),
+  role: FollowUpRoleSchema,
+  content: z.string(),
+  /** Model that wrote an assistant message; null for the farmer's questions. */
+  model: z.string().nullable(),
+  createdAt: z.number(),
+});
+export type FollowUpMessage = z.infer<typeof FollowUpMessageSchema>;
+
+export const BatchItemSchema = z.object({
+  batchId: z.string(),
+  /** Spreadsheet row number, with the header as row 1. */
+  row: z.number(),
+  crop: z.string(),
+  location: z.string(),
+  date: z.string(),
+  status: z.enum(['queued', 'running', 'done', 'failed']),
+  error: z.string().nullable(),
+  submissionId: z.string().nullable(),
+});
+
+export const BatchSchema = z.object({
+  id: z.string(),
+  ownerId: z.string(),
+  filename: z.string(),
+  language: z.string(),
+  createdAt: z.number(),
+  total: z.number(),
+  counts: z.object({ queued: z.number(), running: z.number(), done: z.number(), failed: z.number() }),
+  status: z.enum(['running', 'completed']),
+});
+export type Batch = z.infer<typeof BatchSchema>;
+
+export const BatchDetailSchema = BatchSchema.extend({
+  items: z.array(BatchItemSchema),
+});
+
+export const AuditEntrySchema = z.object({
+  id: z.number(),
+  timestamp: z.number(),
+  /** Null for changes made by the server itself, such as retention purges. */
+  actorId: z.string().nullable(),
+  actorUsername: z.string().nullable(),
+  /** Tenant of the actor; null for super-admins and the server itself. */
+  tenantId: z.string().nullable(),
+  action: z.string(),
+  entityType: z.string(),
+  entityId: z.string().nullable(),
+  details: z.record(z.string(), z.unknown()).nullable(),
+});
+export type AuditEntry = z.infer<typeof AuditEntrySchema>;
+
+export const AuditPageSchema = z.object({
+  items: z.array(AuditEntrySchema),
+  nextCursor: z.string().nullable(),
+});
+
+export const AnalysisCacheSummarySchema = z.object({
+  /** Normalised `crop|location|date|language`. */
+  key: z.string(),
+  crop: z.string(),
+  location: z.string(),
+  date: z.string(),
+  language: z.string(),
+  riskLevel: RiskLevelSchema,
+  createdAt: z.number(),
+  expiresAt: z.number(),
+  hits: z.number(),
+  lastHitAt: z.number().nullable(),
+});
+
+export const AnalysisCacheEntrySchema = AnalysisCacheSummarySchema.omit({ riskLevel: true }).extend({
+  result: AnalysisResultSchema,
+});
+
+const HealthCheckSchema = z.object({
+  ok: z.boolean(),
+  error: z.string().optional(),
+});
+
+export const HealthSchema = z.object({
+  status: z.enum(['ok', 'unavailable']),
+  timestamp: z.string(),
+  env: z.string(),
+  dbPath: z.string(),
+  checks: z.object({ store: HealthCheckSchema, llm: HealthCheckSchema }),
+});
+
+export const BackupSchema = z.object({
+  name: z.string(),
+  createdAt: z.number(),
+  sizeBytes: z.number(),
+  /** Submission schema version of the snapshot; null if it predates versioning. */
+  schemaVersion: z.number().nullable(),
+});
+export type Backup = z.infer<typeof BackupSchema>;
+
+export const BackupListSchema = z.object({
+  /** Schema version the running server migrates submissions to. */
+  schemaVersion: z.number(),
+  items: z.array(BackupSchema),
+});
+
+export const BackupRestoreSchema = z.object({
+  message: z.string(),
+  restored: z.number(),
+  /** Restored rows that were upgraded from an older schema version. */
+  migrated: z.number(),
+  /** Snapshot of the store taken just before the restore, to undo it. */
+  safetyBackup: BackupSchema,
+});
+
+export const WebhookEventSchema = z.enum(['submission.created', 'submission.choice']);
+export type WebhookEvent = z.infer<typeof WebhookEventSchema>;
+
+// An empty list matches every submission
+const webhookFilters = {
+  riskLevel: z.array(RiskLevelSchema),
+  crop: z.array(z.string().trim().min(1)),
+  /** Matched against the last comma-separated part of the location, like the admin stats. */
+  region: z.array(z.string().trim().min(1)),
+};
+
+/** Body of `POST /api/admin/webhooks`; the signing secret is generated when omitted. */
+export const NewWebhookSchema = z.object({
+  url: z.url({ protocol: /^https?$/ }),
+  description: z.string().trim().max(200).default(""),
+  events: z.array(WebhookEventSchema).min(1),
+  riskLevel: webhookFilters.riskLevel.default([]),
+  crop: webhookFilters.crop.default([]),
+  region: webhookFilters.region.default([]),
+  secret: z.string().min(16).optional(),
+});
+export type NewWebhook = z.infer<typeof NewWebhookSchema>;
+
+/** Body of `PATCH /api/admin/webhooks/:id`; omitted fields are left as they are. */
+export const WebhookUpdateSchema = z.object({
+  url: z.url({ protocol: /^https?$/ }).optional(),
+  description: z.string().trim().max(200).optional(),
+  events: z.array(WebhookEventSchema).min(1).optional(),
+  riskLevel: webhookFilters.riskLevel.optional(),
+  crop: webhookFilters.crop.optional(),
+  region: webhookFilters.region.optional(),
+  active: z.boolean().optional(),
+});
+export type WebhookUpdate = z.infer<typeof WebhookUpdateSchema>;
+
+export const WebhookSchema = z.object({
+  id: z.string(),
+  url: z.string(),
+  description: z.string(),
+  events: z.array(WebhookEventSchema),
+  riskLevel: z.array(RiskLevelSchema),
+  crop: z.array(z.string()),
+  region: z.array(z.string()),
+  active: z.boolean(),
+  createdAt: z.number(),
+});
+export type Webhook = z.infer<typeof WebhookSchema>;
+
+/** Only the creation response carries the secret. */
+export const CreatedWebhookSchema = WebhookSchema.extend({
+  secret: z.string(),
+});
+
+export const WebhookDeliveryStatusSchema = z.enum(['pending', 'sending', 'delivered', 'failed']);
+export type WebhookDeliveryStatus = z.infer<typeof WebhookDeliveryStatusSchema>;
+
+export const WebhookDeliverySchema = z.object({
+  id: z.number(),
+  webhookId: z.string(),
+  event: WebhookEventSchema,
+  status: WebhookDeliveryStatusSchema,
+  attempts: z.number(),
+  /** When a pending delivery is next tried; null once it is delivered or has failed for good. */
+  nextAttemptAt: z.number().nullable(),
+  /** HTTP status of the last attempt; null if the receiver could not be reached. */
+  responseStatus: z.number().nullable(),
+  error: z.string().nullable(),
+  createdAt: z.number(),
+  deliveredAt: z.number().nullable(),
+  /** The exact JSON body that is sent and signed. */
+  payload: z.string(),
+});
+export type WebhookDelivery = z.infer<typeof WebhookDeliverySchema>;
+
+export const WebhookDeliveryPageSchema = z.object({
+  items: z.array(WebhookDeliverySchema),
+  nextCursor: z.string().nullable(),
+});
+export type WebhookDeliveryPage = z.infer<typeof WebhookDeliveryPageSchema>;
+
+/** Returned by bulk deletes; `count` is how many records were affected. */
+export const CountResponseSchema = z.object({
+  message: z.string(),
+  count: z.number(),
+});
+
+export const MessageResponseSchema = z.object({
+  message: z.string(),
+});
+
+/** Body of every error response; `fields` maps each invalid body field to its message. */
+export const ErrorResponseSchema = z.object({
+  error: z.string(),
+  details: z.string().optional(),
+  fields: z.record(z.string(), z.string()).optional(),
+});
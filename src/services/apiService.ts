@@ -0,0 +1,256 @@
+import { z } from "zod";
+import createClient from "openapi-fetch";
+import { SERVER_EVENT_TYPES } from "../constants";
+import type { AuthUser, ServerEventType } from "../constants";
+import { AnalyzeResponseSchema, FollowUpMessageSchema } from "../schemas";
+import type { AnalysisStage, FollowUpMessage } from "../schemas";
+import type { paths } from "./apiTypes";
+
+const TOKEN_KEY = "bloomSync_token";
+
+let unauthorizedHandler: (() => void) | null = null;
+
+export function getToken() {
+  return localStorage.getItem(TOKEN_KEY);
+}
+
+export function setToken(token: string | null) {
+  if (token) {
+    localStorage.setItem(TOKEN_KEY, token);
+  } else {
+    localStorage.removeItem(TOKEN_KEY);
+  }
+}
+
+/** Called whenever the server answers 401, e.g. because the session expired. */
+export function onUnauthorized(handler: (() => void) | null) {
+  unauthorizedHandler = handler;
+}
+
+function handleUnauthorized(response: Response, hadToken: boolean) {
+  if (response.status === 401 && hadToken) {
+    setToken(null);
+    unauthorizedHandler?.();
+  }
+}
+
+/**
+ * Typed client for every JSON route, generated from the server's OpenAPI
+ * document (`npm run generate:api`). Paths, query parameters, bodies and
+ * responses are all checked against `apiTypes.ts`.
+ */
+export const api = createClient<paths>();
+
+api.use({
+  onRequest({ request }) {
+    const token = getToken();
+    if (token) request.headers.set("Authorization", `Bearer ${token}`);
+    return request;
+  },
+  onResponse({ request, response }) {
+    handleUnauthorized(response, request.headers.has("Authorization"));
+    return response;
+  },
+});
+
+function errorMessage(error: any, status: number) {
+  // Validation failures list each offending field
+  const fields = error?.fields ? Object.entries(error.fields).map(([field, message]) => `${field}: ${message}`).join("; ") : "";
+  return fields || error?.error || `HTTP error! status: ${status}`;
+}
+
+/** Resolves to the body of a successful `api` call, or throws with the server's error message. */
+export async function unwrap<T>(call: Promise<{ data?: T; error?: any; response: Response }>): Promise<T> {
+  const { data, error, response } = await call;
+  if (!response.ok) {
+    throw new Error(errorMessage(error, response.status));
+  }
+  return data as T;
+}
+
+/** `fetch` with the signed-in user's bearer token attached, for file uploads and downloads. */
+export async function apiFetch(url: string, init: RequestInit = {}): Promise<Response> {
+  const headers = new Headers(init.headers);
+  const token = getToken();
+  if (token) headers.set("Authorization", `Bearer ${token}`);
+  const response = await fetch(url, { ...init, headers });
+  handleUnauthorized(response, !!token);
+  return response;
+}
+
+export async function login(username: string, password: string): Promise<AuthUser> {
+  const { token, user } = await unwrap(api.POST("/api/auth/login", { body: { username, password } }));
+  setToken(token);
+  return user;
+}
+
+/** `organisation` is the code of the farmer's producer organisation; without one the account joins the default tenant. */
+export async function register(username: string, password: string, organisation?: string): Promise<AuthUser> {
+  const { token, user } = await unwrap(api.POST("/api/auth/register", { body: { username, password, organisation: organisation || undefined } }));
+  setToken(token);
+  return user;
+}
+
+export async function fetchCurrentUser(): Promise<AuthUser | null> {
+  if (!getToken()) return null;
+  const { data, response } = await api.GET("/api/auth/me");
+  return response.ok ? data : null;
+}
+
+const MAX_RECONNECT_DELAY_MS = 30000;
+
+/**
+ * Subscribes to `/api/events`. EventSource retries dropped connections on its
+ * own; when it gives up (for example after a server restart rejected the
+ * request) the session is checked first, and a new one is opened with
+ * exponential backoff only if the token is still accepted. A rejected token
+ * goes to the `onUnauthorized` handler instead. Returns a function that closes
+ * the stream for good.
+ */
+export function openEventStream(
+  onEvent: (type: ServerEventType, data: Record<string, any>) => void,
+  onStatus: (connected: boolean) => void
+): () => void {
+  let source: EventSource | null = null;
+  let retryTimer: ReturnType<typeof setTimeout> | null = null;
+  let attempts = 0;
+  let closed = false;
+
+  const reconnect = async () => {
+    // EventSource does not expose the status, so ask whether the token still works
+    const response = await api.GET("/api/auth/me").then(r => r.response, () => null);
+    if (closed || response?.status === 401) return;
+    const delay = Math.min(MAX_RECONNECT_DELAY_MS, 1000 * 2 ** attempts++);
+    retryTimer = setTimeout(connect, delay);
+  };
+
+  const connect = () => {
+    const token = getToken();
+    if (closed || !token) return;
+    source = new EventSource(`/api/events?${new URLSearchParams({ token })}`);
+    source.onopen = () => {
+      attempts = 0;
+      onStatus(true);
+    };
+    source.onerror = () => {
+      onStatus(false);
+      if (source?.readyState === EventSource.CLOSED) {
+        source = null;
+        reconnect();
+      }
+    };
+    for (const type of SERVER_EVENT_TYPES) {
+      source.addEventListener(type, (event) => {
+        onEvent(type, JSON.parse((event as MessageEvent).data));
+      });
+    }
+  };
+
+  connect();
+  return () => {
+    closed = true;
+    if (retryTimer) clearTimeout(retryTimer);
+    source?.close();
+    onStatus(false);
+  };
+}
+
+/** Downloads an authenticated file response by handing the browser an object URL. */
+export async function downloadFile(url: string) {
+  const response = await apiFetch(url);
+  if (!response.ok) throw new Error(`HTTP error! status: ${response.status}`);
+  const filename = response.headers.get("Content-Disposition")?.match(/filename="?([^"]+)"?/)?.[1] || "download";
+  const objectUrl = URL.createObjectURL(await response.blob());
+  const link = document.createElement("a");
+  link.href = objectUrl;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(objectUrl);
+}
+
+/** Hooks for following a streamed call; aborting `signal` cancels it on the server too. */
+export interface StreamHandlers {
+  signal?: AbortSignal;
+  onStage?: (stage: AnalysisStage) => void;
+  onText?: (delta: string) => void;
+}
+
+/**
+ * POSTs to one of the streaming routes and resolves to its `result` event,
+ * passing `stage` and `text` events on as they arrive. Throws with the
+ * server's message on an error response or `error` event, and with an
+ * `AbortError` when `signal` is aborted.
+ */
+async function postStream(url: string, body: unknown, handlers: StreamHandlers): Promise<unknown> {
+  const response = await apiFetch(url, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+    signal: handlers.signal,
+  });
+  if (!response.ok || !response.body) {
+    throw new Error(errorMessage(await response.json().catch(() => null), response.status));
+  }
+
+  const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+  let buffer = "";
+  for (;;) {
+    const { value, done } = await reader.read();
+    if (done) break;
+    buffer += value;
+    let end: number;
+    while ((end = buffer.indexOf("\n\n")) >= 0) {
+      const frame = buffer.slice(0, end);
+      buffer = buffer.slice(end + 2);
+      const event = frame.match(/^event: (.*)$/m)?.[1];
+      const data = frame.match(/^data: (.*)$/m)?.[1];
+      if (!event || data === undefined) continue;
+      const payload = JSON.parse(data);
+      if (event === "result") return payload;
+      if (event === "error") throw new Error(payload.error);
+      if (event === "stage") handlers.onStage?.(payload.stage);
+      if (event === "text") handlers.onText?.(payload.text);
+    }
+  }
+  throw new Error("The server closed the connection before finishing");
+}
+
+export async function analyzeCropMismatch(
+  crop: string,
+  location: string,
+  date: string,
+  language: string,
+  forceRefresh = false,
+  handlers: StreamHandlers = {}
+): Promise<z.infer<typeof AnalyzeResponseSchema>> {
+  return AnalyzeResponseSchema.parse(await postStream("/api/analyze/stream", { crop, location, date, language, forceRefresh }, handlers));
+}
+
+export async function generateSpeech(text: string, language: string): Promise<string | undefined> {
+  try {
+    const { audio } = await unwrap(api.POST("/api/speech", { body: { text, language } }));
+    return audio;
+  } catch (error) {
+    console.error("TTS failed", error);
+    return undefined;
+  }
+}
+
+export async function extractDetailsFromVoice(transcript: string, language: string): Promise<{ crop?: string | null; location?: string | null; date?: string | null }> {
+  try {
+    return await unwrap(api.POST("/api/voice/extract", { body: { transcript, language } }));
+  } catch (error) {
+    console.error("Voice extraction failed", error);
+    return {};
+  }
+}
+
+export async function fetchThread(submissionId: string): Promise<FollowUpMessage[]> {
+  return unwrap(api.GET("/api/submissions/{id}/thread", { params: { path: { id: submissionId } } }));
+}
+
+/** Streams the answer through `handlers.onText`, then resolves to the whole conversation, including the new question and its answer. */
+export async function askInThread(submissionId: string, question: string, language: string, handlers: StreamHandlers = {}): Promise<FollowUpMessage[]> {
+  const url = `/api/submissions/${encodeURIComponent(submissionId)}/thread/stream`;
+  return z.array(FollowUpMessageSchema).parse(await postStream(url, { question, language }, handlers));
+}
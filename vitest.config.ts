@@ -0,0 +1,10 @@
+import {defineConfig} from 'vitest/config';
+
+export default defineConfig({
+  test: {
+    include: ['server/**/*.test.ts'],
+    environment: 'node',
+    // Keep expected warnings (retries, dropped rows) out of the test output
+    env: {LOG_LEVEL: 'error'},
+  },
+});